@@ -1,7 +1,10 @@
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Options;
+using VaultwardenK8sSync.Api.Converters;
+using VaultwardenK8sSync.Configuration;
 using VaultwardenK8sSync.Database;
+using VaultwardenK8sSync.Database.Models;
 using VaultwardenK8sSync.Database.Repositories;
 
 namespace VaultwardenK8sSync.Api.Controllers;
@@ -94,32 +97,28 @@ public class DashboardController : ControllerBase
     }
 
     /// <summary>
-    /// Get sync timeline data for charts
+    /// Get sync timeline data for charts.
+    /// Either the last <paramref name="days"/> days, or an explicit start/end range.
+    /// Interval is "hour" or "day"; defaults to hourly buckets for ranges up to two days.
     /// </summary>
     [HttpGet("timeline")]
-    public async Task<ActionResult<object>> GetTimeline([FromQuery] int days = 7)
+    public async Task<ActionResult<object>> GetTimeline(
+        [FromQuery] int days = 7,
+        [FromQuery] DateTime? start = null,
+        [FromQuery] DateTime? end = null,
+        [FromQuery] string? interval = null)
     {
         try
         {
-            var startDate = DateTime.UtcNow.AddDays(-days);
-            var logs = await _syncLogRepository.GetByDateRangeAsync(startDate, DateTime.UtcNow);
+            var rangeEnd = end.HasValue ? UtcDateTimeConverter.ToUtc(end.Value) : DateTime.UtcNow;
+            var rangeStart = start.HasValue ? UtcDateTimeConverter.ToUtc(start.Value) : rangeEnd.AddDays(-days);
+            if (rangeStart >= rangeEnd)
+                return BadRequest("start must be before end");
 
-            var timeline = logs
-                .GroupBy(l => l.StartTime.Date)
-                .Select(g => new
-                {
-                    Date = g.Key,
-                    TotalSyncs = g.Count(),
-                    SuccessfulSyncs = g.Count(l => l.Status == "Success"),
-                    FailedSyncs = g.Count(l => l.Status == "Failed"),
-                    SecretsCreated = g.Sum(l => l.CreatedSecrets),
-                    SecretsUpdated = g.Sum(l => l.UpdatedSecrets),
-                    AvgDuration = g.Average(l => l.DurationSeconds)
-                })
-                .OrderBy(t => t.Date)
-                .ToList();
+            var bucketSize = ResolveTimelineInterval(interval, rangeEnd - rangeStart);
+            var logs = await _syncLogRepository.GetByDateRangeAsync(rangeStart, rangeEnd);
 
-            return Ok(timeline);
+            return Ok(BuildTimeline(logs, rangeStart, rangeEnd, bucketSize));
         }
         catch (Exception ex)
         {
@@ -128,6 +127,54 @@ public class DashboardController : ControllerBase
         }
     }
 
+    internal static TimeSpan ResolveTimelineInterval(string? interval, TimeSpan range)
+    {
+        // Hourly buckets over long ranges would be unreadable and expensive to render
+        if (string.Equals(interval, "hour", StringComparison.OrdinalIgnoreCase) && range <= TimeSpan.FromDays(31))
+            return TimeSpan.FromHours(1);
+        if (string.Equals(interval, "day", StringComparison.OrdinalIgnoreCase))
+            return TimeSpan.FromDays(1);
+        return range <= TimeSpan.FromDays(2) ? TimeSpan.FromHours(1) : TimeSpan.FromDays(1);
+    }
+
+    /// <summary>
+    /// Groups sync runs into fixed buckets covering the whole range, including empty ones,
+    /// so charts show gaps as zero instead of interpolating across them.
+    /// </summary>
+    internal static List<TimelinePoint> BuildTimeline(IEnumerable<SyncLog> logs, DateTime start, DateTime end, TimeSpan bucketSize)
+    {
+        var firstBucket = bucketSize >= TimeSpan.FromDays(1)
+            ? start.Date
+            : new DateTime(start.Year, start.Month, start.Day, start.Hour, 0, 0, DateTimeKind.Utc);
+
+        var byBucket = logs
+            .GroupBy(l => firstBucket.AddTicks((l.StartTime - firstBucket).Ticks / bucketSize.Ticks * bucketSize.Ticks))
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        var timeline = new List<TimelinePoint>();
+        for (var bucket = firstBucket; bucket < end; bucket = bucket.Add(bucketSize))
+        {
+            var bucketLogs = byBucket.TryGetValue(bucket, out var found) ? found : new List<SyncLog>();
+            var durations = bucketLogs.Where(l => l.DurationSeconds > 0).Select(l => l.DurationSeconds).ToList();
+
+            timeline.Add(new TimelinePoint
+            {
+                Date = DateTime.SpecifyKind(bucket, DateTimeKind.Utc),
+                TotalSyncs = bucketLogs.Count,
+                SuccessfulSyncs = bucketLogs.Count(l => l.Status == "Success"),
+                FailedSyncs = bucketLogs.Count(l => l.Status == "Failed"),
+                SecretsCreated = bucketLogs.Sum(l => l.CreatedSecrets),
+                SecretsUpdated = bucketLogs.Sum(l => l.UpdatedSecrets),
+                SecretsFailed = bucketLogs.Sum(l => l.FailedSecrets),
+                SecretsDeleted = bucketLogs.Sum(l => l.DeletedSecrets),
+                AvgDuration = durations.Count > 0 ? durations.Average() : 0,
+                MaxDuration = durations.Count > 0 ? durations.Max() : 0
+            });
+        }
+
+        return timeline;
+    }
+
     /// <summary>
     /// Get namespace distribution
     /// </summary>
@@ -202,7 +249,8 @@ public class DashboardController : ControllerBase
     }
 
     /// <summary>
-    /// Get sync configuration including active filters
+    /// Get sync configuration including active filters. Credentials are only reported as
+    /// configured or not, their values never leave the API.
     /// </summary>
     [HttpGet("sync-config")]
     public ActionResult<object> GetSyncConfig()
@@ -210,9 +258,9 @@ public class DashboardController : ControllerBase
         try
         {
             // Get field names from environment variables (same as FieldNameConfig)
-            var namespacesFieldName = Environment.GetEnvironmentVariable("SYNC__FIELD__NAMESPACES")?.Trim() ?? "namespaces";
-            var secretNameFieldName = Environment.GetEnvironmentVariable("SYNC__FIELD__SECRETNAME")?.Trim() ?? "secret-name";
-            
+            string FieldName(string variable, string fallback) =>
+                Environment.GetEnvironmentVariable(variable)?.Trim() ?? fallback;
+
             return Ok(new
             {
                 vaultwarden = new
@@ -223,12 +271,34 @@ public class DashboardController : ControllerBase
                     collectionId = _appSettings.Vaultwarden.CollectionId,
                     collectionName = _appSettings.Vaultwarden.CollectionName,
                     folderId = _appSettings.Vaultwarden.FolderId,
-                    folderName = _appSettings.Vaultwarden.FolderName
+                    folderName = _appSettings.Vaultwarden.FolderName,
+                    clientIdConfigured = !string.IsNullOrEmpty(_appSettings.Vaultwarden.ClientId),
+                    clientSecretConfigured = !string.IsNullOrEmpty(_appSettings.Vaultwarden.ClientSecret),
+                    masterPasswordConfigured = !string.IsNullOrEmpty(_appSettings.Vaultwarden.MasterPassword)
                 },
                 fieldNames = new
                 {
-                    namespaces = namespacesFieldName,
-                    secretName = secretNameFieldName
+                    namespaces = FieldName("SYNC__FIELD__NAMESPACES", "namespaces"),
+                    secretName = FieldName("SYNC__FIELD__SECRETNAME", "secret-name"),
+                    secretKeyPassword = FieldName("SYNC__FIELD__SECRETKEYPASSWORD", "secret-key-password"),
+                    secretKeyUsername = FieldName("SYNC__FIELD__SECRETKEYUSERNAME", "secret-key-username"),
+                    ignoreField = FieldName("SYNC__FIELD__IGNOREFIELD", "ignore-field"),
+                    secretAnnotations = FieldName("SYNC__FIELD__SECRETANNOTATIONS", "secret-annotation"),
+                    secretLabels = FieldName("SYNC__FIELD__SECRETLABELS", "secret-label"),
+                    secretType = FieldName("SYNC__FIELD__SECRETTYPE", "secret-type")
+                },
+                kubernetes = new
+                {
+                    defaultNamespace = _appSettings.Kubernetes.DefaultNamespace,
+                    inCluster = _appSettings.Kubernetes.InCluster
+                },
+                labels = new
+                {
+                    managedByLabel = Constants.Kubernetes.ManagedByLabel,
+                    managedByValue = Constants.Kubernetes.ManagedByValue,
+                    createdByLabel = Constants.Kubernetes.CreatedByLabel,
+                    createdByValue = Constants.Kubernetes.SyncServiceValue,
+                    hashAnnotation = Constants.Kubernetes.HashAnnotationKey
                 },
                 sync = new
                 {
@@ -272,3 +342,20 @@ public class DashboardController : ControllerBase
         });
     }
 }
+
+/// <summary>
+/// One bucket of the dashboard sync timeline
+/// </summary>
+public class TimelinePoint
+{
+    public DateTime Date { get; set; }
+    public int TotalSyncs { get; set; }
+    public int SuccessfulSyncs { get; set; }
+    public int FailedSyncs { get; set; }
+    public int SecretsCreated { get; set; }
+    public int SecretsUpdated { get; set; }
+    public int SecretsFailed { get; set; }
+    public int SecretsDeleted { get; set; }
+    public double AvgDuration { get; set; }
+    public double MaxDuration { get; set; }
+}
@@ -1,4 +1,6 @@
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
+using VaultwardenK8sSync.Database.Models;
 using VaultwardenK8sSync.Database.Repositories;
 using VaultwardenK8sSync.Services;
 
@@ -10,18 +12,27 @@ public class DiscoveryController : ControllerBase
 {
     private readonly ISecretStateRepository _secretStateRepository;
     private readonly IVaultwardenItemRepository _vaultwardenItemRepository;
+    private readonly IFailureTriageRepository _failureTriageRepository;
     private readonly IVaultwardenService _vaultwardenService;
+    private readonly IKubernetesService _kubernetesService;
     private readonly ILogger<DiscoveryController> _logger;
 
+    private const int MaxTriageNoteLength = 1000;
+    private static readonly string[] TriageStatuses = { "Acknowledged", "Snoozed" };
+
     public DiscoveryController(
         ISecretStateRepository secretStateRepository,
         IVaultwardenItemRepository vaultwardenItemRepository,
+        IFailureTriageRepository failureTriageRepository,
         IVaultwardenService vaultwardenService,
+        IKubernetesService kubernetesService,
         ILogger<DiscoveryController> logger)
     {
         _secretStateRepository = secretStateRepository;
         _vaultwardenItemRepository = vaultwardenItemRepository;
+        _failureTriageRepository = failureTriageRepository;
         _vaultwardenService = vaultwardenService;
+        _kubernetesService = kubernetesService;
         _logger = logger;
     }
 
@@ -50,7 +61,9 @@ public class DiscoveryController : ControllerBase
                 Fields = item.FieldCount,
                 Notes = item.Notes,
                 HasNamespacesField = item.HasNamespacesField,
-                NamespacesValue = item.NamespacesJson
+                NamespacesValue = item.NamespacesJson,
+                SecretName = item.SecretName,
+                FieldNames = ParseFieldNames(item.FieldNamesJson)
             }).ToList();
             
             var response = new DiscoveryData
@@ -84,6 +97,31 @@ public class DiscoveryController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Namespaces that exist in the cluster, so the dashboard can explain items that target
+    /// a missing one. <c>available</c> is false when the cluster cannot be reached.
+    /// </summary>
+    [HttpGet("namespaces")]
+    public async Task<ActionResult<object>> GetClusterNamespaces()
+    {
+        try
+        {
+            if (!await _kubernetesService.InitializeAsync())
+            {
+                return Ok(new { available = false, namespaces = new List<string>() });
+            }
+
+            var namespaces = await _kubernetesService.GetAllNamespacesAsync();
+            // An empty list means the call failed; no cluster has zero namespaces
+            return Ok(new { available = namespaces.Count > 0, namespaces });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fetching cluster namespaces");
+            return StatusCode(500, new { error = "Error fetching cluster namespaces", message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get custom field names for a Vaultwarden item from cache
     /// </summary>
@@ -99,26 +137,188 @@ public class DiscoveryController : ControllerBase
                 return NotFound(new { error = "Item not found in cache", itemId });
             }
             
-            if (string.IsNullOrEmpty(cachedItem.FieldNamesJson))
+            return Ok(ParseFieldNames(cachedItem.FieldNamesJson));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fetching fields for item {ItemId}", itemId);
+            return StatusCode(500, new { 
+                error = "Error fetching item fields", 
+                message = ex.Message 
+            });
+        }
+    }
+
+
+    /// <summary>
+    /// Get the secret an item would be synced to, as built by the last sync (key names only, never values)
+    /// </summary>
+    [HttpGet("/api/vaultwarden/items/{itemId}/secret-preview")]
+    public async Task<ActionResult<VaultwardenK8sSync.Models.SecretPreview>> GetSecretPreview(string itemId)
+    {
+        try
+        {
+            var cachedItem = await _vaultwardenItemRepository.GetByItemIdAsync(itemId);
+            
+            if (cachedItem == null)
             {
-                return Ok(new List<string>());
+                return NotFound(new { error = "Item not found in cache", itemId });
             }
             
-            var fieldNames = System.Text.Json.JsonSerializer.Deserialize<List<string>>(cachedItem.FieldNamesJson) 
-                ?? new List<string>();
+            var preview = string.IsNullOrEmpty(cachedItem.SecretPreviewJson)
+                ? null
+                : System.Text.Json.JsonSerializer.Deserialize<VaultwardenK8sSync.Models.SecretPreview>(cachedItem.SecretPreviewJson);
             
-            return Ok(fieldNames);
+            if (preview == null)
+            {
+                // Items cached by an older sync service have no preview until the next sync
+                return NotFound(new { error = "No secret preview cached for this item yet", itemId });
+            }
+            
+            return Ok(preview);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error fetching fields for item {ItemId}", itemId);
+            _logger.LogError(ex, "Error fetching secret preview for item {ItemId}", itemId);
             return StatusCode(500, new { 
-                error = "Error fetching item fields", 
+                error = "Error fetching secret preview", 
                 message = ex.Message 
             });
         }
     }
 
+    /// <summary>
+    /// Acknowledged and snoozed failure groups. Groups are keyed by the normalized error message
+    /// the dashboard computes; the API stores the pattern as given.
+    /// </summary>
+    [HttpGet("failure-triage")]
+    public async Task<ActionResult<List<FailureTriageEntry>>> GetFailureTriage()
+    {
+        try
+        {
+            var triages = await _failureTriageRepository.GetAllAsync();
+            return Ok(triages.Select(ToEntry).ToList());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fetching failure triage");
+            return StatusCode(500, new { error = "Error fetching failure triage", message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Acknowledges or snoozes a failure group, replacing any earlier decision on it
+    /// </summary>
+    [HttpPut("failure-triage")]
+    public async Task<ActionResult<FailureTriageEntry>> SetFailureTriage([FromBody] FailureTriageBody body)
+    {
+        if (string.IsNullOrWhiteSpace(body.ErrorPattern))
+        {
+            return BadRequest("errorPattern is required");
+        }
+
+        var status = TriageStatuses.FirstOrDefault(s => string.Equals(s, body.Status, StringComparison.OrdinalIgnoreCase));
+        if (status == null)
+        {
+            return BadRequest("status must be Acknowledged or Snoozed");
+        }
+
+        if (status == "Snoozed" && (body.SnoozedUntil is not { } until || until.ToUniversalTime() <= DateTime.UtcNow))
+        {
+            return BadRequest("snoozedUntil must be in the future");
+        }
+
+        if (body.Note?.Length > MaxTriageNoteLength)
+        {
+            return BadRequest($"note must be at most {MaxTriageNoteLength} characters");
+        }
+
+        try
+        {
+            var triage = await _failureTriageRepository.UpsertAsync(new FailureTriage
+            {
+                ErrorPattern = body.ErrorPattern.Trim(),
+                Status = status,
+                Note = RequestActor.NullIfEmpty(body.Note),
+                TriagedBy = RequestActor.Resolve(Request, body.By),
+                TriagedAt = DateTime.UtcNow,
+                SnoozedUntil = status == "Snoozed" ? body.SnoozedUntil?.ToUniversalTime() : null,
+                SecretKeysJson = JsonSerializer.Serialize(body.SecretKeys ?? new List<string>())
+            });
+
+            _logger.LogInformation("{Actor} marked failure group \"{ErrorPattern}\" as {Status}", triage.TriagedBy, triage.ErrorPattern, triage.Status);
+            return Ok(ToEntry(triage));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving failure triage");
+            return StatusCode(500, new { error = "Error saving failure triage", message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Reopens an acknowledged or snoozed failure group
+    /// </summary>
+    [HttpDelete("failure-triage")]
+    public async Task<ActionResult> ReopenFailureGroup([FromQuery] string errorPattern)
+    {
+        try
+        {
+            if (!await _failureTriageRepository.DeleteByPatternAsync(errorPattern))
+            {
+                return NotFound(new { error = "Failure group is not triaged" });
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reopening failure group");
+            return StatusCode(500, new { error = "Error reopening failure group", message = ex.Message });
+        }
+    }
+
+    private static List<string> ParseFieldNames(string? fieldNamesJson)
+    {
+        if (string.IsNullOrEmpty(fieldNamesJson))
+        {
+            return new List<string>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<string>>(fieldNamesJson) ?? new List<string>();
+        }
+        catch (JsonException)
+        {
+            // One bad cache row should not fail the whole discovery response
+            return new List<string>();
+        }
+    }
+
+    private static FailureTriageEntry ToEntry(FailureTriage triage)
+    {
+        List<string> secretKeys;
+        try
+        {
+            secretKeys = JsonSerializer.Deserialize<List<string>>(triage.SecretKeysJson) ?? new List<string>();
+        }
+        catch (JsonException)
+        {
+            secretKeys = new List<string>();
+        }
+
+        return new FailureTriageEntry
+        {
+            ErrorPattern = triage.ErrorPattern,
+            Status = triage.Status,
+            Note = triage.Note,
+            TriagedBy = triage.TriagedBy,
+            TriagedAt = triage.TriagedAt,
+            SnoozedUntil = triage.SnoozedUntil,
+            SecretKeys = secretKeys
+        };
+    }
 }
 
 public class DiscoveryData
@@ -140,6 +340,8 @@ public class VaultwardenItem
     public string? Notes { get; set; }
     public bool HasNamespacesField { get; set; }
     public string? NamespacesValue { get; set; }
+    public string? SecretName { get; set; }
+    public List<string> FieldNames { get; set; } = new();
 }
 
 public class SyncedSecret
@@ -152,3 +354,25 @@ public class SyncedSecret
     public int DataKeysCount { get; set; }
     public string? LastError { get; set; }
 }
+
+public class FailureTriageEntry
+{
+    public string ErrorPattern { get; set; } = string.Empty;
+    public string Status { get; set; } = string.Empty;
+    public string? Note { get; set; }
+    public string? TriagedBy { get; set; }
+    public DateTime TriagedAt { get; set; }
+    public DateTime? SnoozedUntil { get; set; }
+    public List<string> SecretKeys { get; set; } = new();
+}
+
+public class FailureTriageBody
+{
+    public string ErrorPattern { get; set; } = string.Empty;
+    public string Status { get; set; } = string.Empty;
+    public string? Note { get; set; }
+    public DateTime? SnoozedUntil { get; set; }
+    /// <summary>Failing "namespace/secret" keys the decision covers</summary>
+    public List<string>? SecretKeys { get; set; }
+    public string? By { get; set; }
+}
@@ -0,0 +1,24 @@
+namespace VaultwardenK8sSync.Api.Controllers;
+
+/// <summary>
+/// Who made a change from the dashboard, recorded next to schedule changes and failure triage.
+/// </summary>
+internal static class RequestActor
+{
+    // Proxies such as oauth2-proxy put the signed-in user here
+    private static readonly string[] UserHeaders = { "X-Forwarded-User", "X-Auth-Request-User", "X-Forwarded-Email", "X-Auth-Request-Email" };
+
+    public static string Resolve(HttpRequest request, string? claimed)
+    {
+        foreach (var header in UserHeaders)
+        {
+            var value = request.Headers[header].ToString();
+            if (!string.IsNullOrWhiteSpace(value)) return value.Trim();
+        }
+
+        // Tokens are shared, so without a proxy the dashboard can only tell us who the user says they are
+        return NullIfEmpty(claimed) ?? "dashboard";
+    }
+
+    public static string? NullIfEmpty(string? value) => string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+}
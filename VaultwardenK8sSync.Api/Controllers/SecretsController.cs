@@ -10,15 +10,18 @@ namespace VaultwardenK8sSync.Api.Controllers;
 public class SecretsController : ControllerBase
 {
     private readonly ISecretStateRepository _repository;
+    private readonly ISyncLogRepository _syncLogRepository;
     private readonly IKubernetesService _kubernetesService;
     private readonly ILogger<SecretsController> _logger;
 
     public SecretsController(
         ISecretStateRepository repository, 
+        ISyncLogRepository syncLogRepository,
         IKubernetesService kubernetesService,
         ILogger<SecretsController> logger)
     {
         _repository = repository;
+        _syncLogRepository = syncLogRepository;
         _kubernetesService = kubernetesService;
         _logger = logger;
     }
@@ -98,6 +101,42 @@ public class SecretsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Get the most recent sync results for all secrets in a namespace, newest first
+    /// </summary>
+    [HttpGet("namespace/{namespaceName}/history")]
+    public async Task<ActionResult> GetNamespaceHistory(string namespaceName, [FromQuery] int count = 50)
+    {
+        try
+        {
+            var items = await _syncLogRepository.GetItemsForNamespaceAsync(namespaceName, count);
+            return Ok(items.Select(ToHistoryEntry));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving sync history for namespace {Namespace}", namespaceName);
+            return StatusCode(500, "Error retrieving sync history");
+        }
+    }
+
+    /// <summary>
+    /// Get the sync runs that touched a secret, newest first
+    /// </summary>
+    [HttpGet("namespace/{namespaceName}/name/{secretName}/history")]
+    public async Task<ActionResult> GetHistory(string namespaceName, string secretName, [FromQuery] int count = 50)
+    {
+        try
+        {
+            var items = await _syncLogRepository.GetItemsForSecretAsync(namespaceName, secretName, count);
+            return Ok(items.Select(ToHistoryEntry));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving sync history for secret {Namespace}/{Name}", namespaceName, secretName);
+            return StatusCode(500, "Error retrieving sync history");
+        }
+    }
+
     /// <summary>
     /// Get secrets by namespace and status
     /// </summary>
@@ -164,4 +203,18 @@ public class SecretsController : ControllerBase
             return StatusCode(500, "Error retrieving data keys");
         }
     }
+
+    private static object ToHistoryEntry(SyncItem item) => new
+    {
+        syncLogId = item.SyncLogId,
+        itemKey = item.ItemKey,
+        itemName = item.ItemName,
+        secretName = item.SecretName,
+        status = item.Status,
+        outcome = item.Outcome,
+        details = item.Details,
+        timestamp = item.Timestamp,
+        syncStartTime = item.SyncLog?.StartTime,
+        syncStatus = item.SyncLog?.Status
+    };
 }
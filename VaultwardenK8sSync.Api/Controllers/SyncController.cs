@@ -0,0 +1,254 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.ModelBinding;
+using Microsoft.Extensions.Options;
+using StackExchange.Redis;
+using VaultwardenK8sSync.Database.Repositories;
+using VaultwardenK8sSync.Models;
+using VaultwardenK8sSync.Services;
+
+namespace VaultwardenK8sSync.Api.Controllers;
+
+[ApiController]
+[Route("api/sync")]
+public class SyncController : ControllerBase
+{
+    private const int MinIntervalSeconds = 10;
+    private const int MaxIntervalSeconds = 7 * 24 * 3600;
+
+    private readonly ILogger<SyncController> _logger;
+    private readonly ISyncLogRepository _syncLogRepository;
+    private readonly AppSettings _appSettings;
+    private readonly IConnectionMultiplexer? _valkey;
+
+    public SyncController(
+        ILogger<SyncController> logger,
+        ISyncLogRepository syncLogRepository,
+        IOptions<AppSettings> appSettings,
+        IConnectionMultiplexer? valkey = null)
+    {
+        _logger = logger;
+        _syncLogRepository = syncLogRepository;
+        _appSettings = appSettings.Value;
+        _valkey = valkey;
+    }
+
+    /// <summary>
+    /// Asks the continuous sync service to sync now. Without a body it runs a full sync,
+    /// with a namespace, secret name or item id only the matching secrets are resynced.
+    /// Returns 409 while a sync is running.
+    /// </summary>
+    [HttpPost("requests")]
+    public async Task<ActionResult> RequestSync([FromBody(EmptyBodyBehavior = EmptyBodyBehavior.Allow)] SyncRequestBody? body)
+    {
+        if (_valkey == null)
+        {
+            return StatusCode(503, new { error = "Valkey is not configured, so the sync service cannot be reached" });
+        }
+
+        try
+        {
+            var latestProgress = await _valkey.GetDatabase().StringGetAsync(SyncOutputFrame.ProgressKey);
+            if (SyncRequestChannel.IsSyncRunning(latestProgress.HasValue ? latestProgress.ToString() : null, DateTime.UtcNow))
+            {
+                return Conflict(new { error = "A sync is already running" });
+            }
+
+            var request = new SyncRequest
+            {
+                Namespace = NullIfEmpty(body?.Namespace),
+                SecretName = NullIfEmpty(body?.SecretName),
+                ItemId = NullIfEmpty(body?.ItemId)
+            };
+
+            var receivers = await _valkey.GetSubscriber().PublishAsync(
+                RedisChannel.Literal(SyncRequestChannel.Channel), SyncRequestChannel.Serialize(request));
+
+            // Only the continuous sync loop listens; one-shot runs (e.g. a CronJob) cannot be triggered
+            if (receivers == 0)
+            {
+                return StatusCode(503, new { error = "No sync service is listening. Continuous sync may be disabled." });
+            }
+
+            _logger.LogInformation("Requested {Request} ({RequestId})", request.Describe(), request.Id);
+            return Accepted(new { requestId = request.Id, message = $"Requested {request.Describe()}" });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error requesting a sync");
+            return StatusCode(500, new { error = "Error requesting a sync", message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Pause and interval overrides of the continuous sync schedule. <c>available</c> is false
+    /// when Valkey is not configured, in which case the schedule cannot be changed.
+    /// </summary>
+    [HttpGet("schedule")]
+    public async Task<ActionResult<object>> GetSchedule()
+    {
+        try
+        {
+            return Ok(await DescribeScheduleAsync(await LoadScheduleAsync()));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving sync schedule");
+            return StatusCode(500, new { error = "Error retrieving sync schedule", message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Pauses scheduled syncs, until <c>until</c> when given. "Sync now" and resyncs still run.
+    /// </summary>
+    [HttpPut("schedule/pause")]
+    public Task<ActionResult<object>> Pause([FromBody(EmptyBodyBehavior = EmptyBodyBehavior.Allow)] PauseSyncBody? body)
+    {
+        if (body?.Until is { } until && until.ToUniversalTime() <= DateTime.UtcNow)
+        {
+            return Task.FromResult<ActionResult<object>>(BadRequest("until must be in the future"));
+        }
+
+        return UpdateScheduleAsync(schedule =>
+        {
+            schedule.Paused = true;
+            schedule.PausedUntil = body?.Until?.ToUniversalTime();
+            schedule.PausedAt = DateTime.UtcNow;
+            schedule.PausedBy = ResolveActor(body?.By);
+            schedule.PauseReason = NullIfEmpty(body?.Reason);
+        }, "paused scheduled syncs");
+    }
+
+    [HttpDelete("schedule/pause")]
+    public Task<ActionResult<object>> Resume([FromQuery] string? by = null)
+    {
+        return UpdateScheduleAsync(schedule =>
+        {
+            schedule.Paused = false;
+            schedule.PausedUntil = null;
+            schedule.PausedAt = null;
+            schedule.PausedBy = null;
+            schedule.PauseReason = null;
+        }, $"resumed scheduled syncs ({ResolveActor(by)})");
+    }
+
+    /// <summary>
+    /// Temporarily replaces the configured sync interval, until <c>until</c> when given
+    /// </summary>
+    [HttpPut("schedule/interval")]
+    public Task<ActionResult<object>> SetInterval([FromBody] SyncIntervalBody body)
+    {
+        if (body.Seconds < MinIntervalSeconds || body.Seconds > MaxIntervalSeconds)
+        {
+            return Task.FromResult<ActionResult<object>>(
+                BadRequest($"seconds must be between {MinIntervalSeconds} and {MaxIntervalSeconds}"));
+        }
+        if (body.Until is { } until && until.ToUniversalTime() <= DateTime.UtcNow)
+        {
+            return Task.FromResult<ActionResult<object>>(BadRequest("until must be in the future"));
+        }
+
+        return UpdateScheduleAsync(schedule =>
+        {
+            schedule.IntervalSeconds = body.Seconds;
+            schedule.IntervalUntil = body.Until?.ToUniversalTime();
+            schedule.IntervalChangedBy = ResolveActor(body.By);
+        }, $"set the sync interval to {body.Seconds}s");
+    }
+
+    [HttpDelete("schedule/interval")]
+    public Task<ActionResult<object>> ResetInterval([FromQuery] string? by = null)
+    {
+        return UpdateScheduleAsync(schedule =>
+        {
+            schedule.IntervalSeconds = null;
+            schedule.IntervalUntil = null;
+            schedule.IntervalChangedBy = null;
+        }, $"reset the sync interval ({ResolveActor(by)})");
+    }
+
+    private async Task<ActionResult<object>> UpdateScheduleAsync(Action<SyncSchedule> change, string description)
+    {
+        if (_valkey == null)
+        {
+            return StatusCode(503, new { error = "Valkey is not configured, so the sync schedule cannot be changed" });
+        }
+
+        try
+        {
+            var schedule = await LoadScheduleAsync();
+            change(schedule);
+
+            await _valkey.GetDatabase().StringSetAsync(SyncRequestChannel.ScheduleKey, SyncRequestChannel.SerializeSchedule(schedule));
+            // Wakes the sync loop so the change applies right away instead of after the current wait
+            await _valkey.GetSubscriber().PublishAsync(
+                RedisChannel.Literal(SyncRequestChannel.Channel), SyncRequestChannel.ScheduleChangedMarker);
+
+            _logger.LogInformation("Sync schedule changed: {Change}", description);
+            return Ok(await DescribeScheduleAsync(schedule));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating sync schedule");
+            return StatusCode(500, new { error = "Error updating sync schedule", message = ex.Message });
+        }
+    }
+
+    private async Task<SyncSchedule> LoadScheduleAsync()
+    {
+        if (_valkey == null) return new SyncSchedule();
+
+        var json = await _valkey.GetDatabase().StringGetAsync(SyncRequestChannel.ScheduleKey);
+        return SyncRequestChannel.ParseSchedule(json.HasValue ? json.ToString() : null);
+    }
+
+    private async Task<object> DescribeScheduleAsync(SyncSchedule schedule)
+    {
+        // Same source as sync-status: the interval the sync service recorded with its last run
+        var recentLogs = await _syncLogRepository.GetRecentAsync(1);
+        var loggedIntervalSeconds = recentLogs.FirstOrDefault()?.SyncIntervalSeconds ?? 0;
+        var configuredIntervalSeconds = loggedIntervalSeconds > 0 ? loggedIntervalSeconds : _appSettings.Sync.SyncIntervalSeconds;
+        var now = DateTime.UtcNow;
+        var paused = schedule.IsPaused(now);
+        var intervalOverride = schedule.HasIntervalOverride(now);
+
+        return new
+        {
+            available = _valkey != null,
+            paused,
+            pausedUntil = paused ? schedule.PausedUntil : null,
+            pausedAt = paused ? schedule.PausedAt : null,
+            pausedBy = paused ? schedule.PausedBy : null,
+            pauseReason = paused ? schedule.PauseReason : null,
+            configuredIntervalSeconds,
+            intervalSeconds = schedule.EffectiveIntervalSeconds(configuredIntervalSeconds, now),
+            intervalOverridden = intervalOverride,
+            intervalUntil = intervalOverride ? schedule.IntervalUntil : null,
+            intervalChangedBy = intervalOverride ? schedule.IntervalChangedBy : null
+        };
+    }
+
+    private string ResolveActor(string? claimed) => RequestActor.Resolve(Request, claimed);
+
+    private static string? NullIfEmpty(string? value) => RequestActor.NullIfEmpty(value);
+}
+
+public class SyncRequestBody
+{
+    public string? Namespace { get; set; }
+    public string? SecretName { get; set; }
+    public string? ItemId { get; set; }
+}
+
+public class PauseSyncBody
+{
+    public DateTime? Until { get; set; }
+    public string? Reason { get; set; }
+    public string? By { get; set; }
+}
+
+public class SyncIntervalBody
+{
+    public int Seconds { get; set; }
+    public DateTime? Until { get; set; }
+    public string? By { get; set; }
+}
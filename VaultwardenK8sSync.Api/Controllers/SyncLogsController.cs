@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Mvc;
+using VaultwardenK8sSync.Api.Converters;
 using VaultwardenK8sSync.Database.Models;
 using VaultwardenK8sSync.Database.Repositories;
 
@@ -36,18 +37,50 @@ public class SyncLogsController : ControllerBase
     }
 
     /// <summary>
-    /// Get sync log by ID
+    /// Get sync log by ID, including the result for every secret processed in that run
     /// </summary>
     [HttpGet("{id}")]
-    public async Task<ActionResult<SyncLog>> GetById(long id)
+    public async Task<ActionResult<object>> GetById(long id)
     {
         try
         {
             var log = await _repository.GetByIdAsync(id);
             if (log == null)
                 return NotFound();
-            
-            return Ok(log);
+
+            var items = await _repository.GetItemsForRunAsync(id);
+            return Ok(new
+            {
+                log.Id,
+                log.StartTime,
+                log.EndTime,
+                log.Status,
+                log.TotalItems,
+                log.ProcessedItems,
+                log.CreatedSecrets,
+                log.UpdatedSecrets,
+                log.SkippedSecrets,
+                log.FailedSecrets,
+                log.DeletedSecrets,
+                log.DurationSeconds,
+                log.ErrorMessage,
+                log.Phase,
+                log.SyncIntervalSeconds,
+                log.ContinuousSync,
+                Items = items.Select(i => new
+                {
+                    i.Id,
+                    i.ItemKey,
+                    i.ItemName,
+                    i.Namespace,
+                    i.SecretName,
+                    i.Status,
+                    i.Outcome,
+                    i.Details,
+                    DataKeys = ParseDataKeys(i.DataKeysJson),
+                    i.Timestamp
+                })
+            });
         }
         catch (Exception ex)
         {
@@ -56,6 +89,104 @@ public class SyncLogsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Compare the secrets processed by two sync runs: which appeared, disappeared, switched status or changed keys
+    /// </summary>
+    [HttpGet("compare")]
+    public async Task<ActionResult<object>> Compare([FromQuery] long baseId, [FromQuery] long targetId)
+    {
+        try
+        {
+            var baseLog = await _repository.GetByIdAsync(baseId);
+            var targetLog = await _repository.GetByIdAsync(targetId);
+            if (baseLog == null || targetLog == null)
+                return NotFound();
+
+            var baseItems = await _repository.GetItemsForRunAsync(baseId);
+            var targetItems = await _repository.GetItemsForRunAsync(targetId);
+
+            return Ok(new
+            {
+                Base = baseLog,
+                Target = targetLog,
+                Entries = CompareRuns(baseItems, targetItems)
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error comparing sync logs {BaseId} and {TargetId}", baseId, targetId);
+            return StatusCode(500, "Error comparing sync logs");
+        }
+    }
+
+    /// <summary>
+    /// Matches items by namespace and secret name. Runs only record secrets they created, updated, failed or
+    /// deleted, so a secret missing from one run was in sync there. Orphan cleanups ("Deleted") mark a removal.
+    /// Key sets are only compared when both runs recorded them.
+    /// </summary>
+    internal static List<SyncRunDiffEntry> CompareRuns(IEnumerable<SyncItem> baseItems, IEnumerable<SyncItem> targetItems)
+    {
+        static Dictionary<(string, string), SyncItem> BySecret(IEnumerable<SyncItem> items) => items
+            .GroupBy(i => (i.Namespace, i.SecretName))
+            .ToDictionary(g => g.Key, g => g.Last());
+
+        var before = BySecret(baseItems);
+        var after = BySecret(targetItems);
+
+        var entries = new List<SyncRunDiffEntry>();
+        foreach (var key in before.Keys.Union(after.Keys))
+        {
+            before.TryGetValue(key, out var baseItem);
+            after.TryGetValue(key, out var targetItem);
+            var baseKeys = ParseDataKeys(baseItem?.DataKeysJson);
+            var targetKeys = ParseDataKeys(targetItem?.DataKeysJson);
+
+            var entry = new SyncRunDiffEntry
+            {
+                Namespace = key.Item1,
+                SecretName = key.Item2,
+                BaseStatus = baseItem?.Status,
+                TargetStatus = targetItem?.Status,
+                BaseOutcome = baseItem?.Outcome,
+                TargetOutcome = targetItem?.Outcome,
+                BaseDetails = baseItem?.Details,
+                TargetDetails = targetItem?.Details,
+                AddedKeys = baseKeys != null && targetKeys != null ? targetKeys.Except(baseKeys).ToList() : new List<string>(),
+                RemovedKeys = baseKeys != null && targetKeys != null ? baseKeys.Except(targetKeys).ToList() : new List<string>()
+            };
+
+            var baseDeleted = baseItem?.Outcome == "Deleted";
+            var targetDeleted = targetItem?.Outcome == "Deleted";
+            entry.Change = targetDeleted && !baseDeleted ? "Removed"
+                : baseDeleted && !targetDeleted || targetItem?.Outcome == "Created" && baseItem == null ? "Added"
+                : (baseItem?.Status ?? "Success") != (targetItem?.Status ?? "Success") ? "StatusChanged"
+                : entry.AddedKeys.Count > 0 || entry.RemovedKeys.Count > 0 ? "KeysChanged"
+                : "Unchanged";
+            entries.Add(entry);
+        }
+
+        return entries
+            .OrderBy(e => e.Change == "Unchanged")
+            .ThenBy(e => e.Namespace)
+            .ThenBy(e => e.SecretName)
+            .ToList();
+    }
+
+    private static List<string>? ParseDataKeys(string? json)
+    {
+        if (string.IsNullOrEmpty(json))
+            return null;
+
+        try
+        {
+            return System.Text.Json.JsonSerializer.Deserialize<List<string>>(json);
+        }
+        catch (System.Text.Json.JsonException)
+        {
+            return null;
+        }
+    }
+
     /// <summary>
     /// Get sync logs within a date range
     /// </summary>
@@ -66,7 +197,7 @@ public class SyncLogsController : ControllerBase
     {
         try
         {
-            var logs = await _repository.GetByDateRangeAsync(start, end);
+            var logs = await _repository.GetByDateRangeAsync(UtcDateTimeConverter.ToUtc(start), UtcDateTimeConverter.ToUtc(end));
             return Ok(logs);
         }
         catch (Exception ex)
@@ -77,14 +208,53 @@ public class SyncLogsController : ControllerBase
     }
 
     /// <summary>
-    /// Get sync statistics
+    /// Search sync logs with optional date range and status filters, one page at a time.
+    /// Status accepts a comma-separated list of Success, Failed, Partial and InProgress.
+    /// </summary>
+    [HttpGet("search")]
+    public async Task<ActionResult<PagedResult<SyncLog>>> Search(
+        [FromQuery] DateTime? start,
+        [FromQuery] DateTime? end,
+        [FromQuery] string? status,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 25)
+    {
+        if (page < 1 || pageSize < 1 || pageSize > 500)
+            return BadRequest("page must be at least 1 and pageSize between 1 and 500");
+
+        try
+        {
+            var statuses = status?
+                .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+                .ToList();
+            var result = await _repository.SearchAsync(
+                start.HasValue ? UtcDateTimeConverter.ToUtc(start.Value) : null,
+                end.HasValue ? UtcDateTimeConverter.ToUtc(end.Value) : null,
+                statuses,
+                page,
+                pageSize);
+            return Ok(result);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error searching sync logs");
+            return StatusCode(500, "Error retrieving sync logs");
+        }
+    }
+
+    /// <summary>
+    /// Get sync statistics, optionally limited to runs that started between start and end
     /// </summary>
     [HttpGet("statistics")]
-    public async Task<ActionResult<Dictionary<string, object>>> GetStatistics()
+    public async Task<ActionResult<Dictionary<string, object>>> GetStatistics(
+        [FromQuery] DateTime? start,
+        [FromQuery] DateTime? end)
     {
         try
         {
-            var stats = await _repository.GetStatisticsAsync();
+            var stats = await _repository.GetStatisticsAsync(
+                start.HasValue ? UtcDateTimeConverter.ToUtc(start.Value) : null,
+                end.HasValue ? UtcDateTimeConverter.ToUtc(end.Value) : null);
             return Ok(stats);
         }
         catch (Exception ex)
@@ -94,3 +264,18 @@ public class SyncLogsController : ControllerBase
         }
     }
 }
+
+public class SyncRunDiffEntry
+{
+    public string Namespace { get; set; } = string.Empty;
+    public string SecretName { get; set; } = string.Empty;
+    public string Change { get; set; } = string.Empty; // Added, Removed, StatusChanged, KeysChanged, Unchanged
+    public string? BaseStatus { get; set; }
+    public string? TargetStatus { get; set; }
+    public string? BaseOutcome { get; set; }
+    public string? TargetOutcome { get; set; }
+    public string? BaseDetails { get; set; }
+    public string? TargetDetails { get; set; }
+    public List<string> AddedKeys { get; set; } = new();
+    public List<string> RemovedKeys { get; set; } = new();
+}
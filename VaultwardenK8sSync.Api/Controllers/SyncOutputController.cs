@@ -2,6 +2,9 @@ using Microsoft.AspNetCore.Mvc;
 using StackExchange.Redis;
 using System.Net.WebSockets;
 using System.Text;
+using System.Text.Json;
+using VaultwardenK8sSync.Database;
+using VaultwardenK8sSync.Services;
 
 namespace VaultwardenK8sSync.Api.Controllers;
 
@@ -9,33 +12,27 @@ namespace VaultwardenK8sSync.Api.Controllers;
 [Route("api/sync-output")]
 public class SyncOutputController : ControllerBase
 {
+    private const string AuthOkMessage = "__AUTH_OK__";
+    private static readonly TimeSpan HandshakeTimeout = TimeSpan.FromSeconds(10);
+    private static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(15);
+
     private readonly ILogger<SyncOutputController> _logger;
+    private readonly AuthenticationConfig _authConfig;
     private readonly IConnectionMultiplexer? _valkey;
-    private readonly bool _valkeyEnabled;
 
-    public SyncOutputController(ILogger<SyncOutputController> logger)
+    public SyncOutputController(ILogger<SyncOutputController> logger, AuthenticationConfig authConfig, IConnectionMultiplexer? valkey = null)
     {
         _logger = logger;
-        
-        var valkeyConnection = Environment.GetEnvironmentVariable("VALKEY_CONNECTION");
-        
-        if (!string.IsNullOrEmpty(valkeyConnection))
-        {
-            try
-            {
-                _valkey = ConnectionMultiplexer.Connect(valkeyConnection);
-                _valkeyEnabled = true;
-            }
-            catch (Exception ex)
-            {
-                _logger.LogWarning(ex, "Failed to connect to Valkey for sync output streaming");
-                _valkeyEnabled = false;
-            }
-        }
+        _authConfig = authConfig;
+        _valkey = valkey;
     }
 
+    /// <summary>
+    /// Streams sync output over a WebSocket. Pass <paramref name="since"/> (the last sequence
+    /// number the client received) when reconnecting to replay only the missed lines.
+    /// </summary>
     [HttpGet("stream")]
-    public async Task Stream()
+    public async Task Stream([FromQuery] long? since = null)
     {
         if (!HttpContext.WebSockets.IsWebSocketRequest)
         {
@@ -46,81 +43,136 @@ public class SyncOutputController : ControllerBase
         using var webSocket = await HttpContext.WebSockets.AcceptWebSocketAsync();
         _logger.LogInformation("WebSocket connection established for sync output streaming");
 
+        ISubscriber? subscriber = null;
+        var channel = RedisChannel.Literal(SyncOutputFrame.Channel);
+
         try
         {
-            // Check Valkey availability after accepting the connection
-            if (!_valkeyEnabled || _valkey == null)
+            if (!await AuthenticateAsync(webSocket) || !await EnsureValkeyAsync(webSocket))
             {
-                var errorMsg = "__VALKEY_NOT_CONFIGURED__\n" +
-                    "⚠️ Valkey is not configured. Real-time sync output is unavailable.\n" +
-                    "Configure VALKEY_CONNECTION environment variable to enable this feature.\n" +
-                    "See documentation for setup instructions.";
-                
-                var errorBytes = Encoding.UTF8.GetBytes(errorMsg);
-                await webSocket.SendAsync(
-                    new ArraySegment<byte>(errorBytes),
-                    WebSocketMessageType.Text,
-                    true,
-                    CancellationToken.None);
-                
-                _logger.LogWarning("WebSocket client connected but Valkey is not configured");
-                
-                // Close connection gracefully after sending error
-                await webSocket.CloseAsync(
-                    WebSocketCloseStatus.PolicyViolation,
-                    "Valkey not configured",
-                    CancellationToken.None);
                 return;
             }
 
-            var subscriber = _valkey.GetSubscriber();
-            var channel = "sync:output";
+            // EnsureValkeyAsync returned true, so the connection exists
+            var valkey = _valkey!;
+            subscriber = valkey.GetSubscriber();
+            var messageQueue = System.Threading.Channels.Channel.CreateUnbounded<string>();
+
+            // Subscribe before reading the history so nothing published in between is lost
+            await subscriber.SubscribeAsync(channel, (ch, message) =>
+            {
+                messageQueue.Writer.TryWrite(message.ToString());
+            });
+
+            // Send history first, or only what the client missed since its last sequence number
+            var db = valkey.GetDatabase();
+            var history = await db.ListRangeAsync(SyncOutputFrame.HistoryKey, 0, -1);
+            var replay = SyncOutputFrame.SelectReplay(history.Select(item => item.ToString()).ToList(), since);
+
+            if (replay.ClearFirst)
+            {
+                await SendTextAsync(webSocket, SyncOutputFrame.ClearMarker);
+            }
+
+            // Frames published while the history was read arrive through the subscription as well
+            var lastReplayed = history
+                .Select(item => SyncOutputFrame.TryParse(item.ToString(), out var sequence, out _) ? sequence : 0)
+                .DefaultIfEmpty(0)
+                .Max();
 
-            // Send history first
-            var db = _valkey.GetDatabase();
-            var history = await db.ListRangeAsync($"{channel}:history", 0, -1);
-            
-            foreach (var item in history)
+            foreach (var frame in replay.Frames)
             {
                 if (webSocket.State != WebSocketState.Open) break;
-                
-                var bytes = Encoding.UTF8.GetBytes(item.ToString() + "\n");
-                await webSocket.SendAsync(
-                    new ArraySegment<byte>(bytes),
-                    WebSocketMessageType.Text,
-                    true,
+                await SendTextAsync(webSocket, frame + "\n");
+            }
+
+            // Stream messages to WebSocket
+            await PumpAsync(webSocket, messageQueue, message =>
+                SyncOutputFrame.TryParse(message, out var sequence, out _) && sequence <= lastReplayed ? null : message + "\n");
+        }
+        catch (WebSocketException)
+        {
+            // The client went away without a close handshake, noticed on the next send or heartbeat
+            _logger.LogInformation("Sync output WebSocket client disconnected");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error in sync output WebSocket stream");
+        }
+        finally
+        {
+            if (subscriber != null)
+            {
+                await subscriber.UnsubscribeAsync(channel);
+            }
+            if (webSocket.State == WebSocketState.Open)
+            {
+                await webSocket.CloseAsync(
+                    WebSocketCloseStatus.NormalClosure,
+                    "Connection closed",
                     CancellationToken.None);
             }
+            _logger.LogInformation("WebSocket connection closed for sync output streaming");
+        }
+    }
+
+    /// <summary>
+    /// Streams progress snapshots (JSON) of the running sync over a WebSocket, starting with
+    /// the latest one so a client connecting mid-sync immediately knows where it stands.
+    /// </summary>
+    [HttpGet("stream/progress")]
+    public async Task StreamProgress()
+    {
+        if (!HttpContext.WebSockets.IsWebSocketRequest)
+        {
+            HttpContext.Response.StatusCode = StatusCodes.Status400BadRequest;
+            return;
+        }
+
+        using var webSocket = await HttpContext.WebSockets.AcceptWebSocketAsync();
+
+        ISubscriber? subscriber = null;
+        var channel = RedisChannel.Literal(SyncOutputFrame.ProgressChannel);
+
+        try
+        {
+            if (!await AuthenticateAsync(webSocket) || !await EnsureValkeyAsync(webSocket))
+            {
+                return;
+            }
 
-            // Subscribe to real-time updates
+            // EnsureValkeyAsync returned true, so the connection exists
+            var valkey = _valkey!;
+            subscriber = valkey.GetSubscriber();
             var messageQueue = System.Threading.Channels.Channel.CreateUnbounded<string>();
-            
-            await subscriber.SubscribeAsync(RedisChannel.Literal(channel), (ch, message) =>
+
+            await subscriber.SubscribeAsync(channel, (ch, message) =>
             {
                 messageQueue.Writer.TryWrite(message.ToString());
             });
 
-            // Stream messages to WebSocket
-            await foreach (var message in messageQueue.Reader.ReadAllAsync())
+            var latest = await valkey.GetDatabase().StringGetAsync(SyncOutputFrame.ProgressKey);
+            if (latest.HasValue)
             {
-                if (webSocket.State != WebSocketState.Open) break;
-
-                var bytes = Encoding.UTF8.GetBytes(message + "\n");
-                await webSocket.SendAsync(
-                    new ArraySegment<byte>(bytes),
-                    WebSocketMessageType.Text,
-                    true,
-                    CancellationToken.None);
+                await SendTextAsync(webSocket, latest.ToString());
             }
 
-            await subscriber.UnsubscribeAsync(RedisChannel.Literal(channel));
+            await PumpAsync(webSocket, messageQueue, message => message);
+        }
+        catch (WebSocketException)
+        {
+            _logger.LogDebug("Sync progress WebSocket client disconnected");
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error in sync output WebSocket stream");
+            _logger.LogError(ex, "Error in sync progress WebSocket stream");
         }
         finally
         {
+            if (subscriber != null)
+            {
+                await subscriber.UnsubscribeAsync(channel);
+            }
             if (webSocket.State == WebSocketState.Open)
             {
                 await webSocket.CloseAsync(
@@ -128,7 +180,139 @@ public class SyncOutputController : ControllerBase
                     "Connection closed",
                     CancellationToken.None);
             }
-            _logger.LogInformation("WebSocket connection closed for sync output streaming");
         }
     }
+
+    /// <summary>
+    /// Sends a "not configured" notice and closes the socket when Valkey is unavailable.
+    /// </summary>
+    private async Task<bool> EnsureValkeyAsync(WebSocket webSocket)
+    {
+        if (_valkey != null)
+        {
+            return true;
+        }
+
+        var errorMsg = "__VALKEY_NOT_CONFIGURED__\n" +
+            "⚠️ Valkey is not configured. Real-time sync output is unavailable.\n" +
+            "Configure VALKEY_CONNECTION environment variable to enable this feature.\n" +
+            "See documentation for setup instructions.";
+
+        await SendTextAsync(webSocket, errorMsg);
+
+        _logger.LogWarning("WebSocket client connected but Valkey is not configured");
+
+        // Close connection gracefully after sending error
+        await webSocket.CloseAsync(
+            WebSocketCloseStatus.PolicyViolation,
+            "Valkey not configured",
+            CancellationToken.None);
+        return false;
+    }
+
+    /// <summary>
+    /// Forwards queued messages until the client goes away. <paramref name="prepare"/> returns
+    /// the text to send, or null to skip a message. Idle streams get a periodic ping so clients
+    /// can tell a quiet sync from a dead connection.
+    /// </summary>
+    private static async Task PumpAsync(
+        WebSocket webSocket,
+        System.Threading.Channels.Channel<string> messageQueue,
+        Func<string, string?> prepare)
+    {
+        using var heartbeat = new Timer(
+            _ => messageQueue.Writer.TryWrite(SyncOutputFrame.PingMarker),
+            null,
+            HeartbeatInterval,
+            HeartbeatInterval);
+
+        await foreach (var message in messageQueue.Reader.ReadAllAsync())
+        {
+            if (webSocket.State != WebSocketState.Open) break;
+
+            var text = message == SyncOutputFrame.PingMarker ? message : prepare(message);
+            if (text != null)
+            {
+                await SendTextAsync(webSocket, text);
+            }
+        }
+    }
+
+    private static Task SendTextAsync(WebSocket webSocket, string text)
+    {
+        var bytes = Encoding.UTF8.GetBytes(text);
+        return webSocket.SendAsync(
+            new ArraySegment<byte>(bytes),
+            WebSocketMessageType.Text,
+            true,
+            CancellationToken.None);
+    }
+
+    /// <summary>
+    /// WebSocket auth handshake. The client sends {"type":"auth","token":"..."} as its first
+    /// message; the stream only starts after the API replies with __AUTH_OK__.
+    /// </summary>
+    private async Task<bool> AuthenticateAsync(WebSocket webSocket)
+    {
+        var authRequired = !_authConfig.LoginlessMode && !string.IsNullOrEmpty(_authConfig.Token);
+
+        if (authRequired)
+        {
+            var token = await ReceiveAuthTokenAsync(webSocket);
+            if (token == null || !TokenAuthenticationMiddleware.SecureCompare(token, _authConfig.Token))
+            {
+                _logger.LogWarning("Sync output stream authentication failed from {IP}", HttpContext.Connection.RemoteIpAddress);
+                if (webSocket.State == WebSocketState.Open)
+                {
+                    await webSocket.CloseAsync(
+                        WebSocketCloseStatus.PolicyViolation,
+                        "Authentication failed",
+                        CancellationToken.None);
+                }
+                return false;
+            }
+        }
+
+        var okBytes = Encoding.UTF8.GetBytes(AuthOkMessage);
+        await webSocket.SendAsync(
+            new ArraySegment<byte>(okBytes),
+            WebSocketMessageType.Text,
+            true,
+            CancellationToken.None);
+        return true;
+    }
+
+    private async Task<string?> ReceiveAuthTokenAsync(WebSocket webSocket)
+    {
+        using var timeout = new CancellationTokenSource(HandshakeTimeout);
+        var buffer = new byte[4096];
+
+        try
+        {
+            var result = await webSocket.ReceiveAsync(new ArraySegment<byte>(buffer), timeout.Token);
+            if (result.MessageType != WebSocketMessageType.Text || !result.EndOfMessage)
+            {
+                return null;
+            }
+
+            using var document = JsonDocument.Parse(Encoding.UTF8.GetString(buffer, 0, result.Count));
+            var root = document.RootElement;
+            if (root.ValueKind == JsonValueKind.Object &&
+                root.TryGetProperty("type", out var type) && type.GetString() == "auth" &&
+                root.TryGetProperty("token", out var token) && token.ValueKind == JsonValueKind.String)
+            {
+                return token.GetString();
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogWarning("Sync output stream client did not authenticate within {Timeout}s", HandshakeTimeout.TotalSeconds);
+        }
+        catch (JsonException)
+        {
+            _logger.LogWarning("Sync output stream received a malformed auth message");
+        }
+
+        return null;
+    }
 }
@@ -29,4 +29,15 @@ public class UtcDateTimeConverter : JsonConverter<DateTime>
             
         writer.WriteStringValue(utcValue.ToString("yyyy-MM-ddTHH:mm:ss.fffZ"));
     }
+
+    /// <summary>
+    /// Normalizes a bound query parameter to UTC. Model binding turns "...Z" into local time,
+    /// while values without an offset are assumed to already be UTC like the stored timestamps.
+    /// </summary>
+    public static DateTime ToUtc(DateTime value) => value.Kind switch
+    {
+        DateTimeKind.Local => value.ToUniversalTime(),
+        DateTimeKind.Unspecified => DateTime.SpecifyKind(value, DateTimeKind.Utc),
+        _ => value
+    };
 }
@@ -0,0 +1,22 @@
+namespace VaultwardenK8sSync.Database;
+
+/// <summary>
+/// Stamps every response with the version of the HTTP contract the dashboard relies on,
+/// so the dashboard can warn when it talks to an API built from a different release.
+/// </summary>
+public class ApiVersionMiddleware : IMiddleware
+{
+    public const string HeaderName = "X-Api-Version";
+
+    /// <summary>
+    /// Bump together with API_CLIENT_VERSION in dashboard/src/lib/apiCompatibility.ts
+    /// whenever a response shape changes in a way older dashboards cannot read.
+    /// </summary>
+    public const string Version = "1";
+
+    public Task InvokeAsync(HttpContext context, RequestDelegate next)
+    {
+        context.Response.Headers[HeaderName] = Version;
+        return next(context);
+    }
+}
@@ -11,6 +11,8 @@ public class AuthenticationConfig
 
 public class TokenAuthenticationMiddleware : IMiddleware
 {
+    public const string SyncOutputStreamPath = "/api/sync-output/stream";
+
     private readonly AuthenticationConfig _config;
     private readonly ILogger<TokenAuthenticationMiddleware> _logger;
 
@@ -44,6 +46,14 @@ public class TokenAuthenticationMiddleware : IMiddleware
             return;
         }
 
+        // Browsers cannot send an Authorization header on WebSocket upgrades,
+        // so the sync output stream authenticates in-band (see SyncOutputController)
+        if (context.WebSockets.IsWebSocketRequest && context.Request.Path.StartsWithSegments(SyncOutputStreamPath))
+        {
+            await next(context);
+            return;
+        }
+
         // Check for token in Authorization header
         if (!context.Request.Headers.TryGetValue("Authorization", out var authHeader))
         {
@@ -74,7 +84,7 @@ public class TokenAuthenticationMiddleware : IMiddleware
     /// Uses CryptographicOperations.FixedTimeEquals for secure token comparison.
     /// Ensures no timing information is leaked through length differences.
     /// </summary>
-    private static bool SecureCompare(string provided, string expected)
+    internal static bool SecureCompare(string provided, string expected)
     {
         if (string.IsNullOrEmpty(provided) || string.IsNullOrEmpty(expected))
             return false;
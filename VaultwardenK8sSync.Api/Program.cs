@@ -66,6 +66,7 @@ try
     builder.Services.AddScoped<ISyncLogRepository, SyncLogRepository>();
     builder.Services.AddScoped<ISecretStateRepository, SecretStateRepository>();
     builder.Services.AddScoped<IVaultwardenItemRepository, VaultwardenItemRepository>();
+    builder.Services.AddScoped<IFailureTriageRepository, FailureTriageRepository>();
 
     // Add HTTP client with resilience policies
     builder.Services.AddHttpClient("VaultwardenClient")
@@ -96,6 +97,24 @@ try
     // Make KubernetesService singleton to preserve client connection across requests
     builder.Services.AddSingleton<IKubernetesService, KubernetesService>();
 
+    // One Valkey connection for the whole API; controllers get none when it is not configured.
+    // It keeps reconnecting in the background if Valkey is not reachable yet.
+    var valkeyConnection = Environment.GetEnvironmentVariable("VALKEY_CONNECTION");
+    if (!string.IsNullOrEmpty(valkeyConnection))
+    {
+        try
+        {
+            var valkeyOptions = StackExchange.Redis.ConfigurationOptions.Parse(valkeyConnection);
+            valkeyOptions.AbortOnConnectFail = false;
+            builder.Services.AddSingleton<StackExchange.Redis.IConnectionMultiplexer>(
+                StackExchange.Redis.ConnectionMultiplexer.Connect(valkeyOptions));
+        }
+        catch (Exception ex)
+        {
+            Log.Warning(ex, "Could not connect to Valkey - sync requests and live output are unavailable");
+        }
+    }
+
     // Add CORS
     builder.Services.AddCors(options =>
     {
@@ -108,7 +127,8 @@ try
                 // Allow any origin in development for easier testing
                 policy.AllowAnyOrigin()
                     .AllowAnyHeader()
-                    .AllowAnyMethod();
+                    .AllowAnyMethod()
+                    .WithExposedHeaders(ApiVersionMiddleware.HeaderName);
             }
             else
             {
@@ -116,7 +136,8 @@ try
                 policy.WithOrigins(dashboardUrl)
                     .AllowAnyHeader()
                     .AllowAnyMethod()
-                    .AllowCredentials();
+                    .AllowCredentials()
+                    .WithExposedHeaders(ApiVersionMiddleware.HeaderName);
             }
         });
     });
@@ -181,6 +202,7 @@ try
         LoginlessMode = loginlessMode
     });
     builder.Services.AddScoped<TokenAuthenticationMiddleware>();
+    builder.Services.AddScoped<ApiVersionMiddleware>();
 
     // Log authentication mode on startup
     if (loginlessMode)
@@ -295,7 +317,9 @@ try
                             Notes TEXT,
                             LastFetched TEXT NOT NULL,
                             HasNamespacesField INTEGER NOT NULL DEFAULT 0,
-                            NamespacesJson TEXT
+                            NamespacesJson TEXT,
+                            SecretName TEXT,
+                            SecretPreviewJson TEXT
                         );
                         CREATE UNIQUE INDEX IX_VaultwardenItems_ItemId ON VaultwardenItems (ItemId);
                         CREATE INDEX IX_VaultwardenItems_LastFetched ON VaultwardenItems (LastFetched);
@@ -306,6 +330,34 @@ try
                 }
             }
 
+            // Create FailureTriages table for Discovery failure triage if it doesn't exist
+            using (var checkTriageCmd = connection.CreateCommand())
+            {
+                checkTriageCmd.CommandText = "SELECT name FROM sqlite_master WHERE type='table' AND name='FailureTriages';";
+                var tableExists = await checkTriageCmd.ExecuteScalarAsync();
+
+                if (tableExists == null)
+                {
+                    Log.Information("Creating FailureTriages table");
+                    using var createCmd = connection.CreateCommand();
+                    createCmd.CommandText = @"
+                        CREATE TABLE FailureTriages (
+                            Id INTEGER PRIMARY KEY AUTOINCREMENT,
+                            ErrorPattern TEXT NOT NULL,
+                            Status TEXT NOT NULL,
+                            Note TEXT,
+                            TriagedBy TEXT,
+                            TriagedAt TEXT NOT NULL,
+                            SnoozedUntil TEXT,
+                            SecretKeysJson TEXT NOT NULL DEFAULT '[]'
+                        );
+                        CREATE UNIQUE INDEX IX_FailureTriages_ErrorPattern ON FailureTriages (ErrorPattern);
+                    ";
+                    await createCmd.ExecuteNonQueryAsync();
+                    Log.Information("FailureTriages table created");
+                }
+            }
+
             // Migrate SyncLogs table: Add sync configuration columns if they don't exist
             try
             {
@@ -342,6 +394,69 @@ try
                 Log.Warning(migEx, "Could not add sync config columns");
             }
 
+            // Migrate SyncItems table: Add DataKeysJson column so runs can be compared by key set
+            try
+            {
+                using var checkSyncItemsCmd = connection.CreateCommand();
+                checkSyncItemsCmd.CommandText = "PRAGMA table_info(SyncItems);";
+                var reader = await checkSyncItemsCmd.ExecuteReaderAsync();
+                var columns = new List<string>();
+                while (await reader.ReadAsync())
+                {
+                    columns.Add(reader.GetString(1)); // Column name is at index 1
+                }
+                await reader.CloseAsync();
+
+                if (!columns.Contains("DataKeysJson"))
+                {
+                    Log.Information("Adding DataKeysJson column to SyncItems");
+                    using var addDataKeysCmd = connection.CreateCommand();
+                    addDataKeysCmd.CommandText = "ALTER TABLE SyncItems ADD COLUMN DataKeysJson TEXT NULL;";
+                    await addDataKeysCmd.ExecuteNonQueryAsync();
+                    Log.Information("DataKeysJson column added");
+                }
+            }
+            catch (Exception migEx)
+            {
+                Log.Warning(migEx, "Could not add SyncItems data keys column");
+            }
+
+            // Migrate VaultwardenItems table: Add SecretName and SecretPreviewJson columns for Discovery
+            try
+            {
+                using var checkItemsCmd = connection.CreateCommand();
+                checkItemsCmd.CommandText = "PRAGMA table_info(VaultwardenItems);";
+                var reader = await checkItemsCmd.ExecuteReaderAsync();
+                var columns = new List<string>();
+                while (await reader.ReadAsync())
+                {
+                    columns.Add(reader.GetString(1)); // Column name is at index 1
+                }
+                await reader.CloseAsync();
+
+                if (!columns.Contains("SecretName"))
+                {
+                    Log.Information("Adding SecretName column to VaultwardenItems");
+                    using var addSecretNameCmd = connection.CreateCommand();
+                    addSecretNameCmd.CommandText = "ALTER TABLE VaultwardenItems ADD COLUMN SecretName TEXT NULL;";
+                    await addSecretNameCmd.ExecuteNonQueryAsync();
+                    Log.Information("SecretName column added");
+                }
+
+                if (!columns.Contains("SecretPreviewJson"))
+                {
+                    Log.Information("Adding SecretPreviewJson column to VaultwardenItems");
+                    using var addSecretPreviewCmd = connection.CreateCommand();
+                    addSecretPreviewCmd.CommandText = "ALTER TABLE VaultwardenItems ADD COLUMN SecretPreviewJson TEXT NULL;";
+                    await addSecretPreviewCmd.ExecuteNonQueryAsync();
+                    Log.Information("SecretPreviewJson column added");
+                }
+            }
+            catch (Exception migEx)
+            {
+                Log.Warning(migEx, "Could not add VaultwardenItems secret name columns");
+            }
+
             await connection.CloseAsync();
         }
         catch (Exception ex)
@@ -362,6 +477,9 @@ try
 
     app.UseCors("AllowDashboard");
 
+    // Advertise the API contract version (also on 401/429 responses)
+    app.UseMiddleware<ApiVersionMiddleware>();
+
     // Enable WebSockets
     app.UseWebSockets();
 
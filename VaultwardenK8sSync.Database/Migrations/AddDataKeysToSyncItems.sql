@@ -0,0 +1,6 @@
+-- Migration: Add data key names to SyncItems table
+-- Date: 2026-10-19
+-- Description: Adds DataKeysJson so the dashboard can compare the key sets written by two sync runs
+
+-- Applied automatically on startup when the column is missing (see Program.cs and ApplicationHost.cs)
+ALTER TABLE SyncItems ADD COLUMN DataKeysJson TEXT NULL;
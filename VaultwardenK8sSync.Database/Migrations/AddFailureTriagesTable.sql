@@ -0,0 +1,16 @@
+-- Migration: Add FailureTriages table
+-- Date: 2026-10-19
+-- Description: Stores acknowledged and snoozed failure groups from the Discovery page, keyed by normalized error
+
+CREATE TABLE IF NOT EXISTS FailureTriages (
+    Id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ErrorPattern TEXT NOT NULL,
+    Status TEXT NOT NULL,
+    Note TEXT NULL,
+    TriagedBy TEXT NULL,
+    TriagedAt TEXT NOT NULL,
+    SnoozedUntil TEXT NULL,
+    SecretKeysJson TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS IX_FailureTriages_ErrorPattern ON FailureTriages(ErrorPattern);
@@ -0,0 +1,6 @@
+-- Migration: Add the resolved secret name to VaultwardenItems table
+-- Date: 2026-10-19
+-- Description: Adds SecretName so the dashboard can detect items that write the same Kubernetes secret
+
+-- Applied automatically on startup when the column is missing (see Program.cs and ApplicationHost.cs)
+ALTER TABLE VaultwardenItems ADD COLUMN SecretName TEXT NULL;
@@ -0,0 +1,7 @@
+-- Migration: Add the secret preview to VaultwardenItems table
+-- Date: 2026-10-19
+-- Description: Adds SecretPreviewJson (type, data key names, labels and annotations, never values)
+-- so the dashboard can render the Secret manifest an item would be synced to
+
+-- Applied automatically on startup when the column is missing (see Program.cs and ApplicationHost.cs)
+ALTER TABLE VaultwardenItems ADD COLUMN SecretPreviewJson TEXT NULL;
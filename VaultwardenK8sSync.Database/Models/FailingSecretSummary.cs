@@ -0,0 +1,13 @@
+namespace VaultwardenK8sSync.Database.Models;
+
+/// <summary>
+/// A secret that failed to sync, with how often it failed in the requested window
+/// </summary>
+public class FailingSecretSummary
+{
+    public string Namespace { get; set; } = string.Empty;
+    public string SecretName { get; set; } = string.Empty;
+    public int Failures { get; set; }
+    public DateTime LastFailedAt { get; set; }
+    public string? LastError { get; set; }
+}
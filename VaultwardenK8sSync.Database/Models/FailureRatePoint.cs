@@ -0,0 +1,12 @@
+namespace VaultwardenK8sSync.Database.Models;
+
+/// <summary>
+/// Share of sync runs with at least one failure in one time bucket
+/// </summary>
+public class FailureRatePoint
+{
+    public DateTime Date { get; set; }
+    public int TotalSyncs { get; set; }
+    public int FailedSyncs { get; set; }
+    public double FailureRate { get; set; }
+}
@@ -0,0 +1,19 @@
+namespace VaultwardenK8sSync.Database.Models;
+
+/// <summary>
+/// Triage decision on a group of failing secrets that share one normalized error, made from the
+/// Discovery page. A snoozed group reopens after SnoozedUntil; an acknowledged one when a secret
+/// outside SecretKeysJson starts failing with the same error.
+/// </summary>
+public class FailureTriage
+{
+    public long Id { get; set; }
+    public string ErrorPattern { get; set; } = string.Empty;
+    public string Status { get; set; } = string.Empty; // Acknowledged, Snoozed
+    public string? Note { get; set; }
+    public string? TriagedBy { get; set; }
+    public DateTime TriagedAt { get; set; }
+    public DateTime? SnoozedUntil { get; set; }
+    /// <summary>JSON array of the "namespace/secret" keys failing when the group was triaged</summary>
+    public string SecretKeysJson { get; set; } = "[]";
+}
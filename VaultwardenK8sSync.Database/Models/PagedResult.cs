@@ -0,0 +1,12 @@
+namespace VaultwardenK8sSync.Database.Models;
+
+/// <summary>
+/// One page of a larger result set
+/// </summary>
+public class PagedResult<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
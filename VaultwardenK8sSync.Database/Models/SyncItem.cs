@@ -15,6 +15,7 @@ public class SyncItem
     public string SecretName { get; set; } = string.Empty;
     public string Status { get; set; } = string.Empty;
     public string? Details { get; set; }
-    public string Outcome { get; set; } = string.Empty; // Created, Updated, Skipped, Failed
+    public string Outcome { get; set; } = string.Empty; // Created, Updated, Skipped, Failed, Deleted
+    public string? DataKeysJson { get; set; } // Key names written to the Kubernetes secret, as a JSON array
     public DateTime Timestamp { get; set; }
 }
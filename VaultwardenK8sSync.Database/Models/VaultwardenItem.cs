@@ -66,4 +66,14 @@ public class VaultwardenItem
     /// Cached namespaces value (JSON array)
     /// </summary>
     public string? NamespacesJson { get; set; }
+    
+    /// <summary>
+    /// Secret name the item syncs to (secret-name field or sanitized item name)
+    /// </summary>
+    public string? SecretName { get; set; }
+    
+    /// <summary>
+    /// Secret the item would produce on its own, without values (JSON)
+    /// </summary>
+    public string? SecretPreviewJson { get; set; }
 }
@@ -0,0 +1,60 @@
+using Microsoft.EntityFrameworkCore;
+using VaultwardenK8sSync.Database.Models;
+
+namespace VaultwardenK8sSync.Database.Repositories;
+
+public class FailureTriageRepository : IFailureTriageRepository
+{
+    private readonly SyncDbContext _context;
+
+    public FailureTriageRepository(SyncDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<List<FailureTriage>> GetAllAsync()
+    {
+        return await _context.FailureTriages
+            .OrderByDescending(t => t.TriagedAt)
+            .ToListAsync();
+    }
+
+    public async Task<FailureTriage> UpsertAsync(FailureTriage triage)
+    {
+        var existing = await _context.FailureTriages
+            .FirstOrDefaultAsync(t => t.ErrorPattern == triage.ErrorPattern);
+
+        if (existing != null)
+        {
+            existing.Status = triage.Status;
+            existing.Note = triage.Note;
+            existing.TriagedBy = triage.TriagedBy;
+            existing.TriagedAt = triage.TriagedAt;
+            existing.SnoozedUntil = triage.SnoozedUntil;
+            existing.SecretKeysJson = triage.SecretKeysJson;
+
+            _context.FailureTriages.Update(existing);
+        }
+        else
+        {
+            _context.FailureTriages.Add(triage);
+        }
+
+        await _context.SaveChangesAsync();
+        return existing ?? triage;
+    }
+
+    public async Task<bool> DeleteByPatternAsync(string errorPattern)
+    {
+        var existing = await _context.FailureTriages
+            .FirstOrDefaultAsync(t => t.ErrorPattern == errorPattern);
+        if (existing == null)
+        {
+            return false;
+        }
+
+        _context.FailureTriages.Remove(existing);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+}
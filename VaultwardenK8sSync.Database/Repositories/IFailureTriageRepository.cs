@@ -0,0 +1,10 @@
+using VaultwardenK8sSync.Database.Models;
+
+namespace VaultwardenK8sSync.Database.Repositories;
+
+public interface IFailureTriageRepository
+{
+    Task<List<FailureTriage>> GetAllAsync();
+    Task<FailureTriage> UpsertAsync(FailureTriage triage);
+    Task<bool> DeleteByPatternAsync(string errorPattern);
+}
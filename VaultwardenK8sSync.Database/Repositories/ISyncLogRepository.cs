@@ -9,5 +9,9 @@ public interface ISyncLogRepository
     Task<SyncLog> UpdateAsync(SyncLog syncLog);
     Task<List<SyncLog>> GetRecentAsync(int count = 50);
     Task<List<SyncLog>> GetByDateRangeAsync(DateTime start, DateTime end);
-    Task<Dictionary<string, object>> GetStatisticsAsync();
+    Task<PagedResult<SyncLog>> SearchAsync(DateTime? start, DateTime? end, IReadOnlyCollection<string>? statuses, int page, int pageSize);
+    Task<Dictionary<string, object>> GetStatisticsAsync(DateTime? start = null, DateTime? end = null);
+    Task<List<SyncItem>> GetItemsForRunAsync(long syncLogId);
+    Task<List<SyncItem>> GetItemsForSecretAsync(string namespaceName, string secretName, int count = 50);
+    Task<List<SyncItem>> GetItemsForNamespaceAsync(string namespaceName, int count = 50);
 }
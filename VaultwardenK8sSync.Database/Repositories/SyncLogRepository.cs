@@ -47,10 +47,60 @@ public class SyncLogRepository : ISyncLogRepository
             .ToListAsync();
     }
 
-    public async Task<Dictionary<string, object>> GetStatisticsAsync()
+    /// <summary>
+    /// Filters by start time and by the status the dashboard displays: a run with both failed and
+    /// successful secrets is "Partial", one where every secret failed is "Failed" (see computeSyncStatus).
+    /// </summary>
+    public async Task<PagedResult<SyncLog>> SearchAsync(DateTime? start, DateTime? end, IReadOnlyCollection<string>? statuses, int page, int pageSize)
     {
+        var query = _context.SyncLogs.AsQueryable();
+
+        if (start.HasValue)
+            query = query.Where(s => s.StartTime >= start.Value);
+        if (end.HasValue)
+            query = query.Where(s => s.StartTime <= end.Value);
+
+        if (statuses != null && statuses.Count > 0)
+        {
+            var wantSuccess = statuses.Contains("Success", StringComparer.OrdinalIgnoreCase);
+            var wantFailed = statuses.Contains("Failed", StringComparer.OrdinalIgnoreCase);
+            var wantPartial = statuses.Contains("Partial", StringComparer.OrdinalIgnoreCase);
+            var wantInProgress = statuses.Contains("InProgress", StringComparer.OrdinalIgnoreCase);
+
+            query = query.Where(s =>
+                (wantPartial && s.FailedSecrets > 0 && s.CreatedSecrets + s.UpdatedSecrets + s.SkippedSecrets > 0) ||
+                (wantFailed && ((s.FailedSecrets > 0 && s.CreatedSecrets + s.UpdatedSecrets + s.SkippedSecrets == 0) ||
+                                (s.FailedSecrets == 0 && s.Status == "Failed"))) ||
+                (wantSuccess && s.FailedSecrets == 0 && s.Status == "Success") ||
+                (wantInProgress && s.FailedSecrets == 0 && s.Status == "InProgress"));
+        }
+
+        var totalCount = await query.CountAsync();
+        var items = await query
+            .OrderByDescending(s => s.StartTime)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        return new PagedResult<SyncLog>
+        {
+            Items = items,
+            TotalCount = totalCount,
+            Page = page,
+            PageSize = pageSize
+        };
+    }
+
+    public async Task<Dictionary<string, object>> GetStatisticsAsync(DateTime? start = null, DateTime? end = null)
+    {
+        var logsInWindow = _context.SyncLogs.AsQueryable();
+        if (start.HasValue)
+            logsInWindow = logsInWindow.Where(s => s.StartTime >= start.Value);
+        if (end.HasValue)
+            logsInWindow = logsInWindow.Where(s => s.StartTime <= end.Value);
+
         // Batch all statistics into a single query using GroupBy
-        var stats = await _context.SyncLogs
+        var stats = await logsInWindow
             .GroupBy(_ => 1)
             .Select(g => new
             {
@@ -59,17 +109,48 @@ public class SyncLogRepository : ISyncLogRepository
                 FailedSyncs = g.Count(s => s.Status == "Failed"),
                 TotalSecretsCreated = g.Sum(s => s.CreatedSecrets),
                 TotalSecretsUpdated = g.Sum(s => s.UpdatedSecrets),
-                AvgDuration = g.Where(s => s.DurationSeconds > 0).Average(s => (double?)s.DurationSeconds) ?? 0
+                AvgDuration = g.Where(s => s.DurationSeconds > 0).Average(s => (double?)s.DurationSeconds) ?? 0,
+                AvgItems = g.Average(s => (double?)s.TotalItems) ?? 0
             })
             .FirstOrDefaultAsync();
 
-        var lastSync = await _context.SyncLogs
+        var lastSync = await logsInWindow
             .OrderByDescending(s => s.StartTime)
             .FirstOrDefaultAsync();
 
         // Use EndTime if available (when sync completed), otherwise use StartTime
         DateTime? lastSyncTime = lastSync?.EndTime ?? lastSync?.StartTime;
 
+        // Percentiles and the trend need every run, so load only the columns they use
+        var runs = await logsInWindow
+            .Select(s => new SyncLog
+            {
+                StartTime = s.StartTime,
+                Status = s.Status,
+                CreatedSecrets = s.CreatedSecrets,
+                UpdatedSecrets = s.UpdatedSecrets,
+                SkippedSecrets = s.SkippedSecrets,
+                FailedSecrets = s.FailedSecrets,
+                DurationSeconds = s.DurationSeconds
+            })
+            .ToListAsync();
+
+        var durations = runs
+            .Where(r => r.DurationSeconds > 0)
+            .Select(r => r.DurationSeconds)
+            .OrderBy(d => d)
+            .ToList();
+
+        var statusCounts = new Dictionary<string, int> { ["Success"] = 0, ["Partial"] = 0, ["Failed"] = 0, ["InProgress"] = 0 };
+        foreach (var run in runs)
+        {
+            var status = ComputeStatus(run);
+            statusCounts[status] = statusCounts.GetValueOrDefault(status) + 1;
+        }
+
+        var trendStart = start ?? (runs.Count > 0 ? runs.Min(r => r.StartTime) : DateTime.UtcNow);
+        var trendEnd = end ?? DateTime.UtcNow;
+
         return new Dictionary<string, object>
         {
             ["totalSyncs"] = stats?.TotalSyncs ?? 0,
@@ -79,7 +160,139 @@ public class SyncLogRepository : ISyncLogRepository
             ["totalSecretsUpdated"] = stats?.TotalSecretsUpdated ?? 0,
             ["averageDuration"] = stats?.AvgDuration ?? 0,
             ["lastSyncTime"] = lastSyncTime!,
-            ["lastSyncStatus"] = lastSync?.Status ?? "Never"
+            ["lastSyncStatus"] = lastSync?.Status ?? "Never",
+            ["statusCounts"] = statusCounts,
+            ["durationP50"] = Percentile(durations, 50),
+            ["durationP95"] = Percentile(durations, 95),
+            ["durationMax"] = durations.Count > 0 ? durations[^1] : 0,
+            ["averageItemsPerRun"] = stats?.AvgItems ?? 0,
+            ["topFailingSecrets"] = await GetTopFailingSecretsAsync(start, end, 10),
+            ["failureRateTrend"] = BuildFailureRateTrend(runs, trendStart, trendEnd)
         };
     }
+
+    private async Task<List<FailingSecretSummary>> GetTopFailingSecretsAsync(DateTime? start, DateTime? end, int count)
+    {
+        var failedItems = _context.SyncItems.Where(i => i.Status == "Failed");
+        if (start.HasValue)
+            failedItems = failedItems.Where(i => i.Timestamp >= start.Value);
+        if (end.HasValue)
+            failedItems = failedItems.Where(i => i.Timestamp <= end.Value);
+
+        var top = await failedItems
+            .GroupBy(i => new { i.Namespace, i.SecretName })
+            .Select(g => new { g.Key.Namespace, g.Key.SecretName, Failures = g.Count(), LastFailedAt = g.Max(i => i.Timestamp) })
+            .OrderByDescending(g => g.Failures)
+            .ThenByDescending(g => g.LastFailedAt)
+            .Take(count)
+            .ToListAsync();
+
+        var summaries = new List<FailingSecretSummary>();
+        foreach (var secret in top)
+        {
+            var lastError = await failedItems
+                .Where(i => i.Namespace == secret.Namespace && i.SecretName == secret.SecretName)
+                .OrderByDescending(i => i.Timestamp)
+                .Select(i => i.Details)
+                .FirstOrDefaultAsync();
+
+            summaries.Add(new FailingSecretSummary
+            {
+                Namespace = secret.Namespace,
+                SecretName = secret.SecretName,
+                Failures = secret.Failures,
+                LastFailedAt = secret.LastFailedAt,
+                LastError = lastError
+            });
+        }
+
+        return summaries;
+    }
+
+    /// <summary>
+    /// The status the dashboard shows for a run: mixed failures and successes are "Partial",
+    /// failures alone are "Failed" regardless of the stored status (mirrors computeSyncStatus).
+    /// </summary>
+    internal static string ComputeStatus(SyncLog log)
+    {
+        var hasFailures = log.FailedSecrets > 0;
+        var hasSuccesses = log.CreatedSecrets + log.UpdatedSecrets + log.SkippedSecrets > 0;
+
+        if (hasFailures)
+            return hasSuccesses ? "Partial" : "Failed";
+        return log.Status;
+    }
+
+    /// <summary>
+    /// Nearest-rank percentile of an ascending list; 0 when the list is empty.
+    /// </summary>
+    internal static double Percentile(IReadOnlyList<double> sortedValues, double percentile)
+    {
+        if (sortedValues.Count == 0)
+            return 0;
+
+        var rank = (int)Math.Ceiling(percentile / 100 * sortedValues.Count);
+        return sortedValues[Math.Clamp(rank - 1, 0, sortedValues.Count - 1)];
+    }
+
+    /// <summary>
+    /// Buckets runs by hour for windows of up to two days and by day otherwise. A run counts as
+    /// failed when any of its secrets failed or the run itself failed.
+    /// </summary>
+    internal static List<FailureRatePoint> BuildFailureRateTrend(IReadOnlyCollection<SyncLog> runs, DateTime start, DateTime end)
+    {
+        var bucketSize = end - start <= TimeSpan.FromDays(2) ? TimeSpan.FromHours(1) : TimeSpan.FromDays(1);
+        var firstBucket = new DateTime(start.Ticks - start.Ticks % bucketSize.Ticks, DateTimeKind.Utc);
+
+        var byBucket = runs
+            .GroupBy(r => (r.StartTime.Ticks - firstBucket.Ticks) / bucketSize.Ticks)
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        var points = new List<FailureRatePoint>();
+        for (long index = 0; firstBucket.AddTicks(index * bucketSize.Ticks) <= end; index++)
+        {
+            var bucketRuns = byBucket.GetValueOrDefault(index) ?? new List<SyncLog>();
+            var failed = bucketRuns.Count(r => ComputeStatus(r) is "Failed" or "Partial");
+            points.Add(new FailureRatePoint
+            {
+                Date = firstBucket.AddTicks(index * bucketSize.Ticks),
+                TotalSyncs = bucketRuns.Count,
+                FailedSyncs = failed,
+                FailureRate = bucketRuns.Count > 0 ? (double)failed / bucketRuns.Count : 0
+            });
+        }
+
+        return points;
+    }
+
+    public async Task<List<SyncItem>> GetItemsForRunAsync(long syncLogId)
+    {
+        return await _context.SyncItems
+            .AsNoTracking()
+            .Where(i => i.SyncLogId == syncLogId)
+            .OrderBy(i => i.Id)
+            .ToListAsync();
+    }
+
+    public async Task<List<SyncItem>> GetItemsForSecretAsync(string namespaceName, string secretName, int count = 50)
+    {
+        return await _context.SyncItems
+            .Include(i => i.SyncLog)
+            .Where(i => i.Namespace == namespaceName && i.SecretName == secretName)
+            .OrderByDescending(i => i.Timestamp)
+            .ThenByDescending(i => i.Id)
+            .Take(count)
+            .ToListAsync();
+    }
+
+    public async Task<List<SyncItem>> GetItemsForNamespaceAsync(string namespaceName, int count = 50)
+    {
+        return await _context.SyncItems
+            .Include(i => i.SyncLog)
+            .Where(i => i.Namespace == namespaceName)
+            .OrderByDescending(i => i.Timestamp)
+            .ThenByDescending(i => i.Id)
+            .Take(count)
+            .ToListAsync();
+    }
 }
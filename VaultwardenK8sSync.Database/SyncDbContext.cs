@@ -28,6 +28,7 @@ public class SyncDbContext : DbContext
     public DbSet<SecretState> SecretStates { get; set; }
     public DbSet<SystemMetric> SystemMetrics { get; set; }
     public DbSet<VaultwardenItem> VaultwardenItems { get; set; }
+    public DbSet<FailureTriage> FailureTriages { get; set; }
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -80,5 +81,13 @@ public class SyncDbContext : DbContext
             entity.Property(e => e.ItemId).IsRequired();
             entity.Property(e => e.Name).IsRequired();
         });
+
+        modelBuilder.Entity<FailureTriage>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.HasIndex(e => e.ErrorPattern).IsUnique();
+            entity.Property(e => e.ErrorPattern).IsRequired();
+            entity.Property(e => e.Status).IsRequired();
+        });
     }
 }
@@ -0,0 +1,28 @@
+using Microsoft.AspNetCore.Http;
+using Moq;
+using VaultwardenK8sSync.Database;
+using Xunit;
+using FluentAssertions;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class ApiVersionMiddlewareTests
+{
+    [Fact]
+    public async Task InvokeAsync_ShouldSetVersionHeaderAndCallNext()
+    {
+        // Arrange
+        var nextMock = new Mock<RequestDelegate>();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Request.Path = "/api/secrets";
+        var middleware = new ApiVersionMiddleware();
+
+        // Act
+        await middleware.InvokeAsync(httpContext, nextMock.Object);
+
+        // Assert
+        httpContext.Response.Headers[ApiVersionMiddleware.HeaderName].ToString()
+            .Should().Be(ApiVersionMiddleware.Version);
+        nextMock.Verify(next => next(httpContext), Times.Once);
+    }
+}
@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.Features;
 using Microsoft.Extensions.Logging;
 using Moq;
 using VaultwardenK8sSync.Database;
@@ -259,4 +260,50 @@ public class AuthenticationMiddlewareTests
         // Assert
         _nextMock.Verify(next => next(_httpContext), Times.Once);
     }
+
+    [Fact]
+    public async Task InvokeAsync_WithSyncOutputWebSocketUpgrade_ShouldDeferToInBandHandshake()
+    {
+        // Arrange
+        var config = new AuthenticationConfig
+        {
+            Token = "test-token-123",
+            LoginlessMode = false
+        };
+        var middleware = new TokenAuthenticationMiddleware(config, _loggerMock.Object);
+        var webSocketFeature = new Mock<IHttpWebSocketFeature>();
+        webSocketFeature.SetupGet(f => f.IsWebSocketRequest).Returns(true);
+        _httpContext.Features.Set(webSocketFeature.Object);
+        _httpContext.Request.Path = "/api/sync-output/stream";
+        // No authorization header - browsers cannot send one on upgrade requests
+
+        // Act
+        await middleware.InvokeAsync(_httpContext, _nextMock.Object);
+
+        // Assert
+        _nextMock.Verify(next => next(_httpContext), Times.Once);
+    }
+
+    [Fact]
+    public async Task InvokeAsync_WithWebSocketUpgradeToOtherPath_ShouldReturn401()
+    {
+        // Arrange
+        var config = new AuthenticationConfig
+        {
+            Token = "test-token-123",
+            LoginlessMode = false
+        };
+        var middleware = new TokenAuthenticationMiddleware(config, _loggerMock.Object);
+        var webSocketFeature = new Mock<IHttpWebSocketFeature>();
+        webSocketFeature.SetupGet(f => f.IsWebSocketRequest).Returns(true);
+        _httpContext.Features.Set(webSocketFeature.Object);
+        _httpContext.Request.Path = "/api/secrets";
+
+        // Act
+        await middleware.InvokeAsync(_httpContext, _nextMock.Object);
+
+        // Assert
+        _nextMock.Verify(next => next(_httpContext), Times.Never);
+        _httpContext.Response.StatusCode.Should().Be(401);
+    }
 }
@@ -0,0 +1,51 @@
+using FluentAssertions;
+using VaultwardenK8sSync.Api.Controllers;
+using VaultwardenK8sSync.Database.Models;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class DashboardTimelineTests
+{
+    [Fact]
+    public void BuildTimeline_ShouldFillEmptyHourlyBuckets()
+    {
+        // Arrange
+        var start = new DateTime(2025, 1, 1, 10, 30, 0, DateTimeKind.Utc);
+        var end = new DateTime(2025, 1, 1, 14, 0, 0, DateTimeKind.Utc);
+        var logs = new List<SyncLog>
+        {
+            new() { StartTime = new DateTime(2025, 1, 1, 10, 45, 0), Status = "Success", CreatedSecrets = 2, DurationSeconds = 4 },
+            new() { StartTime = new DateTime(2025, 1, 1, 10, 55, 0), Status = "Failed", FailedSecrets = 1, DurationSeconds = 8 },
+            new() { StartTime = new DateTime(2025, 1, 1, 13, 5, 0), Status = "Success", DeletedSecrets = 3, DurationSeconds = 2 }
+        };
+
+        // Act
+        var timeline = DashboardController.BuildTimeline(logs, start, end, TimeSpan.FromHours(1));
+
+        // Assert
+        timeline.Select(p => p.Date.Hour).Should().Equal(10, 11, 12, 13);
+        timeline[0].TotalSyncs.Should().Be(2);
+        timeline[0].SecretsCreated.Should().Be(2);
+        timeline[0].SecretsFailed.Should().Be(1);
+        timeline[0].AvgDuration.Should().Be(6);
+        timeline[0].MaxDuration.Should().Be(8);
+        timeline[1].TotalSyncs.Should().Be(0);
+        timeline[3].SecretsDeleted.Should().Be(3);
+    }
+
+    [Theory]
+    [InlineData(null, 1, 1)]
+    [InlineData(null, 7, 24)]
+    [InlineData("day", 1, 24)]
+    [InlineData("hour", 7, 1)]
+    [InlineData("hour", 90, 24)]
+    public void ResolveTimelineInterval_ShouldPickBucketSize(string? interval, int rangeDays, int expectedHours)
+    {
+        // Act
+        var bucketSize = DashboardController.ResolveTimelineInterval(interval, TimeSpan.FromDays(rangeDays));
+
+        // Assert
+        bucketSize.Should().Be(TimeSpan.FromHours(expectedHours));
+    }
+}
@@ -6,6 +6,7 @@ using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.DependencyInjection;
 using Xunit;
 using VaultwardenK8sSync.Database;
+using VaultwardenK8sSync.Database.Models;
 using VaultwardenK8sSync.Database.Repositories;
 using VaultwardenK8sSync.Services;
 
@@ -217,6 +218,179 @@ public class DatabaseIntegrationTests : IDisposable
         Assert.Equal(1, (int)stats["failedSyncs"]);
     }
 
+    [Fact]
+    public async Task GetItemsForRun_ReturnsOnlyThatRunsItemsInProcessingOrder()
+    {
+        // Arrange
+        var syncLogId1 = await _dbLogger.StartSyncLogAsync("Test Sync 1", 2);
+        await _dbLogger.LogSyncItemAsync(syncLogId1, "item-1", "Item 1", "default", "db-secret", "Success", "Created");
+        await _dbLogger.LogSyncItemAsync(syncLogId1, "", "", "default", "old-secret", "Success", "Deleted", "Secret removed");
+        await _dbLogger.CompleteSyncLogAsync(syncLogId1, "Success");
+
+        var syncLogId2 = await _dbLogger.StartSyncLogAsync("Test Sync 2", 1);
+        await _dbLogger.LogSyncItemAsync(syncLogId2, "item-1", "Item 1", "default", "db-secret", "Success", "Updated");
+        await _dbLogger.CompleteSyncLogAsync(syncLogId2, "Success");
+
+        // Act
+        var items = await _syncLogRepository.GetItemsForRunAsync(syncLogId1);
+
+        // Assert
+        Assert.Equal(new[] { "db-secret", "old-secret" }, items.Select(i => i.SecretName));
+        Assert.Equal("Deleted", items[1].Outcome);
+    }
+
+    [Fact]
+    public async Task LogSyncItem_WritesItemsWhenTheRunCompletesAndPrunesExpiredOnes()
+    {
+        // Arrange
+        var oldRunId = await _dbLogger.StartSyncLogAsync("Old Sync", 1);
+        await _dbLogger.LogSyncItemAsync(oldRunId, "item-1", "Item 1", "default", "expired-secret", "Success", "Created");
+        await _dbLogger.CompleteSyncLogAsync(oldRunId, "Success");
+        await _context.SyncItems
+            .Where(i => i.SyncLogId == oldRunId)
+            .ExecuteUpdateAsync(i => i.SetProperty(x => x.Timestamp, DateTime.UtcNow.AddDays(-31)));
+
+        var syncLogId = await _dbLogger.StartSyncLogAsync("Test Sync", 2);
+        await _dbLogger.LogSyncItemAsync(syncLogId, "item-1", "Item 1", "default", "db-secret", "Success", "Created");
+        await _dbLogger.LogSyncItemAsync(syncLogId, "item-2", "Item 2", "default", "api-secret", "Success", "Updated");
+        var beforeCompletion = await _syncLogRepository.GetItemsForRunAsync(syncLogId);
+
+        // Act
+        await _dbLogger.CompleteSyncLogAsync(syncLogId, "Success");
+
+        // Assert
+        Assert.Empty(beforeCompletion);
+        Assert.Equal(2, (await _syncLogRepository.GetItemsForRunAsync(syncLogId)).Count);
+        Assert.Empty(await _syncLogRepository.GetItemsForRunAsync(oldRunId));
+    }
+
+    [Fact]
+    public async Task GetItemsForSecret_ReturnsRunsThatTouchedTheSecret()
+    {
+        // Arrange
+        var syncLogId1 = await _dbLogger.StartSyncLogAsync("Test Sync 1", 2);
+        await _dbLogger.LogSyncItemAsync(syncLogId1, "item-1", "Item 1", "default", "db-secret", "Success", "Created");
+        await _dbLogger.LogSyncItemAsync(syncLogId1, "item-2", "Item 2", "default", "other-secret", "Success", "Created");
+        await _dbLogger.CompleteSyncLogAsync(syncLogId1, "Success");
+
+        var syncLogId2 = await _dbLogger.StartSyncLogAsync("Test Sync 2", 2);
+        await _dbLogger.LogSyncItemAsync(syncLogId2, "item-1", "Item 1", "default", "db-secret", "Failed", "Failed", "Forbidden");
+        await _dbLogger.CompleteSyncLogAsync(syncLogId2, "Failed");
+
+        // Act
+        var items = await _syncLogRepository.GetItemsForSecretAsync("default", "db-secret");
+
+        // Assert
+        Assert.Equal(2, items.Count);
+        Assert.Equal(syncLogId2, items[0].SyncLogId);
+        Assert.Equal("Forbidden", items[0].Details);
+        Assert.NotNull(items[0].SyncLog);
+        Assert.Equal(syncLogId1, items[1].SyncLogId);
+    }
+
+    [Fact]
+    public async Task GetItemsForNamespace_OnlyReturnsItemsFromThatNamespace()
+    {
+        // Arrange
+        var syncLogId = await _dbLogger.StartSyncLogAsync("Test Sync", 3);
+        await _dbLogger.LogSyncItemAsync(syncLogId, "item-1", "Item 1", "team-a", "db-secret", "Success", "Created");
+        await _dbLogger.LogSyncItemAsync(syncLogId, "item-2", "Item 2", "team-a", "api-secret", "Success", "Updated");
+        await _dbLogger.LogSyncItemAsync(syncLogId, "item-3", "Item 3", "team-b", "db-secret", "Success", "Created");
+        await _dbLogger.CompleteSyncLogAsync(syncLogId, "Success");
+
+        // Act
+        var items = await _syncLogRepository.GetItemsForNamespaceAsync("team-a");
+
+        // Assert
+        Assert.Equal(2, items.Count);
+        Assert.All(items, i => Assert.Equal("team-a", i.Namespace));
+        Assert.Equal("api-secret", items[0].SecretName);
+    }
+
+    [Fact]
+    public async Task Search_FiltersByComputedStatusAndPages()
+    {
+        // Arrange
+        var success = await _dbLogger.StartSyncLogAsync("Success", 3);
+        await _dbLogger.UpdateSyncProgressAsync(success, 3, 1, 1, 1, 0);
+        await _dbLogger.CompleteSyncLogAsync(success, "Success");
+
+        var partial = await _dbLogger.StartSyncLogAsync("Partial", 3);
+        await _dbLogger.UpdateSyncProgressAsync(partial, 3, 1, 0, 1, 1);
+        await _dbLogger.CompleteSyncLogAsync(partial, "Success");
+
+        var failed = await _dbLogger.StartSyncLogAsync("Failed", 2);
+        await _dbLogger.UpdateSyncProgressAsync(failed, 2, 0, 0, 0, 2);
+        await _dbLogger.CompleteSyncLogAsync(failed, "Failed", "boom");
+
+        await _dbLogger.StartSyncLogAsync("Running", 5);
+
+        // Act
+        var partialOnly = await _syncLogRepository.SearchAsync(null, null, new[] { "Partial" }, 1, 10);
+        var failedOrRunning = await _syncLogRepository.SearchAsync(null, null, new[] { "Failed", "InProgress" }, 1, 10);
+        var secondPage = await _syncLogRepository.SearchAsync(null, null, null, 2, 3);
+
+        // Assert
+        Assert.Equal(new[] { partial }, partialOnly.Items.Select(l => l.Id));
+        Assert.Equal(2, failedOrRunning.TotalCount);
+        Assert.Equal(4, secondPage.TotalCount);
+        Assert.Single(secondPage.Items);
+        Assert.Equal(success, secondPage.Items[0].Id);
+    }
+
+    [Fact]
+    public async Task GetStatistics_WithWindow_ReportsComputedStatusesAndFailingSecrets()
+    {
+        // Arrange
+        var partial = await _dbLogger.StartSyncLogAsync("Partial", 4);
+        await _dbLogger.UpdateSyncProgressAsync(partial, 4, 2, 0, 0, 2);
+        await _dbLogger.LogSyncItemAsync(partial, "item-1", "Item 1", "default", "db-secret", "Failed", "Failed", "Forbidden");
+        await _dbLogger.LogSyncItemAsync(partial, "item-2", "Item 2", "default", "api-secret", "Failed", "Failed", "Conflict");
+        await _dbLogger.CompleteSyncLogAsync(partial, "Success");
+
+        var failed = await _dbLogger.StartSyncLogAsync("Failed", 2);
+        await _dbLogger.UpdateSyncProgressAsync(failed, 2, 0, 0, 0, 1);
+        await _dbLogger.LogSyncItemAsync(failed, "item-1", "Item 1", "default", "db-secret", "Failed", "Failed", "Timeout");
+        await _dbLogger.CompleteSyncLogAsync(failed, "Failed", "boom");
+
+        // Act
+        var stats = await _syncLogRepository.GetStatisticsAsync(DateTime.UtcNow.AddHours(-1), DateTime.UtcNow.AddMinutes(1));
+        var future = await _syncLogRepository.GetStatisticsAsync(DateTime.UtcNow.AddDays(1), DateTime.UtcNow.AddDays(2));
+
+        // Assert
+        var statusCounts = (Dictionary<string, int>)stats["statusCounts"];
+        Assert.Equal(1, statusCounts["Partial"]);
+        Assert.Equal(1, statusCounts["Failed"]);
+        Assert.Equal(3.0, (double)stats["averageItemsPerRun"]);
+
+        var topFailing = (List<FailingSecretSummary>)stats["topFailingSecrets"];
+        Assert.Equal("db-secret", topFailing[0].SecretName);
+        Assert.Equal(2, topFailing[0].Failures);
+        Assert.Equal("Timeout", topFailing[0].LastError);
+
+        var trend = (List<FailureRatePoint>)stats["failureRateTrend"];
+        Assert.Equal(2, trend.Sum(p => p.FailedSyncs));
+
+        Assert.Equal(0, (int)future["totalSyncs"]);
+        Assert.Empty((List<FailingSecretSummary>)future["topFailingSecrets"]);
+    }
+
+    [Theory]
+    [InlineData(50, 3.0)]
+    [InlineData(95, 10.0)]
+    [InlineData(100, 10.0)]
+    public void Percentile_UsesNearestRank(double percentile, double expected)
+    {
+        // Arrange
+        var durations = new List<double> { 1, 2, 3, 4, 10 };
+
+        // Act
+        var value = SyncLogRepository.Percentile(durations, percentile);
+
+        // Assert
+        Assert.Equal(expected, value);
+    }
+
     public void Dispose()
     {
         if (!_disposed)
@@ -0,0 +1,103 @@
+using System;
+using System.IO;
+using System.Threading.Tasks;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Xunit;
+using VaultwardenK8sSync.Database;
+using VaultwardenK8sSync.Database.Models;
+using VaultwardenK8sSync.Database.Repositories;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class FailureTriageRepositoryTests : IDisposable
+{
+    private readonly string _testDbPath;
+    private readonly SyncDbContext _context;
+    private readonly FailureTriageRepository _repository;
+
+    public FailureTriageRepositoryTests()
+    {
+        _testDbPath = Path.Combine(Path.GetTempPath(), $"test_triage_{Guid.NewGuid()}.db");
+        var options = new DbContextOptionsBuilder<SyncDbContext>()
+            .UseSqlite($"Data Source={_testDbPath}")
+            .Options;
+
+        _context = new SyncDbContext(options);
+        _context.Database.EnsureCreated();
+        _repository = new FailureTriageRepository(_context);
+    }
+
+    [Fact]
+    public async Task Upsert_ReplacesTheDecisionForTheSamePattern()
+    {
+        // Arrange
+        await _repository.UpsertAsync(new FailureTriage
+        {
+            ErrorPattern = "namespace <name> not found",
+            Status = "Snoozed",
+            Note = "Cluster migration",
+            TriagedBy = "alice",
+            TriagedAt = DateTime.UtcNow,
+            SnoozedUntil = DateTime.UtcNow.AddDays(1),
+            SecretKeysJson = "[\"staging/db\"]"
+        });
+
+        // Act
+        await _repository.UpsertAsync(new FailureTriage
+        {
+            ErrorPattern = "namespace <name> not found",
+            Status = "Acknowledged",
+            Note = "Namespace is being recreated",
+            TriagedBy = "bob",
+            TriagedAt = DateTime.UtcNow,
+            SecretKeysJson = "[\"staging/db\",\"staging/api\"]"
+        });
+
+        // Assert
+        var triages = await _repository.GetAllAsync();
+        triages.Should().ContainSingle();
+        triages[0].Status.Should().Be("Acknowledged");
+        triages[0].TriagedBy.Should().Be("bob");
+        triages[0].SnoozedUntil.Should().BeNull();
+        triages[0].SecretKeysJson.Should().Contain("staging/api");
+    }
+
+    [Fact]
+    public async Task DeleteByPattern_ReopensOnlyThatGroup()
+    {
+        // Arrange
+        foreach (var pattern in new[] { "forbidden", "namespace <name> not found" })
+        {
+            await _repository.UpsertAsync(new FailureTriage
+            {
+                ErrorPattern = pattern,
+                Status = "Acknowledged",
+                TriagedAt = DateTime.UtcNow
+            });
+        }
+
+        // Act
+        var deleted = await _repository.DeleteByPatternAsync("forbidden");
+        var deletedAgain = await _repository.DeleteByPatternAsync("forbidden");
+
+        // Assert
+        deleted.Should().BeTrue();
+        deletedAgain.Should().BeFalse();
+        var remaining = await _repository.GetAllAsync();
+        remaining.Should().ContainSingle().Which.ErrorPattern.Should().Be("namespace <name> not found");
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+        try
+        {
+            File.Delete(_testDbPath);
+        }
+        catch (IOException)
+        {
+            // The connection pool may still hold the file; it is a temp file
+        }
+    }
+}
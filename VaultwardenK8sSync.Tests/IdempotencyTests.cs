@@ -70,7 +70,7 @@ public class IdempotencyTests : IDisposable
         mockDbLogger.Setup(x => x.CompleteSyncLogAsync(It.IsAny<long>(), It.IsAny<string>(), It.IsAny<string>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         
         var syncService = new SyncService(
@@ -128,7 +128,7 @@ public class IdempotencyTests : IDisposable
         mockDbLogger.Setup(x => x.CompleteSyncLogAsync(It.IsAny<long>(), It.IsAny<string>(), It.IsAny<string>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         
         var syncService = new SyncService(
@@ -181,7 +181,7 @@ public class IdempotencyTests : IDisposable
         mockDbLogger.Setup(x => x.CompleteSyncLogAsync(It.IsAny<long>(), It.IsAny<string>(), It.IsAny<string>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         
         var syncService = new SyncService(
@@ -240,7 +240,7 @@ public class IdempotencyTests : IDisposable
         mockDbLogger.Setup(x => x.CompleteSyncLogAsync(It.IsAny<long>(), It.IsAny<string>(), It.IsAny<string>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         
         var syncService = new SyncService(
@@ -290,7 +290,7 @@ public class IdempotencyTests : IDisposable
         mockDbLogger.Setup(x => x.CompleteSyncLogAsync(It.IsAny<long>(), It.IsAny<string>(), It.IsAny<string>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         
         var syncService = new SyncService(
@@ -42,7 +42,7 @@ public class OrphanCleanupIntegrationTests : IDisposable
         // Setup default database logger mocks
         _dbLoggerMock.Setup(x => x.StartSyncLogAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<bool>()))
             .ReturnsAsync(1L);
-        _dbLoggerMock.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        _dbLoggerMock.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         _dbLoggerMock.Setup(x => x.CleanupStaleSecretStatesAsync(It.IsAny<List<VaultwardenItem>>()))
             .ReturnsAsync(0);
@@ -74,7 +74,7 @@ public class NoChangesSummaryTests
             It.IsAny<int>(), It.IsAny<int>(), It.IsAny<int>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
             
         mockDbLogger.Setup(x => x.CleanupStaleSecretStatesAsync(It.IsAny<List<VaultwardenItem>>()))
@@ -205,7 +205,7 @@ public class NoChangesSummaryTests
             It.IsAny<int>(), It.IsAny<int>(), It.IsAny<int>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
             
         mockDbLogger.Setup(x => x.CleanupStaleSecretStatesAsync(It.IsAny<List<VaultwardenItem>>()))
@@ -289,7 +289,7 @@ public class NoChangesSummaryTests
             It.IsAny<int>(), It.IsAny<int>(), It.IsAny<int>()))
             .Returns(Task.CompletedTask);
             
-        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        mockDbLogger.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
             
         mockDbLogger.Setup(x => x.CleanupStaleSecretStatesAsync(It.IsAny<List<VaultwardenItem>>()))
@@ -0,0 +1,79 @@
+using FluentAssertions;
+using Moq;
+using VaultwardenK8sSync.Models;
+using VaultwardenK8sSync.Services;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class PushProgressReporterTests
+{
+    private readonly Mock<IValkeySyncOutputPublisher> _publisherMock = new();
+    private readonly List<SyncProgressSnapshot> _published = new();
+    private DateTime _now = new(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+
+    public PushProgressReporterTests()
+    {
+        _publisherMock
+            .Setup(p => p.PublishProgressAsync(It.IsAny<SyncProgressSnapshot>()))
+            .Callback<SyncProgressSnapshot>(_published.Add)
+            .Returns(Task.CompletedTask);
+    }
+
+    private PushProgressReporter CreateReporter() =>
+        new(new NullProgressReporter(), _publisherMock.Object, () => _now);
+
+    [Fact]
+    public void Reporter_ShouldCountFinishedItemsOnce()
+    {
+        // Arrange
+        var reporter = CreateReporter();
+        reporter.Start("Starting");
+        reporter.AddItem("default/a", "default/a");
+        reporter.AddItem("default/b", "default/b");
+
+        // Act
+        reporter.BeginItem("default/a");
+        reporter.EndItem("default/a", SyncItemOutcome.Failed);
+        // A failing namespace reports its items again
+        reporter.UpdateItem("default/a", "Failed", "boom", SyncItemOutcome.Failed);
+        reporter.SetPhase("Cleaning up orphaned secrets");
+
+        // Assert
+        var last = _published.Last();
+        last.Phase.Should().Be("Cleaning up orphaned secrets");
+        last.Total.Should().Be(2);
+        last.Processed.Should().Be(1);
+        last.Failed.Should().Be(1);
+        last.CurrentItem.Should().BeNull();
+        last.Completed.Should().BeFalse();
+    }
+
+    [Fact]
+    public void Reporter_ShouldThrottleItemUpdatesButAlwaysPublishCompletion()
+    {
+        // Arrange
+        var reporter = CreateReporter();
+        reporter.Start("Starting");
+        var afterStart = _published.Count;
+
+        // Act - items within the throttle window are coalesced
+        reporter.BeginItem("default/a");
+        reporter.EndItem("default/a", SyncItemOutcome.Created);
+        reporter.BeginItem("default/b");
+        var duringBurst = _published.Count;
+
+        _now = _now.AddSeconds(1);
+        reporter.EndItem("default/b", SyncItemOutcome.Updated);
+        var afterWindow = _published.Count;
+
+        reporter.Complete("Done");
+
+        // Assert
+        duringBurst.Should().Be(afterStart);
+        afterWindow.Should().Be(afterStart + 1);
+        _published.Last().Completed.Should().BeTrue();
+        _published.Last().Processed.Should().Be(2);
+        _published.Last().Phase.Should().Be("Done");
+    }
+}
@@ -44,7 +44,7 @@ public class SecretCacheTests : IDisposable
         // Setup database logger to return a sync log ID
         _dbLoggerMock.Setup(x => x.StartSyncLogAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<bool>()))
             .ReturnsAsync(1L);
-        _dbLoggerMock.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>()))
+        _dbLoggerMock.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
             .Returns(Task.CompletedTask);
         _dbLoggerMock.Setup(x => x.CleanupStaleSecretStatesAsync(It.IsAny<List<VaultwardenItem>>()))
             .ReturnsAsync(0);
@@ -0,0 +1,152 @@
+using Xunit;
+using Moq;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using System.Text.Json;
+using VaultwardenK8sSync.Services;
+using VaultwardenK8sSync.Configuration;
+using VaultwardenK8sSync.Models;
+
+namespace VaultwardenK8sSync.Tests;
+
+[Collection("SyncService Sequential")]
+public class SecretPreviewTests
+{
+    private readonly Mock<IVaultwardenService> _vaultwardenServiceMock = new();
+    private readonly Mock<IKubernetesService> _kubernetesServiceMock = new();
+    private readonly Mock<IDatabaseLoggerService> _dbLoggerMock = new();
+    private readonly SyncService _syncService;
+    private IReadOnlyDictionary<string, SecretPreview>? _cachedPreviews;
+
+    public SecretPreviewTests()
+    {
+        var lockFilePath = Path.Combine(Path.GetTempPath(), "vaultwarden-sync-operation.lock");
+        if (File.Exists(lockFilePath))
+        {
+            try
+            {
+                File.Delete(lockFilePath);
+            }
+            catch
+            {
+                // Ignore if file is locked by another process
+            }
+        }
+
+        _dbLoggerMock.Setup(x => x.StartSyncLogAsync(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<bool>()))
+            .ReturnsAsync(1L);
+        _dbLoggerMock.Setup(x => x.CacheVaultwardenItemsAsync(It.IsAny<List<VaultwardenItem>>(), It.IsAny<IReadOnlyDictionary<string, SecretPreview>>()))
+            .Callback<List<VaultwardenItem>, IReadOnlyDictionary<string, SecretPreview>>((_, previews) => _cachedPreviews = previews)
+            .Returns(Task.CompletedTask);
+        _kubernetesServiceMock.Setup(x => x.NamespaceExistsAsync(It.IsAny<string>()))
+            .ReturnsAsync(true);
+        _kubernetesServiceMock.Setup(x => x.CreateSecretAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<Dictionary<string, string>>(), It.IsAny<string>()))
+            .ReturnsAsync(OperationResult.Successful());
+
+        _syncService = new SyncService(
+            new Mock<ILogger<SyncService>>().Object,
+            _vaultwardenServiceMock.Object,
+            _kubernetesServiceMock.Object,
+            new Mock<IMetricsService>().Object,
+            _dbLoggerMock.Object,
+            new SyncSettings(),
+            new DockerConfigJsonSettings());
+    }
+
+    [Fact]
+    public async Task SyncAsync_CachesPreviewWithKeyNamesAndMetadata_ButNoValues()
+    {
+        // Arrange
+        var item = new VaultwardenItem
+        {
+            Id = "preview-item",
+            Name = "api-credentials",
+            Type = 1,
+            Login = new LoginInfo { Username = "svc-user", Password = "s3cr3t-password" },
+            Fields = new List<FieldInfo>
+            {
+                new() { Name = "namespaces", Value = "default", Type = 0 },
+                new() { Name = "api-token", Value = "t0k3n-value", Type = 1 },
+                new() { Name = "secret-label", Value = "team=payments", Type = 0 },
+                new() { Name = "secret-annotation", Value = "owner=platform", Type = 0 }
+            }
+        };
+        _vaultwardenServiceMock.Setup(x => x.GetItemsAsync()).ReturnsAsync(new List<VaultwardenItem> { item });
+
+        // Act
+        await _syncService.SyncAsync();
+
+        // Assert
+        _cachedPreviews.Should().ContainKey("preview-item");
+        var preview = _cachedPreviews!["preview-item"];
+        preview.Type.Should().Be("Opaque");
+        preview.DataKeys.Should().BeEquivalentTo(new[] { "api-credentials", "api-credentials-username", "api-token" });
+        preview.Labels.Should().Contain(Constants.Kubernetes.ManagedByLabel, Constants.Kubernetes.ManagedByValue);
+        preview.Labels.Should().Contain("team", "payments");
+        preview.Annotations.Should().Contain("owner", "platform");
+        preview.Annotations.Should().ContainKey(Constants.Kubernetes.ManagedKeysAnnotationKey);
+        preview.Error.Should().BeNull();
+
+        var json = JsonSerializer.Serialize(preview);
+        json.Should().NotContain("s3cr3t-password").And.NotContain("t0k3n-value").And.NotContain("svc-user");
+    }
+
+    [Fact]
+    public async Task SyncAsync_RecordsError_WhenRegistryItemHasNoPassword()
+    {
+        // Arrange
+        var item = new VaultwardenItem
+        {
+            Id = "registry-item",
+            Name = "registry",
+            Type = 1,
+            Login = new LoginInfo { Username = "robot" },
+            Fields = new List<FieldInfo>
+            {
+                new() { Name = "namespaces", Value = "default", Type = 0 },
+                new() { Name = "secret-type", Value = "kubernetes.io/dockerconfigjson", Type = 0 }
+            }
+        };
+        _vaultwardenServiceMock.Setup(x => x.GetItemsAsync()).ReturnsAsync(new List<VaultwardenItem> { item });
+
+        // Act
+        await _syncService.SyncAsync();
+
+        // Assert
+        var preview = _cachedPreviews!["registry-item"];
+        preview.Type.Should().Be("kubernetes.io/dockerconfigjson");
+        preview.DataKeys.Should().BeEmpty();
+        preview.Error.Should().Contain("requires a password");
+    }
+
+    [Fact]
+    public async Task SyncAsync_SkipsItemsWithoutNamespaces_AndReusesPreviewsOfUnchangedItems()
+    {
+        // Arrange
+        var synced = new VaultwardenItem
+        {
+            Id = "synced-item",
+            Name = "api-credentials",
+            Type = 1,
+            Login = new LoginInfo { Username = "svc-user", Password = "s3cr3t-password" },
+            Fields = new List<FieldInfo> { new() { Name = "namespaces", Value = "default", Type = 0 } }
+        };
+        var unconfigured = new VaultwardenItem
+        {
+            Id = "unconfigured-item",
+            Name = "personal-login",
+            Type = 1,
+            Login = new LoginInfo { Username = "me", Password = "hunter2" }
+        };
+        _vaultwardenServiceMock.Setup(x => x.GetItemsAsync()).ReturnsAsync(new List<VaultwardenItem> { synced, unconfigured });
+
+        // Act
+        await _syncService.SyncAsync();
+        var firstPreview = _cachedPreviews!["synced-item"];
+        await _syncService.SyncAsync();
+
+        // Assert
+        _cachedPreviews.Should().NotContainKey("unconfigured-item");
+        _cachedPreviews!["synced-item"].Should().BeSameAs(firstPreview);
+    }
+}
@@ -0,0 +1,92 @@
+using FluentAssertions;
+using VaultwardenK8sSync.Services;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class SyncOutputFrameTests
+{
+    private static List<string> Frames(params long[] sequences) =>
+        sequences.Select(sequence => SyncOutputFrame.Format(sequence, $"line {sequence}")).ToList();
+
+    [Fact]
+    public void TryParse_ShouldRoundTripFormattedFrames()
+    {
+        // Act
+        var parsed = SyncOutputFrame.TryParse(SyncOutputFrame.Format(42, "[12:00:00] [INFO] hello"), out var sequence, out var message);
+
+        // Assert
+        parsed.Should().BeTrue();
+        sequence.Should().Be(42);
+        message.Should().Be("[12:00:00] [INFO] hello");
+    }
+
+    [Fact]
+    public void TryParse_ShouldPassLegacyLinesThrough()
+    {
+        // Act
+        var parsed = SyncOutputFrame.TryParse("[12:00:00] [INFO] hello", out var sequence, out var message);
+
+        // Assert
+        parsed.Should().BeFalse();
+        sequence.Should().Be(0);
+        message.Should().Be("[12:00:00] [INFO] hello");
+    }
+
+    [Fact]
+    public void SelectReplay_WithoutSequence_ShouldClearAndSendEverything()
+    {
+        // Act
+        var replay = SyncOutputFrame.SelectReplay(Frames(1, 2, 3), null);
+
+        // Assert
+        replay.ClearFirst.Should().BeTrue();
+        replay.Frames.Should().HaveCount(3);
+    }
+
+    [Fact]
+    public void SelectReplay_WhenHistoryCoversTheGap_ShouldSendOnlyMissedFrames()
+    {
+        // Act
+        var replay = SyncOutputFrame.SelectReplay(Frames(5, 6, 7, 8), 6);
+
+        // Assert
+        replay.ClearFirst.Should().BeFalse();
+        replay.Frames.Should().Equal(Frames(7, 8));
+    }
+
+    [Fact]
+    public void SelectReplay_WhenClientIsUpToDate_ShouldSendNothing()
+    {
+        // Act
+        var replay = SyncOutputFrame.SelectReplay(Frames(5, 6, 7), 7);
+
+        // Assert
+        replay.ClearFirst.Should().BeFalse();
+        replay.Frames.Should().BeEmpty();
+    }
+
+    [Theory]
+    [InlineData(2)]   // history was trimmed past the client's position
+    [InlineData(20)]  // sequence counter restarted below the client's position
+    public void SelectReplay_WhenHistoryDoesNotCoverTheGap_ShouldClearAndSendEverything(long lastSequence)
+    {
+        // Act
+        var replay = SyncOutputFrame.SelectReplay(Frames(5, 6, 7), lastSequence);
+
+        // Assert
+        replay.ClearFirst.Should().BeTrue();
+        replay.Frames.Should().Equal(Frames(5, 6, 7));
+    }
+
+    [Fact]
+    public void SelectReplay_WhenHistoryWasCleared_ShouldClear()
+    {
+        // Act
+        var replay = SyncOutputFrame.SelectReplay(new List<string>(), 7);
+
+        // Assert
+        replay.ClearFirst.Should().BeTrue();
+        replay.Frames.Should().BeEmpty();
+    }
+}
@@ -0,0 +1,95 @@
+using System.Text.Json;
+using FluentAssertions;
+using VaultwardenK8sSync.Models;
+using VaultwardenK8sSync.Services;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class SyncRequestTests
+{
+    private static readonly DateTime Now = new(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+
+    private static List<VaultwardenItem> Items(params string[] ids) =>
+        ids.Select(id => new VaultwardenItem { Id = id, Name = id }).ToList();
+
+    private static string Progress(bool completed, DateTime updatedAt) =>
+        JsonSerializer.Serialize(new SyncProgressSnapshot { Completed = completed, UpdatedAt = updatedAt },
+            new JsonSerializerOptions(JsonSerializerDefaults.Web));
+
+    [Fact]
+    public void Matches_WithoutScope_ShouldMatchEverySecret()
+    {
+        // Arrange
+        var request = new SyncRequest();
+
+        // Act & Assert
+        request.IsScoped.Should().BeFalse();
+        request.Matches("default", "db", Items("a")).Should().BeTrue();
+        request.Describe().Should().Be("full sync");
+    }
+
+    [Fact]
+    public void Matches_WithSecret_ShouldOnlyMatchThatSecret()
+    {
+        // Arrange
+        var request = new SyncRequest { Namespace = "default", SecretName = "db" };
+
+        // Act & Assert
+        request.Matches("default", "db", Items("a")).Should().BeTrue();
+        request.Matches("other", "db", Items("a")).Should().BeFalse();
+        request.Matches("default", "cache", Items("a")).Should().BeFalse();
+        request.Describe().Should().Be("resync of default/db");
+    }
+
+    [Fact]
+    public void Matches_WithItem_ShouldMatchEverySecretTheItemContributesTo()
+    {
+        // Arrange
+        var request = new SyncRequest { ItemId = "b" };
+
+        // Act & Assert
+        request.Matches("default", "db", Items("a", "b")).Should().BeTrue();
+        request.Matches("staging", "db", Items("b")).Should().BeTrue();
+        request.Matches("default", "cache", Items("a")).Should().BeFalse();
+    }
+
+    [Fact]
+    public void TryParse_ShouldRoundTripSerializedRequests()
+    {
+        // Arrange
+        var request = new SyncRequest { Namespace = "default", SecretName = "db", RequestedAt = Now };
+
+        // Act
+        var parsed = SyncRequestChannel.TryParse(SyncRequestChannel.Serialize(request), out var result);
+
+        // Assert
+        parsed.Should().BeTrue();
+        result.Id.Should().Be(request.Id);
+        result.Namespace.Should().Be("default");
+        result.SecretName.Should().Be("db");
+        result.ItemId.Should().BeNull();
+        result.RequestedAt.Should().Be(Now);
+    }
+
+    [Fact]
+    public void TryParse_ShouldRejectMalformedMessages()
+    {
+        // Act
+        var parsed = SyncRequestChannel.TryParse("not json", out _);
+
+        // Assert
+        parsed.Should().BeFalse();
+    }
+
+    [Fact]
+    public void IsSyncRunning_ShouldOnlyReportUnfinishedRecentProgress()
+    {
+        // Act & Assert
+        SyncRequestChannel.IsSyncRunning(null, Now).Should().BeFalse();
+        SyncRequestChannel.IsSyncRunning(Progress(false, Now.AddSeconds(-5)), Now).Should().BeTrue();
+        SyncRequestChannel.IsSyncRunning(Progress(true, Now.AddSeconds(-5)), Now).Should().BeFalse();
+        // A sync that died without completing must not block requests forever
+        SyncRequestChannel.IsSyncRunning(Progress(false, Now.AddMinutes(-10)), Now).Should().BeFalse();
+    }
+}
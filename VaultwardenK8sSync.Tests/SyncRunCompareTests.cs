@@ -0,0 +1,86 @@
+using FluentAssertions;
+using VaultwardenK8sSync.Api.Controllers;
+using VaultwardenK8sSync.Database.Models;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class SyncRunCompareTests
+{
+    private static SyncItem Item(string secretName, string outcome, string? dataKeysJson = null) => new()
+    {
+        Namespace = "default",
+        SecretName = secretName,
+        Outcome = outcome,
+        Status = outcome == "Failed" ? "Failed" : "Success",
+        DataKeysJson = dataKeysJson
+    };
+
+    [Fact]
+    public void CompareRuns_ShouldClassifyEachSecret()
+    {
+        // Arrange
+        var baseItems = new List<SyncItem>
+        {
+            Item("kept", "Updated", "[\"password\"]"),
+            Item("rekeyed", "Updated", "[\"password\",\"username\"]"),
+            Item("dropped", "Created")
+        };
+        var targetItems = new List<SyncItem>
+        {
+            Item("rekeyed", "Updated", "[\"password\",\"token\"]"),
+            Item("broken", "Failed"),
+            Item("dropped", "Deleted"),
+            Item("new", "Created", "[\"url\"]")
+        };
+
+        // Act
+        var entries = SyncLogsController.CompareRuns(baseItems, targetItems);
+
+        // Assert
+        entries.ToDictionary(e => e.SecretName, e => e.Change).Should().BeEquivalentTo(new Dictionary<string, string>
+        {
+            ["kept"] = "Unchanged",
+            ["rekeyed"] = "KeysChanged",
+            ["broken"] = "StatusChanged",
+            ["dropped"] = "Removed",
+            ["new"] = "Added"
+        });
+        var rekeyed = entries.Single(e => e.SecretName == "rekeyed");
+        rekeyed.AddedKeys.Should().Equal("token");
+        rekeyed.RemovedKeys.Should().Equal("username");
+        entries.Last().Change.Should().Be("Unchanged");
+    }
+
+    [Fact]
+    public void CompareRuns_ShouldTreatASecretMissingFromARunAsInSync()
+    {
+        // Arrange
+        var baseItems = new List<SyncItem> { Item("recovered", "Failed"), Item("touched", "Updated") };
+        var targetItems = new List<SyncItem>();
+
+        // Act
+        var entries = SyncLogsController.CompareRuns(baseItems, targetItems);
+
+        // Assert
+        entries.ToDictionary(e => e.SecretName, e => e.Change).Should().BeEquivalentTo(new Dictionary<string, string>
+        {
+            ["recovered"] = "StatusChanged",
+            ["touched"] = "Unchanged"
+        });
+    }
+
+    [Fact]
+    public void CompareRuns_ShouldNotReportKeyChangesWhenARunDidNotRecordKeys()
+    {
+        // Arrange
+        var baseItems = new List<SyncItem> { Item("legacy", "Updated") };
+        var targetItems = new List<SyncItem> { Item("legacy", "Updated", "[\"password\"]") };
+
+        // Act
+        var entries = SyncLogsController.CompareRuns(baseItems, targetItems);
+
+        // Assert
+        entries.Single().Change.Should().Be("Unchanged");
+    }
+}
@@ -0,0 +1,90 @@
+using FluentAssertions;
+using VaultwardenK8sSync.Models;
+using VaultwardenK8sSync.Services;
+using Xunit;
+
+namespace VaultwardenK8sSync.Tests;
+
+public class SyncScheduleTests
+{
+    private static readonly DateTime Now = new(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+
+    [Fact]
+    public void NextCheckIn_WithoutChanges_ShouldWaitForConfiguredInterval()
+    {
+        // Arrange
+        var schedule = new SyncSchedule();
+
+        // Act & Assert
+        schedule.IsPaused(Now).Should().BeFalse();
+        schedule.NextCheckIn(600, Now, Now).Should().Be(TimeSpan.FromSeconds(600));
+        schedule.NextCheckIn(600, Now.AddSeconds(-600), Now).Should().Be(TimeSpan.Zero);
+    }
+
+    [Fact]
+    public void IsPaused_ShouldEndWhenPausedUntilPasses()
+    {
+        // Arrange
+        var schedule = new SyncSchedule { Paused = true, PausedUntil = Now.AddMinutes(30) };
+
+        // Act & Assert
+        schedule.IsPaused(Now).Should().BeTrue();
+        schedule.IsPaused(Now.AddMinutes(30)).Should().BeFalse();
+        new SyncSchedule { Paused = true }.IsPaused(Now.AddYears(1)).Should().BeTrue();
+    }
+
+    [Fact]
+    public void NextCheckIn_WhilePaused_ShouldNeverReportSyncDue()
+    {
+        // Arrange
+        var untilResumed = new SyncSchedule { Paused = true };
+        var untilTime = new SyncSchedule { Paused = true, PausedUntil = Now.AddMinutes(10) };
+
+        // Act & Assert
+        untilResumed.NextCheckIn(60, Now.AddHours(-5), Now).Should().Be(TimeSpan.FromHours(1));
+        untilTime.NextCheckIn(60, Now.AddHours(-5), Now).Should().Be(TimeSpan.FromMinutes(10));
+        // Once the pause has ended the overdue sync runs right away
+        untilTime.NextCheckIn(60, Now.AddHours(-5), Now.AddMinutes(10)).Should().Be(TimeSpan.Zero);
+    }
+
+    [Fact]
+    public void EffectiveIntervalSeconds_ShouldUseOverrideUntilItExpires()
+    {
+        // Arrange
+        var schedule = new SyncSchedule { IntervalSeconds = 60, IntervalUntil = Now.AddMinutes(5) };
+
+        // Act & Assert
+        schedule.EffectiveIntervalSeconds(3600, Now).Should().Be(60);
+        schedule.EffectiveIntervalSeconds(3600, Now.AddMinutes(5)).Should().Be(3600);
+        schedule.NextCheckIn(3600, Now, Now).Should().Be(TimeSpan.FromSeconds(60));
+    }
+
+    [Fact]
+    public void NextCheckIn_ShouldRecheckWhenLongerOverrideExpires()
+    {
+        // Arrange
+        var schedule = new SyncSchedule { IntervalSeconds = 7200, IntervalUntil = Now.AddMinutes(10) };
+
+        // Act & Assert
+        schedule.NextCheckIn(600, Now, Now).Should().Be(TimeSpan.FromMinutes(10));
+        schedule.NextCheckIn(600, Now, Now.AddMinutes(10)).Should().Be(TimeSpan.Zero);
+    }
+
+    [Fact]
+    public void ParseSchedule_ShouldRoundTripAndFallBackToDefaults()
+    {
+        // Arrange
+        var schedule = new SyncSchedule { Paused = true, PausedBy = "alice", PausedUntil = Now, IntervalSeconds = 120 };
+
+        // Act
+        var parsed = SyncRequestChannel.ParseSchedule(SyncRequestChannel.SerializeSchedule(schedule));
+
+        // Assert
+        parsed.Paused.Should().BeTrue();
+        parsed.PausedBy.Should().Be("alice");
+        parsed.PausedUntil.Should().Be(Now);
+        parsed.IntervalSeconds.Should().Be(120);
+        SyncRequestChannel.ParseSchedule(null).Paused.Should().BeFalse();
+        SyncRequestChannel.ParseSchedule("not json").IntervalSeconds.Should().BeNull();
+    }
+}
@@ -84,6 +84,57 @@ public class ApplicationHost
                     addCmd.ExecuteNonQuery();
                     _logger.LogDebug("ContinuousSync column added");
                 }
+
+                // Add DataKeysJson column to SyncItems so runs can be compared by key set
+                using var checkItemsCmd = connection.CreateCommand();
+                checkItemsCmd.CommandText = "PRAGMA table_info(SyncItems);";
+                var itemsReader = checkItemsCmd.ExecuteReader();
+                var itemColumns = new List<string>();
+                while (itemsReader.Read())
+                {
+                    itemColumns.Add(itemsReader.GetString(1));
+                }
+                itemsReader.Close();
+
+                if (!itemColumns.Contains("DataKeysJson"))
+                {
+                    _logger.LogDebug("Adding DataKeysJson column to SyncItems");
+                    using var addCmd = connection.CreateCommand();
+                    addCmd.CommandText = "ALTER TABLE SyncItems ADD COLUMN DataKeysJson TEXT NULL;";
+                    addCmd.ExecuteNonQuery();
+                    _logger.LogDebug("DataKeysJson column added");
+                }
+
+                // Add SecretName column to VaultwardenItems so Discovery can explain collisions
+                using var checkCachedItemsCmd = connection.CreateCommand();
+                checkCachedItemsCmd.CommandText = "PRAGMA table_info(VaultwardenItems);";
+                var cachedItemsReader = checkCachedItemsCmd.ExecuteReader();
+                var cachedItemColumns = new List<string>();
+                while (cachedItemsReader.Read())
+                {
+                    cachedItemColumns.Add(cachedItemsReader.GetString(1));
+                }
+                cachedItemsReader.Close();
+
+                // The table is created by the API on older databases; skip when it is missing
+                if (cachedItemColumns.Count > 0 && !cachedItemColumns.Contains("SecretName"))
+                {
+                    _logger.LogDebug("Adding SecretName column to VaultwardenItems");
+                    using var addCmd = connection.CreateCommand();
+                    addCmd.CommandText = "ALTER TABLE VaultwardenItems ADD COLUMN SecretName TEXT NULL;";
+                    addCmd.ExecuteNonQuery();
+                    _logger.LogDebug("SecretName column added");
+                }
+
+                // Add SecretPreviewJson column to VaultwardenItems for the dashboard's manifest preview
+                if (cachedItemColumns.Count > 0 && !cachedItemColumns.Contains("SecretPreviewJson"))
+                {
+                    _logger.LogDebug("Adding SecretPreviewJson column to VaultwardenItems");
+                    using var addCmd = connection.CreateCommand();
+                    addCmd.CommandText = "ALTER TABLE VaultwardenItems ADD COLUMN SecretPreviewJson TEXT NULL;";
+                    addCmd.ExecuteNonQuery();
+                    _logger.LogDebug("SecretPreviewJson column added");
+                }
                 
                 connection.Close();
             }
@@ -154,6 +205,7 @@ public class ApplicationHost
         // Register application services
         services.AddSingleton<IMetricsService, MetricsService>();
         services.AddSingleton<IValkeySyncOutputPublisher, ValkeySyncOutputPublisher>();
+        services.AddSingleton<ISyncRequestListener, ValkeySyncRequestListener>();
         // VaultwardenService must be Singleton to maintain authentication state across continuous sync runs
         services.AddSingleton<IVaultwardenService, VaultwardenService>();
         services.AddSingleton<IKubernetesService, KubernetesService>();
@@ -16,19 +16,25 @@ public class CommandHandler : ICommandHandler
     private readonly IVaultwardenService _vaultwardenService;
     private readonly IKubernetesService _kubernetesService;
     private readonly AppSettings _appSettings;
+    private readonly IValkeySyncOutputPublisher _outputPublisher;
+    private readonly ISyncRequestListener _syncRequests;
 
     public CommandHandler(
         ILogger<CommandHandler> logger,
         ISyncService syncService,
         IVaultwardenService vaultwardenService,
         IKubernetesService kubernetesService,
-        AppSettings appSettings)
+        AppSettings appSettings,
+        IValkeySyncOutputPublisher outputPublisher,
+        ISyncRequestListener syncRequests)
     {
         _logger = logger;
         _syncService = syncService;
         _vaultwardenService = vaultwardenService;
         _kubernetesService = kubernetesService;
         _appSettings = appSettings;
+        _outputPublisher = outputPublisher;
+        _syncRequests = syncRequests;
     }
 
     public async Task<bool> HandleCommandAsync(string[] args)
@@ -66,8 +72,8 @@ public class CommandHandler : ICommandHandler
             using (var progressDisplay = new Services.DynamicSyncProgressDisplay(_logger))
             using (var progressReporter = new Services.DynamicProgressReporter(progressDisplay))
             {
-                // Perform sync with dynamic progress reporting
-                syncSummary = await _syncService.SyncAsync(progressReporter);
+                // Perform sync with dynamic progress reporting, also pushed to the dashboard
+                syncSummary = await _syncService.SyncAsync(new PushProgressReporter(progressReporter, _outputPublisher));
             }
             
                                 // Show detailed summary
@@ -202,17 +208,15 @@ public class CommandHandler : ICommandHandler
             while (!cancellationTokenSource.Token.IsCancellationRequested)
             {
                 runCount++;
+                SyncRequest? request = null;
                 
                 // Wait before each sync (except the first one)
                 // This ensures consistent interval between sync START times
                 if (runCount > 1 && !cancellationTokenSource.Token.IsCancellationRequested)
                 {
-                    _logger.LogInformation("Waiting {Interval} seconds before next sync...", 
-                        _appSettings.Sync.SyncIntervalSeconds);
                     try
                     {
-                        await Task.Delay(TimeSpan.FromSeconds(_appSettings.Sync.SyncIntervalSeconds), 
-                            cancellationTokenSource.Token);
+                        request = await WaitForNextSyncAsync(cancellationTokenSource.Token);
                     }
                     catch (OperationCanceledException)
                     {
@@ -227,9 +231,18 @@ public class CommandHandler : ICommandHandler
                     continue; // Try again in next iteration (which will wait the interval)
                 }
                 
+                _syncRequests.SetBusy(true);
                 try
                 {
-                    _logger.LogInformation("Starting sync run #{RunCount}...", runCount);
+                    if (request != null)
+                    {
+                        _logger.LogInformation("Starting sync run #{RunCount} ({Request} requested from the dashboard)...", 
+                            runCount, request.Describe());
+                    }
+                    else
+                    {
+                        _logger.LogInformation("Starting sync run #{RunCount}...", runCount);
+                    }
                     
                     SyncSummary syncSummary;
                     
@@ -237,8 +250,8 @@ public class CommandHandler : ICommandHandler
                     using (var progressDisplay = new Services.DynamicSyncProgressDisplay(_logger))
                     using (var progressReporter = new Services.DynamicProgressReporter(progressDisplay))
                     {
-                        // Perform sync with dynamic progress reporting
-                        syncSummary = await _syncService.SyncAsync(progressReporter);
+                        // Perform sync with dynamic progress reporting, also pushed to the dashboard
+                        syncSummary = await _syncService.SyncAsync(new PushProgressReporter(progressReporter, _outputPublisher), request);
                     }
                     
                     // Show detailed summary
@@ -252,6 +265,7 @@ public class CommandHandler : ICommandHandler
                 }
                 finally
                 {
+                    _syncRequests.SetBusy(false);
                     _syncLock.Release();
                 }
             }
@@ -271,6 +285,62 @@ public class CommandHandler : ICommandHandler
         }
     }
 
+    /// <summary>
+    /// Waits until the next scheduled sync is due, honouring pauses and interval overrides made
+    /// from the dashboard. Returns the dashboard request that ended the wait early, if any;
+    /// requests still run while scheduled syncs are paused.
+    /// </summary>
+    private async Task<SyncRequest?> WaitForNextSyncAsync(CancellationToken cancellationToken)
+    {
+        var waitStartedAt = DateTime.UtcNow;
+        string? announced = null;
+
+        while (true)
+        {
+            var schedule = await _syncRequests.GetScheduleAsync();
+            var now = DateTime.UtcNow;
+            var wait = schedule.NextCheckIn(_appSettings.Sync.SyncIntervalSeconds, waitStartedAt, now);
+            if (wait <= TimeSpan.Zero)
+            {
+                return null;
+            }
+
+            // Wake-ups only log when the schedule actually changed
+            var paused = schedule.IsPaused(now);
+            var interval = schedule.EffectiveIntervalSeconds(_appSettings.Sync.SyncIntervalSeconds, now);
+            var state = paused ? $"paused:{schedule.PausedBy}:{schedule.PausedUntil:O}" : $"interval:{interval}";
+            if (state != announced)
+            {
+                announced = state;
+                if (paused && schedule.PausedUntil.HasValue)
+                {
+                    _logger.LogInformation("⏸️  Scheduled syncs paused by {PausedBy} until {PausedUntil:u}", 
+                        schedule.PausedBy ?? "unknown", schedule.PausedUntil.Value);
+                }
+                else if (paused)
+                {
+                    _logger.LogInformation("⏸️  Scheduled syncs paused by {PausedBy} until resumed", schedule.PausedBy ?? "unknown");
+                }
+                else if (schedule.HasIntervalOverride(now))
+                {
+                    _logger.LogInformation("Waiting {Interval} seconds before next sync (temporary interval set by {ChangedBy})...", 
+                        interval, schedule.IntervalChangedBy ?? "unknown");
+                }
+                else
+                {
+                    _logger.LogInformation("Waiting {Interval} seconds before next sync...", interval);
+                }
+            }
+
+            // "Sync now" and resync requests from the dashboard end the wait early
+            var wake = await _syncRequests.WaitAsync(wait, cancellationToken);
+            if (wake.Request != null)
+            {
+                return wake.Request;
+            }
+        }
+    }
+
     private string GetSyncCompletionMessage(SyncSummary summary, int? runNumber = null)
     {
         var prefix = runNumber.HasValue ? $"Sync #{runNumber} " : "Sync ";
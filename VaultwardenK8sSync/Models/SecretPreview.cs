@@ -0,0 +1,15 @@
+namespace VaultwardenK8sSync.Models;
+
+/// <summary>
+/// The Kubernetes Secret an item would be synced to on its own, without any values. Built on each
+/// sync and cached with the item so the dashboard can render the manifest before it is applied.
+/// </summary>
+public class SecretPreview
+{
+    public string Type { get; set; } = FieldNameConfig.DefaultSecretType;
+    public List<string> DataKeys { get; set; } = new();
+    public Dictionary<string, string> Labels { get; set; } = new();
+    public Dictionary<string, string> Annotations { get; set; } = new();
+    /// <summary>Why the sync could not build the secret data, e.g. a registry item without a password</summary>
+    public string? Error { get; set; }
+}
@@ -0,0 +1,16 @@
+namespace VaultwardenK8sSync.Models;
+
+/// <summary>
+/// Point-in-time progress of the running sync, pushed to the dashboard through Valkey
+/// </summary>
+public class SyncProgressSnapshot
+{
+    public string Phase { get; set; } = string.Empty;
+    public int Processed { get; set; }
+    public int Total { get; set; }
+    public int Failed { get; set; }
+    public string? CurrentItem { get; set; }
+    public DateTime StartedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+    public bool Completed { get; set; }
+}
@@ -0,0 +1,48 @@
+using System.Text.Json.Serialization;
+
+namespace VaultwardenK8sSync.Models;
+
+/// <summary>
+/// Sync requested from the dashboard. Without a namespace, secret or item it asks for a
+/// full sync; otherwise only the matching secrets are reconciled.
+/// </summary>
+public class SyncRequest
+{
+    public string Id { get; set; } = Guid.NewGuid().ToString("N");
+    public string? Namespace { get; set; }
+    public string? SecretName { get; set; }
+    public string? ItemId { get; set; }
+    public DateTime RequestedAt { get; set; } = DateTime.UtcNow;
+
+    [JsonIgnore]
+    public bool IsScoped =>
+        !string.IsNullOrEmpty(Namespace) || !string.IsNullOrEmpty(SecretName) || !string.IsNullOrEmpty(ItemId);
+
+    /// <summary>
+    /// Whether a secret is targeted. Secrets are matched as a whole so a resync never writes a
+    /// secret from only some of the items that build it.
+    /// </summary>
+    public bool Matches(string namespaceName, string secretName, IEnumerable<VaultwardenItem> secretItems)
+    {
+        if (!string.IsNullOrEmpty(Namespace) && Namespace != namespaceName) return false;
+        if (!string.IsNullOrEmpty(SecretName) && SecretName != secretName) return false;
+        if (!string.IsNullOrEmpty(ItemId) && !secretItems.Any(item => item.Id == ItemId)) return false;
+        return true;
+    }
+
+    public string Describe()
+    {
+        if (!IsScoped) return "full sync";
+
+        var parts = new List<string>();
+        if (!string.IsNullOrEmpty(Namespace) || !string.IsNullOrEmpty(SecretName))
+        {
+            parts.Add($"{(string.IsNullOrEmpty(Namespace) ? "*" : Namespace)}/{(string.IsNullOrEmpty(SecretName) ? "*" : SecretName)}");
+        }
+        if (!string.IsNullOrEmpty(ItemId))
+        {
+            parts.Add($"item {ItemId}");
+        }
+        return $"resync of {string.Join(", ", parts)}";
+    }
+}
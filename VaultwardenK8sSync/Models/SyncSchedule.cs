@@ -0,0 +1,58 @@
+namespace VaultwardenK8sSync.Models;
+
+/// <summary>
+/// Temporary changes to the continuous sync schedule made from the dashboard, e.g. a pause
+/// during a maintenance window. Stored in Valkey and re-read by the sync loop while it waits.
+/// </summary>
+public class SyncSchedule
+{
+    private static readonly TimeSpan PausedRecheckInterval = TimeSpan.FromHours(1);
+
+    public bool Paused { get; set; }
+    /// <summary>Scheduled syncs resume on their own at this time; null pauses until resumed</summary>
+    public DateTime? PausedUntil { get; set; }
+    public DateTime? PausedAt { get; set; }
+    public string? PausedBy { get; set; }
+    public string? PauseReason { get; set; }
+
+    /// <summary>Overrides the configured interval; null uses SYNC__SYNCINTERVALSECONDS</summary>
+    public int? IntervalSeconds { get; set; }
+    public DateTime? IntervalUntil { get; set; }
+    public string? IntervalChangedBy { get; set; }
+
+    public bool IsPaused(DateTime now) => Paused && (PausedUntil == null || now < PausedUntil);
+
+    public bool HasIntervalOverride(DateTime now) =>
+        IntervalSeconds is > 0 && (IntervalUntil == null || now < IntervalUntil);
+
+    public int EffectiveIntervalSeconds(int configuredSeconds, DateTime now) =>
+        HasIntervalOverride(now) ? IntervalSeconds!.Value : configuredSeconds;
+
+    /// <summary>
+    /// How long the sync loop should wait before looking again, counted from when it started
+    /// waiting. Zero means a scheduled sync is due.
+    /// </summary>
+    public TimeSpan NextCheckIn(int configuredSeconds, DateTime waitStartedAt, DateTime now)
+    {
+        TimeSpan wait;
+        if (IsPaused(now))
+        {
+            // Re-check now and then in case a resume notification was missed
+            wait = PausedUntil.HasValue ? PausedUntil.Value - now : PausedRecheckInterval;
+            if (wait > PausedRecheckInterval) wait = PausedRecheckInterval;
+        }
+        else
+        {
+            var dueAt = waitStartedAt.AddSeconds(EffectiveIntervalSeconds(configuredSeconds, now));
+            if (now >= dueAt) return TimeSpan.Zero;
+            wait = dueAt - now;
+        }
+
+        // An expiring interval override moves the due time
+        if (HasIntervalOverride(now) && IntervalUntil.HasValue && IntervalUntil.Value - now < wait)
+        {
+            wait = IntervalUntil.Value - now;
+        }
+        return wait;
+    }
+}
@@ -130,6 +130,7 @@ public class SecretSummary
     public string? ChangeReason { get; set; }
     public int SourceItemCount { get; set; }
     public string? Error { get; set; }
+    public List<string> DataKeys { get; set; } = new();
     
     public string GetStatusIcon()
     {
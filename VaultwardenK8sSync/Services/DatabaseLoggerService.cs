@@ -1,3 +1,4 @@
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.DependencyInjection;
 using VaultwardenK8sSync.Database;
@@ -16,6 +17,10 @@ public class DatabaseLoggerService : IDatabaseLoggerService
     private readonly bool _isEnabled;
     private readonly Dictionary<long, SyncLog> _activeSyncLogs = new();
     private readonly Dictionary<long, DateTime> _syncStartTimes = new();
+    private readonly Dictionary<long, List<SyncItem>> _pendingSyncItems = new();
+
+    // Per-secret results older than this are pruned when a run completes
+    internal static readonly TimeSpan SyncItemRetention = TimeSpan.FromDays(30);
 
     public DatabaseLoggerService(
         ILogger<DatabaseLoggerService> logger,
@@ -112,6 +117,8 @@ public class DatabaseLoggerService : IDatabaseLoggerService
             return;
         }
 
+        await SaveSyncItemsAsync(syncLogId);
+
         // Retry up to 3 times with delays to handle database concurrency issues
         var maxAttempts = 3;
         for (int attempt = 1; attempt <= maxAttempts; attempt++)
@@ -165,7 +172,10 @@ public class DatabaseLoggerService : IDatabaseLoggerService
         }
     }
 
-    public async Task LogSyncItemAsync(
+    /// <summary>
+    /// Buffers the result until the run completes, so a run costs one write however many secrets it touched
+    /// </summary>
+    public Task LogSyncItemAsync(
         long syncLogId, 
         string itemKey, 
         string itemName, 
@@ -173,33 +183,59 @@ public class DatabaseLoggerService : IDatabaseLoggerService
         string secretName, 
         string status, 
         string outcome, 
-        string? details = null)
+        string? details = null,
+        IReadOnlyCollection<string>? dataKeys = null)
     {
-        if (!_isEnabled || syncLogId == 0) return;
+        if (!_isEnabled || syncLogId == 0) return Task.CompletedTask;
 
-        try
+        if (!_pendingSyncItems.TryGetValue(syncLogId, out var pending))
         {
-            var syncItem = new SyncItem
-            {
-                SyncLogId = syncLogId,
-                ItemKey = itemKey,
-                ItemName = itemName,
-                Namespace = namespaceName,
-                SecretName = secretName,
-                Status = status,
-                Outcome = outcome,
-                Details = details,
-                Timestamp = DateTime.UtcNow
-            };
+            pending = new List<SyncItem>();
+            _pendingSyncItems[syncLogId] = pending;
+        }
 
+        pending.Add(new SyncItem
+        {
+            SyncLogId = syncLogId,
+            ItemKey = itemKey,
+            ItemName = itemName,
+            Namespace = namespaceName,
+            SecretName = secretName,
+            Status = status,
+            Outcome = outcome,
+            Details = details,
+            DataKeysJson = dataKeys != null ? JsonSerializer.Serialize(dataKeys) : null,
+            Timestamp = DateTime.UtcNow
+        });
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Writes the buffered results of a run in one save and prunes results past the retention window
+    /// </summary>
+    private async Task SaveSyncItemsAsync(long syncLogId)
+    {
+        if (!_pendingSyncItems.Remove(syncLogId, out var pending))
+            pending = new List<SyncItem>();
+
+        try
+        {
             using var scope = _scopeFactory.CreateScope();
             var context = scope.ServiceProvider.GetRequiredService<SyncDbContext>();
-            context.SyncItems.Add(syncItem);
-            await context.SaveChangesAsync();
+            if (pending.Count > 0)
+            {
+                context.SyncItems.AddRange(pending);
+                await context.SaveChangesAsync();
+            }
+
+            var cutoff = DateTime.UtcNow - SyncItemRetention;
+            var pruned = await context.SyncItems.Where(i => i.Timestamp < cutoff).ExecuteDeleteAsync();
+            if (pruned > 0)
+                _logger.LogDebug("Pruned {Count} sync item(s) older than {Days} days", pruned, SyncItemRetention.TotalDays);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Failed to log sync item {ItemKey}", itemKey);
+            _logger.LogError(ex, "Failed to save {Count} sync item(s) for sync log {SyncLogId}", pending.Count, syncLogId);
         }
     }
 
@@ -238,7 +274,7 @@ public class DatabaseLoggerService : IDatabaseLoggerService
         }
     }
 
-    public async Task CacheVaultwardenItemsAsync(List<Models.VaultwardenItem> items)
+    public async Task CacheVaultwardenItemsAsync(List<Models.VaultwardenItem> items, IReadOnlyDictionary<string, Models.SecretPreview> previews)
     {
         if (!_isEnabled)
         {
@@ -333,7 +369,9 @@ public class DatabaseLoggerService : IDatabaseLoggerService
                     Notes = item.Notes,
                     LastFetched = now,
                     HasNamespacesField = hasNamespacesField,
-                    NamespacesJson = namespaces.Any() ? JsonSerializer.Serialize(namespaces) : null
+                    NamespacesJson = namespaces.Any() ? JsonSerializer.Serialize(namespaces) : null,
+                    SecretName = SanitizeSecretName(item.ExtractSecretName() ?? item.Name),
+                    SecretPreviewJson = previews.TryGetValue(item.Id, out var preview) ? JsonSerializer.Serialize(preview) : null
                 };
                 
                 context.VaultwardenItems.Add(dbItem);
@@ -8,6 +8,10 @@ public interface ISyncProgressReporter
     void SetPhase(string phase);
     void AddItem(string key, string name, string status = "Pending");
     void UpdateItem(string key, string status, string? details = null, SyncItemOutcome? outcome = null);
+    /// <summary>Marks the item that is being processed right now</summary>
+    void BeginItem(string key);
+    /// <summary>Marks an item as finished without printing a status line for it</summary>
+    void EndItem(string key, SyncItemOutcome outcome);
     void Start(string phase, int totalItems = 0);
     void Complete(string? finalMessage = null);
 }
@@ -20,6 +24,8 @@ public class NullProgressReporter : ISyncProgressReporter
     public void SetPhase(string phase) { }
     public void AddItem(string key, string name, string status = "Pending") { }
     public void UpdateItem(string key, string status, string? details = null, SyncItemOutcome? outcome = null) { }
+    public void BeginItem(string key) { }
+    public void EndItem(string key, SyncItemOutcome outcome) { }
     public void Start(string phase, int totalItems = 0) { }
     public void Complete(string? finalMessage = null) { }
 }
@@ -40,6 +46,9 @@ public class DynamicProgressReporter : ISyncProgressReporter, IDisposable
     public void AddItem(string key, string name, string status = "Pending") => _display.AddItem(key, name, status);
     public void UpdateItem(string key, string status, string? details = null, SyncItemOutcome? outcome = null) 
         => _display.UpdateItem(key, status, details, outcome);
+    // The console display only reports phases and the final summary
+    public void BeginItem(string key) { }
+    public void EndItem(string key, SyncItemOutcome outcome) { }
     public void Start(string phase, int totalItems = 0) => _display.Start(phase, totalItems);
     public void Complete(string? finalMessage = null) => _display.Complete(finalMessage);
 
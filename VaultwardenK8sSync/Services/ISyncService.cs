@@ -6,6 +6,11 @@ public interface ISyncService
 {
     Task<SyncSummary> SyncAsync();
     Task<SyncSummary> SyncAsync(ISyncProgressReporter? progressReporter);
+    /// <summary>
+    /// Syncs what <paramref name="request"/> asks for; a scoped request only reconciles the
+    /// matching secrets and skips orphan cleanup.
+    /// </summary>
+    Task<SyncSummary> SyncAsync(ISyncProgressReporter? progressReporter, SyncRequest? request);
     Task<bool> SyncNamespaceAsync(string namespaceName);
     Task<bool> CleanupOrphanedSecretsAsync();
     void ResetItemsHash();
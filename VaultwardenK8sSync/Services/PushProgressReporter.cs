@@ -0,0 +1,145 @@
+using VaultwardenK8sSync.Models;
+
+namespace VaultwardenK8sSync.Services;
+
+/// <summary>
+/// Progress reporter that forwards to another reporter (the console display) and pushes
+/// progress snapshots to the dashboard. Item updates are throttled; phase changes and
+/// completion are always published.
+/// </summary>
+public class PushProgressReporter : ISyncProgressReporter
+{
+    private static readonly TimeSpan PublishInterval = TimeSpan.FromMilliseconds(250);
+
+    private readonly ISyncProgressReporter _inner;
+    private readonly IValkeySyncOutputPublisher _publisher;
+    private readonly Func<DateTime> _clock;
+    private readonly object _lock = new();
+    private readonly HashSet<string> _items = new();
+    private readonly HashSet<string> _finished = new();
+    private readonly SyncProgressSnapshot _snapshot = new();
+    private DateTime _lastPublished = DateTime.MinValue;
+
+    public PushProgressReporter(ISyncProgressReporter inner, IValkeySyncOutputPublisher publisher, Func<DateTime>? clock = null)
+    {
+        _inner = inner;
+        _publisher = publisher;
+        _clock = clock ?? (() => DateTime.UtcNow);
+    }
+
+    public void Start(string phase, int totalItems = 0)
+    {
+        _inner.Start(phase, totalItems);
+        lock (_lock)
+        {
+            _items.Clear();
+            _finished.Clear();
+            _snapshot.Phase = phase;
+            _snapshot.Processed = 0;
+            _snapshot.Failed = 0;
+            _snapshot.Total = totalItems;
+            _snapshot.CurrentItem = null;
+            _snapshot.StartedAt = _clock();
+            _snapshot.Completed = false;
+            Publish(force: true);
+        }
+    }
+
+    public void SetPhase(string phase)
+    {
+        _inner.SetPhase(phase);
+        lock (_lock)
+        {
+            _snapshot.Phase = phase;
+            _snapshot.CurrentItem = null;
+            Publish(force: true);
+        }
+    }
+
+    public void AddItem(string key, string name, string status = "Pending")
+    {
+        _inner.AddItem(key, name, status);
+        lock (_lock)
+        {
+            if (_items.Add(key))
+            {
+                _snapshot.Total = Math.Max(_snapshot.Total, _items.Count);
+            }
+            Publish(force: false);
+        }
+    }
+
+    public void UpdateItem(string key, string status, string? details = null, SyncItemOutcome? outcome = null)
+    {
+        _inner.UpdateItem(key, status, details, outcome);
+        lock (_lock)
+        {
+            if (outcome.HasValue) Finish(key, outcome.Value);
+            Publish(force: false);
+        }
+    }
+
+    public void BeginItem(string key)
+    {
+        _inner.BeginItem(key);
+        lock (_lock)
+        {
+            _snapshot.CurrentItem = key;
+            Publish(force: false);
+        }
+    }
+
+    public void EndItem(string key, SyncItemOutcome outcome)
+    {
+        _inner.EndItem(key, outcome);
+        lock (_lock)
+        {
+            Finish(key, outcome);
+            Publish(force: false);
+        }
+    }
+
+    public void Complete(string? finalMessage = null)
+    {
+        _inner.Complete(finalMessage);
+        lock (_lock)
+        {
+            _snapshot.Phase = finalMessage ?? "Sync completed";
+            _snapshot.CurrentItem = null;
+            _snapshot.Completed = true;
+            Publish(force: true);
+        }
+    }
+
+    private void Finish(string key, SyncItemOutcome outcome)
+    {
+        // Items can be reported twice (per secret and again when their namespace fails)
+        if (!_finished.Add(key)) return;
+
+        _snapshot.Processed++;
+        if (outcome == SyncItemOutcome.Failed) _snapshot.Failed++;
+        if (_snapshot.CurrentItem == key) _snapshot.CurrentItem = null;
+    }
+
+    private void Publish(bool force)
+    {
+        var now = _clock();
+        if (!force && now - _lastPublished < PublishInterval) return;
+
+        _lastPublished = now;
+        _snapshot.UpdatedAt = now;
+
+        // Fire and forget - progress must never slow the sync down
+        _ = _publisher.PublishProgressAsync(new SyncProgressSnapshot
+        {
+            Phase = _snapshot.Phase,
+            Processed = _snapshot.Processed,
+            Total = _snapshot.Total,
+            Failed = _snapshot.Failed,
+            CurrentItem = _snapshot.CurrentItem,
+            StartedAt = _snapshot.StartedAt,
+            UpdatedAt = _snapshot.UpdatedAt,
+            Completed = _snapshot.Completed
+        });
+    }
+}
@@ -0,0 +1,85 @@
+namespace VaultwardenK8sSync.Services;
+
+/// <summary>
+/// Wire format of the live sync output. Every published message is prefixed with a
+/// monotonically increasing sequence number (<c>__SEQ:42__message</c>) so a reconnecting
+/// client can ask for only the lines it missed.
+/// </summary>
+public static class SyncOutputFrame
+{
+    public const string Channel = "sync:output";
+    public const string HistoryKey = Channel + ":history";
+    public const string SequenceKey = Channel + ":seq";
+    public const string ClearMarker = "__CLEAR__";
+    public const string PingMarker = "__PING__";
+
+    /// <summary>Progress snapshots (JSON) are published here, the newest one is kept under <see cref="ProgressKey"/></summary>
+    public const string ProgressChannel = "sync:progress";
+    public const string ProgressKey = ProgressChannel + ":latest";
+
+    private const string SeqPrefix = "__SEQ:";
+    private const string SeqSuffix = "__";
+
+    public static string Format(long sequence, string message) => $"{SeqPrefix}{sequence}{SeqSuffix}{message}";
+
+    /// <summary>
+    /// Splits a frame into its sequence number and message. Frames written before sequence
+    /// numbers existed return false and are passed through unchanged.
+    /// </summary>
+    public static bool TryParse(string frame, out long sequence, out string message)
+    {
+        sequence = 0;
+        message = frame;
+
+        if (!frame.StartsWith(SeqPrefix, StringComparison.Ordinal)) return false;
+
+        var end = frame.IndexOf(SeqSuffix, SeqPrefix.Length, StringComparison.Ordinal);
+        if (end < 0 || !long.TryParse(frame.AsSpan(SeqPrefix.Length, end - SeqPrefix.Length), out sequence))
+        {
+            sequence = 0;
+            return false;
+        }
+
+        message = frame[(end + SeqSuffix.Length)..];
+        return true;
+    }
+
+    /// <summary>
+    /// Decides what a (re)connecting client gets from the stored history. When the client's
+    /// last sequence number is still covered by the history only the newer frames are sent,
+    /// otherwise the client is told to clear and receives everything.
+    /// </summary>
+    public static SyncOutputReplay SelectReplay(IReadOnlyList<string> history, long? lastSequence)
+    {
+        if (lastSequence == null)
+        {
+            return new SyncOutputReplay(true, history.ToList());
+        }
+
+        var sequenced = new List<(long Sequence, string Frame)>();
+        foreach (var frame in history)
+        {
+            if (TryParse(frame, out var sequence, out _))
+            {
+                sequenced.Add((sequence, frame));
+            }
+        }
+
+        // History was cleared, trimmed past the client's position, or the counter restarted
+        var covered = sequenced.Count > 0 &&
+            sequenced[0].Sequence <= lastSequence.Value + 1 &&
+            sequenced[^1].Sequence >= lastSequence.Value;
+
+        if (!covered)
+        {
+            return new SyncOutputReplay(true, history.ToList());
+        }
+
+        return new SyncOutputReplay(false, sequenced
+            .Where(entry => entry.Sequence > lastSequence.Value)
+            .Select(entry => entry.Frame)
+            .ToList());
+    }
+}
+
+public record SyncOutputReplay(bool ClearFirst, List<string> Frames);
@@ -0,0 +1,78 @@
+using System.Text.Json;
+using VaultwardenK8sSync.Models;
+
+namespace VaultwardenK8sSync.Services;
+
+/// <summary>
+/// Wire format of sync requests and schedule changes sent by the API to the continuous sync
+/// loop, plus the check the API uses to refuse a request while a sync is running.
+/// </summary>
+public static class SyncRequestChannel
+{
+    public const string Channel = "sync:requests";
+
+    /// <summary>The current <see cref="SyncSchedule"/> (JSON)</summary>
+    public const string ScheduleKey = "sync:schedule";
+
+    /// <summary>Published on <see cref="Channel"/> after <see cref="ScheduleKey"/> changed</summary>
+    public const string ScheduleChangedMarker = "__SCHEDULE_CHANGED__";
+
+    /// <summary>An unfinished progress snapshot older than this belongs to a sync that died</summary>
+    public static readonly TimeSpan StaleProgressAfter = TimeSpan.FromMinutes(5);
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    public static string Serialize(SyncRequest request) => JsonSerializer.Serialize(request, JsonOptions);
+
+    public static bool TryParse(string json, out SyncRequest request)
+    {
+        request = new SyncRequest();
+        try
+        {
+            var parsed = JsonSerializer.Deserialize<SyncRequest>(json, JsonOptions);
+            if (parsed == null) return false;
+            request = parsed;
+            return true;
+        }
+        catch (JsonException)
+        {
+            return false;
+        }
+    }
+
+    public static string SerializeSchedule(SyncSchedule schedule) => JsonSerializer.Serialize(schedule, JsonOptions);
+
+    /// <summary>Reads a stored schedule; a missing or unreadable one means the configured schedule applies</summary>
+    public static SyncSchedule ParseSchedule(string? json)
+    {
+        if (string.IsNullOrEmpty(json)) return new SyncSchedule();
+
+        try
+        {
+            return JsonSerializer.Deserialize<SyncSchedule>(json, JsonOptions) ?? new SyncSchedule();
+        }
+        catch (JsonException)
+        {
+            return new SyncSchedule();
+        }
+    }
+
+    /// <summary>
+    /// Whether the latest pushed progress snapshot (JSON, see <see cref="SyncOutputFrame.ProgressKey"/>)
+    /// describes a sync that is still running.
+    /// </summary>
+    public static bool IsSyncRunning(string? latestProgress, DateTime now)
+    {
+        if (string.IsNullOrEmpty(latestProgress)) return false;
+
+        try
+        {
+            var snapshot = JsonSerializer.Deserialize<SyncProgressSnapshot>(latestProgress, JsonOptions);
+            return snapshot != null && !snapshot.Completed && now - snapshot.UpdatedAt < StaleProgressAfter;
+        }
+        catch (JsonException)
+        {
+            return false;
+        }
+    }
+}
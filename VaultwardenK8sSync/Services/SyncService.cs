@@ -19,6 +19,8 @@ public class SyncService : ISyncService
     private readonly DockerConfigJsonSettings _dockerConfigJsonSettings;
     private string? _lastItemsHash;
     private string? _currentItemsHash;
+    // Previews of the last sync by item id, with the content hash they were built from
+    private readonly Dictionary<string, (string ItemHash, Models.SecretPreview Preview)> _secretPreviews = new();
     private readonly Dictionary<string, DateTime> _secretExistsCache = new();
     private int _syncCount;
 
@@ -45,8 +47,15 @@ public class SyncService : ISyncService
         return await SyncAsync(null);
     }
 
-    public async Task<SyncSummary> SyncAsync(ISyncProgressReporter? progressReporter)
+    public Task<SyncSummary> SyncAsync(ISyncProgressReporter? progressReporter)
     {
+        return SyncAsync(progressReporter, null);
+    }
+
+    public async Task<SyncSummary> SyncAsync(ISyncProgressReporter? progressReporter, SyncRequest? request)
+    {
+        var scoped = request?.IsScoped == true;
+
         // Prevent concurrent syncs with global file-based lock (works across all processes)
         await using var syncLock = new GlobalSyncLock(_logger);
         
@@ -80,20 +89,27 @@ public class SyncService : ISyncService
 
         try
         {
-            progress.Start("Starting sync operation...");
+            progress.Start(scoped ? $"Starting {request!.Describe()}..." : "Starting sync operation...");
             progress.SetPhase("Authenticating and fetching items");
 
-            _logger.LogInformation("Starting sync");
+            if (scoped)
+            {
+                _logger.LogInformation("Starting {Request} requested from the dashboard", request!.Describe());
+            }
+            else
+            {
+                _logger.LogInformation("Starting sync");
+            }
 
             // Get all items from Vaultwarden
             var items = await _vaultwardenService.GetItemsAsync();
             summary.TotalItemsFromVaultwarden = items.Count;
             
             // Cache items in database for API to use (no auth needed in API)
-            await _dbLogger.CacheVaultwardenItemsAsync(items);
+            await _dbLogger.CacheVaultwardenItemsAsync(items, await BuildSecretPreviewsAsync(items));
             
             // Start sync log in database
-            syncLogId = await _dbLogger.StartSyncLogAsync("Full Sync", items.Count);
+            syncLogId = await _dbLogger.StartSyncLogAsync(scoped ? "Resync" : "Full Sync", items.Count);
             
             // Record items watched
             _metricsService.RecordItemsWatched(items.Count);
@@ -123,7 +139,8 @@ public class SyncService : ISyncService
             // Indicate whether the overall set of items changed since last successful sync.
             // If the quick-hash indicates no change we still perform existence verification for secrets,
             // but the sync summary should reflect that there were no item changes.
-            summary.HasChanges = !shouldSkipReconciliation;
+            // A resync is asked for explicitly, so it always counts as a change
+            summary.HasChanges = scoped || !shouldSkipReconciliation;
 
             _logger.LogDebug("Proceeding with reconciliation (hash changed: {HashChanged})", !shouldSkipReconciliation);
 
@@ -148,6 +165,15 @@ public class SyncService : ISyncService
                 }
             }
 
+            if (scoped)
+            {
+                itemsByNamespace = ScopeItemsByNamespace(itemsByNamespace, request!);
+                if (itemsByNamespace.Count == 0)
+                {
+                    summary.AddWarning($"Nothing matched the {request!.Describe()}");
+                }
+            }
+
             summary.TotalNamespaces = itemsByNamespace.Count;
             _logger.LogInformation("Found {ItemsWithNamespaces}/{TotalItems} items with namespace tags across {NamespaceCount} namespaces", 
                 itemsWithNamespaces, items.Count, itemsByNamespace.Count);
@@ -206,13 +232,13 @@ public class SyncService : ISyncService
                 }
             }
 
-            // Cleanup orphaned secrets if enabled (reuse cached items)
-            if (_syncConfig.DeleteOrphans)
+            // Cleanup orphaned secrets if enabled (reuse cached items). A resync only touches what it was asked for.
+            if (_syncConfig.DeleteOrphans && !scoped)
             {
                 progress.SetPhase("Cleaning up orphaned secrets");
                 try
                 {
-                    var orphanSummary = await CleanupOrphanedSecretsAsync(items);
+                    var orphanSummary = await CleanupOrphanedSecretsAsync(items, syncLogId);
                     summary.OrphanCleanup = orphanSummary;
                 }
                 catch (Exception ex)
@@ -296,8 +322,8 @@ public class SyncService : ISyncService
                 _metricsService.SetLastSuccessfulSync();
             }
             
-            // Only update the hash if the sync completed successfully (no failed items)
-            if (summary.OverallSuccess)
+            // Only update the hash if the sync completed successfully (no failed items) and covered every item
+            if (summary.OverallSuccess && !scoped)
             {
                 _lastItemsHash = _currentItemsHash;
                 _logger.LogDebug("Updated items hash to {Hash} after successful sync", 
@@ -362,6 +388,33 @@ public class SyncService : ISyncService
         _logger.LogDebug("Reset items hash - next sync will process all items");
     }
 
+    /// <summary>
+    /// Keeps only the items of secrets targeted by a scoped request. Whole secrets are kept
+    /// because a secret's data is built from all of its items.
+    /// </summary>
+    private Dictionary<string, List<Models.VaultwardenItem>> ScopeItemsByNamespace(
+        Dictionary<string, List<Models.VaultwardenItem>> itemsByNamespace, SyncRequest request)
+    {
+        var scopedItems = new Dictionary<string, List<Models.VaultwardenItem>>();
+
+        foreach (var (namespaceName, namespaceItems) in itemsByNamespace)
+        {
+            var matching = GroupItemsBySecretName(namespaceItems)
+                .Where(group => request.Matches(namespaceName, group.Key, group.Value))
+                .SelectMany(group => group.Value)
+                .ToList();
+
+            if (matching.Count > 0)
+            {
+                scopedItems[namespaceName] = matching;
+            }
+        }
+
+        _logger.LogInformation("{Request} matched {SecretCount} secret(s) in {NamespaceCount} namespace(s)",
+            request.Describe(), scopedItems.Sum(entry => GroupItemsBySecretName(entry.Value).Count), scopedItems.Count);
+        return scopedItems;
+    }
+
     private async Task<NamespaceSummary> SyncNamespaceAsync(string namespaceName, List<Models.VaultwardenItem> items, SyncSummary parentSummary, ISyncProgressReporter? progress = null, long syncLogId = 0)
     {
         // Begin namespace-level logging scope
@@ -393,12 +446,17 @@ public class SyncService : ISyncService
                 try
                 {
                     // progress?.UpdateItem(key, "Processing...", $"Items: {secretItems.Count}");
+                    progress?.BeginItem(key);
                     
                     var secretSummary = await SyncSecretAsync(namespaceName, secretName, secretItems, syncLogId);
                     namespaceSummary.AddSecret(secretSummary);
                     
                     _logger.LogDebug("SyncNamespaceAsync: Secret {SecretName} in namespace {Namespace} completed with outcome: {Outcome}", 
                         secretName, namespaceName, secretSummary.Outcome);
+
+                    await LogSyncItemAsync(syncLogId, namespaceName, secretName, secretItems, secretSummary.Outcome,
+                        secretSummary.Outcome == ReconcileOutcome.Failed ? secretSummary.Error : secretSummary.ChangeReason,
+                        secretSummary.DataKeys);
                     
                     if (secretSummary.Outcome == ReconcileOutcome.Failed)
                     {
@@ -451,6 +509,7 @@ public class SyncService : ISyncService
                             : secretSummary.ChangeReason;
                         
                         // progress.UpdateItem(key, secretSummary.GetStatusText(), details, outcome);
+                        progress.EndItem(key, outcome);
                     }
                 }
                 catch (Exception ex)
@@ -466,6 +525,8 @@ public class SyncService : ISyncService
                     };
                     namespaceSummary.AddSecret(failedSecret);
                     namespaceSummary.Errors.Add($"Secret {secretName}: {ex.Message}");
+
+                    await LogSyncItemAsync(syncLogId, namespaceName, secretName, secretItems, ReconcileOutcome.Failed, ex.Message);
                     
                     // Log failed secret state to database
                     var firstItem = secretItems.FirstOrDefault();
@@ -483,6 +544,7 @@ public class SyncService : ISyncService
                     }
                     
                     // progress?.UpdateItem(key, "FAILED", ex.Message, SyncItemOutcome.Failed);
+                    progress?.EndItem(key, SyncItemOutcome.Failed);
                 }
             }
 
@@ -602,6 +664,81 @@ public class SyncService : ISyncService
         }
     }
 
+    /// <summary>
+    /// Builds the secret each item would produce on its own, keeping key names but no values, so the
+    /// dashboard can preview manifests. Mirrors the metadata CreateSecretAsync writes.
+    /// Only items with namespaces get one, and only items whose content changed are extracted again.
+    /// </summary>
+    private async Task<Dictionary<string, Models.SecretPreview>> BuildSecretPreviewsAsync(List<Models.VaultwardenItem> items)
+    {
+        var previews = new Dictionary<string, Models.SecretPreview>();
+        var built = new Dictionary<string, (string ItemHash, Models.SecretPreview Preview)>();
+
+        foreach (var item in items)
+        {
+            if (!item.ExtractNamespaces().Any())
+            {
+                continue;
+            }
+
+            var itemHash = CalculateItemHash(item);
+            if (_secretPreviews.TryGetValue(item.Id, out var cached) && cached.ItemHash == itemHash)
+            {
+                previews[item.Id] = cached.Preview;
+                built[item.Id] = cached;
+                continue;
+            }
+
+            var secretType = item.ExtractSecretType();
+            var preview = new Models.SecretPreview
+            {
+                Type = secretType,
+                Labels = new Dictionary<string, string>
+                {
+                    { Constants.Kubernetes.ManagedByLabel, Constants.Kubernetes.ManagedByValue },
+                    { Constants.Kubernetes.CreatedByLabel, Constants.Kubernetes.SyncServiceValue }
+                },
+                Annotations = item.ExtractSecretAnnotations()
+            };
+
+            // Custom labels cannot override the management labels
+            foreach (var kvp in item.ExtractSecretLabels())
+            {
+                preview.Labels.TryAdd(kvp.Key, kvp.Value);
+            }
+
+            try
+            {
+                var data = await ExtractSecretDataAsync(item, secretType);
+                preview.DataKeys = data.Keys.OrderBy(k => k, StringComparer.Ordinal).ToList();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogDebug(ex, "Could not build secret preview for item {ItemId}", item.Id);
+                preview.Error = ex.Message;
+            }
+
+            preview.Annotations[Constants.Kubernetes.HashAnnotationKey] = itemHash;
+            preview.Annotations[Constants.Kubernetes.ManagedKeysAnnotationKey] = KubernetesService.SerializeManagedKeysAnnotation(preview.DataKeys);
+            previews[item.Id] = preview;
+
+            // A failed extraction (e.g. an SSH key lookup) is retried on the next sync
+            if (preview.Error == null)
+            {
+                built[item.Id] = (itemHash, preview);
+            }
+        }
+
+        // Deleted items drop out
+        _secretPreviews.Clear();
+        foreach (var (itemId, entry) in built)
+        {
+            _secretPreviews[itemId] = entry;
+        }
+
+        return previews;
+    }
+
     private async Task<Dictionary<string, string>> ExtractSecretDataAsync(Models.VaultwardenItem item, string? secretType)
     {
         var data = secretType == "kubernetes.io/dockerconfigjson" 
@@ -957,7 +1094,7 @@ public class SyncService : ISyncService
         return summary.Success;
     }
 
-    private async Task<OrphanCleanupSummary> CleanupOrphanedSecretsAsync(List<Models.VaultwardenItem> items)
+    private async Task<OrphanCleanupSummary> CleanupOrphanedSecretsAsync(List<Models.VaultwardenItem> items, long syncLogId = 0)
     {
         var summary = new OrphanCleanupSummary { Enabled = true };
         
@@ -990,7 +1127,7 @@ public class SyncService : ISyncService
                 {
                     // Get items for this namespace (empty list if no items currently sync to this namespace)
                     var namespaceItems = itemsByNamespace.GetValueOrDefault(namespaceName, new List<Models.VaultwardenItem>());
-                    var namespaceSummary = await CleanupOrphanedSecretsInNamespaceAsync(namespaceName, namespaceItems);
+                    var namespaceSummary = await CleanupOrphanedSecretsInNamespaceAsync(namespaceName, namespaceItems, syncLogId);
                     if (namespaceSummary != null)
                     {
                         summary.Namespaces.Add(namespaceSummary);
@@ -1043,7 +1180,7 @@ public class SyncService : ISyncService
         return namespacesWithSecrets;
     }
 
-    private async Task<OrphanNamespaceSummary?> CleanupOrphanedSecretsInNamespaceAsync(string namespaceName, List<Models.VaultwardenItem> items)
+    private async Task<OrphanNamespaceSummary?> CleanupOrphanedSecretsInNamespaceAsync(string namespaceName, List<Models.VaultwardenItem> items, long syncLogId = 0)
     {
         try
         {
@@ -1094,6 +1231,7 @@ public class SyncService : ISyncService
                         _logger.LogDebug("[DRY RUN] Namespace {Namespace}: would clean up orphaned secret {SecretName}", 
                             namespaceName, orphanedSecret);
                         namespaceSummary.OrphansDeleted++; // Count as "would delete" for dry run
+                        await LogOrphanItemAsync(syncLogId, namespaceName, orphanedSecret, "Dry run - secret would be cleaned up");
                     }
                     else
                     {
@@ -1117,6 +1255,7 @@ public class SyncService : ISyncService
                                 0, // No managed keys remaining
                                 "Managed keys removed - external keys preserved"
                             );
+                            await LogOrphanItemAsync(syncLogId, namespaceName, orphanedSecret, "Managed keys removed - external keys preserved");
                         }
                         else if (keyRemovalResult == null)
                         {
@@ -1138,6 +1277,7 @@ public class SyncService : ISyncService
                                     0, // No data keys for deleted secret
                                     "Secret removed - no longer configured in Vaultwarden"
                                 );
+                                await LogOrphanItemAsync(syncLogId, namespaceName, orphanedSecret, "Secret removed - no longer configured in Vaultwarden");
                             }
                         }
                         else // keyRemovalResult == false
@@ -1270,6 +1410,37 @@ public class SyncService : ISyncService
         return itemsBySecretName;
     }
 
+    /// <summary>
+    /// Records the per-secret result of this sync run so the dashboard can show which runs touched a secret.
+    /// Unchanged secrets are not recorded: every run skips most of them, and they would fill the table.
+    /// </summary>
+    private async Task LogSyncItemAsync(long syncLogId, string namespaceName, string secretName, List<Models.VaultwardenItem> items, ReconcileOutcome outcome, string? details, List<string>? dataKeys = null)
+    {
+        if (syncLogId == 0 || outcome == ReconcileOutcome.Skipped) return;
+
+        await _dbLogger.LogSyncItemAsync(
+            syncLogId,
+            string.Join(",", items.Select(i => i.Id)),
+            string.Join(", ", items.Select(i => i.Name)),
+            namespaceName,
+            secretName,
+            outcome == ReconcileOutcome.Failed ? "Failed" : "Success",
+            outcome.ToString(),
+            details,
+            // A failed secret was not written, so its key set is unknown
+            outcome == ReconcileOutcome.Failed || dataKeys == null || dataKeys.Count == 0 ? null : dataKeys);
+    }
+
+    /// <summary>
+    /// Records an orphan cleanup in this sync run; there is no source item, so the key and name are left empty
+    /// </summary>
+    private async Task LogOrphanItemAsync(long syncLogId, string namespaceName, string secretName, string details)
+    {
+        if (syncLogId == 0) return;
+
+        await _dbLogger.LogSyncItemAsync(syncLogId, string.Empty, string.Empty, namespaceName, secretName, "Success", "Deleted", details);
+    }
+
     private async Task<SecretSummary> SyncSecretAsync(string namespaceName, string secretName, List<Models.VaultwardenItem> items, long syncLogId)
     {
         // Begin secret-level logging scope (include first item's ID for correlation)
@@ -1390,6 +1561,7 @@ public class SyncService : ISyncService
 
             _logger.LogDebug("SyncSecretAsync: Combined secret data for {SecretName} has {KeyCount} keys: {Keys}", 
                 secretName, combinedSecretData.Count, string.Join(", ", combinedSecretData.Keys));
+            secretSummary.DataKeys = combinedSecretData.Keys.OrderBy(k => k, StringComparer.Ordinal).ToList();
 
             // Create a combined hash for all items
             var combinedHash = string.Join("|", itemHashes.OrderBy(h => h));
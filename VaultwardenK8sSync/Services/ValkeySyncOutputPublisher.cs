@@ -1,5 +1,7 @@
+using System.Text.Json;
 using StackExchange.Redis;
 using Microsoft.Extensions.Logging;
+using VaultwardenK8sSync.Models;
 
 namespace VaultwardenK8sSync.Services;
 
@@ -7,15 +9,19 @@ public interface IValkeySyncOutputPublisher
 {
     Task PublishAsync(string message);
     Task ClearAsync();
+    Task PublishProgressAsync(SyncProgressSnapshot snapshot);
 }
 
 public class ValkeySyncOutputPublisher : IValkeySyncOutputPublisher, IDisposable
 {
     private readonly IConnectionMultiplexer? _valkey;
     private readonly ILogger<ValkeySyncOutputPublisher> _logger;
-    private readonly string _channel = "sync:output";
     private readonly bool _enabled;
 
+    private static readonly JsonSerializerOptions ProgressJsonOptions = new(JsonSerializerDefaults.Web);
+    // A snapshot outliving a crashed sync would show progress forever
+    private static readonly TimeSpan ProgressExpiry = TimeSpan.FromHours(1);
+
     public ValkeySyncOutputPublisher(ILogger<ValkeySyncOutputPublisher> logger)
     {
         _logger = logger;
@@ -52,13 +58,14 @@ public class ValkeySyncOutputPublisher : IValkeySyncOutputPublisher, IDisposable
         {
             var db = _valkey.GetDatabase();
             var subscriber = _valkey.GetSubscriber();
-            
+            var frame = SyncOutputFrame.Format(await db.StringIncrementAsync(SyncOutputFrame.SequenceKey), message);
+
             // Publish to channel for real-time streaming
-            await subscriber.PublishAsync(RedisChannel.Literal(_channel), message);
+            await subscriber.PublishAsync(RedisChannel.Literal(SyncOutputFrame.Channel), frame);
             
             // Also append to a list for history (keep last 1000 lines)
-            await db.ListRightPushAsync($"{_channel}:history", message);
-            await db.ListTrimAsync($"{_channel}:history", -1000, -1);
+            await db.ListRightPushAsync(SyncOutputFrame.HistoryKey, frame);
+            await db.ListTrimAsync(SyncOutputFrame.HistoryKey, -1000, -1);
         }
         catch (Exception ex)
         {
@@ -73,11 +80,13 @@ public class ValkeySyncOutputPublisher : IValkeySyncOutputPublisher, IDisposable
         try
         {
             var db = _valkey.GetDatabase();
-            await db.KeyDeleteAsync($"{_channel}:history");
+            await db.KeyDeleteAsync(SyncOutputFrame.HistoryKey);
             
-            // Publish clear signal
+            // Publish clear signal. It takes a sequence number too, so a client that was
+            // disconnected during the clear sees a gap and replays from scratch.
             var subscriber = _valkey.GetSubscriber();
-            await subscriber.PublishAsync(RedisChannel.Literal(_channel), "__CLEAR__");
+            var frame = SyncOutputFrame.Format(await db.StringIncrementAsync(SyncOutputFrame.SequenceKey), SyncOutputFrame.ClearMarker);
+            await subscriber.PublishAsync(RedisChannel.Literal(SyncOutputFrame.Channel), frame);
         }
         catch (Exception ex)
         {
@@ -85,6 +94,24 @@ public class ValkeySyncOutputPublisher : IValkeySyncOutputPublisher, IDisposable
         }
     }
 
+    public async Task PublishProgressAsync(SyncProgressSnapshot snapshot)
+    {
+        if (!_enabled || _valkey == null) return;
+
+        try
+        {
+            var json = JsonSerializer.Serialize(snapshot, ProgressJsonOptions);
+
+            // The latest snapshot is kept so clients connecting mid-sync start with the current state
+            await _valkey.GetDatabase().StringSetAsync(SyncOutputFrame.ProgressKey, json, ProgressExpiry);
+            await _valkey.GetSubscriber().PublishAsync(RedisChannel.Literal(SyncOutputFrame.ProgressChannel), json);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to publish sync progress to Valkey");
+        }
+    }
+
     public void Dispose()
     {
         _valkey?.Dispose();
@@ -0,0 +1,134 @@
+using System.Threading.Channels;
+using StackExchange.Redis;
+using Microsoft.Extensions.Logging;
+using VaultwardenK8sSync.Models;
+
+namespace VaultwardenK8sSync.Services;
+
+public enum SyncWakeReason
+{
+    TimeoutElapsed,
+    SyncRequested,
+    ScheduleChanged
+}
+
+/// <summary>Why <see cref="ISyncRequestListener.WaitAsync"/> returned, with the request if there was one</summary>
+public record SyncWake(SyncWakeReason Reason, SyncRequest? Request = null);
+
+public interface ISyncRequestListener
+{
+    /// <summary>
+    /// Waits up to <paramref name="timeout"/>. Returns early when the dashboard asks for a
+    /// sync or changes the schedule.
+    /// </summary>
+    Task<SyncWake> WaitAsync(TimeSpan timeout, CancellationToken cancellationToken);
+
+    /// <summary>Requests received while busy are rejected instead of queued</summary>
+    void SetBusy(bool busy);
+
+    /// <summary>Schedule changes made from the dashboard (pause, temporary interval)</summary>
+    Task<SyncSchedule> GetScheduleAsync();
+}
+
+/// <summary>
+/// Receives sync requests and schedule changes published by the API on
+/// <see cref="SyncRequestChannel.Channel"/>. Without Valkey it simply waits out the interval.
+/// </summary>
+public class ValkeySyncRequestListener : ISyncRequestListener, IDisposable
+{
+    private readonly IConnectionMultiplexer? _valkey;
+    private readonly IValkeySyncOutputPublisher _outputPublisher;
+    private readonly ILogger<ValkeySyncRequestListener> _logger;
+    private readonly Channel<SyncWake> _wakes = Channel.CreateUnbounded<SyncWake>();
+    private volatile bool _busy;
+
+    public ValkeySyncRequestListener(IValkeySyncOutputPublisher outputPublisher, ILogger<ValkeySyncRequestListener> logger)
+    {
+        _outputPublisher = outputPublisher;
+        _logger = logger;
+
+        var connectionString = Environment.GetEnvironmentVariable("VALKEY_CONNECTION");
+        if (string.IsNullOrEmpty(connectionString))
+        {
+            _logger.LogInformation("Valkey not configured. Sync requests from the dashboard are disabled.");
+            return;
+        }
+
+        try
+        {
+            _valkey = ConnectionMultiplexer.Connect(connectionString);
+            _valkey.GetSubscriber().Subscribe(RedisChannel.Literal(SyncRequestChannel.Channel), (_, message) => Receive(message.ToString()));
+            _logger.LogInformation("Listening for sync requests from the dashboard");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to connect to Valkey. Sync requests from the dashboard are disabled.");
+            _valkey = null;
+        }
+    }
+
+    public async Task<SyncWake> WaitAsync(TimeSpan timeout, CancellationToken cancellationToken)
+    {
+        using var timeoutCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+        timeoutCts.CancelAfter(timeout);
+
+        try
+        {
+            return await _wakes.Reader.ReadAsync(timeoutCts.Token);
+        }
+        catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+        {
+            return new SyncWake(SyncWakeReason.TimeoutElapsed);
+        }
+    }
+
+    public void SetBusy(bool busy) => _busy = busy;
+
+    public async Task<SyncSchedule> GetScheduleAsync()
+    {
+        if (_valkey == null) return new SyncSchedule();
+
+        try
+        {
+            var json = await _valkey.GetDatabase().StringGetAsync(SyncRequestChannel.ScheduleKey);
+            return SyncRequestChannel.ParseSchedule(json.HasValue ? json.ToString() : null);
+        }
+        catch (Exception ex)
+        {
+            // Valkey being down must not stop scheduled syncs
+            _logger.LogWarning(ex, "Failed to read the sync schedule from Valkey, using the configured one");
+            return new SyncSchedule();
+        }
+    }
+
+    private void Receive(string message)
+    {
+        if (message == SyncRequestChannel.ScheduleChangedMarker)
+        {
+            _wakes.Writer.TryWrite(new SyncWake(SyncWakeReason.ScheduleChanged));
+            return;
+        }
+
+        if (!SyncRequestChannel.TryParse(message, out var request))
+        {
+            _logger.LogWarning("Ignoring malformed sync request: {Message}", message);
+            return;
+        }
+
+        // The API checks first, but two requests can still race a starting sync
+        if (_busy)
+        {
+            _logger.LogWarning("Sync already running - rejected {Request} requested from the dashboard", request.Describe());
+            _ = _outputPublisher.PublishAsync($"⏳ A sync is already running - {request.Describe()} was not started");
+            return;
+        }
+
+        _logger.LogInformation("Received {Request} request from the dashboard", request.Describe());
+        _wakes.Writer.TryWrite(new SyncWake(SyncWakeReason.SyncRequested, request));
+    }
+
+    public void Dispose()
+    {
+        _valkey?.Dispose();
+    }
+}
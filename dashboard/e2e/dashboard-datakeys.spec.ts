@@ -54,7 +54,7 @@ test.describe('Dashboard Data Keys E2E Tests', () => {
     }
   })
 
-  test('should open data keys modal when clicking data keys count', async ({ page }) => {
+  test('should open the namespace page when clicking data keys count', async ({ page }) => {
     // Wait for table
     await page.waitForSelector('[data-testid="namespaces-table"]', { timeout: 10000 })
     
@@ -69,111 +69,85 @@ test.describe('Dashboard Data Keys E2E Tests', () => {
       const keysCount = parseInt(text || '0')
       
       if (keysCount > 0) {
-        const namespace = await row.getByTestId('namespace-name').textContent()
-        console.log(`\n📋 Testing data keys modal for namespace: ${namespace}`)
+        const namespace = (await row.getByTestId('namespace-name').textContent())?.trim() || ''
+        console.log(`\n📋 Testing data keys for namespace: ${namespace}`)
         
-        // Click the data keys chip
         await dataKeysChip.click()
         
-        // Modal should open
-        await expect(page.getByRole('dialog')).toBeVisible()
-        console.log('✓ Data keys modal opened')
-        
-        // Check modal title
-        await expect(page.getByText(`Data Keys in ${namespace}`)).toBeVisible()
-        console.log(`✓ Modal title correct: "Data Keys in ${namespace}"`)
-        
-        // Check modal has content (either keys or loading)
-        const modalContent = page.getByRole('dialog')
-        const hasKeys = await modalContent.locator('.MuiChip-root').count() > 0
-        const hasLoading = await modalContent.locator('[role="progressbar"]').isVisible().catch(() => false)
-        
-        if (hasKeys) {
-          console.log('✓ Data keys displayed in modal')
-        } else if (hasLoading) {
-          console.log('⏳ Modal is loading keys...')
-          
-          // Wait for loading to finish
-          await page.waitForSelector('[role="progressbar"]', { state: 'detached', timeout: 5000 }).catch(() => {})
-          
-          // Check again
-          const keysAfterLoading = await modalContent.locator('.MuiChip-root').count()
-          if (keysAfterLoading > 0) {
-            console.log(`✓ Loaded ${keysAfterLoading} data keys`)
-          }
-        }
-        
-        // Close modal
-        await page.keyboard.press('Escape')
-        await expect(page.getByRole('dialog')).not.toBeVisible()
-        console.log('✓ Modal closed successfully')
-        
+        await expect(page.getByTestId('namespace-detail')).toBeVisible()
+        await expect(page.getByTestId('namespace-stat-keys-value')).toHaveText(String(keysCount))
+        console.log(`✓ Namespace page shows ${keysCount} data keys`)
         break
       }
     }
   })
 
-  test('should display secret names with their keys in modal', async ({ page }) => {
-    // Wait for table
+  test('should only fetch key names when a secret is expanded', async ({ page }) => {
     await page.waitForSelector('[data-testid="namespaces-table"]', { timeout: 10000 })
-    
-    // Find first namespace with data keys
+
+    const keyRequests: string[] = []
+    page.on('request', request => {
+      if (/\/api\/secrets\/[^/]+\/[^/]+\/keys$/.test(request.url())) keyRequests.push(request.url())
+    })
+
     const rows = page.locator('[data-testid^="namespace-row-"]')
     const count = await rows.count()
     
     for (let i = 0; i < count; i++) {
       const row = rows.nth(i)
       const dataKeysChip = row.getByTestId('chip-data-keys')
-      const text = await dataKeysChip.textContent()
-      const keysCount = parseInt(text || '0')
+      const keysCount = parseInt((await dataKeysChip.textContent()) || '0')
       
       if (keysCount > 0) {
-        const namespace = await row.getByTestId('namespace-name').textContent()
-        
-        // Click data keys
         await dataKeysChip.click()
-        
-        // Wait for modal
-        await page.waitForSelector('[role="dialog"]', { timeout: 5000 })
-        
-        // Wait for loading to complete
-        await page.waitForTimeout(2000)
-        
-        // Check for secret names (should have 🔑 emoji)
-        const secretNames = page.getByRole('dialog').locator('text=/🔑/')
-        const secretCount = await secretNames.count()
-        
-        if (secretCount > 0) {
-          console.log(`✓ Found ${secretCount} secrets with data keys`)
-          
-          // Check for key chips
-          const keyChips = page.getByRole('dialog').locator('.MuiChip-root')
-          const chipCount = await keyChips.count()
-          
-          if (chipCount > 0) {
-            console.log(`✓ Found ${chipCount} data key chips`)
-            
-            // Log first few key names
-            const firstKeys = await keyChips.first().textContent()
-            console.log(`  Example key: ${firstKeys}`)
-          }
-        } else {
-          console.log('⚠️ No secrets with keys displayed (might be loading or error)')
-        }
-        
-        // Close modal
-        await page.keyboard.press('Escape')
+        await page.getByTestId('namespace-detail').waitFor({ timeout: 5000 })
+        await page.waitForLoadState('networkidle')
+
+        // Nothing is fetched until a secret is expanded
+        expect(keyRequests).toHaveLength(0)
+
+        const secretKeysChip = page.getByTestId('namespace-secret-key-count').filter({ hasNotText: /^0$/ }).first()
+        await secretKeysChip.click()
+        await expect(page.getByTestId('namespace-secret-keys').first()).toBeVisible()
+        expect(keyRequests).toHaveLength(1)
+        console.log('✓ Key names fetched lazily for the expanded secret only')
         break
       }
     }
   })
 
+  test('should load all key names in batches', async ({ page }) => {
+    await page.waitForSelector('[data-testid="namespaces-table"]', { timeout: 10000 })
+
+    let inFlight = 0
+    let maxInFlight = 0
+    page.on('request', request => {
+      if (request.url().endsWith('/keys')) maxInFlight = Math.max(maxInFlight, ++inFlight)
+    })
+    page.on('requestfinished', request => {
+      if (request.url().endsWith('/keys')) inFlight--
+    })
+    page.on('requestfailed', request => {
+      if (request.url().endsWith('/keys')) inFlight--
+    })
+
+    const firstRow = page.locator('[data-testid^="namespace-row-"]').first()
+    await firstRow.getByTestId('chip-total-secrets').click()
+    await page.getByTestId('namespace-detail').waitFor({ timeout: 5000 })
+
+    await page.getByTestId('namespace-load-all-keys').click()
+    await page.waitForLoadState('networkidle')
+
+    console.log(`Max concurrent key requests: ${maxInFlight}`)
+    expect(maxInFlight).toBeLessThanOrEqual(5)
+  })
+
   test('should handle API errors gracefully', async ({ page }) => {
     // Wait for table
     await page.waitForSelector('[data-testid="namespaces-table"]', { timeout: 10000 })
     
     // Intercept API calls to simulate error
-    await page.route('**/api/secrets/*/keys', route => {
+    await page.route('**/api/secrets/*/*/keys', route => {
       route.fulfill({
         status: 404,
         body: 'Not found'
@@ -191,58 +165,15 @@ test.describe('Dashboard Data Keys E2E Tests', () => {
       const keysCount = parseInt(text || '0')
       
       if (keysCount > 0) {
-        // Click data keys
         await dataKeysChip.click()
-        
-        // Modal should still open
-        await expect(page.getByRole('dialog')).toBeVisible()
-        console.log('✓ Modal opened even with API error')
-        
-        // Should show "No data keys found" or similar
-        await page.waitForTimeout(2000)
-        
-        const noDataText = page.getByRole('dialog').getByText(/No data keys found/i)
-        const isVisible = await noDataText.isVisible().catch(() => false)
-        
-        if (isVisible) {
-          console.log('✓ Shows appropriate message when keys cannot be fetched')
-        }
-        
-        // Close modal
-        await page.keyboard.press('Escape')
-        break
-      }
-    }
-  })
+        await page.getByTestId('namespace-detail').waitFor({ timeout: 5000 })
 
-  test('should close modal with X button', async ({ page }) => {
-    // Wait for table
-    await page.waitForSelector('[data-testid="namespaces-table"]', { timeout: 10000 })
-    
-    // Find first namespace with data keys
-    const rows = page.locator('[data-testid^="namespace-row-"]')
-    const count = await rows.count()
-    
-    for (let i = 0; i < count; i++) {
-      const row = rows.nth(i)
-      const dataKeysChip = row.getByTestId('chip-data-keys')
-      const text = await dataKeysChip.textContent()
-      const keysCount = parseInt(text || '0')
-      
-      if (keysCount > 0) {
-        // Click data keys
-        await dataKeysChip.click()
-        
-        // Modal should open
-        await expect(page.getByRole('dialog')).toBeVisible()
-        
-        // Click X button
-        await page.getByRole('dialog').getByRole('button').filter({ hasText: '✕' }).click()
-        
-        // Modal should close
-        await expect(page.getByRole('dialog')).not.toBeVisible()
-        console.log('✓ Modal closed with X button')
-        
+        const secretKeysChip = page.getByTestId('namespace-secret-key-count').filter({ hasNotText: /^0$/ }).first()
+        await secretKeysChip.click()
+
+        // The row shows an error instead of breaking the page
+        await expect(page.getByTestId('api-error-alert').first()).toBeVisible()
+        console.log('✓ Shows an error when keys cannot be fetched')
         break
       }
     }
@@ -197,7 +197,7 @@ test.describe('Dashboard E2E Tests', () => {
     console.log(`Sync Operations - ${apiOverview.successfulSyncs} successful, ${apiOverview.failedSyncs} failed`)
   })
 
-  test('should open modal and verify Active secrets data from API', async ({ page, request }) => {
+  test('should open namespace page filtered to Active secrets', async ({ page, request }) => {
     await page.getByTestId('namespaces-table').waitFor({ timeout: 5000 })
 
     // Find first namespace with active secrets
@@ -209,78 +209,65 @@ test.describe('Dashboard E2E Tests', () => {
 
     // Find the row for this namespace and click Active chip
     const targetRow = page.getByTestId(`namespace-row-${nsWithActive.namespace}`)
-    const activeChip = targetRow.getByTestId('chip-active-secrets')
-    await activeChip.click()
+    await targetRow.getByTestId('chip-active-secrets').click()
 
-    // Wait for modal
-    await page.waitForSelector('[role="dialog"]', { timeout: 5000 })
-    await expect(page.locator(`text=/Active Secrets in ${nsWithActive.namespace}/`)).toBeVisible()
+    await expect(page).toHaveURL(`${DASHBOARD_URL}/namespaces/${encodeURIComponent(nsWithActive.namespace)}?status=Active`)
+    await page.getByTestId('namespace-detail').waitFor({ timeout: 5000 })
 
     // Fetch API data for this namespace
     const secretsResponse = await request.get(`${API_URL}/secrets/namespace/${nsWithActive.namespace}/status/Active`)
     expect(secretsResponse.ok()).toBeTruthy()
     const apiSecrets = await secretsResponse.json()
 
-    // Verify modal shows correct count
-    const modalRows = page.locator('[role="dialog"] table tbody tr')
-    const modalRowCount = await modalRows.count()
-    console.log(`Active secrets in ${nsWithActive.namespace} - API: ${apiSecrets.length}, Modal: ${modalRowCount}`)
-    expect(modalRowCount).toBe(apiSecrets.length)
-
-    // Close modal
-    const closeButton = page.locator('[role="dialog"] button').first()
-    await closeButton.click()
-    await expect(page.locator('[role="dialog"]')).not.toBeVisible()
+    // Verify page shows correct count
+    const rows = page.locator('[data-testid^="namespace-secret-row-"]')
+    const rowCount = await rows.count()
+    console.log(`Active secrets in ${nsWithActive.namespace} - API: ${apiSecrets.length}, Page: ${rowCount}`)
+    expect(rowCount).toBe(apiSecrets.length)
   })
 
-  test('should open modal and verify Total Secrets data from API', async ({ page, request }) => {
+  test('should open namespace page and verify secrets data from API', async ({ page, request }) => {
     await page.getByTestId('namespaces-table').waitFor({ timeout: 5000 })
 
     const firstNs = apiNamespaces[0]
 
-    // Click Total Secrets chip
+    // Click the namespace name
     const firstRow = page.getByTestId(`namespace-row-${firstNs.namespace}`)
-    const totalSecretsChip = firstRow.getByTestId('chip-total-secrets')
-    await totalSecretsChip.click()
+    await firstRow.getByTestId('namespace-name').getByText(firstNs.namespace).click()
 
-    // Wait for modal
-    await page.waitForSelector('[role="dialog"]', { timeout: 5000 })
-    await expect(page.locator(`text=/All Secrets in ${firstNs.namespace}/`)).toBeVisible()
+    await expect(page).toHaveURL(`${DASHBOARD_URL}/namespaces/${encodeURIComponent(firstNs.namespace)}`)
+    await page.getByTestId('namespace-detail').waitFor({ timeout: 5000 })
+    await expect(page.getByTestId('namespace-stat-total-value')).toHaveText(String(firstNs.secretCount))
 
     // Fetch API data for this namespace
     const secretsResponse = await request.get(`${API_URL}/secrets/namespace/${firstNs.namespace}`)
     expect(secretsResponse.ok()).toBeTruthy()
     const apiSecrets = await secretsResponse.json()
 
-    // Verify modal shows correct count
-    const modalRows = page.locator('[role="dialog"] table tbody tr')
-    const modalRowCount = await modalRows.count()
-    console.log(`Total secrets in ${firstNs.namespace} - API: ${apiSecrets.length}, Modal: ${modalRowCount}`)
-    expect(modalRowCount).toBe(apiSecrets.length)
+    const rows = page.locator('[data-testid^="namespace-secret-row-"]')
+    const rowCount = await rows.count()
+    console.log(`Total secrets in ${firstNs.namespace} - API: ${apiSecrets.length}, Page: ${rowCount}`)
+    expect(rowCount).toBe(apiSecrets.length)
 
-    // Verify first secret details match
+    // Verify a secret's details match
     if (apiSecrets.length > 0) {
       const firstSecret = apiSecrets[0]
-      const firstModalRow = modalRows.first()
-      
-      const secretName = await firstModalRow.locator('td').nth(0).textContent()
-      const vaultwardenItem = await firstModalRow.locator('td').nth(1).textContent()
-      const status = await firstModalRow.locator('td').nth(2).textContent()
-      const dataKeys = await firstModalRow.locator('td').nth(3).textContent()
+      const row = page.getByTestId(`namespace-secret-row-${firstSecret.secretName}`)
+
+      const secretName = await row.locator('td').nth(0).textContent()
+      const vaultwardenItem = await row.locator('td').nth(1).textContent()
+      const status = await row.locator('td').nth(2).textContent()
+      const dataKeys = await row.getByTestId('namespace-secret-key-count').textContent()
 
-      console.log(`Verifying first secret: ${firstSecret.secretName}`)
+      console.log(`Verifying secret: ${firstSecret.secretName}`)
       expect(secretName?.trim()).toBe(firstSecret.secretName)
       expect(vaultwardenItem?.trim()).toBe(firstSecret.vaultwardenItemName)
       expect(status?.trim()).toBe(firstSecret.status)
-      expect(parseInt(dataKeys || '0')).toBe(firstSecret.dataKeysCount)
+      expect(parseInt((dataKeys || '0').replace(/[^0-9]/g, ''))).toBe(firstSecret.dataKeysCount)
     }
-
-    // Close modal
-    const closeButton = page.locator('[role="dialog"] button').first()
-    await closeButton.click()
   })
 
-  test('should open modal for Failed secrets if any exist', async ({ page, request }) => {
+  test('should open namespace page filtered to Failed secrets if any exist', async ({ page, request }) => {
     await page.getByTestId('namespaces-table').waitFor({ timeout: 5000 })
 
     // Find namespace with failed secrets
@@ -292,12 +279,10 @@ test.describe('Dashboard E2E Tests', () => {
 
     // Find the row for this namespace and click Failed chip
     const targetRow = page.getByTestId(`namespace-row-${nsWithFailed.namespace}`)
-    const failedChip = targetRow.getByTestId('chip-failed-secrets')
-    await failedChip.click()
+    await targetRow.getByTestId('chip-failed-secrets').click()
 
-    // Wait for modal
-    await page.waitForSelector('[role="dialog"]', { timeout: 5000 })
-    await expect(page.locator(`text=/Failed Secrets in ${nsWithFailed.namespace}/`)).toBeVisible()
+    await expect(page).toHaveURL(`${DASHBOARD_URL}/namespaces/${encodeURIComponent(nsWithFailed.namespace)}?status=Failed`)
+    await expect(page.getByTestId('namespace-failure-breakdown')).toBeVisible()
 
     // Fetch API data
     const secretsResponse = await request.get(`${API_URL}/secrets/namespace/${nsWithFailed.namespace}/status/Failed`)
@@ -305,14 +290,10 @@ test.describe('Dashboard E2E Tests', () => {
     const apiSecrets = await secretsResponse.json()
 
     // Verify count
-    const modalRows = page.locator('[role="dialog"] table tbody tr')
-    const modalRowCount = await modalRows.count()
-    console.log(`Failed secrets in ${nsWithFailed.namespace} - API: ${apiSecrets.length}, Modal: ${modalRowCount}`)
-    expect(modalRowCount).toBe(apiSecrets.length)
-
-    // Close modal
-    const closeButton = page.locator('[role="dialog"] button').first()
-    await closeButton.click()
+    const rows = page.locator('[data-testid^="namespace-secret-row-"]')
+    const rowCount = await rows.count()
+    console.log(`Failed secrets in ${nsWithFailed.namespace} - API: ${apiSecrets.length}, Page: ${rowCount}`)
+    expect(rowCount).toBe(apiSecrets.length)
   })
 
   test('should not have any console errors', async ({ page }) => {
@@ -339,11 +320,8 @@ test.describe('Dashboard E2E Tests', () => {
       
       if (await activeChip.isVisible()) {
         await activeChip.click()
-        await page.waitForTimeout(500)
-        const closeButton = page.locator('[role="dialog"] button').first()
-        if (await closeButton.isVisible()) {
-          await closeButton.click()
-        }
+        await page.waitForLoadState('networkidle')
+        await page.goBack()
       }
     }
 
@@ -428,4 +406,120 @@ test.describe('Dashboard E2E Tests', () => {
     
     console.log('\n✅ Comprehensive data integrity check passed!')
   })
+
+  test('should request the timeline for the selected range', async ({ page }) => {
+    await expect(page.getByTestId('sync-timeline')).toBeVisible()
+
+    const timelineRequest = page.waitForRequest(request =>
+      request.url().includes('/api/dashboard/timeline') && request.url().includes('interval=hour'))
+    await page.getByTestId('timeline-range').getByRole('button', { name: '24h' }).click()
+    const request = await timelineRequest
+
+    const url = new URL(request.url())
+    const start = new Date(url.searchParams.get('start')!)
+    const end = new Date(url.searchParams.get('end')!)
+    expect(Math.round((end.getTime() - start.getTime()) / 3600000)).toBe(24)
+    console.log('✓ 24h range requests hourly buckets')
+
+    await page.getByTestId('timeline-range').getByRole('button', { name: 'Custom' }).click()
+    await expect(page.getByTestId('timeline-custom-start')).toBeVisible()
+    await expect(page.getByTestId('timeline-custom-end')).toBeVisible()
+  })
+
+  test('should show the sync progress bar in the sidebar', async ({ page }) => {
+    const bar = page.getByTestId('sync-progress-bar')
+    await expect(bar).toBeVisible()
+    await expect(bar).toContainText('%')
+
+    // Opens the live output of the current (or last) run
+    await bar.click()
+    await expect(page.getByTestId('sync-output-console-tab')).toBeVisible()
+  })
+
+  test('should offer a sync now button that respects a running sync', async ({ page }) => {
+    const button = page.getByTestId('sync-now')
+    await expect(button).toBeVisible()
+
+    if (await button.isDisabled()) {
+      await expect(button).toHaveText(/Sync running/)
+      return
+    }
+
+    await button.click()
+    const dialog = page.getByTestId('sync-confirm-dialog')
+    await expect(dialog).toContainText('Sync now?')
+    await dialog.getByRole('button', { name: 'Cancel' }).click()
+    await expect(dialog).toBeHidden()
+  })
+
+  test('should show who paused scheduled syncs and allow resuming', async ({ page }) => {
+    const paused = {
+      available: true,
+      paused: true,
+      pausedUntil: null,
+      pausedAt: new Date().toISOString(),
+      pausedBy: 'e2e-operator',
+      pauseReason: 'Vaultwarden maintenance',
+      configuredIntervalSeconds: 600,
+      intervalSeconds: 600,
+      intervalOverridden: false,
+      intervalUntil: null,
+      intervalChangedBy: null,
+    }
+    let resumed = false
+    // Served locally so the test never pauses the real sync service
+    await page.route('**/api/sync/schedule**', route => {
+      if (route.request().method() === 'DELETE') resumed = true
+      route.fulfill({ json: resumed ? { ...paused, paused: false, pausedBy: null, pausedAt: null, pauseReason: null } : paused })
+    })
+    await page.reload()
+
+    const banner = page.getByTestId('sync-paused-banner')
+    await expect(banner).toContainText('e2e-operator')
+    await expect(banner).toContainText('Vaultwarden maintenance')
+
+    await page.getByTestId('sync-resume').click()
+    await expect(banner).toBeHidden()
+    expect(resumed).toBe(true)
+  })
+
+  test('should record the typed name on a pause', async ({ page }) => {
+    const running = {
+      available: true,
+      paused: false,
+      pausedUntil: null,
+      pausedAt: null,
+      pausedBy: null,
+      pauseReason: null,
+      configuredIntervalSeconds: 600,
+      intervalSeconds: 600,
+      intervalOverridden: false,
+      intervalUntil: null,
+      intervalChangedBy: null,
+    }
+    let schedule = running
+    // Served locally so the test never pauses the real sync service
+    await page.route('**/api/sync/schedule**', route => {
+      const request = route.request()
+      if (request.method() === 'POST' && request.url().includes('/pause')) {
+        schedule = { ...running, paused: true, pausedAt: new Date().toISOString(), pausedBy: request.postDataJSON().by ?? null }
+      } else if (request.method() === 'DELETE') {
+        schedule = running
+      }
+      route.fulfill({ json: schedule })
+    })
+    await page.reload()
+
+    await page.getByTestId('sync-schedule-button').click()
+    const dialog = page.getByTestId('sync-schedule-dialog')
+    await dialog.getByTestId('sync-schedule-actor').locator('input').fill('e2e-typed-operator')
+    await dialog.getByTestId('sync-pause').click()
+    await expect(dialog).toBeHidden()
+
+    const banner = page.getByTestId('sync-paused-banner')
+    await expect(banner).toContainText('e2e-typed-operator')
+
+    await banner.getByTestId('sync-resume').click()
+    await expect(banner).toBeHidden()
+  })
 })
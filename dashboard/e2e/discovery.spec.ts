@@ -163,36 +163,232 @@ test.describe('Discovery Page E2E Tests', () => {
     }
   })
 
-  test('should show "Missing namespaces custom field" in reason column', async ({ page }) => {
-    // Wait for page load
-    await page.waitForTimeout(1000)
-    
-    // Check if table has data
-    const table = page.locator('table')
-    const tableVisible = await table.isVisible().catch(() => false)
-    
-    if (tableVisible) {
-      const rows = page.locator('tbody tr')
-      const count = await rows.count()
-      
-      if (count > 0) {
-        // Check reason column
-        const reasonCell = rows.first().locator('td').last()
-        const reasonText = await reasonCell.textContent()
-        
-        if (reasonText?.includes('Missing namespaces custom field')) {
-          console.log('✓ Reason shows "Missing namespaces custom field" (correct)')
-        } else if (reasonText?.includes('annotation')) {
-          console.log('❌ Reason still mentions "annotation" (should be "Missing namespaces custom field")')
-        } else {
-          console.log(`⚠️ Reason text: ${reasonText}`)
-        }
-      } else {
-        console.log('⚠️ Table has no rows (backend not implemented)')
+  test('should explain why each item is not synced', async ({ page }) => {
+    await page.getByRole('tab', { name: /Not Synced/i }).click()
+
+    const summary = page.getByTestId('not-synced-summary')
+    const summaryVisible = await summary.isVisible().catch(() => false)
+    if (!summaryVisible) {
+      console.log('⚠️ No unsynced items (nothing to diagnose)')
+      return
+    }
+
+    // Every row lists at least one reason, each with a fix
+    const rows = page.locator('tbody tr')
+    const count = await rows.count()
+    for (let i = 0; i < count; i++) {
+      const diagnoses = rows.nth(i).getByTestId('not-synced-diagnosis')
+      expect(await diagnoses.count()).toBeGreaterThan(0)
+      await expect(diagnoses.first().getByTestId('not-synced-fix')).toContainText('Fix:')
+    }
+
+    const missing = rows.locator('[data-testid="not-synced-diagnosis"][data-reason="missing-namespaces"]')
+    if (await missing.count() > 0) {
+      await expect(missing.first()).toContainText('"namespaces" custom field')
+      await expect(missing.first()).not.toContainText('annotation')
+      console.log('✓ Missing namespaces diagnosis mentions the custom field')
+    }
+  })
+
+  test('should filter unsynced items by reason', async ({ page }) => {
+    await page.getByRole('tab', { name: /Not Synced/i }).click()
+
+    const chips = page.getByTestId('not-synced-summary').locator('[data-testid^="not-synced-reason-"]')
+    if (await chips.count() === 0) {
+      console.log('⚠️ No unsynced items (nothing to filter)')
+      return
+    }
+
+    const chip = chips.first()
+    const reason = (await chip.getAttribute('data-testid'))!.replace('not-synced-reason-', '')
+    await chip.click()
+
+    const rows = page.locator('tbody tr')
+    const count = await rows.count()
+    expect(count).toBeGreaterThan(0)
+    for (let i = 0; i < count; i++) {
+      await expect(rows.nth(i).locator(`[data-testid="not-synced-diagnosis"][data-reason="${reason}"]`).first()).toBeVisible()
+    }
+    console.log(`✓ Filtered to ${count} items with reason ${reason}`)
+  })
+
+  test('should list secrets written by several items', async ({ page }) => {
+    await page.getByTestId('secret-collisions-tab').click()
+
+    const collisions = page.getByTestId('secret-collision')
+    const count = await collisions.count()
+    if (count === 0) {
+      await expect(page.getByText('Every secret is written by a single item')).toBeVisible()
+      console.log('✓ No secret name collisions')
+      return
+    }
+
+    for (let i = 0; i < count; i++) {
+      const collision = collisions.nth(i)
+      expect(await collision.getByTestId('secret-collision-writer').count()).toBeGreaterThan(1)
+      await expect(collision.getByTestId('secret-collision-winner')).not.toBeEmpty()
+    }
+
+    // Collisions that have not been merged yet are called out before the next sync
+    if (await page.locator('[data-testid="secret-collision"][data-state="upcoming"]').count() > 0) {
+      await expect(page.getByTestId('secret-collisions-warning')).toBeVisible()
+    }
+    console.log(`✓ ${count} secret name collisions listed`)
+  })
+
+  test('should preview the Secret manifest of an item with masked values', async ({ page }) => {
+    const buttons = page.getByTestId('secret-manifest-button')
+    if (await buttons.count() === 0) {
+      console.log('⚠️ No items to preview')
+      return
+    }
+
+    await buttons.first().click()
+    const modal = page.getByTestId('secret-manifest-modal')
+    await expect(modal).toBeVisible()
+
+    const yaml = modal.getByTestId('secret-manifest-yaml')
+    if (!await yaml.isVisible().catch(() => false)) {
+      await expect(modal.getByTestId('secret-manifest-unavailable')).toBeVisible()
+      console.log('⚠️ No preview cached for this item yet')
+      return
+    }
+
+    await expect(yaml).toContainText('kind: Secret')
+    await expect(yaml).toContainText('app.kubernetes.io/managed-by')
+    await expect(yaml).toContainText('type: ')
+    const lines = (await yaml.textContent())!.split('\n')
+    const dataIndex = lines.indexOf('data:')
+    for (const line of lines.slice(dataIndex + 1).filter(Boolean)) {
+      expect(line).toContain('"••••••••"')
+    }
+
+    await modal.getByTestId('secret-manifest-sources').click()
+    await expect(yaml).toContainText('# ')
+    await expect(modal.getByTestId('secret-manifest-copy')).toBeEnabled()
+    await expect(modal.getByTestId('secret-manifest-download')).toBeEnabled()
+  })
+
+  test('should build the Secret manifest from the item fields and reveal known values', async ({ page }) => {
+    // Served locally: the real API sends field names only
+    await page.route('**/api/vaultwarden/items/*/fields', route => route.fulfill({
+      json: [
+        { name: 'namespaces', value: 'staging', type: 'text' },
+        { name: 'secret-name', value: 'e2e-secret', type: 'text' },
+        { name: 'api-token', value: 'e2e-value', type: 'hidden' },
+      ],
+    }))
+    const buttons = page.getByTestId('secret-manifest-button')
+    if (await buttons.count() === 0) {
+      console.log('⚠️ No items to preview')
+      return
+    }
+
+    await buttons.first().click()
+    const modal = page.getByTestId('secret-manifest-modal')
+    const yaml = modal.getByTestId('secret-manifest-yaml')
+    await expect(yaml).toContainText('api-token: "••••••••"')
+
+    await modal.getByTestId('secret-manifest-reveal').click()
+    await expect(yaml).toContainText(`api-token: ${Buffer.from('e2e-value').toString('base64')}`)
+    console.log('✓ Manifest built from the item fields, values revealed on request')
+  })
+
+  test('should lint item field conventions in the Lint tab', async ({ page }) => {
+    await page.getByTestId('item-lint-tab').click()
+    const lint = page.getByTestId('item-lint')
+    await expect(lint).toBeVisible()
+    await expect(lint.getByTestId('item-lint-summary')).toBeVisible()
+
+    const issues = lint.getByTestId('item-lint-issue')
+    if (await issues.count() === 0) {
+      await expect(lint).toContainText('No problems found')
+      console.log('✓ No lint issues')
+      return
+    }
+
+    await expect(issues.first()).toContainText('Fix:')
+    await lint.getByTestId('item-lint-severity-warning').click()
+    const warnings = await issues.count()
+    for (let i = 0; i < warnings; i++) {
+      await expect(issues.nth(i)).toHaveAttribute('data-severity', 'warning')
+    }
+    console.log(`✓ ${warnings} lint warnings`)
+  })
+
+  test('should group items by organization and folder with coverage', async ({ page }) => {
+    await page.getByTestId('discovery-groups-tab').click()
+    const panel = page.getByTestId('discovery-groups')
+    await expect(panel).toBeVisible()
+
+    const owners = panel.locator('[data-testid="discovery-group"][data-level="owner"]')
+    if (await owners.count() === 0) {
+      console.log('⚠️ No items to group')
+      return
+    }
+    await expect(owners.first().getByTestId('discovery-group-coverage')).toContainText('%')
+
+    // Collapsing an organization hides its folders and items
+    const folders = panel.locator('[data-testid="discovery-group"][data-level="folder"]')
+    const folderCount = await folders.count()
+    await owners.first().getByTestId('discovery-group-toggle').click()
+    expect(await folders.count()).toBeLessThan(folderCount)
+    await owners.first().getByTestId('discovery-group-toggle').click()
+
+    // Picking a sync state narrows the tree to those items
+    const notSynced = panel.getByTestId('discovery-facet-state').locator('[data-testid="discovery-facet-value"][data-value="not-synced"]')
+    if (await notSynced.count() > 0) {
+      await notSynced.locator('input').check()
+      const items = panel.getByTestId('discovery-group-item')
+      const count = await items.count()
+      for (let i = 0; i < count; i++) {
+        await expect(items.nth(i)).toHaveAttribute('data-state', 'not-synced')
       }
-    } else {
-      console.log('⚠️ No table visible (backend not implemented)')
+      await panel.getByTestId('discovery-facets-clear').click()
+    }
+    console.log('✓ Grouped view with facets')
+  })
+
+  test('should group failed secrets by error and acknowledge a group', async ({ page }) => {
+    await page.getByTestId('failed-secrets-tab').click()
+    const panel = page.getByTestId('failed-secrets')
+    await expect(panel).toBeVisible()
+
+    const openGroups = panel.locator('[data-testid="failure-group"][data-state="open"]')
+    if (await openGroups.count() === 0) {
+      console.log('⚠️ No open failure groups')
+      return
     }
+
+    // Errors differing only in names fall in one group
+    const group = openGroups.first()
+    const pattern = await group.getByTestId('failure-group-pattern').textContent()
+    expect(pattern).not.toMatch(/'[^<']+'/)
+    await expect(group.getByTestId('failure-group-namespace').first()).toBeVisible()
+    expect(await group.getByTestId('failure-group-secret').count()).toBeGreaterThan(0)
+
+    await group.getByTestId('failure-group-acknowledge').click()
+    await page.getByTestId('failure-triage-note').locator('textarea').fill('Known, tracked in the cluster migration')
+    await page.getByTestId('failure-triage-submit').click()
+    await expect(page.getByTestId('failure-triage-dialog')).toBeHidden()
+
+    // Acknowledged groups are hidden until asked for, and can be reopened
+    await expect(panel.locator('[data-testid="failure-group-pattern"]', { hasText: pattern! })).toHaveCount(0)
+    await panel.getByTestId('failed-secrets-show-triaged').click()
+    const acknowledged = panel.locator('[data-testid="failure-group"][data-state="acknowledged"]').filter({ hasText: pattern! })
+    await expect(acknowledged.getByTestId('failure-group-triage')).toContainText('cluster migration')
+    await acknowledged.getByTestId('failure-group-reopen').click()
+    await expect(panel.locator('[data-testid="failure-group"][data-state="open"]').filter({ hasText: pattern! })).toHaveCount(1)
+    console.log('✓ Failure group acknowledged and reopened')
+  })
+
+  test('should not write item details to the console', async ({ page }) => {
+    const messages: string[] = []
+    page.on('console', message => messages.push(message.text()))
+    await page.goto('http://localhost:3000/discovery?log=debug')
+    await page.waitForSelector('[role="tablist"]', { timeout: 10000 })
+
+    expect(messages.filter(text => /Vaultwarden items|active secrets|Not synced items/.test(text))).toHaveLength(0)
   })
 
   test('should display empty state when no data', async ({ page }) => {
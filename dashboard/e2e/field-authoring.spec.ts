@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test'
+
+test.describe('Field Authoring Page E2E Tests', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('http://localhost:3000/discovery/author')
+  })
+
+  test('should be reachable from the Discovery page', async ({ page }) => {
+    await page.goto('http://localhost:3000/discovery')
+    await page.getByTestId('field-authoring-link').click()
+    await expect(page).toHaveURL(/\/discovery\/author$/)
+    await expect(page.getByTestId('field-authoring')).toBeVisible()
+  })
+
+  test('should generate the fields and preview of an Opaque secret', async ({ page }) => {
+    await page.getByTestId('field-authoring-namespaces').locator('input').fill('staging')
+    await page.keyboard.press('Enter')
+    await page.getByTestId('field-authoring-secret-name').fill('my-app')
+    await page.getByTestId('field-authoring-data-fields').locator('input').fill('api-token')
+    await page.keyboard.press('Enter')
+
+    const fields = page.getByTestId('field-authoring-field')
+    await expect(fields.filter({ hasText: 'namespaces' })).toContainText('staging')
+    await expect(fields.filter({ hasText: 'secret-name' })).toContainText('my-app')
+    await expect(fields.filter({ hasText: 'api-token' })).toContainText('Hidden')
+
+    const manifest = page.getByTestId('field-authoring-manifest')
+    await expect(manifest).toContainText('name: my-app')
+    await expect(manifest).toContainText('namespace: staging')
+    await expect(manifest).toContainText('type: Opaque')
+    await expect(manifest).toContainText('my-app-username:')
+    await expect(manifest).toContainText('api-token:')
+    await expect(page.getByTestId('field-authoring-issues')).toHaveCount(0)
+  })
+
+  test('should add the secret type and TLS fields for a TLS secret', async ({ page }) => {
+    await page.getByTestId('field-authoring-kind').getByRole('button', { name: 'TLS' }).click()
+    await page.getByTestId('field-authoring-secret-name').fill('my-cert')
+
+    const fields = page.getByTestId('field-authoring-field')
+    await expect(fields.filter({ hasText: 'secret-type' })).toContainText('kubernetes.io/tls')
+    await expect(fields.filter({ hasText: 'tls.crt' })).toBeVisible()
+    await expect(fields.filter({ hasText: 'tls.key' })).toBeVisible()
+    await expect(page.getByTestId('field-authoring-manifest')).toContainText('type: kubernetes.io/tls')
+  })
+
+  test('should flag an invalid secret name and missing namespaces', async ({ page }) => {
+    await page.getByTestId('field-authoring-secret-name').fill('My App!')
+
+    const issues = page.getByTestId('field-authoring-issues')
+    await expect(issues).toContainText('not a usable Kubernetes secret name')
+    await expect(issues).toContainText('is empty')
+  })
+})
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test'
+import { redact } from '../src/lib/logger'
+import { ApiNotFoundError } from '../src/lib/apiErrors'
+
+// Unit checks: no page is opened, the logger runs in the test process
+test.describe('Console log redaction', () => {
+  test('should redact item data at any depth', () => {
+    const context = {
+      endpoint: '/discovery',
+      payload: {
+        vaultwardenItems: [
+          { id: 'item-1', name: 'Production Database', folder: 'Databases', organizationName: 'Infrastructure Team', namespacesValue: '["production"]' },
+        ],
+        syncedSecrets: [{ namespace: 'production', secretName: 'db', lastError: "Item 'Production Database' is invalid" }],
+      },
+    }
+
+    const redacted = JSON.stringify(redact(context))
+
+    expect(redacted).toContain('/discovery')
+    expect(redacted).toContain('item-1')
+    expect(redacted).toContain('production')
+    for (const leaked of ['Production Database', 'Databases', 'Infrastructure Team', '"db"']) {
+      expect(redacted).not.toContain(leaked)
+    }
+  })
+
+  test('should serialize errors with the API response body redacted', () => {
+    const error = new ApiNotFoundError('Not found', {
+      status: 404,
+      requestId: 'req-1',
+      url: '/api/secrets/namespace/production/name/db',
+      body: { error: 'Secret not found', secretName: 'db', notes: 'rotate quarterly' },
+    })
+
+    const redacted = redact({ error }) as { error: Record<string, unknown> }
+
+    expect(redacted.error).toMatchObject({
+      name: 'ApiNotFoundError',
+      message: 'Not found',
+      status: 404,
+      requestId: 'req-1',
+      body: { error: 'Secret not found', secretName: '[redacted]', notes: '[redacted]' },
+    })
+    expect(redacted.error).not.toBeInstanceOf(Error)
+  })
+})
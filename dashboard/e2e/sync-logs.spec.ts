@@ -83,4 +83,69 @@ test.describe('Sync Logs E2E Tests', () => {
     console.log('✓ Deleted column displays values or 0')
   })
 
+  test('should restore filters and page from the URL', async ({ page }) => {
+    await page.goto('http://localhost:3000/logs?status=Failed,Partial&pageSize=50')
+    await page.waitForSelector('h2:has-text("Sync Logs")', { timeout: 10000 })
+
+    await expect(page.locator('[data-testid="filter-status"]')).toContainText('Failed')
+    await expect(page.locator('[data-testid="sync-logs-count"]')).toContainText('matching filters')
+    await expect(page.locator('[data-testid="sync-logs-pagination"]')).toContainText('50 / page')
+    console.log('✓ Filters restored from URL')
+
+    await page.locator('button:has-text("Clear filters")').click()
+    await expect(page).toHaveURL(/\/logs$/)
+    console.log('✓ Clearing filters resets the URL')
+  })
+
+  test('should show statistics for the selected window', async ({ page }) => {
+    await page.waitForSelector('[data-testid="sync-statistics"]', { timeout: 10000 })
+    await expect(page.locator('[data-testid="sync-statistics-window"]')).toHaveText('All time')
+    await expect(page.locator('[data-testid="stat-duration-percentiles"]')).toBeVisible()
+    console.log('✓ Statistics panel displayed')
+
+    const from = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    await page.goto(`http://localhost:3000/logs?from=${encodeURIComponent(from)}`)
+    await expect(page.locator('[data-testid="sync-statistics-window"]')).not.toHaveText('All time')
+    console.log('✓ Statistics follow the time window')
+  })
+
+  test('should open a run and list the secrets it processed', async ({ page }) => {
+    await page.waitForSelector('[data-testid="sync-log-link"]', { timeout: 10000 })
+    await page.locator('[data-testid="sync-log-link"]').first().click()
+
+    await expect(page).toHaveURL(/\/logs\/\d+$/)
+    await expect(page.locator('[data-testid="sync-log-detail"]')).toBeVisible()
+    await expect(page.locator('[data-testid="sync-log-items"] tbody tr').first()).toBeVisible()
+    console.log('✓ Run detail lists per-secret results')
+
+    await page.locator('[data-testid="sync-log-outcome-filter"] button:has-text("Updated")').click()
+    await expect(page).toHaveURL(/outcome=Updated/)
+    const outcomes = await page.locator('[data-testid="sync-log-items"] tbody tr td:first-child').allTextContents()
+    expect(outcomes.every(outcome => outcome === 'Updated')).toBe(true)
+    console.log('✓ Outcome filter narrows the items')
+  })
+
+  test('should show not found for an unknown run', async ({ page }) => {
+    await page.goto('http://localhost:3000/logs/999999')
+    await expect(page.locator('[data-testid="sync-log-not-found"]')).toBeVisible({ timeout: 10000 })
+  })
+
+  test('should compare two selected runs', async ({ page }) => {
+    await page.waitForSelector('[data-testid="sync-log-select"]', { timeout: 10000 })
+    const compareButton = page.locator('[data-testid="compare-runs"]')
+    await expect(compareButton).toBeDisabled()
+
+    await page.locator('[data-testid="sync-log-select"]').nth(0).click()
+    await page.locator('[data-testid="sync-log-select"]').nth(1).click()
+    await expect(compareButton).toBeEnabled()
+    await compareButton.click()
+
+    await expect(page).toHaveURL(/\/logs\/compare\?base=\d+&target=\d+/)
+    await expect(page.locator('[data-testid="sync-log-compare"]')).toBeVisible()
+    console.log('✓ Comparison page opened for the selected runs')
+
+    await page.locator('[data-testid="sync-log-compare-filter"] button:has-text("Everything")').click()
+    await expect(page.locator('[data-testid="sync-log-compare-table"] tbody tr').first()).toBeVisible()
+    console.log('✓ Comparison lists the secrets of both runs')
+  })
 })
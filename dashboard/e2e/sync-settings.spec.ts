@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test'
+
+const API_URL = 'http://localhost:8080/api'
+
+test.describe('Sync Settings Page E2E Tests', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('http://localhost:3000/settings/sync')
+  })
+
+  test('should render every configuration section', async ({ page }) => {
+    await expect(page.getByTestId('sync-settings')).toBeVisible()
+
+    for (const section of ['vaultwarden', 'filters', 'sync', 'fields', 'labels']) {
+      await expect(page.getByTestId(`sync-settings-section-${section}`)).toBeVisible()
+    }
+  })
+
+  test('should show the interval and dry-run flag reported by the API', async ({ page, request }) => {
+    const response = await request.get(`${API_URL}/dashboard/sync-config`)
+    expect(response.ok()).toBeTruthy()
+    const config = await response.json()
+
+    const syncSection = page.getByTestId('sync-settings-section-sync')
+    await expect(syncSection.getByTestId('sync-setting-row').filter({ hasText: 'SYNC__SYNCINTERVALSECONDS' }))
+      .toContainText(String(config.sync.syncIntervalSeconds))
+    await expect(syncSection.getByTestId('sync-setting-row').filter({ hasText: 'SYNC__DRYRUN' }))
+      .toContainText(String(config.sync.dryRun))
+  })
+
+  test('should never show credentials and mask identifiers until revealed', async ({ page }) => {
+    const vaultwarden = page.getByTestId('sync-settings-section-vaultwarden')
+    await expect(vaultwarden.getByTestId('sync-setting-row').filter({ hasText: 'BW_CLIENTSECRET' }))
+      .not.toContainText(/[A-Za-z0-9]{16,}/)
+
+    const masked = page.getByTestId('sync-setting-masked')
+    if (await masked.count() === 0) {
+      return
+    }
+
+    await page.getByTestId('sync-settings-reveal').click()
+    await expect(masked).toHaveCount(0)
+  })
+
+  test('should flag settings that differ from the chart defaults', async ({ page }) => {
+    const changedRows = page.locator('[data-testid="sync-setting-row"][data-status="changed"]')
+    const count = await changedRows.count()
+
+    for (let i = 0; i < count; i++) {
+      await expect(changedRows.nth(i).getByTestId('sync-setting-flag')).toHaveText('Changed')
+    }
+    await expect(page.getByText(new RegExp(`${count} settings? differs? from the chart defaults`))).toBeVisible()
+  })
+
+  test('should keep the console logging level from the query parameter', async ({ page }) => {
+    await page.goto('http://localhost:3000/settings/sync?log=debug')
+    await expect(page.getByTestId('console-logging-level')).toContainText('Debug')
+
+    // The choice outlives the query parameter, and redaction stays on unless switched off
+    await page.goto('http://localhost:3000/settings/sync')
+    await expect(page.getByTestId('console-logging-level')).toContainText('Debug')
+    await expect(page.getByTestId('console-logging-redact').locator('input')).toBeChecked()
+
+    await page.getByTestId('console-logging-level').click()
+    await page.getByRole('option', { name: 'Warnings' }).click()
+    await page.reload()
+    await expect(page.getByTestId('console-logging-level')).toContainText('Warnings')
+  })
+})
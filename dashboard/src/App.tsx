@@ -1,11 +1,18 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { Box, useColorScheme } from '@mui/joy'
 import Layout from './components/Layout'
+import { SyncActionsProvider } from './components/SyncActions'
 import Dashboard from './pages/Dashboard'
 import Secrets from './pages/Secrets'
+import SecretDetail from './pages/SecretDetail'
+import NamespaceDetail from './pages/NamespaceDetail'
 import SyncLogs from './pages/SyncLogs'
+import SyncLogDetail from './pages/SyncLogDetail'
+import SyncLogCompare from './pages/SyncLogCompare'
 import Resources from './pages/Resources'
 import Discovery from './pages/Discovery'
+import SyncSettings from './pages/SyncSettings'
+import FieldAuthoring from './pages/FieldAuthoring'
 import Login from './pages/Login'
 import { AuthProvider, useAuth } from './lib/auth'
 import { ErrorBoundary } from './components/ErrorBoundary'
@@ -37,15 +44,23 @@ function App() {
                 path="/*"
                 element={
                   <ProtectedRoute>
-                    <Layout>
-                      <Routes>
-                        <Route path="/" element={<Dashboard />} />
-                        <Route path="/secrets" element={<Secrets />} />
-                        <Route path="/logs" element={<SyncLogs />} />
-                        <Route path="/discovery" element={<Discovery />} />
-                        <Route path="/resources" element={<Resources />} />
-                      </Routes>
-                    </Layout>
+                    <SyncActionsProvider>
+                      <Layout>
+                        <Routes>
+                          <Route path="/" element={<Dashboard />} />
+                          <Route path="/secrets" element={<Secrets />} />
+                          <Route path="/secrets/:namespace/:name" element={<SecretDetail />} />
+                          <Route path="/namespaces/:namespace" element={<NamespaceDetail />} />
+                          <Route path="/logs" element={<SyncLogs />} />
+                          <Route path="/logs/compare" element={<SyncLogCompare />} />
+                          <Route path="/logs/:id" element={<SyncLogDetail />} />
+                          <Route path="/discovery" element={<Discovery />} />
+                          <Route path="/discovery/author" element={<FieldAuthoring />} />
+                          <Route path="/resources" element={<Resources />} />
+                          <Route path="/settings/sync" element={<SyncSettings />} />
+                        </Routes>
+                      </Layout>
+                    </SyncActionsProvider>
                   </ProtectedRoute>
                 }
               />
@@ -0,0 +1,96 @@
+import { useNavigate } from 'react-router-dom'
+import { Alert, Box, Button, Typography } from '@mui/joy'
+import {
+  ApiForbiddenError,
+  ApiNotFoundError,
+  ApiRateLimitedError,
+  ApiSchemaError,
+  ApiUnauthorizedError,
+  ApiUnavailableError,
+  ApiValidationError,
+  isApiError,
+} from '../lib/apiErrors'
+import { useAuth } from '../lib/auth'
+
+interface ApiErrorAlertProps {
+  error: unknown
+  /** What was being done when the error happened, e.g. "Failed to load secrets" */
+  context?: string
+  onRetry?: () => void
+}
+
+function describe(error: unknown): { heading: string; hint: string; color: 'danger' | 'warning' } {
+  if (error instanceof ApiUnauthorizedError) {
+    return { heading: '🔒 Session expired', hint: 'Your token was rejected by the API. Sign in again to continue.', color: 'warning' }
+  }
+  if (error instanceof ApiForbiddenError) {
+    return { heading: '⛔ Access denied', hint: 'The API refused this request for the current token.', color: 'danger' }
+  }
+  if (error instanceof ApiUnavailableError) {
+    return { heading: '📡 API unreachable', hint: 'Please check that the API is running and accessible. The page will retry automatically.', color: 'danger' }
+  }
+  if (error instanceof ApiRateLimitedError) {
+    return { heading: '⏳ Too many requests', hint: 'The API rate limit was reached. Wait a minute before retrying.', color: 'warning' }
+  }
+  if (error instanceof ApiNotFoundError) {
+    return { heading: '🔍 Not found', hint: 'The requested resource does not exist (anymore).', color: 'warning' }
+  }
+  if (error instanceof ApiValidationError) {
+    return { heading: '⚠️ Invalid request', hint: 'The API rejected the request as invalid.', color: 'danger' }
+  }
+  if (error instanceof ApiSchemaError) {
+    return {
+      heading: '🧩 Unexpected API response',
+      hint: 'The API sent data this dashboard version does not understand. Make sure the API and dashboard run the same release.',
+      color: 'warning',
+    }
+  }
+  return { heading: '❌ Error', hint: 'The API returned an unexpected error.', color: 'danger' }
+}
+
+/**
+ * Renders the recovery UI that matches the ApiError subclass thrown by the API client.
+ */
+export default function ApiErrorAlert({ error, context, onRetry }: ApiErrorAlertProps) {
+  const navigate = useNavigate()
+  const { logout, loginlessMode } = useAuth()
+  const { heading, hint, color } = describe(error)
+  const message = error instanceof Error ? error.message : String(error)
+
+  const handleSignIn = () => {
+    logout()
+    navigate('/login')
+  }
+
+  return (
+    <Alert color={color} variant="soft" data-testid="api-error-alert">
+      <Box sx={{ flex: 1 }}>
+        <Typography level="body-sm">
+          <strong>{heading}</strong>{context ? ` - ${context}` : ''}: {message}
+        </Typography>
+        <Typography level="body-xs" sx={{ mt: 1 }}>
+          {hint}
+        </Typography>
+        {isApiError(error) && (
+          <Typography level="body-xs" sx={{ mt: 0.5, color: 'text.tertiary', fontFamily: 'monospace' }}>
+            {error.status > 0 ? `HTTP ${error.status} • ` : ''}request {error.requestId}
+          </Typography>
+        )}
+        {(onRetry || (error instanceof ApiUnauthorizedError && !loginlessMode)) && (
+          <Box sx={{ display: 'flex', gap: 1, mt: 1.5 }}>
+            {error instanceof ApiUnauthorizedError && !loginlessMode && (
+              <Button size="sm" variant="solid" color={color} onClick={handleSignIn}>
+                Sign in again
+              </Button>
+            )}
+            {onRetry && !(error instanceof ApiUnauthorizedError) && (
+              <Button size="sm" variant="outlined" color={color} onClick={onRetry}>
+                Retry
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+    </Alert>
+  )
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react'
+import { Alert, Box, Button, IconButton, Typography } from '@mui/joy'
+import { dismissCompatibilityWarning, useApiCompatibility } from '../lib/apiCompatibility'
+
+/**
+ * Shown above every page when the API reports a different contract version
+ * or its responses stop matching the dashboard's schemas.
+ */
+export default function ApiVersionBanner() {
+  const { serverVersion, clientVersion, versionMismatch, schemaProblems, dismissed } = useApiCompatibility()
+  const [showDetails, setShowDetails] = useState(false)
+
+  if (dismissed || (!versionMismatch && schemaProblems.length === 0)) {
+    return null
+  }
+
+  return (
+    <Alert
+      color="warning"
+      variant="soft"
+      data-testid="api-version-banner"
+      sx={{ mb: 2, alignItems: 'flex-start' }}
+      endDecorator={
+        <IconButton size="sm" variant="plain" color="warning" onClick={dismissCompatibilityWarning} aria-label="Dismiss">
+          ✕
+        </IconButton>
+      }
+    >
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography level="title-sm">⚠️ Backend version mismatch</Typography>
+        <Typography level="body-sm">
+          {versionMismatch
+            ? `This dashboard expects API contract v${clientVersion} but the backend reports v${serverVersion}.`
+            : `${schemaProblems.length} API ${schemaProblems.length === 1 ? 'response' : 'responses'} did not have the shape this dashboard expects.`}
+          {' '}Some pages may show incomplete data until the API and dashboard are upgraded to the same release.
+        </Typography>
+        {schemaProblems.length > 0 && (
+          <>
+            <Button size="sm" variant="plain" color="warning" sx={{ px: 0, mt: 0.5 }} onClick={() => setShowDetails(!showDetails)}>
+              {showDetails ? 'Hide details' : 'Show details'}
+            </Button>
+            {showDetails && (
+              <Box component="ul" sx={{ m: 0, pl: 2, fontFamily: 'monospace', fontSize: '12px' }}>
+                {schemaProblems.map(problem => (
+                  <li key={`${problem.endpoint}-${problem.message}`}>
+                    {problem.endpoint}: {problem.message} (request {problem.requestId})
+                  </li>
+                ))}
+              </Box>
+            )}
+          </>
+        )}
+      </Box>
+    </Alert>
+  )
+}
@@ -0,0 +1,16 @@
+import { ThemeProvider, THEME_ID, createTheme } from '@mui/material/styles'
+
+// MUI X DataGrid is built on Material UI, not Joy. This gives it a Material theme
+// matching the Deep Ocean palette from main.tsx without touching Joy's theme.
+const materialTheme = createTheme({
+  palette: {
+    mode: 'dark',
+    primary: { main: '#38bdf8' },
+    background: { default: '#0a1628', paper: '#0f1f3a' },
+    divider: 'rgba(56, 189, 248, 0.2)',
+  },
+})
+
+export default function DataGridThemeProvider({ children }: { children: React.ReactNode }) {
+  return <ThemeProvider theme={{ [THEME_ID]: materialTheme }}>{children}</ThemeProvider>
+}
@@ -0,0 +1,217 @@
+import { Fragment, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Box, Button, Checkbox, Chip, IconButton, LinearProgress, Link, Sheet, Table, Tooltip, Typography } from '@mui/joy'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import type { DiscoveryVaultwardenItem } from '../lib/api'
+import { parseNamespaces } from '../lib/discoveryRules'
+import {
+  FacetName,
+  FacetSelection,
+  GroupCounts,
+  ITEM_SYNC_STATES,
+  ItemSyncState,
+  emptyFacetSelection,
+  facetValues,
+  filterByFacets,
+  groupItems,
+} from '../lib/discoveryGroups'
+import { secretDetailPath } from '../lib/utils'
+
+interface DiscoveryGroupsPanelProps {
+  items: DiscoveryVaultwardenItem[]
+  states: Map<string, ItemSyncState>
+  /** Last sync error of items whose every secret failed */
+  errors: Map<string, string>
+}
+
+const FACETS: Array<{ name: FacetName; label: string }> = [
+  { name: 'owner', label: 'Organization' },
+  { name: 'folder', label: 'Folder' },
+  { name: 'state', label: 'Sync state' },
+]
+
+function coverageColor(coverage: number): 'success' | 'warning' | 'danger' {
+  if (coverage >= 80) return 'success'
+  if (coverage >= 50) return 'warning'
+  return 'danger'
+}
+
+function CountCells({ counts }: { counts: GroupCounts }) {
+  return (
+    <>
+      <td>{counts.total}</td>
+      <td><Typography level="body-sm" sx={{ color: counts.synced ? 'success.plainColor' : 'text.tertiary' }}>{counts.synced}</Typography></td>
+      <td><Typography level="body-sm" sx={{ color: counts.failed ? 'danger.plainColor' : 'text.tertiary' }}>{counts.failed}</Typography></td>
+      <td><Typography level="body-sm" sx={{ color: counts.notSynced ? undefined : 'text.tertiary' }}>{counts.notSynced}</Typography></td>
+      <td data-testid="discovery-group-coverage">
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <LinearProgress determinate value={counts.coverage} color={coverageColor(counts.coverage)} sx={{ flex: 1 }} />
+          <Typography level="body-xs" sx={{ width: 36, textAlign: 'right' }}>{counts.coverage}%</Typography>
+        </Box>
+      </td>
+    </>
+  )
+}
+
+function GroupToggle({ open, onClick }: { open: boolean; onClick: () => void }) {
+  return (
+    <IconButton size="sm" variant="plain" color="neutral" onClick={onClick} aria-label={open ? 'Collapse' : 'Expand'} data-testid="discovery-group-toggle">
+      {open ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+    </IconButton>
+  )
+}
+
+/** Discovery items as an organization → folder tree with a facet sidebar */
+export default function DiscoveryGroupsPanel({ items, states, errors }: DiscoveryGroupsPanelProps) {
+  const navigate = useNavigate()
+  const [selection, setSelection] = useState<FacetSelection>(emptyFacetSelection)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const groups = groupItems(filterByFacets(items, selection, states), states)
+  const filtering = Object.values(selection).some(values => values.size > 0)
+
+  const toggleFacet = (facet: FacetName, value: string) => {
+    setSelection(current => {
+      const values = new Set(current[facet])
+      if (values.has(value)) values.delete(value)
+      else values.add(value)
+      return { ...current, [facet]: values }
+    })
+  }
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(current => {
+      const next = new Set(current)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const openItem = (item: DiscoveryVaultwardenItem) => {
+    const namespace = parseNamespaces(item.namespacesValue)[0]
+    if (states.get(item.id) === 'synced' && namespace && item.secretName) {
+      navigate(secretDetailPath(namespace, item.secretName))
+    }
+  }
+
+  return (
+    <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }} data-testid="discovery-groups">
+      <Sheet variant="soft" sx={{ width: 240, flexShrink: 0, p: 2, borderRadius: 'sm', display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {FACETS.map(facet => (
+          <Box key={facet.name} data-testid={`discovery-facet-${facet.name}`}>
+            <Typography level="title-sm" sx={{ mb: 1 }}>{facet.label}</Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.75 }}>
+              {facetValues(items, facet.name, selection, states).map(value => (
+                <Box key={value.value} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+                  <Checkbox
+                    size="sm"
+                    label={value.label}
+                    checked={selection[facet.name].has(value.value)}
+                    onChange={() => toggleFacet(facet.name, value.value)}
+                    sx={{ minWidth: 0, '& label': { overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' } }}
+                    data-testid="discovery-facet-value"
+                    data-value={value.value}
+                  />
+                  <Chip size="sm" variant="outlined">{value.count}</Chip>
+                </Box>
+              ))}
+            </Box>
+          </Box>
+        ))}
+        {filtering && (
+          <Link level="body-xs" onClick={() => setSelection(emptyFacetSelection())} data-testid="discovery-facets-clear">
+            Clear filters
+          </Link>
+        )}
+      </Sheet>
+
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <Button size="sm" variant="plain" onClick={() => setCollapsed(new Set())}>Expand all</Button>
+          <Button size="sm" variant="plain" onClick={() => setCollapsed(new Set(groups.map(group => group.key)))}>Collapse all</Button>
+        </Box>
+        <Sheet sx={{ overflow: 'auto' }}>
+          <Table hoverRow>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th style={{ width: 70 }}>Items</th>
+                <th style={{ width: 70 }}>Synced</th>
+                <th style={{ width: 70 }}>Failed</th>
+                <th style={{ width: 90 }}>Not synced</th>
+                <th style={{ width: '20%' }}>Coverage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.length === 0 && (
+                <tr>
+                  <td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
+                    <Typography level="body-sm" sx={{ color: 'text.secondary' }}>No items match the filters</Typography>
+                  </td>
+                </tr>
+              )}
+              {groups.map(group => (
+                <Fragment key={group.key}>
+                  <tr data-testid="discovery-group" data-level="owner" data-key={group.key}>
+                    <td>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        <GroupToggle open={!collapsed.has(group.key)} onClick={() => toggleGroup(group.key)} />
+                        <Typography level="title-sm">{group.personal ? '👤' : '🏢'} {group.name}</Typography>
+                      </Box>
+                    </td>
+                    <CountCells counts={group.counts} />
+                  </tr>
+                  {!collapsed.has(group.key) && group.folders.map(folder => (
+                    <Fragment key={folder.key}>
+                      <tr data-testid="discovery-group" data-level="folder" data-key={folder.key}>
+                        <td>
+                          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, pl: 3 }}>
+                            <GroupToggle open={!collapsed.has(folder.key)} onClick={() => toggleGroup(folder.key)} />
+                            <Typography level="body-sm" fontWeight="md">📁 {folder.name}</Typography>
+                          </Box>
+                        </td>
+                        <CountCells counts={folder.counts} />
+                      </tr>
+                      {!collapsed.has(folder.key) && folder.items.map(item => {
+                        const state = states.get(item.id) ?? 'not-synced'
+                        const namespaces = parseNamespaces(item.namespacesValue)
+                        return (
+                          <tr
+                            key={item.id}
+                            data-testid="discovery-group-item"
+                            data-state={state}
+                            onClick={() => openItem(item)}
+                            style={{ cursor: state === 'synced' ? 'pointer' : 'default' }}
+                          >
+                            <td>
+                              <Box sx={{ pl: 10 }}>
+                                <Typography level="body-sm">🔐 {item.name}</Typography>
+                                {namespaces.length > 0 && item.secretName && (
+                                  <Typography level="body-xs" fontFamily="monospace" sx={{ color: 'text.tertiary' }}>
+                                    {namespaces.join(', ')} / {item.secretName}
+                                  </Typography>
+                                )}
+                              </Box>
+                            </td>
+                            <td colSpan={5}>
+                              <Tooltip title={errors.get(item.id) ?? ''} disableHoverListener={!errors.has(item.id)}>
+                                <Chip size="sm" variant="soft" color={ITEM_SYNC_STATES[state].color}>
+                                  {ITEM_SYNC_STATES[state].label}
+                                </Chip>
+                              </Tooltip>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </Fragment>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </Table>
+        </Sheet>
+      </Box>
+    </Box>
+  )
+}
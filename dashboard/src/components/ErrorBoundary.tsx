@@ -1,5 +1,8 @@
 import { Component, ErrorInfo, ReactNode } from 'react'
 import { Box, Typography, Button, Alert } from '@mui/joy'
+import { createLogger } from '../lib/logger'
+
+const log = createLogger('app')
 
 interface Props {
   children: ReactNode
@@ -21,7 +24,7 @@ export class ErrorBoundary extends Component<Props, State> {
   }
 
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
-    console.error('Error caught by boundary:', error, errorInfo)
+    log.error('Render error caught by the boundary', { error, componentStack: errorInfo.componentStack })
   }
 
   handleReset = () => {
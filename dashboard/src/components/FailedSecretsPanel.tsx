@@ -0,0 +1,334 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  Chip,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormLabel,
+  Link,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Switch,
+  Table,
+  Textarea,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/joy'
+import { BellOff, Check, RotateCcw } from 'lucide-react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { api, DiscoverySyncedSecret, FailureTriageStatus } from '../lib/api'
+import { isApiError } from '../lib/apiErrors'
+import { secretKey } from '../lib/discoveryRules'
+import { FailureGroup, FailureGroupState, groupFailures } from '../lib/failureGroups'
+import { usePreference } from '../lib/preferences'
+import { formatDate, formatRelative, secretDetailPath } from '../lib/utils'
+
+interface FailedSecretsPanelProps {
+  failedSecrets: DiscoverySyncedSecret[]
+  searchTerm: string
+}
+
+const GROUP_STATES: Record<FailureGroupState, { label: string; color: 'danger' | 'neutral' | 'warning' }> = {
+  open: { label: 'Open', color: 'danger' },
+  acknowledged: { label: 'Acknowledged', color: 'neutral' },
+  snoozed: { label: 'Snoozed', color: 'warning' },
+}
+
+const SNOOZE_DURATIONS: Array<{ value: string; label: string; hours: number }> = [
+  { value: '1h', label: '1 hour', hours: 1 },
+  { value: '1d', label: '1 day', hours: 24 },
+  { value: '1w', label: '1 week', hours: 24 * 7 },
+]
+
+const MAX_NOTE_LENGTH = 1000
+
+interface TriageTarget {
+  group: FailureGroup
+  status: FailureTriageStatus
+}
+
+function matchesSearch(secret: DiscoverySyncedSecret, term: string): boolean {
+  return [secret.vaultwardenItemName, secret.namespace, secret.secretName, secret.lastError]
+    .some(value => value?.toLowerCase().includes(term))
+}
+
+function triageSummary(group: FailureGroup): string | null {
+  const triage = group.triage
+  if (!triage) return null
+  const by = triage.triagedBy ?? 'unknown'
+  if (triage.status === 'Snoozed') {
+    return group.state === 'snoozed'
+      ? `Snoozed by ${by} until ${formatDate(triage.snoozedUntil)}`
+      : `Snooze by ${by} expired ${formatRelative(triage.snoozedUntil)}`
+  }
+  return group.newSecrets.length > 0
+    ? `Acknowledged by ${by} ${formatRelative(triage.triagedAt)}, reopened: ${group.newSecrets.length} more failing`
+    : `Acknowledged by ${by} ${formatRelative(triage.triagedAt)}`
+}
+
+/** Failed secrets grouped by normalized error, with acknowledge / snooze decisions shared through the API */
+export default function FailedSecretsPanel({ failedSecrets, searchTerm }: FailedSecretsPanelProps) {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [actor] = usePreference('sync-schedule-actor', '')
+  const [showTriaged, setShowTriaged] = useState(false)
+  const [target, setTarget] = useState<TriageTarget | null>(null)
+  const [note, setNote] = useState('')
+  const [snooze, setSnooze] = useState(SNOOZE_DURATIONS[1].value)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Older APIs have no triage endpoint; failures still group, without decisions
+  const { data: triages, isError: triageUnavailable } = useQuery({
+    queryKey: ['failure-triage'],
+    queryFn: api.getFailureTriage,
+    retry: false,
+  })
+
+  const term = searchTerm.toLowerCase()
+  const groups = groupFailures(failedSecrets, triages ?? [])
+    .map(group => ({ group, secrets: term ? group.secrets.filter(secret => matchesSearch(secret, term)) : group.secrets }))
+    .filter(({ secrets }) => secrets.length > 0)
+  const openCount = groups.filter(({ group }) => group.state === 'open').length
+  const visible = groups.filter(({ group }) => showTriaged || group.state === 'open')
+
+  const openTriage = (group: FailureGroup, status: FailureTriageStatus) => {
+    setTarget({ group, status })
+    setNote(group.triage?.note ?? '')
+    setError(null)
+  }
+
+  const change = async (action: () => Promise<unknown>): Promise<boolean> => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      await action()
+      await queryClient.invalidateQueries({ queryKey: ['failure-triage'] })
+      return true
+    } catch (err) {
+      setError(isApiError(err) || err instanceof Error ? err.message : 'The failure group could not be updated')
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!target) return
+    const { group, status } = target
+    const hours = SNOOZE_DURATIONS.find(duration => duration.value === snooze)?.hours ?? 24
+    const saved = await change(() => api.setFailureTriage({
+      errorPattern: group.pattern,
+      status,
+      note: note.trim() || undefined,
+      snoozedUntil: status === 'Snoozed' ? new Date(Date.now() + hours * 3600_000).toISOString() : undefined,
+      secretKeys: group.secrets.map(secret => secretKey(secret.namespace, secret.secretName)),
+      by: actor.trim() || undefined,
+    }))
+    if (saved) setTarget(null)
+  }
+
+  if (failedSecrets.length === 0) {
+    return (
+      <Typography level="body-sm" sx={{ color: 'text.secondary', textAlign: 'center', p: 4 }} data-testid="failed-secrets">
+        No secret failed its last sync
+      </Typography>
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }} data-testid="failed-secrets">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+        <Typography level="body-sm" sx={{ color: 'text.secondary' }} data-testid="failed-secrets-summary">
+          {failedSecrets.length} failing {failedSecrets.length === 1 ? 'secret' : 'secrets'} in {groups.length}{' '}
+          {groups.length === 1 ? 'group' : 'groups'}, {openCount} open
+        </Typography>
+        <Switch
+          size="sm"
+          checked={showTriaged}
+          onChange={(e) => setShowTriaged(e.target.checked)}
+          endDecorator="Show acknowledged and snoozed"
+          data-testid="failed-secrets-show-triaged"
+        />
+      </Box>
+
+      {triageUnavailable && (
+        <Alert color="neutral" variant="soft">
+          This API version cannot store triage decisions; failures are grouped without them.
+        </Alert>
+      )}
+      {error && !target && (
+        <Alert color="danger" variant="soft">
+          {error}
+        </Alert>
+      )}
+
+      {visible.length === 0 && (
+        <Typography level="body-sm" sx={{ color: 'text.secondary', textAlign: 'center', p: 4 }}>
+          {groups.length === 0 ? 'No failures match your search' : 'Every failure group is acknowledged or snoozed'}
+        </Typography>
+      )}
+
+      {visible.map(({ group, secrets }) => (
+        <Card key={group.pattern} variant="outlined" data-testid="failure-group" data-state={group.state}>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+            <Box sx={{ minWidth: 0 }}>
+              <Typography level="title-sm" fontFamily="monospace" sx={{ wordBreak: 'break-word' }} data-testid="failure-group-pattern">
+                {group.pattern}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 1 }}>
+                <Chip size="sm" variant="soft" color={GROUP_STATES[group.state].color}>{GROUP_STATES[group.state].label}</Chip>
+                <Chip size="sm" variant="outlined" data-testid="failure-group-count">
+                  {group.secrets.length} {group.secrets.length === 1 ? 'secret' : 'secrets'}, {group.itemCount} {group.itemCount === 1 ? 'item' : 'items'}
+                </Chip>
+                {group.namespaces.map(namespace => (
+                  <Chip key={namespace} size="sm" variant="soft" color="primary" data-testid="failure-group-namespace">
+                    {namespace}
+                  </Chip>
+                ))}
+              </Box>
+              {group.triage && (
+                <Typography level="body-xs" sx={{ color: 'text.tertiary', mt: 1 }} data-testid="failure-group-triage">
+                  {triageSummary(group)}
+                  {group.triage.note && ` — ${group.triage.note}`}
+                </Typography>
+              )}
+            </Box>
+            {!triageUnavailable && (
+              <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+                {group.state === 'open' ? (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outlined"
+                      color="neutral"
+                      startDecorator={<Check size={14} />}
+                      onClick={() => openTriage(group, 'Acknowledged')}
+                      data-testid="failure-group-acknowledge"
+                    >
+                      Acknowledge
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outlined"
+                      color="warning"
+                      startDecorator={<BellOff size={14} />}
+                      onClick={() => openTriage(group, 'Snoozed')}
+                      data-testid="failure-group-snooze"
+                    >
+                      Snooze
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="plain"
+                    startDecorator={<RotateCcw size={14} />}
+                    loading={submitting}
+                    onClick={() => change(() => api.reopenFailureGroup(group.pattern))}
+                    data-testid="failure-group-reopen"
+                  >
+                    Reopen
+                  </Button>
+                )}
+              </Box>
+            )}
+          </Box>
+
+          <Table size="sm" hoverRow>
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Secret</th>
+                <th style={{ width: '45%' }}>Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {secrets.map(secret => (
+                <tr key={`${secret.vaultwardenItemId}/${secretKey(secret.namespace, secret.secretName)}`} data-testid="failure-group-secret">
+                  <td>
+                    <Typography level="body-sm">🔐 {secret.vaultwardenItemName}</Typography>
+                    {group.newSecrets.includes(secretKey(secret.namespace, secret.secretName)) && (
+                      <Chip size="sm" variant="soft" color="danger">New since acknowledged</Chip>
+                    )}
+                  </td>
+                  <td>
+                    <Link level="body-sm" onClick={() => navigate(secretDetailPath(secret.namespace, secret.secretName))}>
+                      {secret.namespace}/{secret.secretName}
+                    </Link>
+                  </td>
+                  <td>
+                    <Typography level="body-xs" fontFamily="monospace" sx={{ color: 'danger.plainColor', wordBreak: 'break-word' }}>
+                      {secret.lastError ?? 'No error details'}
+                    </Typography>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </Card>
+      ))}
+
+      <Modal open={target !== null} onClose={() => !submitting && setTarget(null)}>
+        <ModalDialog sx={{ width: 480, maxWidth: '100%' }} data-testid="failure-triage-dialog">
+          <ModalClose />
+          <DialogTitle>{target?.status === 'Snoozed' ? 'Snooze failure group' : 'Acknowledge failure group'}</DialogTitle>
+          <DialogContent sx={{ gap: 2 }}>
+            <Typography level="body-sm" fontFamily="monospace">{target?.group.pattern}</Typography>
+            <Typography level="body-xs">
+              {target?.status === 'Snoozed'
+                ? 'The group is hidden until the snooze ends, then reopens if it still fails.'
+                : 'The group stays hidden until another secret fails with the same error.'}
+            </Typography>
+            {target?.status === 'Snoozed' && (
+              <FormControl>
+                <FormLabel>Snooze for</FormLabel>
+                <ToggleButtonGroup
+                  size="sm"
+                  value={snooze}
+                  onChange={(_, value) => value && setSnooze(value)}
+                  data-testid="failure-triage-snooze"
+                >
+                  {SNOOZE_DURATIONS.map(duration => (
+                    <Button key={duration.value} value={duration.value}>{duration.label}</Button>
+                  ))}
+                </ToggleButtonGroup>
+              </FormControl>
+            )}
+            <FormControl>
+              <FormLabel>Note (optional)</FormLabel>
+              <Textarea
+                size="sm"
+                minRows={2}
+                value={note}
+                onChange={(e) => setNote(e.target.value.slice(0, MAX_NOTE_LENGTH))}
+                placeholder="e.g. Namespace is recreated with the cluster migration"
+                data-testid="failure-triage-note"
+              />
+            </FormControl>
+            {error && (
+              <Alert color="danger" variant="soft">
+                {error}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button loading={submitting} onClick={handleSubmit} data-testid="failure-triage-submit">
+              {target?.status === 'Snoozed' ? 'Snooze' : 'Acknowledge'}
+            </Button>
+            <Button variant="plain" color="neutral" disabled={submitting} onClick={() => setTarget(null)}>
+              Cancel
+            </Button>
+          </DialogActions>
+        </ModalDialog>
+      </Modal>
+    </Box>
+  )
+}
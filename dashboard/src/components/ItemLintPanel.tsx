@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react'
+import { useQueries } from '@tanstack/react-query'
+import { Box, Chip, LinearProgress, Link, Sheet, Table, Typography } from '@mui/joy'
+import { api, DiscoveryVaultwardenItem, SyncConfig, VaultwardenItemField } from '../lib/api'
+import { LINT_RULES, LintSeverity, lintItems } from '../lib/itemLint'
+
+interface ItemLintPanelProps {
+  items: DiscoveryVaultwardenItem[]
+  config?: SyncConfig
+  searchTerm: string
+}
+
+// Older APIs serve field names one item at a time and allow 20 requests per minute per client,
+// so those are fetched a few at a time, leaving most of the budget to the rest of the dashboard
+const FIELD_FETCH_BATCH_SIZE = 5
+const FIELD_FETCH_BATCH_DELAY = 30000
+
+const SEVERITY_COLORS: Record<LintSeverity, 'danger' | 'warning'> = {
+  error: 'danger',
+  warning: 'warning',
+}
+
+/** Lint tab of the Discovery page; field names come with the discovery data */
+export default function ItemLintPanel({ items, config, searchTerm }: ItemLintPanelProps) {
+  const [severityFilter, setSeverityFilter] = useState<LintSeverity | null>(null)
+  const [batches, setBatches] = useState(1)
+
+  const withFields = items.filter(item => item.fields > 0 && item.fieldNames === null)
+  const fieldQueries = useQueries({
+    queries: withFields.map((item, index) => ({
+      queryKey: ['vaultwarden-item-fields', item.id],
+      queryFn: () => api.getVaultwardenItemFields(item.id),
+      staleTime: 60000,
+      retry: false,
+      enabled: index < batches * FIELD_FETCH_BATCH_SIZE,
+    })),
+  })
+
+  useEffect(() => {
+    if (batches * FIELD_FETCH_BATCH_SIZE >= withFields.length) return
+    const timer = setTimeout(() => setBatches(count => count + 1), FIELD_FETCH_BATCH_DELAY)
+    return () => clearTimeout(timer)
+  }, [batches, withFields.length])
+
+  const fieldsByItem = new Map<string, VaultwardenItemField[]>(
+    items.flatMap(item => (item.fieldNames ? [[item.id, item.fieldNames.map(name => ({ name }))]] : []))
+  )
+  fieldQueries.forEach((query, index) => {
+    if (query.data) fieldsByItem.set(withFields[index].id, query.data)
+  })
+  const pending = fieldQueries.filter(query => query.isPending).length
+  const failed = fieldQueries.filter(query => query.isError).length
+
+  const issues = lintItems(items, fieldsByItem, config)
+  const counts = {
+    error: issues.filter(issue => issue.severity === 'error').length,
+    warning: issues.filter(issue => issue.severity === 'warning').length,
+  }
+  const affectedItems = new Set(issues.map(issue => issue.itemId)).size
+
+  const search = searchTerm.toLowerCase()
+  const visibleIssues = issues.filter(issue =>
+    (!severityFilter || issue.severity === severityFilter) &&
+    (issue.itemName.toLowerCase().includes(search) || (issue.field?.toLowerCase().includes(search) ?? false))
+  )
+
+  return (
+    <Box data-testid="item-lint">
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }} data-testid="item-lint-summary">
+        {(['error', 'warning'] as LintSeverity[]).map(severity => (
+          <Chip
+            key={severity}
+            size="sm"
+            variant={severityFilter === severity ? 'solid' : 'soft'}
+            color={SEVERITY_COLORS[severity]}
+            onClick={() => setSeverityFilter(severityFilter === severity ? null : severity)}
+            data-testid={`item-lint-severity-${severity}`}
+          >
+            {counts[severity]} {counts[severity] === 1 ? severity : `${severity}s`}
+          </Chip>
+        ))}
+        <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+          in {affectedItems} of {items.length} items
+        </Typography>
+        {severityFilter && (
+          <Link level="body-xs" onClick={() => setSeverityFilter(null)}>
+            Show all
+          </Link>
+        )}
+      </Box>
+
+      {pending > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography level="body-xs" sx={{ color: 'text.secondary', mb: 0.5 }}>
+            Checking the fields of {withFields.length - pending} / {withFields.length} items...
+          </Typography>
+          <LinearProgress determinate value={((withFields.length - pending) / withFields.length) * 100} />
+        </Box>
+      )}
+      {failed > 0 && (
+        <Typography level="body-xs" sx={{ color: 'warning.plainColor', mb: 2 }}>
+          The fields of {failed} {failed === 1 ? 'item' : 'items'} could not be loaded; only their namespaces and secret name were checked.
+        </Typography>
+      )}
+
+      <Sheet sx={{ overflow: 'auto' }}>
+        <Table hoverRow>
+          <thead>
+            <tr>
+              <th style={{ width: '22%' }}>Item</th>
+              <th style={{ width: 110 }}>Severity</th>
+              <th style={{ width: '18%' }}>Field</th>
+              <th>Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleIssues.length > 0 ? (
+              visibleIssues.map((issue, index) => (
+                <tr key={`${issue.itemId}-${index}`} data-testid="item-lint-issue" data-severity={issue.severity} data-rule={issue.rule}>
+                  <td>
+                    <Typography level="body-sm" fontWeight="medium">🔐 {issue.itemName}</Typography>
+                  </td>
+                  <td>
+                    <Chip size="sm" variant="soft" color={SEVERITY_COLORS[issue.severity]}>
+                      {issue.severity === 'error' ? 'Error' : 'Warning'}
+                    </Chip>
+                  </td>
+                  <td data-testid="item-lint-field">
+                    {issue.field ? (
+                      <Typography level="body-sm" fontFamily="monospace">{issue.field}</Typography>
+                    ) : (
+                      <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>Item name</Typography>
+                    )}
+                  </td>
+                  <td>
+                    <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>{LINT_RULES[issue.rule].label}</Typography>
+                    <Typography level="body-sm">{issue.message}</Typography>
+                    <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+                      <strong>Fix:</strong> {issue.fix}
+                    </Typography>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={4} style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+                    {issues.length > 0 ? 'No problems match the filters' : `No problems found in ${items.length} items`}
+                  </Typography>
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </Table>
+      </Sheet>
+    </Box>
+  )
+}
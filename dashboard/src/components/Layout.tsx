@@ -11,7 +11,10 @@ import {
   Chip,
 } from '@mui/joy'
 import { useAuth } from '../lib/auth'
-// import SyncProgressBar from './SyncProgressBar' // Commented out - not currently used
+import ApiVersionBanner from './ApiVersionBanner'
+import SyncProgressBar from './SyncProgressBar'
+import { SyncNowButton } from './SyncActions'
+import { SyncScheduleBanner, SyncScheduleButton } from './SyncSchedule'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -28,8 +31,13 @@ export default function Layout({ children }: LayoutProps) {
     { path: '/secrets', label: 'Secrets' },
     { path: '/discovery', label: 'Discovery' },
     { path: '/logs', label: 'Sync Logs' },
+    { path: '/settings/sync', label: 'Settings' },
   ]
 
+  // Detail pages (e.g. /secrets/:namespace/:name) keep their section highlighted
+  const isActive = (path: string) =>
+    path === '/' ? location.pathname === '/' : location.pathname === path || location.pathname.startsWith(`${path}/`)
+
   const handleLogout = () => {
     logout()
     navigate('/login')
@@ -79,9 +87,9 @@ export default function Layout({ children }: LayoutProps) {
           {navItems.map((item) => (
             <ListItem key={item.path}>
               <ListItemButton
-                selected={location.pathname === item.path}
+                selected={isActive(item.path)}
                 onClick={() => navigate(item.path)}
-                color={location.pathname === item.path ? 'primary' : 'neutral'}
+                color={isActive(item.path) ? 'primary' : 'neutral'}
               >
                 {item.label}
               </ListItemButton>
@@ -91,7 +99,7 @@ export default function Layout({ children }: LayoutProps) {
 
 
         {/* Sync Progress Bar - Sticky at top */}
-        {/* <Box sx={{
+        <Box sx={{
           position: 'sticky',
           top: 0,
           zIndex: 10,
@@ -99,7 +107,11 @@ export default function Layout({ children }: LayoutProps) {
           bgcolor: 'background.body',
         }}>
           <SyncProgressBar />
-        </Box> */}
+          <Box sx={{ mt: 1 }}>
+            <SyncNowButton />
+            <SyncScheduleButton />
+          </Box>
+        </Box>
         
         {/* Logout button below sync bar */}
         {!loginlessMode && (
@@ -211,6 +223,8 @@ export default function Layout({ children }: LayoutProps) {
             p: { xs: 2, md: 3 },
             pt: { xs: 1, md: 2 },
           }}>
+            <ApiVersionBanner />
+            <SyncScheduleBanner />
             {children}
           </Box>
         </Box>
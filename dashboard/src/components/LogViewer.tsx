@@ -0,0 +1,254 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
+import { Box, Button, IconButton, Input, Option, Select, Sheet, Typography } from '@mui/joy'
+import { ChevronDown, ChevronUp, Download, Pause, Play, Search } from 'lucide-react'
+import { format } from 'date-fns'
+import { AnsiStyle, parseAnsi } from '../lib/ansi'
+import { LogLevel, LogLine, isAtLeastLevel } from '../lib/logBuffer'
+
+interface LogViewerProps {
+  lines: LogLine[]
+  /** How many older lines the bounded buffer has discarded */
+  droppedLines?: number
+  emptyMessage: string
+  /** Prefix of the downloaded file name */
+  downloadName?: string
+}
+
+// Rows have a fixed height so only the visible slice needs to be rendered
+const ROW_HEIGHT = 20
+const OVERSCAN = 20
+
+const LEVEL_OPTIONS: { value: LogLevel; label: string }[] = [
+  { value: 'TRACE', label: 'All levels' },
+  { value: 'DEBUG', label: 'Debug and above' },
+  { value: 'INFO', label: 'Info and above' },
+  { value: 'WARN', label: 'Warnings and errors' },
+  { value: 'ERROR', label: 'Errors only' },
+]
+
+function toCss(style: AnsiStyle): React.CSSProperties {
+  return {
+    color: style.color,
+    backgroundColor: style.background,
+    fontWeight: style.bold ? 700 : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: style.underline ? 'underline' : undefined,
+  }
+}
+
+function highlight(text: string, term: string): React.ReactNode {
+  if (!term) return text
+  const parts: React.ReactNode[] = []
+  const lower = text.toLowerCase()
+  let from = 0
+  for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, from)) {
+    parts.push(text.slice(from, at))
+    parts.push(
+      <mark key={at} style={{ background: '#facc15', color: '#111827', borderRadius: 2 }}>
+        {text.slice(at, at + term.length)}
+      </mark>
+    )
+    from = at + term.length
+  }
+  parts.push(text.slice(from))
+  return parts
+}
+
+export default function LogViewer({ lines, droppedLines = 0, emptyMessage, downloadName = 'sync-output' }: LogViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(400)
+  const [following, setFollowing] = useState(true)
+  const [pausedAtId, setPausedAtId] = useState<number | null>(null)
+  const [search, setSearch] = useState('')
+  const [activeMatch, setActiveMatch] = useState(0)
+  const [minLevel, setMinLevel] = useState<LogLevel>('TRACE')
+
+  const term = search.trim().toLowerCase()
+  const visibleLines = useMemo(() => lines.filter(line => isAtLeastLevel(line, minLevel)), [lines, minLevel])
+  const matches = useMemo(
+    () => term ? visibleLines.flatMap((line, index) => line.text.toLowerCase().includes(term) ? [index] : []) : [],
+    [visibleLines, term]
+  )
+  const lastId = lines.length > 0 ? lines[lines.length - 1].id : 0
+  const newSincePause = pausedAtId !== null ? lastId - pausedAtId : 0
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // Stick to the newest line while following
+  useLayoutEffect(() => {
+    if (following && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight
+    }
+  }, [following, visibleLines])
+
+  useEffect(() => {
+    setActiveMatch(0)
+  }, [term, minLevel])
+
+  const pause = () => {
+    setFollowing(false)
+    setPausedAtId(lastId)
+  }
+
+  const resume = () => {
+    setFollowing(true)
+    setPausedAtId(null)
+  }
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget
+    setScrollTop(el.scrollTop)
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < ROW_HEIGHT
+    // Scrolling up pauses autoscroll, scrolling back to the bottom resumes it
+    if (atBottom && !following) resume()
+    else if (!atBottom && following) pause()
+  }
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return
+    const wrapped = (index + matches.length) % matches.length
+    setActiveMatch(wrapped)
+    if (following) pause()
+    if (containerRef.current) {
+      containerRef.current.scrollTop = matches[wrapped] * ROW_HEIGHT - viewportHeight / 2
+    }
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([lines.map(line => line.text).join('\n') + '\n'], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${downloadName}-${format(new Date(), 'yyyyMMdd-HHmmss')}.log`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(visibleLines.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN)
+  const activeLine = matches.length > 0 ? matches[activeMatch] : -1
+
+  return (
+    <Box data-testid="log-viewer">
+      <Box sx={{ display: 'flex', gap: 1, mb: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Input
+          size="sm"
+          placeholder="Search output..."
+          startDecorator={<Search size={14} />}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') goToMatch(activeMatch + (e.shiftKey ? -1 : 1))
+          }}
+          endDecorator={term && (
+            <Typography level="body-xs" sx={{ color: 'text.secondary', whiteSpace: 'nowrap' }} data-testid="log-viewer-match-count">
+              {matches.length === 0 ? 'No matches' : `${activeMatch + 1} / ${matches.length}`}
+            </Typography>
+          )}
+          sx={{ flex: 1, minWidth: 220 }}
+          data-testid="log-viewer-search"
+        />
+        <IconButton size="sm" variant="outlined" disabled={matches.length === 0} onClick={() => goToMatch(activeMatch - 1)} aria-label="Previous match">
+          <ChevronUp size={16} />
+        </IconButton>
+        <IconButton size="sm" variant="outlined" disabled={matches.length === 0} onClick={() => goToMatch(activeMatch + 1)} aria-label="Next match">
+          <ChevronDown size={16} />
+        </IconButton>
+        <Select
+          size="sm"
+          value={minLevel}
+          onChange={(_, value) => value && setMinLevel(value)}
+          sx={{ minWidth: 170 }}
+          data-testid="log-viewer-level"
+        >
+          {LEVEL_OPTIONS.map(option => (
+            <Option key={option.value} value={option.value}>{option.label}</Option>
+          ))}
+        </Select>
+        <Button
+          size="sm"
+          variant={following ? 'outlined' : 'solid'}
+          color={following ? 'neutral' : 'primary'}
+          startDecorator={following ? <Pause size={14} /> : <Play size={14} />}
+          onClick={following ? pause : resume}
+          data-testid="log-viewer-follow"
+        >
+          {following ? 'Pause' : newSincePause > 0 ? `Resume (${newSincePause} new)` : 'Resume'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outlined"
+          color="neutral"
+          startDecorator={<Download size={14} />}
+          disabled={lines.length === 0}
+          onClick={handleDownload}
+          data-testid="log-viewer-download"
+        >
+          .log
+        </Button>
+      </Box>
+
+      <Sheet
+        ref={containerRef}
+        variant="soft"
+        onScroll={handleScroll}
+        sx={{
+          height: '50vh',
+          overflow: 'auto',
+          borderRadius: 'sm',
+          bgcolor: 'neutral.900',
+          color: 'neutral.50',
+          fontFamily: 'monospace',
+          fontSize: '0.8125rem',
+        }}
+        data-testid="log-viewer-output"
+      >
+        {visibleLines.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'neutral.400', textAlign: 'center', py: 4 }}>
+            {lines.length === 0 ? emptyMessage : 'No lines at this level'}
+          </Typography>
+        ) : (
+          <Box sx={{ position: 'relative', height: visibleLines.length * ROW_HEIGHT }}>
+            {visibleLines.slice(first, last).map((line, offset) => {
+              const index = first + offset
+              return (
+                <Box
+                  key={line.id}
+                  data-testid="log-viewer-line"
+                  sx={{
+                    position: 'absolute',
+                    top: index * ROW_HEIGHT,
+                    left: 0,
+                    minWidth: '100%',
+                    height: ROW_HEIGHT,
+                    lineHeight: `${ROW_HEIGHT}px`,
+                    px: 1.5,
+                    whiteSpace: 'pre',
+                    bgcolor: index === activeLine ? 'rgba(250, 204, 21, 0.15)' : undefined,
+                  }}
+                >
+                  {parseAnsi(line.raw).map((segment, i) => (
+                    <span key={i} style={toCss(segment.style)}>{highlight(segment.text, term)}</span>
+                  ))}
+                </Box>
+              )
+            })}
+          </Box>
+        )}
+      </Sheet>
+
+      <Typography level="body-xs" sx={{ color: 'text.tertiary', mt: 0.5 }}>
+        {lines.length} lines
+        {droppedLines > 0 && ` · ${droppedLines} older lines discarded to keep the console responsive`}
+      </Typography>
+    </Box>
+  )
+}
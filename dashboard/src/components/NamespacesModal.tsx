@@ -1,4 +1,6 @@
-import { Modal, ModalDialog, ModalClose, Typography, Box, Sheet, Table, Chip } from '@mui/joy'
+import { Modal, ModalDialog, ModalClose, Typography, Box, Sheet, Table, Chip, Link } from '@mui/joy'
+import { useNavigate } from 'react-router-dom'
+import { secretDetailPath } from '../lib/utils'
 
 interface NamespaceInfo {
   namespace: string
@@ -22,6 +24,8 @@ export default function NamespacesModal({
   namespaces,
   onViewKeys 
 }: NamespacesModalProps) {
+  const navigate = useNavigate()
+
   return (
     <Modal open={open} onClose={onClose}>
       <ModalDialog sx={{ minWidth: 600, maxWidth: '90vw' }}>
@@ -57,7 +61,9 @@ export default function NamespacesModal({
                       <Typography fontWeight="medium">{ns.namespace}</Typography>
                     </td>
                     <td>
-                      <Typography level="body-sm">{ns.secretName}</Typography>
+                      <Link level="body-sm" onClick={() => navigate(secretDetailPath(ns.namespace, ns.secretName))}>
+                        {ns.secretName}
+                      </Link>
                     </td>
                     <td>
                       <Chip
@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Option,
+  Select,
+  Sheet,
+  Switch,
+  Tooltip,
+  Typography,
+} from '@mui/joy'
+import { Copy, Download, FileCode } from 'lucide-react'
+import { api } from '../lib/api'
+import { ApiNotFoundError } from '../lib/apiErrors'
+import { draftPreview, itemDataValues, itemDraft } from '../lib/fieldAuthoring'
+import { manifestFileName, renderSecretManifest } from '../lib/secretManifest'
+
+export interface ManifestTarget {
+  itemId: string
+  itemName: string
+  secretName: string
+  /** Namespaces the item targets; the manifest is rendered for one at a time */
+  namespaces: string[]
+}
+
+interface SecretManifestModalProps {
+  target: ManifestTarget | null
+  onClose: () => void
+}
+
+/** Opens the manifest preview from a table row */
+export function ManifestButton({ onClick }: { onClick: () => void }) {
+  return (
+    <Tooltip title="Preview Secret manifest">
+      <IconButton
+        size="sm"
+        variant="plain"
+        color="neutral"
+        onClick={(event) => {
+          // Rows navigate on click
+          event.stopPropagation()
+          onClick()
+        }}
+        aria-label="Preview manifest"
+        data-testid="secret-manifest-button"
+      >
+        <FileCode size={16} />
+      </IconButton>
+    </Tooltip>
+  )
+}
+
+export default function SecretManifestModal({ target, onClose }: SecretManifestModalProps) {
+  const [selectedNamespace, setSelectedNamespace] = useState<string | null>(null)
+  const [showSources, setShowSources] = useState(false)
+  const [showValues, setShowValues] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  // The manifest is built here from the item's fields, so it reflects them before the next sync
+  const { data: fields, isLoading: fieldsLoading, error: fieldsError } = useQuery({
+    queryKey: ['vaultwarden-item-fields', target?.itemId],
+    queryFn: () => api.getVaultwardenItemFields(target!.itemId),
+    enabled: target !== null,
+    retry: false,
+  })
+
+  const { data: config, isLoading: configLoading } = useQuery({
+    queryKey: ['sync-config'],
+    queryFn: api.getSyncConfig,
+    enabled: target !== null,
+    retry: false,
+  })
+
+  // Only when the fields cannot be read: the preview the last sync cached
+  const { data: cachedPreview, isLoading: cachedLoading, error: cachedError } = useQuery({
+    queryKey: ['secret-preview', target?.itemId],
+    queryFn: () => api.getSecretPreview(target!.itemId),
+    enabled: target !== null && fieldsError !== null,
+    retry: false,
+  })
+
+  const handleClose = () => {
+    setSelectedNamespace(null)
+    setShowValues(false)
+    setCopied(false)
+    onClose()
+  }
+
+  const unconfigured = target !== null && target.namespaces.length === 0
+  const namespace = selectedNamespace ?? target?.namespaces[0] ?? config?.kubernetes.defaultNamespace ?? 'default'
+  const isLoading = fieldsLoading || configLoading || (fieldsError !== null && cachedLoading)
+  const error = fieldsError !== null && !cachedPreview ? cachedError ?? fieldsError : null
+  const preview = target && fields
+    ? draftPreview(itemDraft({ secretName: target.secretName, namespaces: target.namespaces, fields }, config), config)
+    : cachedPreview
+  // The API sends field names only; values are known when it sends full fields
+  const values = fields ? itemDataValues(fields, config) : {}
+  const hasValues = Object.keys(values).length > 0
+  const manifest = target && preview && !isLoading
+    ? renderSecretManifest({
+      namespace,
+      secretName: target.secretName,
+      preview,
+      fields,
+      showSources,
+      values: showValues ? values : undefined,
+      header: fields
+        ? `Built from the item's fields; ${showValues ? 'known values are shown' : 'values are masked'}`
+        : undefined,
+    })
+    : ''
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(manifest)
+    setCopied(true)
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([manifest], { type: 'application/yaml' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = manifestFileName(namespace, target!.secretName)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Modal open={target !== null} onClose={handleClose}>
+      <ModalDialog sx={{ width: 760, maxWidth: '95vw', maxHeight: '90vh' }} data-testid="secret-manifest-modal">
+        <ModalClose />
+        <DialogTitle>Secret manifest: {target?.itemName}</DialogTitle>
+        <DialogContent sx={{ gap: 2 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            {target && target.namespaces.length > 1 && (
+              <Select
+                size="sm"
+                value={namespace}
+                onChange={(_, value) => value && setSelectedNamespace(value)}
+                data-testid="secret-manifest-namespace"
+              >
+                {target.namespaces.map(ns => (
+                  <Option key={ns} value={ns}>{ns}</Option>
+                ))}
+              </Select>
+            )}
+            <Switch
+              size="sm"
+              checked={showSources}
+              onChange={(e) => setShowSources(e.target.checked)}
+              endDecorator="Show value sources"
+              data-testid="secret-manifest-sources"
+            />
+            <Tooltip title={hasValues ? '' : 'The API does not send field values'}>
+              <Switch
+                size="sm"
+                checked={showValues}
+                disabled={!hasValues}
+                onChange={(e) => setShowValues(e.target.checked)}
+                endDecorator="Show values"
+                data-testid="secret-manifest-reveal"
+              />
+            </Tooltip>
+          </Box>
+
+          {unconfigured && (
+            <Alert color="warning" variant="soft" data-testid="secret-manifest-unconfigured">
+              The item has no namespaces field, so the sync does not write this secret yet.
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Alert color="neutral" variant="soft" data-testid="secret-manifest-unavailable">
+              {error instanceof ApiNotFoundError
+                ? 'The item is not cached yet: it is read from Vaultwarden on the next sync.'
+                : `The preview could not be loaded: ${error instanceof Error ? error.message : 'unknown error'}`}
+            </Alert>
+          ) : (
+            <>
+              {preview?.error && (
+                <Alert color="danger" variant="soft" data-testid="secret-manifest-error">
+                  The sync cannot build this secret's data: {preview.error}
+                </Alert>
+              )}
+              <Sheet variant="soft" sx={{ borderRadius: 'sm', overflow: 'auto', p: 2 }}>
+                <Typography
+                  component="pre"
+                  level="body-xs"
+                  fontFamily="monospace"
+                  sx={{ m: 0, whiteSpace: 'pre' }}
+                  data-testid="secret-manifest-yaml"
+                >
+                  {manifest}
+                </Typography>
+              </Sheet>
+              <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>
+                {fields
+                  ? 'Built from the item\'s custom fields. Key overrides, labels and annotations only show when the API sends field values; the username and password keys assume a login item.'
+                  : 'Built by the last sync, as the item\'s fields could not be read.'}{' '}
+                A secret written by several items combines their keys, labels and annotations.
+              </Typography>
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button
+            size="sm"
+            startDecorator={<Download size={14} />}
+            disabled={!manifest}
+            onClick={handleDownload}
+            data-testid="secret-manifest-download"
+          >
+            Download
+          </Button>
+          <Button
+            size="sm"
+            variant="soft"
+            startDecorator={<Copy size={14} />}
+            disabled={!manifest}
+            onClick={handleCopy}
+            data-testid="secret-manifest-copy"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button size="sm" variant="plain" color="neutral" onClick={handleClose}>
+            Close
+          </Button>
+        </DialogActions>
+      </ModalDialog>
+    </Modal>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { Box, Button, Chip, Typography } from '@mui/joy'
+import { RefreshCw } from 'lucide-react'
+import { ConnectionStatus } from '../lib/apiStream'
+
+interface StreamProps {
+  stream: ConnectionStatus & { retryNow: () => void }
+}
+
+const STATE_CHIPS = {
+  idle: { label: 'Idle', color: 'neutral' },
+  connecting: { label: 'Connecting', color: 'neutral' },
+  live: { label: 'Live', color: 'success' },
+  reconnecting: { label: 'Reconnecting', color: 'warning' },
+  unavailable: { label: 'Offline', color: 'danger' },
+} as const
+
+export function StreamStateChip({ stream }: StreamProps) {
+  const chip = STATE_CHIPS[stream.state]
+  return (
+    <Chip size="sm" variant="soft" color={chip.color} sx={{ ml: 1 }} data-testid="stream-state">
+      {chip.label}
+    </Chip>
+  )
+}
+
+/** One-line description of the connection with a retry button while it is down */
+export default function StreamStatus({ stream }: StreamProps) {
+  const [now, setNow] = useState(Date.now())
+
+  // Tick once a second so the countdown to the next attempt stays current
+  useEffect(() => {
+    if (stream.retryAt === null) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [stream.retryAt])
+
+  let text: string
+  switch (stream.state) {
+    case 'live':
+      text = '🟢 Live stream active'
+      break
+    case 'connecting':
+      text = 'Connecting to the live stream...'
+      break
+    case 'reconnecting':
+      text = stream.retryAt !== null
+        ? `Connection lost${stream.error ? ` (${stream.error})` : ''} - retrying in ${Math.max(0, Math.ceil((stream.retryAt - now) / 1000))}s (attempt ${stream.attempt})`
+        : `Reconnecting (attempt ${stream.attempt})...`
+      break
+    case 'unavailable':
+      text = `Offline - ${stream.error ?? 'the live stream is unavailable'}`
+      break
+    default:
+      text = 'Not connected'
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }} data-testid="stream-status">
+      <Typography level="body-xs" sx={{ color: 'text.secondary' }}>{text}</Typography>
+      {(stream.state === 'unavailable' || stream.retryAt !== null) && (
+        <Button
+          size="sm"
+          variant="plain"
+          startDecorator={<RefreshCw size={12} />}
+          onClick={stream.retryNow}
+          data-testid="stream-retry"
+        >
+          Retry now
+        </Button>
+      )}
+    </Box>
+  )
+}
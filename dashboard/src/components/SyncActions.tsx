@@ -0,0 +1,204 @@
+import { createContext, useContext, useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Modal,
+  ModalDialog,
+  Tooltip,
+} from '@mui/joy'
+import { RefreshCw, RotateCw } from 'lucide-react'
+import { api, SyncTarget } from '../lib/api'
+import { ApiValidationError, isApiError } from '../lib/apiErrors'
+import { isSyncRunning, SyncProgressStream, useSyncProgress } from '../lib/syncProgress'
+import SyncOutputModal from './SyncOutputModal'
+
+interface SyncActionsContextType {
+  /** Pushed progress, shared so the whole app keeps a single stream open */
+  progress: SyncProgressStream
+  /** A sync is running, or one was just requested and has not reported progress yet */
+  busy: boolean
+  /** Asks for confirmation, requests the sync and opens the live console */
+  requestSync: (target?: SyncTarget, label?: string) => void
+}
+
+const SyncActionsContext = createContext<SyncActionsContextType | undefined>(undefined)
+
+// How long a request counts as starting when the sync service never reports progress
+const STARTING_TIMEOUT_MS = 30_000
+
+const BUSY_HINT = 'A sync is already running - wait for it to finish'
+
+function describeTarget(target: SyncTarget, label?: string): string {
+  if (label) return label
+  if (target.namespace || target.secretName) return `${target.namespace ?? '*'}/${target.secretName ?? '*'}`
+  if (target.itemId) return `item ${target.itemId}`
+  return 'all secrets'
+}
+
+function isFullSync(target: SyncTarget): boolean {
+  return !target.namespace && !target.secretName && !target.itemId
+}
+
+function describeError(error: unknown): string {
+  // The API answers 409 while the global sync lock is held
+  if (error instanceof ApiValidationError && error.status === 409) return BUSY_HINT
+  if (isApiError(error) || error instanceof Error) return error.message
+  return 'The sync could not be requested'
+}
+
+export function SyncActionsProvider({ children }: { children: React.ReactNode }) {
+  const progress = useSyncProgress()
+  const [pending, setPending] = useState<{ target: SyncTarget; label: string } | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [startingSince, setStartingSince] = useState<number | null>(null)
+  const [consoleOpen, setConsoleOpen] = useState(false)
+
+  const running = progress.state === 'live' && isSyncRunning(progress.progress)
+
+  // The request is settled once the sync reports progress, or after a timeout
+  useEffect(() => {
+    if (startingSince === null) return
+    if (running) {
+      setStartingSince(null)
+      return
+    }
+    const timer = setTimeout(() => setStartingSince(null), Math.max(0, startingSince + STARTING_TIMEOUT_MS - Date.now()))
+    return () => clearTimeout(timer)
+  }, [startingSince, running])
+
+  const busy = running || startingSince !== null
+
+  const requestSync = (target: SyncTarget = {}, label?: string) => {
+    setError(null)
+    setPending({ target, label: describeTarget(target, label) })
+  }
+
+  const handleConfirm = async () => {
+    if (!pending) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      await api.requestSync(pending.target)
+      setPending(null)
+      setStartingSince(Date.now())
+      setConsoleOpen(true)
+    } catch (err) {
+      setError(describeError(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const full = pending ? isFullSync(pending.target) : false
+
+  return (
+    <SyncActionsContext.Provider value={{ progress, busy, requestSync }}>
+      {children}
+
+      <Modal open={pending !== null} onClose={() => !submitting && setPending(null)}>
+        <ModalDialog sx={{ maxWidth: 480 }} data-testid="sync-confirm-dialog">
+          <DialogTitle>{full ? 'Sync now?' : 'Resync secret?'}</DialogTitle>
+          <DialogContent>
+            {full
+              ? 'Starts a full sync of every Vaultwarden item right away instead of waiting for the next interval.'
+              : `Reconciles ${pending?.label} from Vaultwarden right away. Other secrets are left untouched.`}
+            {(error || running) && (
+              <Alert color={error && !running ? 'danger' : 'warning'} variant="soft" sx={{ mt: 2 }} data-testid="sync-confirm-error">
+                {running ? BUSY_HINT : error}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button
+              onClick={handleConfirm}
+              loading={submitting}
+              disabled={running}
+              startDecorator={full ? <RefreshCw size={16} /> : <RotateCw size={16} />}
+              data-testid="sync-confirm"
+            >
+              {full ? 'Sync now' : 'Resync'}
+            </Button>
+            <Button variant="plain" color="neutral" onClick={() => setPending(null)} disabled={submitting}>
+              Cancel
+            </Button>
+          </DialogActions>
+        </ModalDialog>
+      </Modal>
+
+      <SyncOutputModal open={consoleOpen} onClose={() => setConsoleOpen(false)} />
+    </SyncActionsContext.Provider>
+  )
+}
+
+export function useSyncActions() {
+  const context = useContext(SyncActionsContext)
+  if (!context) {
+    throw new Error('useSyncActions must be used within SyncActionsProvider')
+  }
+  return context
+}
+
+/** Full sync button shown next to the progress bar */
+export function SyncNowButton() {
+  const { busy, requestSync } = useSyncActions()
+
+  return (
+    <Tooltip title={busy ? BUSY_HINT : 'Start a full sync now'} placement="right">
+      {/* Disabled buttons do not fire the events the tooltip needs */}
+      <Box sx={{ display: 'flex' }}>
+        <Button
+          size="sm"
+          variant="soft"
+          color="primary"
+          fullWidth
+          disabled={busy}
+          startDecorator={busy ? <CircularProgress size="sm" sx={{ '--CircularProgress-size': '14px' }} /> : <RefreshCw size={14} />}
+          onClick={() => requestSync()}
+          data-testid="sync-now"
+        >
+          {busy ? 'Sync running...' : 'Sync now'}
+        </Button>
+      </Box>
+    </Tooltip>
+  )
+}
+
+interface ResyncButtonProps {
+  target: SyncTarget
+  /** Shown in the confirmation, e.g. the item name */
+  label?: string
+}
+
+/** Per-secret / per-item resync action for table rows */
+export function ResyncButton({ target, label }: ResyncButtonProps) {
+  const { busy, requestSync } = useSyncActions()
+
+  return (
+    <Tooltip title={busy ? BUSY_HINT : `Resync ${describeTarget(target, label)}`}>
+      <span>
+        <IconButton
+          size="sm"
+          variant="plain"
+          color="neutral"
+          disabled={busy}
+          onClick={(event) => {
+            // Rows navigate on click
+            event.stopPropagation()
+            requestSync(target, label)
+          }}
+          aria-label="Resync"
+          data-testid="resync-button"
+        >
+          <RotateCw size={16} />
+        </IconButton>
+      </span>
+    </Tooltip>
+  )
+}
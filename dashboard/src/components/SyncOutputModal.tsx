@@ -1,119 +1,50 @@
 import { useEffect, useState, useRef } from 'react'
-import { Modal, ModalDialog, ModalClose, Typography, Box, Sheet, CircularProgress, Chip, Tabs, TabList, TabPanel } from '@mui/joy'
+import { Modal, ModalDialog, ModalClose, Typography, Box, Sheet, CircularProgress, Chip, Tabs, TabList, Tab, TabPanel } from '@mui/joy'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { getApiBaseUrl, getWebSocketUrl } from '../lib/api'
-
-interface SyncLog {
-  id: number
-  startTime: string
-  endTime?: string
-  status: string
-  totalItems: number
-  createdSecrets: number
-  updatedSecrets: number
-  skippedSecrets: number
-  failedSecrets: number
-  deletedSecrets: number
-  durationSeconds: number
-  errorMessage?: string
-}
+import { api } from '../lib/api'
+import { useLogStream } from '../lib/logStream'
+import LogViewer from './LogViewer'
+import StreamStatus, { StreamStateChip } from './StreamStatus'
+import { useSyncActions } from './SyncActions'
 
 interface SyncOutputModalProps {
   open: boolean
   onClose: () => void
 }
 
+// The API used to announce a missing Redis, newer builds talk about Valkey
+const NOT_CONFIGURED_MARKERS = ['__VALKEY_NOT_CONFIGURED__', '__REDIS_NOT_CONFIGURED__']
+
+// Keeps the API under its per-minute request limit alongside the progress bar's polling
+const SUMMARY_POLLING_INTERVAL = 15000
+
 export default function SyncOutputModal({ open, onClose }: SyncOutputModalProps) {
   const queryClient = useQueryClient()
   const [activeTab, setActiveTab] = useState(1)
-  const [consoleOutput, setConsoleOutput] = useState<string[]>([])
-  const [wsConnected, setWsConnected] = useState(false)
-  const [wsError, setWsError] = useState<string | null>(null)
-  const wsRef = useRef<WebSocket | null>(null)
-  const consoleContainerRef = useRef<HTMLDivElement>(null)
   const previousSyncStatusRef = useRef<string | null>(null)
+  const push = useSyncActions().progress
+  const pushed = push.state === 'live' ? push.progress : null
 
-  // Fetch recent sync logs (for summary tab)
+  // Fetch recent sync logs (for summary tab); only polled while that tab is shown
   const { data: logs, isLoading } = useQuery({
     queryKey: ['sync-logs-live'],
-    queryFn: async (): Promise<SyncLog[]> => {
-      const response = await fetch(`${getApiBaseUrl()}/SyncLogs?count=10`)
-      if (!response.ok) throw new Error('Failed to fetch sync logs')
-      return response.json()
-    },
-    refetchInterval: open ? 2000 : false, // Poll every 2s when modal is open
+    queryFn: () => api.getSyncLogs(10),
+    refetchInterval: open && activeTab === 0 ? SUMMARY_POLLING_INTERVAL : false,
     enabled: open,
   })
 
-  // WebSocket connection for real-time console output
+  // A pushed completion means the run's results are in the database now
+  const pushedCompleted = pushed?.completed ?? false
   useEffect(() => {
-    if (!open) return
-
-    const wsUrl = getWebSocketUrl('/api/sync-output/stream')
-    
-    try {
-      const ws = new WebSocket(wsUrl)
-      wsRef.current = ws
-
-      ws.onopen = () => {
-        console.log('[SyncOutput] WebSocket connected')
-        setWsConnected(true)
-        setWsError(null)
-      }
-
-      ws.onmessage = (event) => {
-        const message = event.data.trim()
-        
-        // Handle special messages
-        if (message.startsWith('__REDIS_NOT_CONFIGURED__')) {
-          const errorLines = message.split('\n').filter((line: string) => !line.startsWith('__'))
-          setWsError('Redis Not Configured')
-          setConsoleOutput(errorLines)
-          setWsConnected(false)
-          return
-        }
-        
-        if (message === '__CLEAR__') {
-          setConsoleOutput([])
-        } else if (message) {
-          setConsoleOutput(prev => [...prev, message])
-        }
-      }
-
-      ws.onerror = (error) => {
-        console.error('[SyncOutput] WebSocket error:', error)
-        setWsError('Connection Error')
-        setWsConnected(false)
-      }
-
-      ws.onclose = (event) => {
-        console.log('[SyncOutput] WebSocket closed:', event.code, event.reason)
-        setWsConnected(false)
-        
-        // If closed due to policy violation (Redis not configured), keep the error message
-        if (event.code === 1008 && !wsError) {
-          setWsError('Service Unavailable')
-        }
-      }
-    } catch (error) {
-      console.error('[SyncOutput] Failed to create WebSocket:', error)
-      setWsError('Failed to connect to sync output stream')
-    }
+    if (!open || !pushedCompleted) return
+    queryClient.invalidateQueries({ queryKey: ['sync-logs-live'] })
+  }, [open, pushedCompleted, pushed?.startedAt, queryClient])
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close()
-        wsRef.current = null
-      }
-    }
-  }, [open])
-
-  // Auto scroll console output
-  useEffect(() => {
-    if (consoleContainerRef.current && activeTab === 1) {
-      consoleContainerRef.current.scrollTop = consoleContainerRef.current.scrollHeight
-    }
-  }, [consoleOutput, activeTab])
+  // Real-time console output; reconnects on its own when the API or ingress drops the socket
+  const stream = useLogStream('/api/sync-output/stream', {
+    enabled: open,
+    unavailable: { markers: NOT_CONFIGURED_MARKERS, reason: 'Valkey Not Configured' },
+  })
 
   const mostRecent = logs?.[0]
   const isSyncing = mostRecent?.status === 'InProgress'
@@ -127,8 +58,6 @@ export default function SyncOutputModal({ open, onClose }: SyncOutputModalProps)
 
     // Detect transition from InProgress to completed (Success or Failed)
     if (previousStatus === 'InProgress' && currentStatus !== 'InProgress') {
-      console.log('[SyncOutput] Sync completed, invalidating caches...')
-      
       // Invalidate all sync-related queries to refresh the UI
       queryClient.invalidateQueries({ queryKey: ['sync-logs'] })
       queryClient.invalidateQueries({ queryKey: ['sync-logs-live'] })
@@ -150,12 +79,11 @@ export default function SyncOutputModal({ open, onClose }: SyncOutputModalProps)
 
         <Tabs value={activeTab} onChange={(_, value) => setActiveTab(value as number)}>
           <TabList>
-            {/* <Tab>Summary</Tab> */}
-            {/* <Tab>
+            <Tab value={0} data-testid="sync-output-summary-tab">Summary</Tab>
+            <Tab value={1} data-testid="sync-output-console-tab">
               Console Output
-              {wsConnected && <Chip size="sm" color="success" variant="soft" sx={{ ml: 1 }}>Live</Chip>}
-              {wsError && <Chip size="sm" color="warning" variant="soft" sx={{ ml: 1 }}>Offline</Chip>}
-            </Tab> */}
+              <StreamStateChip stream={stream} />
+            </Tab>
           </TabList>
 
           {/* Summary Tab - Sync Logs */}
@@ -266,48 +194,27 @@ export default function SyncOutputModal({ open, onClose }: SyncOutputModalProps)
 
           {/* Console Output Tab - Real-time stream */}
           <TabPanel value={1}>
-            <Sheet
-              ref={consoleContainerRef}
-              variant="soft"
-              sx={{
-                p: 2,
-                borderRadius: 'sm',
-                maxHeight: '55vh',
-                overflow: 'auto',
-                bgcolor: 'neutral.900',
-                color: 'neutral.50',
-                fontFamily: 'monospace',
-                fontSize: '0.875rem',
-                whiteSpace: 'pre-wrap',
-                wordBreak: 'break-word',
-              }}
-            >
-              {wsError && (
-                <Typography level="body-sm" sx={{ color: 'warning.300', mb: 2 }}>
-                  ⚠️ {wsError}
-                </Typography>
-              )}
-              {consoleOutput.length === 0 ? (
-                <Typography level="body-sm" sx={{ color: 'neutral.400', textAlign: 'center', py: 4 }}>
-                  {wsConnected ? 'Waiting for sync output...' : 'Connect to Redis to see live output'}
-                </Typography>
-              ) : (
-                consoleOutput.map((line, index) => (
-                  <Box key={index} sx={{ mb: 0.25 }}>
-                    {line}
-                  </Box>
-                ))
-              )}
-            </Sheet>
+            {stream.state === 'unavailable' && (
+              <Typography level="body-sm" sx={{ color: 'warning.500', mb: 1 }}>
+                ⚠️ {stream.error}
+              </Typography>
+            )}
+            <LogViewer
+              lines={stream.lines}
+              droppedLines={stream.droppedLines}
+              emptyMessage={stream.state === 'live' ? 'Waiting for sync output...' : 'Connect to Valkey to see live output'}
+            />
           </TabPanel>
         </Tabs>
 
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2 }}>
-          <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
-            {activeTab === 0 
-              ? (isSyncing ? 'Updating every 2s...' : 'Showing last 10 syncs')
-              : (wsConnected ? '🟢 Live stream active' : 'Offline - configure Redis for live output')}
-          </Typography>
+          {activeTab === 0 ? (
+            <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+              {isSyncing ? 'Updating every 2s...' : 'Showing last 10 syncs'}
+            </Typography>
+          ) : (
+            <StreamStatus stream={stream} />
+          )}
         </Box>
       </ModalDialog>
     </Modal>
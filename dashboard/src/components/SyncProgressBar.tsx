@@ -1,128 +1,104 @@
 import { useEffect, useState, useRef } from 'react'
 import { Card, CardContent, Typography, LinearProgress, Box, Chip, CircularProgress, Modal, ModalDialog, ModalClose, Sheet, IconButton } from '@mui/joy'
 import { Info } from 'lucide-react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import SyncOutputModal from './SyncOutputModal'
-import { getApiBaseUrl } from '../lib/api'
+import { api } from '../lib/api'
+import { estimateProgress, isSyncRunning } from '../lib/syncProgress'
+import { useSyncActions } from './SyncActions'
+import { useSyncSchedule } from './SyncSchedule'
 
-interface SyncStatus {
-  syncIntervalSeconds: number
-  continuousSync: boolean
-  lastSyncTime: string | null
-  nextSyncTime: string | null
-}
+type SyncState = 'idle' | 'syncing' | 'error'
 
-interface RecentSync {
-  id: number
-  startTime: string
-  status: string
-  createdSecrets: number
-  updatedSecrets: number
-  failedSecrets: number
-  durationSeconds: number
-  errorMessage?: string
-}
+// While progress is pushed, polling only has to catch what the stream does not carry
+const PUSH_POLLING_INTERVAL = 15000
+// Without the stream the bar polls two /api endpoints from every page; the API allows 20 requests per
+// minute per client, so even around a sync this leaves room for the page's own queries
+const ACTIVE_POLLING_INTERVAL = 10000
+const IDLE_POLLING_INTERVAL = 30000
 
-interface OverviewData {
-  averageSyncDuration: number
-  recentActivity: RecentSync[]
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  if (minutes > 0) return `${minutes}m ${seconds}s`
+  return `${seconds}s`
 }
 
-type SyncState = 'idle' | 'syncing' | 'error'
-
 export default function SyncProgressBar() {
-  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null)
+  const queryClient = useQueryClient()
   const [progress, setProgress] = useState(0)
   const [timeRemaining, setTimeRemaining] = useState<string>('')
   const [secondsRemaining, setSecondsRemaining] = useState<number>(0)
-  const [error, setError] = useState<string | null>(null)
   const [syncState, setSyncState] = useState<SyncState>('idle')
-  const [recentSync, setRecentSync] = useState<RecentSync | null>(null)
   const [errorModalOpen, setErrorModalOpen] = useState(false)
   const [syncOutputModalOpen, setSyncOutputModalOpen] = useState(false)
-  const [averageDuration, setAverageDuration] = useState<number>(0)
   const [syncStartTime, setSyncStartTime] = useState<Date | null>(null)
+  const [pollingInterval, setPollingInterval] = useState(ACTIVE_POLLING_INTERVAL)
   const currentSyncIdRef = useRef<number | null>(null)
   const lastSyncTimeRef = useRef<string | null>(null)
-  const pollingIntervalRef = useRef<number>(5000)
 
-  // Fetch sync status and recent logs from API
+  // Progress pushed by the sync service. The estimates below are the fallback for
+  // APIs without Valkey and for the moments the stream is down.
+  const push = useSyncActions().progress
+  const pushed = push.state === 'live' ? push.progress : null
+  const pushRunning = isSyncRunning(pushed)
+  const refetchInterval = push.state === 'live' ? PUSH_POLLING_INTERVAL : pollingInterval
+
+  // Shared with the Discovery page and Dashboard cards through the query cache
+  const { data: syncStatus, error } = useQuery({
+    queryKey: ['sync-status'],
+    queryFn: api.getSyncStatus,
+    refetchInterval,
+  })
+
+  const { data: schedule } = useSyncSchedule()
+
+  const { data: overview } = useQuery({
+    queryKey: ['dashboard-overview'],
+    queryFn: api.getDashboardOverview,
+    refetchInterval,
+  })
+
+  // A pushed completion means the run's results are in the database now
+  const pushedCompleted = pushed?.completed ?? false
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        // Fetch sync status
-        const statusResponse = await fetch(`${getApiBaseUrl()}/dashboard/sync-status`)
-        if (statusResponse.ok) {
-          const data: SyncStatus = await statusResponse.json()
-          console.log('[SyncBar] Sync status:', {
-            lastSyncTime: data.lastSyncTime,
-            nextSyncTime: data.nextSyncTime,
-            interval: data.syncIntervalSeconds,
-            continuous: data.continuousSync
-          })
-          setSyncStatus(data)
-          setError(null)
-        } else {
-          setError('Failed to fetch sync status')
-        }
+    if (!pushedCompleted) return
+    queryClient.invalidateQueries({ queryKey: ['sync-status'] })
+    queryClient.invalidateQueries({ queryKey: ['dashboard-overview'] })
+    queryClient.invalidateQueries({ queryKey: ['sync-logs'] })
+    queryClient.invalidateQueries({ queryKey: ['secrets'] })
+  }, [pushedCompleted, pushed?.startedAt, queryClient])
 
-        // Fetch recent sync logs to determine current state
-        const overviewResponse = await fetch(`${getApiBaseUrl()}/dashboard/overview`)
-        if (overviewResponse.ok) {
-          const overview: OverviewData = await overviewResponse.json()
-          setAverageDuration(overview.averageSyncDuration || 5)
-          
-          if (overview.recentActivity && overview.recentActivity.length > 0) {
-            const mostRecent = overview.recentActivity[0]
-            setRecentSync(mostRecent)
-            
-            // Determine sync state based on status
-            if (mostRecent.status === 'InProgress') {
-              // Sync is actively running
-              if (currentSyncIdRef.current !== mostRecent.id) {
-                // New sync detected
-                const startTimeStr = mostRecent.startTime.endsWith('Z') 
-                  ? mostRecent.startTime 
-                  : mostRecent.startTime + 'Z'
-                setSyncStartTime(new Date(startTimeStr))
-                currentSyncIdRef.current = mostRecent.id
-                console.log('[SyncBar] New sync detected, ID:', mostRecent.id, 'StartTime:', startTimeStr)
-              }
-              setSyncState('syncing')
-              // Poll aggressively during sync (every 1s)
-              pollingIntervalRef.current = 1000
-            } else {
-              // Sync completed or failed
-              const newState = mostRecent.status === 'Failed' ? 'error' : 'idle'
-              console.log('[SyncBar] Sync completed/failed, Status:', mostRecent.status, 'New state:', newState)
-              setSyncState(newState)
-              setSyncStartTime(null)
-              currentSyncIdRef.current = null
-              // Reset to normal polling
-              pollingIntervalRef.current = 5000
-            }
-          }
-        }
-      } catch (err) {
-        setError('Unable to connect to API')
-      }
-    }
+  const averageDuration = overview?.averageSyncDuration || 5
+  const recentSync = overview?.recentActivity[0] ?? null
 
-    // Initial fetch
-    fetchData()
-    
-    // Set up polling with dynamic interval - need to use a different approach
-    // since setInterval captures the initial value
-    let timeoutId: NodeJS.Timeout
-    const scheduleFetch = () => {
-      timeoutId = setTimeout(() => {
-        fetchData().then(scheduleFetch)
-      }, pollingIntervalRef.current)
-    }
-    
-    scheduleFetch()
+  // Determine sync state from the most recent sync log
+  useEffect(() => {
+    if (!recentSync) return
 
-    return () => clearTimeout(timeoutId)
-  }, [])
+    if (recentSync.status === 'InProgress') {
+      // Sync is actively running
+      if (currentSyncIdRef.current !== recentSync.id) {
+        // New sync detected
+        const startTimeStr = recentSync.startTime.endsWith('Z')
+          ? recentSync.startTime
+          : recentSync.startTime + 'Z'
+        setSyncStartTime(new Date(startTimeStr))
+        currentSyncIdRef.current = recentSync.id
+      }
+      setSyncState('syncing')
+      setPollingInterval(ACTIVE_POLLING_INTERVAL)
+    } else {
+      // Sync completed or failed
+      const newState = recentSync.status === 'Failed' ? 'error' : 'idle'
+      setSyncState(newState)
+      setSyncStartTime(null)
+      currentSyncIdRef.current = null
+      // Reset to normal polling
+      setPollingInterval(ACTIVE_POLLING_INTERVAL)
+    }
+  }, [recentSync?.id, recentSync?.status, recentSync?.startTime])
 
   // Dynamic polling adjustment based on proximity to next sync
   useEffect(() => {
@@ -146,16 +122,8 @@ export default function SyncProgressBar() {
       if (nextSyncTime) {
         const timeUntilSync = nextSyncTime.getTime() - now.getTime()
         
-        // Aggressive polling near sync time
-        if (timeUntilSync <= 10000) {
-          pollingIntervalRef.current = 1000 // 1s when sync expected within 10s
-        } else if (timeUntilSync <= 30000) {
-          pollingIntervalRef.current = 2000 // 2s when within 30s
-        } else if (timeUntilSync <= 60000) {
-          pollingIntervalRef.current = 5000 // 5s when within 1min
-        } else {
-          pollingIntervalRef.current = 10000 // 10s otherwise
-        }
+        // Closer polling within a minute of the next sync, to pick up its start
+        setPollingInterval(timeUntilSync <= 60000 ? ACTIVE_POLLING_INTERVAL : IDLE_POLLING_INTERVAL)
       }
     }
 
@@ -173,6 +141,22 @@ export default function SyncProgressBar() {
     
     const updateProgress = () => {
       const now = new Date()
+
+      // Pushed progress knows the real item count, so it beats any estimate
+      const estimate = pushRunning && pushed ? estimateProgress(pushed, now.getTime()) : null
+      if (pushed && estimate) {
+        setProgress(estimate.percent)
+        const left = estimate.secondsLeft
+        setSecondsRemaining(Math.ceil(left ?? 0))
+        setTimeRemaining(left === null
+          ? `${pushed.processed}/${pushed.total}`
+          : left < 1 ? 'Finishing...' : `~${formatCountdown(Math.ceil(left))} left`)
+        return
+      }
+
+      // Without a total yet, time the run from the pushed start instead of the polled one
+      const syncing = syncState === 'syncing' || pushRunning
+      const startTime = syncStartTime ?? (pushRunning && pushed ? new Date(pushed.startedAt) : null)
       
       // Detect if lastSyncTime changed (new cycle started)
       if (syncStatus.lastSyncTime && syncStatus.lastSyncTime !== lastSyncTimeRef.current) {
@@ -191,9 +175,6 @@ export default function SyncProgressBar() {
       
       if (syncStatus.lastSyncTime && syncStatus.nextSyncTime) {
         // Ensure dates are parsed as UTC
-        const lastSync = new Date(syncStatus.lastSyncTime.endsWith('Z')
-          ? syncStatus.lastSyncTime
-          : syncStatus.lastSyncTime + 'Z')
         const nextSync = new Date(syncStatus.nextSyncTime.endsWith('Z')
           ? syncStatus.nextSyncTime
           : syncStatus.nextSyncTime + 'Z')
@@ -201,16 +182,7 @@ export default function SyncProgressBar() {
         // For countdown, totalDuration is always the sync interval
         totalDuration = syncStatus.syncIntervalSeconds * 1000
         remaining = nextSync.getTime() - now.getTime()
-        
-        if (syncState === 'idle' && Math.random() < 0.01) { // Log occasionally to avoid spam
-          console.log('[SyncBar] Countdown calc:', {
-            lastSync: lastSync.toISOString(),
-            nextSync: nextSync.toISOString(),
-            now: now.toISOString(),
-            remaining: Math.floor(remaining / 1000) + 's',
-            totalDuration: Math.floor(totalDuration / 1000) + 's'
-          })
-        }
+
       } else if (syncStatus.lastSyncTime) {
         // Calculate nextSyncTime for countdown display
         const lastSync = new Date(syncStatus.lastSyncTime.endsWith('Z') 
@@ -225,12 +197,12 @@ export default function SyncProgressBar() {
       // Calculate progress percentage
       let progressPercent = 0
       
-      if (syncState === 'syncing' && syncStartTime) {
-        // Syncing with confirmed start time - show real progress
-        const syncElapsed = (now.getTime() - syncStartTime.getTime()) / 1000
+      if (syncing && startTime) {
+        // Syncing with confirmed start time - estimate from the average run duration
+        const syncElapsed = (now.getTime() - startTime.getTime()) / 1000
         const avgDuration = averageDuration || 5
         progressPercent = Math.min(100, (syncElapsed / avgDuration) * 100)
-      } else if (syncState !== 'syncing' && totalDuration > 0) {
+      } else if (!syncing && totalDuration > 0) {
         // Idle state - countdown to next sync
         // Progress from 0 to 100 as we approach next sync
         const elapsed = totalDuration - remaining
@@ -246,9 +218,9 @@ export default function SyncProgressBar() {
       setProgress(clampedProgress)
 
       // Format time remaining
-      if (syncState === 'syncing' && syncStartTime) {
+      if (syncing && startTime) {
         // Syncing - show estimated time to completion
-        const syncElapsed = (now.getTime() - syncStartTime.getTime()) / 1000
+        const syncElapsed = (now.getTime() - startTime.getTime()) / 1000
         const avgDuration = averageDuration || 5
         const syncRemaining = Math.max(0, avgDuration - syncElapsed)
         const syncRemainingSeconds = Math.ceil(syncRemaining)
@@ -259,26 +231,15 @@ export default function SyncProgressBar() {
         } else {
           setTimeRemaining('Finishing...')
         }
-      } else if (syncState !== 'syncing' && remaining <= 0) {
+      } else if (!syncing && remaining <= 0) {
         // Countdown reached 0 but not syncing yet
         setTimeRemaining('Starting...')
         setSecondsRemaining(0)
-      } else if (syncState !== 'syncing') {
+      } else if (!syncing) {
         // Normal countdown - show time until next sync
         const remainingSeconds = Math.floor(remaining / 1000)
         setSecondsRemaining(remainingSeconds)
-        const minutes = Math.floor(remainingSeconds / 60)
-        const seconds = remainingSeconds % 60
-
-        if (minutes >= 60) {
-          const hours = Math.floor(minutes / 60)
-          const mins = minutes % 60
-          setTimeRemaining(`${hours}h ${mins}m`)
-        } else if (minutes > 0) {
-          setTimeRemaining(`${minutes}m ${seconds}s`)
-        } else {
-          setTimeRemaining(`${seconds}s`)
-        }
+        setTimeRemaining(formatCountdown(remainingSeconds))
       }
     }
 
@@ -286,7 +247,7 @@ export default function SyncProgressBar() {
     const interval = setInterval(updateProgress, 100) // Update every 100ms for smooth animation
 
     return () => clearInterval(interval)
-  }, [syncStatus, syncState, syncStartTime, averageDuration])
+  }, [syncStatus, syncState, syncStartTime, averageDuration, pushed, pushRunning])
 
   if (error) {
     return (
@@ -306,7 +267,7 @@ export default function SyncProgressBar() {
                 Sync Status Unavailable
               </Typography>
               <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
-                {error}
+                {error.message}
               </Typography>
             </Box>
           </Box>
@@ -321,9 +282,11 @@ export default function SyncProgressBar() {
 
   // Show continuous sync status
   if (syncStatus.continuousSync) {
-    const isSyncing = syncState === 'syncing'
-    const hasError = syncState === 'error'
-    const isIdle = syncState === 'idle'
+    const isSyncing = syncState === 'syncing' || pushRunning
+    const hasError = syncState === 'error' && !pushRunning
+    const isIdle = !isSyncing && !hasError
+    // Scheduled syncs wait for a resume, so there is nothing to count down to
+    const isPaused = isIdle && (schedule?.paused ?? false)
     
     // Determine last sync result for idle state
     let lastSyncResult = ''
@@ -357,6 +320,7 @@ export default function SyncProgressBar() {
             }
           }}
           onClick={() => hasError ? setErrorModalOpen(true) : setSyncOutputModalOpen(true)}
+          data-testid="sync-progress-bar"
         >
           <CardContent sx={{ py: 1.5 }}>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -367,7 +331,7 @@ export default function SyncProgressBar() {
               <Box sx={{ flex: 1 }}>
                 <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
                   <Typography level="body-xs" fontWeight="bold" color={hasError ? 'danger' : isSyncing ? 'success' : 'warning'}>
-                    {hasError ? 'Sync Failed' : isSyncing ? 'Syncing Now' : 'Waiting next sync'}
+                    {hasError ? 'Sync Failed' : isSyncing ? 'Syncing Now' : isPaused ? 'Syncs paused' : 'Waiting next sync'}
                     {isIdle && lastSyncResult && (
                       <Typography component="span" level="body-xs" sx={{ ml: 1, fontWeight: 'normal' }}>
                         {lastSyncResult}
@@ -396,7 +360,18 @@ export default function SyncProgressBar() {
                   {/* )} */}
                 </Box>
                 
-                {!hasError && (
+                {pushRunning && pushed && (
+                  <Typography
+                    level="body-xs"
+                    noWrap
+                    sx={{ color: 'text.secondary', mb: 0.5 }}
+                    data-testid="sync-progress-current"
+                  >
+                    {pushed.currentItem ? `${pushed.phase} • ${pushed.currentItem}` : pushed.phase}
+                  </Typography>
+                )}
+
+                {!hasError && !isPaused && (
                   <LinearProgress 
                     determinate
                     value={Number(progress) || 0}
@@ -415,10 +390,14 @@ export default function SyncProgressBar() {
                     {hasError 
                       ? 'Click to view error' 
                       : isSyncing 
-                        ? `Syncing... ${timeRemaining} • Click for logs` 
-                        : `Next: ${timeRemaining || 'ERROR'} • Click for logs`}
+                        ? pushRunning && pushed && pushed.total > 0
+                          ? `${pushed.processed}/${pushed.total} secrets • ${timeRemaining}`
+                          : `Syncing... ${timeRemaining} • Click for logs`
+                        : isPaused
+                          ? `Paused by ${schedule?.pausedBy ?? 'unknown'} • Click for logs`
+                          : `Next: ${timeRemaining || 'ERROR'} • Click for logs`}
                   </Typography>
-                  {!hasError && (
+                  {!hasError && !isPaused && (
                     <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
                       {Math.round(progress)}%
                     </Typography>
@@ -503,8 +482,8 @@ export default function SyncProgressBar() {
     )
   }
 
-  const isSyncing = syncState === 'syncing' || progress >= 99
-  const hasError = syncState === 'error'
+  const isSyncing = syncState === 'syncing' || pushRunning || progress >= 99
+  const hasError = syncState === 'error' && !pushRunning
   const progressColor = hasError ? 'danger' : isSyncing ? 'success' : secondsRemaining <= 10 ? 'warning' : 'primary'
 
   return (
@@ -524,6 +503,7 @@ export default function SyncProgressBar() {
           }
         }}
         onClick={() => hasError ? setErrorModalOpen(true) : setSyncOutputModalOpen(true)}
+        data-testid="sync-progress-bar"
       >
         <CardContent sx={{ py: 1.5 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -563,8 +543,12 @@ export default function SyncProgressBar() {
               />
               
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
-                  {hasError ? 'Click to view error' : 'Click to view sync logs'}
+                <Typography level="body-xs" noWrap sx={{ color: 'text.secondary' }}>
+                  {hasError
+                    ? 'Click to view error'
+                    : pushRunning && pushed?.currentItem
+                      ? pushed.currentItem
+                      : 'Click to view sync logs'}
                 </Typography>
                 <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
                   {Math.round(progress)}%
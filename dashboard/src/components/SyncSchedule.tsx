@@ -0,0 +1,311 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input,
+  Modal,
+  ModalClose,
+  ModalDialog,
+  Typography,
+} from '@mui/joy'
+import { Clock, Pause, Play } from 'lucide-react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { api, SyncSchedule } from '../lib/api'
+import { isApiError } from '../lib/apiErrors'
+import { usePreference } from '../lib/preferences'
+import { formatDate, formatDuration, formatRelative } from '../lib/utils'
+
+const SCHEDULE_POLLING_INTERVAL = 30000
+
+/** Shared through the query cache with the progress bar */
+export function useSyncSchedule() {
+  return useQuery({
+    queryKey: ['sync-schedule'],
+    queryFn: api.getSyncSchedule,
+    refetchInterval: SCHEDULE_POLLING_INTERVAL,
+  })
+}
+
+/** Applies a schedule change and refreshes everything that shows the next sync */
+function useScheduleChange() {
+  const queryClient = useQueryClient()
+  const [actor] = usePreference('sync-schedule-actor', '')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (change: (by?: string) => Promise<SyncSchedule>): Promise<boolean> => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      queryClient.setQueryData(['sync-schedule'], await change(actor.trim() || undefined))
+      queryClient.invalidateQueries({ queryKey: ['sync-status'] })
+      return true
+    } catch (err) {
+      setError(isApiError(err) || err instanceof Error ? err.message : 'The schedule could not be changed')
+      return false
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return { run, submitting, error }
+}
+
+// datetime-local inputs have no time zone, the browser's is meant
+function toIsoOrUndefined(local: string): string | undefined {
+  return local ? new Date(local).toISOString() : undefined
+}
+
+/** Persistent notice above every page while scheduled syncs are paused or run on a temporary interval */
+export function SyncScheduleBanner() {
+  const { data: schedule } = useSyncSchedule()
+  const { run, submitting, error } = useScheduleChange()
+
+  if (!schedule || (!schedule.paused && !schedule.intervalOverridden)) {
+    return null
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+      {schedule.paused && (
+        <Alert
+          color="warning"
+          variant="soft"
+          startDecorator={<Pause size={18} />}
+          data-testid="sync-paused-banner"
+          endDecorator={
+            <Button
+              size="sm"
+              color="warning"
+              variant="solid"
+              startDecorator={<Play size={14} />}
+              loading={submitting}
+              onClick={() => run(api.resumeSync)}
+              data-testid="sync-resume"
+            >
+              Resume
+            </Button>
+          }
+        >
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography level="title-sm">Scheduled syncs are paused</Typography>
+            <Typography level="body-sm">
+              Paused by {schedule.pausedBy ?? 'unknown'}
+              {schedule.pausedAt && ` ${formatRelative(schedule.pausedAt)}`}
+              {schedule.pausedUntil ? `, until ${formatDate(schedule.pausedUntil)}` : ', until resumed'}.
+              {schedule.pauseReason && ` Reason: ${schedule.pauseReason}`}
+              {' '}"Sync now" and resyncs still run.
+            </Typography>
+          </Box>
+        </Alert>
+      )}
+      {schedule.intervalOverridden && (
+        <Alert
+          color="neutral"
+          variant="soft"
+          startDecorator={<Clock size={18} />}
+          data-testid="sync-interval-banner"
+          endDecorator={
+            <Button
+              size="sm"
+              color="neutral"
+              variant="outlined"
+              loading={submitting}
+              onClick={() => run(api.resetSyncInterval)}
+              data-testid="sync-interval-reset"
+            >
+              Reset
+            </Button>
+          }
+        >
+          <Typography level="body-sm">
+            Sync interval temporarily set to {formatDuration(schedule.intervalSeconds)} by {schedule.intervalChangedBy ?? 'unknown'}
+            {schedule.intervalUntil ? ` until ${formatDate(schedule.intervalUntil)}` : ''}
+            {' '}(configured: {formatDuration(schedule.configuredIntervalSeconds)}).
+          </Typography>
+        </Alert>
+      )}
+      {error && (
+        <Alert color="danger" variant="soft">
+          {error}
+        </Alert>
+      )}
+    </Box>
+  )
+}
+
+/** Opens the pause / interval dialog, shown next to "Sync now" */
+export function SyncScheduleButton() {
+  const { data: schedule } = useSyncSchedule()
+  const { run, submitting, error } = useScheduleChange()
+  const [open, setOpen] = useState(false)
+  const [actor, setActor] = usePreference('sync-schedule-actor', '')
+  const [pauseUntil, setPauseUntil] = useState('')
+  const [reason, setReason] = useState('')
+  const [intervalMinutes, setIntervalMinutes] = useState('')
+  const [intervalUntil, setIntervalUntil] = useState('')
+
+  // Without Valkey the API cannot reach the sync service
+  if (!schedule?.available) {
+    return null
+  }
+
+  const minutes = Number(intervalMinutes)
+  const validInterval = intervalMinutes !== '' && Number.isFinite(minutes) && minutes > 0
+
+  const handlePause = async () => {
+    if (await run(by => api.pauseSync({ until: toIsoOrUndefined(pauseUntil), reason: reason.trim() || undefined, by }))) {
+      setOpen(false)
+    }
+  }
+
+  const handleInterval = async () => {
+    const seconds = Math.round(minutes * 60)
+    if (await run(by => api.setSyncInterval({ seconds, until: toIsoOrUndefined(intervalUntil), by }))) {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="plain"
+        color="neutral"
+        fullWidth
+        startDecorator={schedule.paused ? <Play size={14} /> : <Pause size={14} />}
+        onClick={() => setOpen(true)}
+        data-testid="sync-schedule-button"
+      >
+        {schedule.paused ? 'Syncs paused' : 'Pause / interval'}
+      </Button>
+
+      <Modal open={open} onClose={() => !submitting && setOpen(false)}>
+        <ModalDialog sx={{ width: 480, maxWidth: '100%' }} data-testid="sync-schedule-dialog">
+          <ModalClose />
+          <DialogTitle>Sync schedule</DialogTitle>
+          <DialogContent sx={{ gap: 2 }}>
+            <FormControl>
+              <FormLabel>Your name</FormLabel>
+              <Input
+                size="sm"
+                value={actor}
+                onChange={(e) => setActor(e.target.value)}
+                placeholder="Shown in the banner"
+                data-testid="sync-schedule-actor"
+              />
+              <FormHelperText>Ignored when a proxy forwards the signed-in user</FormHelperText>
+            </FormControl>
+
+            <Divider />
+
+            {schedule.paused ? (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+                <Typography level="body-sm">
+                  Paused by {schedule.pausedBy ?? 'unknown'}
+                  {schedule.pausedUntil ? ` until ${formatDate(schedule.pausedUntil)}` : ' until resumed'}
+                </Typography>
+                <Button size="sm" color="warning" startDecorator={<Play size={14} />} loading={submitting} onClick={() => run(api.resumeSync)}>
+                  Resume
+                </Button>
+              </Box>
+            ) : (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                <Typography level="title-sm">Pause scheduled syncs</Typography>
+                <FormControl>
+                  <FormLabel>Until (optional)</FormLabel>
+                  <Input
+                    size="sm"
+                    type="datetime-local"
+                    value={pauseUntil}
+                    onChange={(e) => setPauseUntil(e.target.value)}
+                    data-testid="sync-pause-until"
+                  />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>Reason (optional)</FormLabel>
+                  <Input size="sm" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Vaultwarden maintenance" />
+                </FormControl>
+                <Button
+                  size="sm"
+                  color="warning"
+                  startDecorator={<Pause size={14} />}
+                  loading={submitting}
+                  onClick={handlePause}
+                  sx={{ alignSelf: 'flex-start' }}
+                  data-testid="sync-pause"
+                >
+                  Pause
+                </Button>
+              </Box>
+            )}
+
+            <Divider />
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Typography level="title-sm">Temporary interval</Typography>
+              <Typography level="body-xs">
+                Currently every {formatDuration(schedule.intervalSeconds)}
+                {schedule.intervalOverridden && ` (configured: ${formatDuration(schedule.configuredIntervalSeconds)})`}
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <FormControl sx={{ flex: 1 }}>
+                  <FormLabel>Every (minutes)</FormLabel>
+                  <Input
+                    size="sm"
+                    type="number"
+                    value={intervalMinutes}
+                    onChange={(e) => setIntervalMinutes(e.target.value)}
+                    slotProps={{ input: { min: 1, step: 1 } }}
+                    data-testid="sync-interval-minutes"
+                  />
+                </FormControl>
+                <FormControl sx={{ flex: 1 }}>
+                  <FormLabel>Until (optional)</FormLabel>
+                  <Input size="sm" type="datetime-local" value={intervalUntil} onChange={(e) => setIntervalUntil(e.target.value)} />
+                </FormControl>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button
+                  size="sm"
+                  variant="soft"
+                  startDecorator={<Clock size={14} />}
+                  disabled={!validInterval}
+                  loading={submitting}
+                  onClick={handleInterval}
+                  data-testid="sync-interval-apply"
+                >
+                  Set interval
+                </Button>
+                {schedule.intervalOverridden && (
+                  <Button size="sm" variant="plain" color="neutral" loading={submitting} onClick={() => run(api.resetSyncInterval)}>
+                    Reset to configured
+                  </Button>
+                )}
+              </Box>
+            </Box>
+
+            {error && (
+              <Alert color="danger" variant="soft" data-testid="sync-schedule-error">
+                {error}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button variant="plain" color="neutral" onClick={() => setOpen(false)} disabled={submitting}>
+              Close
+            </Button>
+          </DialogActions>
+        </ModalDialog>
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,155 @@
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Grid,
+  Link,
+  Typography,
+} from '@mui/joy'
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { api } from '../lib/api'
+import { formatDuration, formatRelative, secretDetailPath } from '../lib/utils'
+import ApiErrorAlert from './ApiErrorAlert'
+
+interface SyncStatisticsPanelProps {
+  /** ISO timestamps of the Sync Logs time window; empty means unbounded */
+  from: string
+  to: string
+}
+
+function StatTile({ label, value, color, testId }: {
+  label: string
+  value: string | number
+  color?: 'success' | 'warning' | 'danger'
+  testId: string
+}) {
+  return (
+    <Grid xs={6} sm={4} md={2}>
+      <Box data-testid={testId}>
+        <Typography level="body-xs" sx={{ color: 'text.secondary' }}>{label}</Typography>
+        <Typography level="h4" color={color}>{value}</Typography>
+      </Box>
+    </Grid>
+  )
+}
+
+export default function SyncStatisticsPanel({ from, to }: SyncStatisticsPanelProps) {
+  const navigate = useNavigate()
+  const { data: stats, isLoading, error, refetch } = useQuery({
+    queryKey: ['sync-statistics', from, to],
+    queryFn: () => api.getSyncStatistics(from ? new Date(from) : undefined, to ? new Date(to) : undefined),
+    refetchInterval: 60000,
+  })
+
+  const windowLabel = from || to
+    ? `${from ? format(new Date(from), 'PPp') : 'the beginning'} – ${to ? format(new Date(to), 'PPp') : 'now'}`
+    : 'All time'
+  const trend = stats?.failureRateTrend.map(point => ({
+    time: new Date(point.date).getTime(),
+    rate: Math.round(point.failureRate * 1000) / 10,
+  })) ?? []
+  const hourly = trend.length > 1 && trend[1].time - trend[0].time < 24 * 60 * 60 * 1000
+
+  return (
+    <Card variant="outlined" sx={{ mb: 2, bgcolor: 'background.surface' }} data-testid="sync-statistics">
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <Typography level="title-lg" color="primary">Statistics</Typography>
+          <Typography level="body-xs" sx={{ color: 'text.secondary' }} data-testid="sync-statistics-window">
+            {windowLabel}
+          </Typography>
+        </Box>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <ApiErrorAlert error={error} context="Failed to load sync statistics" onRetry={() => refetch()} />
+        ) : !stats || stats.totalSyncs === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2, textAlign: 'center' }}>
+            No sync runs in this period
+          </Typography>
+        ) : (
+          <>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <StatTile label="Successful" value={stats.statusCounts.Success} color="success" testId="stat-success" />
+              <StatTile label="Partial" value={stats.statusCounts.Partial} color="warning" testId="stat-partial" />
+              <StatTile label="Failed" value={stats.statusCounts.Failed} color="danger" testId="stat-failed" />
+              <StatTile label="Duration p50 / p95" value={`${formatDuration(stats.durationP50)} / ${formatDuration(stats.durationP95)}`} testId="stat-duration-percentiles" />
+              <StatTile label="Slowest run" value={formatDuration(stats.durationMax)} testId="stat-duration-max" />
+              <StatTile label="Items per run" value={stats.averageItemsPerRun.toFixed(1)} testId="stat-items-per-run" />
+            </Grid>
+
+            <Grid container spacing={2}>
+              <Grid xs={12} md={7}>
+                <Typography level="title-sm" sx={{ mb: 1 }}>Failure rate</Typography>
+                <ResponsiveContainer width="100%" height={180}>
+                  <LineChart data={trend} data-testid="failure-rate-trend">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" tickFormatter={(time: number) => format(time, hourly ? 'HH:mm' : 'MMM d')} />
+                    <YAxis unit="%" domain={[0, 100]} width={48} />
+                    <Tooltip
+                      labelFormatter={(time: number) => format(time, hourly ? 'PPp' : 'PP')}
+                      formatter={(value: number) => [`${value}%`, 'Runs with failures']}
+                      contentStyle={{ background: 'var(--joy-palette-background-surface)', border: '1px solid var(--joy-palette-divider)' }}
+                    />
+                    <Line type="monotone" dataKey="rate" stroke="var(--joy-palette-danger-400)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </Grid>
+              <Grid xs={12} md={5}>
+                <Typography level="title-sm" sx={{ mb: 1 }}>Top failing secrets</Typography>
+                {stats.topFailingSecrets.length === 0 ? (
+                  <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>No secret failed in this period</Typography>
+                ) : (
+                  <Box component="ul" sx={{ listStyle: 'none', p: 0, m: 0 }} data-testid="top-failing-secrets">
+                    {stats.topFailingSecrets.map(secret => (
+                      <Box
+                        component="li"
+                        key={`${secret.namespace}/${secret.secretName}`}
+                        sx={{ py: 0.75, borderBottom: '1px solid', borderColor: 'divider' }}
+                      >
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Chip size="sm" variant="soft" color="danger">{secret.failures}×</Chip>
+                          <Link
+                            component="button"
+                            level="body-sm"
+                            onClick={() => navigate(secretDetailPath(secret.namespace, secret.secretName))}
+                          >
+                            {secret.namespace}/{secret.secretName}
+                          </Link>
+                          <Typography level="body-xs" sx={{ color: 'text.tertiary', ml: 'auto' }}>
+                            {formatRelative(secret.lastFailedAt)}
+                          </Typography>
+                        </Box>
+                        {secret.lastError && (
+                          <Typography level="body-xs" noWrap sx={{ color: 'text.secondary' }} title={secret.lastError}>
+                            {secret.lastError}
+                          </Typography>
+                        )}
+                      </Box>
+                    ))}
+                  </Box>
+                )}
+              </Grid>
+            </Grid>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
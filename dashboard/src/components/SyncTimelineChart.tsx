@@ -0,0 +1,201 @@
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Input,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/joy'
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { api, TimelineInterval, TimelinePoint } from '../lib/api'
+import { usePreference } from '../lib/preferences'
+import { formatDuration } from '../lib/utils'
+import ApiErrorAlert from './ApiErrorAlert'
+
+type TimelineRange = '24h' | '7d' | '30d' | 'custom'
+
+interface TimelinePreferences {
+  range: TimelineRange
+  customStart: string
+  customEnd: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const PRESETS: Record<Exclude<TimelineRange, 'custom'>, { ms: number; interval: TimelineInterval }> = {
+  '24h': { ms: DAY_MS, interval: 'hour' },
+  '7d': { ms: 7 * DAY_MS, interval: 'day' },
+  '30d': { ms: 30 * DAY_MS, interval: 'day' },
+}
+
+const DEFAULT_PREFERENCES: TimelinePreferences = { range: '7d', customStart: '', customEnd: '' }
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInputValue(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm")
+}
+
+function resolveRange(preferences: TimelinePreferences): { start: Date; end: Date; interval?: TimelineInterval } | null {
+  if (preferences.range !== 'custom') {
+    const end = new Date()
+    const preset = PRESETS[preferences.range]
+    return { start: new Date(end.getTime() - preset.ms), end, interval: preset.interval }
+  }
+  const start = new Date(preferences.customStart)
+  const end = new Date(preferences.customEnd)
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) return null
+  // Let the API pick hourly or daily buckets from the span
+  return { start, end }
+}
+
+function bucketSize(points: TimelinePoint[], range: { start: Date; end: Date }): number {
+  if (points.length > 1) return new Date(points[1].date).getTime() - new Date(points[0].date).getTime()
+  return range.end.getTime() - range.start.getTime() <= 2 * DAY_MS ? HOUR_MS : DAY_MS
+}
+
+export default function SyncTimelineChart() {
+  const navigate = useNavigate()
+  const [preferences, setPreferences] = usePreference<TimelinePreferences>('dashboard-timeline', DEFAULT_PREFERENCES)
+  const customRangeInvalid = preferences.range === 'custom' && resolveRange(preferences) === null
+
+  const { data: points, isLoading, error, refetch } = useQuery({
+    queryKey: ['timeline', preferences.range, preferences.customStart, preferences.customEnd],
+    queryFn: () => {
+      // Resolved at fetch time so preset windows keep rolling forward on refetch
+      const range = resolveRange(preferences)!
+      return api.getTimelineRange(range.start, range.end, range.interval)
+    },
+    enabled: !customRangeInvalid,
+    refetchInterval: preferences.range === 'custom' ? false : 60000,
+  })
+
+  const range = resolveRange(preferences)
+  const size = points && range ? bucketSize(points, range) : DAY_MS
+  const labelFormat = size < DAY_MS ? 'HH:mm' : 'MMM d'
+  const chartData = points?.map(point => ({ ...point, time: new Date(point.date).getTime() })) ?? []
+
+  const handleRangeChange = (value: TimelineRange) => {
+    if (value === 'custom' && !preferences.customStart) {
+      const end = new Date()
+      setPreferences({ range: value, customStart: toLocalInputValue(new Date(end.getTime() - 3 * DAY_MS)), customEnd: toLocalInputValue(end) })
+    } else {
+      setPreferences(prev => ({ ...prev, range: value }))
+    }
+  }
+
+  // Open Sync Logs filtered to the runs inside the clicked bucket
+  const handleChartClick = (state: { activeTooltipIndex?: number } | null) => {
+    const point = state?.activeTooltipIndex !== undefined ? chartData[state.activeTooltipIndex] : undefined
+    if (!point || point.totalSyncs === 0) return
+    const params = new URLSearchParams({
+      from: new Date(point.time).toISOString(),
+      to: new Date(point.time + size - 1).toISOString(),
+    })
+    navigate(`/logs?${params}`)
+  }
+
+  return (
+    <Card variant="outlined" sx={{ mb: 2, bgcolor: 'background.surface' }} data-testid="sync-timeline">
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <Box>
+            <Typography level="title-lg" color="primary">Sync Activity</Typography>
+            <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+              Click a bar to see the runs in that {size < DAY_MS ? 'hour' : 'day'}
+            </Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            {preferences.range === 'custom' && (
+              <>
+                <Input
+                  size="sm"
+                  type="datetime-local"
+                  value={preferences.customStart}
+                  onChange={(e) => setPreferences(prev => ({ ...prev, customStart: e.target.value }))}
+                  error={customRangeInvalid}
+                  data-testid="timeline-custom-start"
+                />
+                <Typography level="body-sm">→</Typography>
+                <Input
+                  size="sm"
+                  type="datetime-local"
+                  value={preferences.customEnd}
+                  onChange={(e) => setPreferences(prev => ({ ...prev, customEnd: e.target.value }))}
+                  error={customRangeInvalid}
+                  data-testid="timeline-custom-end"
+                />
+              </>
+            )}
+            <ToggleButtonGroup
+              size="sm"
+              value={preferences.range}
+              onChange={(_, value) => value && handleRangeChange(value as TimelineRange)}
+              data-testid="timeline-range"
+            >
+              <Button value="24h">24h</Button>
+              <Button value="7d">7d</Button>
+              <Button value="30d">30d</Button>
+              <Button value="custom">Custom</Button>
+            </ToggleButtonGroup>
+          </Box>
+        </Box>
+
+        {customRangeInvalid ? (
+          <Typography level="body-sm" sx={{ color: 'warning.500' }}>The start of the range must be before its end</Typography>
+        ) : isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: 300 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <ApiErrorAlert error={error} context="Failed to load sync timeline" onRetry={() => refetch()} />
+        ) : chartData.every(point => point.totalSyncs === 0) ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 4, textAlign: 'center' }}>
+            No sync runs in this period
+          </Typography>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData} onClick={handleChartClick} style={{ cursor: 'pointer' }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" tickFormatter={(time: number) => format(time, labelFormat)} />
+              <YAxis yAxisId="secrets" allowDecimals={false} label={{ value: 'Secrets', angle: -90, position: 'insideLeft' }} />
+              <YAxis
+                yAxisId="duration"
+                orientation="right"
+                tickFormatter={(seconds: number) => formatDuration(seconds)}
+                label={{ value: 'Duration', angle: 90, position: 'insideRight' }}
+              />
+              <Tooltip
+                labelFormatter={(time: number) => format(time, size < DAY_MS ? 'PPp' : 'PP')}
+                formatter={(value: number, name: string) => name.includes('duration') ? formatDuration(value) : value}
+                contentStyle={{ background: 'var(--joy-palette-background-surface)', border: '1px solid var(--joy-palette-divider)' }}
+              />
+              <Legend />
+              <Bar yAxisId="secrets" dataKey="secretsCreated" stackId="secrets" fill="var(--joy-palette-success-400)" name="Created" />
+              <Bar yAxisId="secrets" dataKey="secretsUpdated" stackId="secrets" fill="var(--joy-palette-primary-400)" name="Updated" />
+              <Bar yAxisId="secrets" dataKey="secretsFailed" stackId="secrets" fill="var(--joy-palette-danger-400)" name="Failed" />
+              <Bar yAxisId="secrets" dataKey="secretsDeleted" stackId="secrets" fill="var(--joy-palette-warning-400)" name="Deleted" />
+              <Line yAxisId="duration" type="monotone" dataKey="avgDuration" stroke="var(--joy-palette-neutral-300)" name="Avg duration" strokeWidth={2} dot={false} />
+              <Line yAxisId="duration" type="monotone" dataKey="maxDuration" stroke="var(--joy-palette-neutral-500)" name="Max duration" strokeDasharray="4 4" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,101 @@
+// Minimal ANSI SGR parser for the Spectre.Console output streamed from the sync service.
+// Only colour and text style codes are rendered; other escape sequences are dropped.
+
+export interface AnsiStyle {
+  color?: string
+  background?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+export interface AnsiSegment {
+  text: string
+  style: AnsiStyle
+}
+
+// xterm defaults, brightened slightly so they stay readable on the dark console background
+const BASIC_COLORS = ['#4b5563', '#f87171', '#4ade80', '#facc15', '#60a5fa', '#e879f9', '#22d3ee', '#e5e7eb']
+const BRIGHT_COLORS = ['#9ca3af', '#fca5a5', '#86efac', '#fde047', '#93c5fd', '#f0abfc', '#67e8f9', '#ffffff']
+
+// Built from a string: an ESC in a regex literal trips the no-control-regex lint rule
+const ESCAPE_SEQUENCE = new RegExp(String.fromCharCode(27) + '\\[([0-9;]*)([A-Za-z])', 'g')
+
+function xterm256(index: number): string | undefined {
+  if (index < 8) return BASIC_COLORS[index]
+  if (index < 16) return BRIGHT_COLORS[index - 8]
+  if (index < 232) {
+    const n = index - 16
+    const level = (v: number) => (v === 0 ? 0 : 55 + v * 40)
+    return `rgb(${level(Math.floor(n / 36))}, ${level(Math.floor(n / 6) % 6)}, ${level(n % 6)})`
+  }
+  if (index < 256) {
+    const gray = 8 + (index - 232) * 10
+    return `rgb(${gray}, ${gray}, ${gray})`
+  }
+  return undefined
+}
+
+function applyCodes(style: AnsiStyle, codes: number[]): AnsiStyle {
+  const next = { ...style }
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) {
+      Object.keys(next).forEach(key => delete next[key as keyof AnsiStyle])
+    } else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 22) { next.bold = false; next.dim = false }
+    else if (code === 23) next.italic = false
+    else if (code === 24) next.underline = false
+    else if (code >= 30 && code <= 37) next.color = BASIC_COLORS[code - 30]
+    else if (code >= 90 && code <= 97) next.color = BRIGHT_COLORS[code - 90]
+    else if (code === 39) delete next.color
+    else if (code >= 40 && code <= 47) next.background = BASIC_COLORS[code - 40]
+    else if (code >= 100 && code <= 107) next.background = BRIGHT_COLORS[code - 100]
+    else if (code === 49) delete next.background
+    else if (code === 38 || code === 48) {
+      // Extended colours: 38;5;n (256 palette) or 38;2;r;g;b (true colour)
+      let value: string | undefined
+      if (codes[i + 1] === 5) {
+        value = xterm256(codes[i + 2])
+        i += 2
+      } else if (codes[i + 1] === 2) {
+        value = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`
+        i += 4
+      }
+      if (value) {
+        if (code === 38) next.color = value
+        else next.background = value
+      }
+    }
+  }
+  return next
+}
+
+export function parseAnsi(line: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = []
+  let style: AnsiStyle = {}
+  let lastIndex = 0
+
+  for (const match of line.matchAll(ESCAPE_SEQUENCE)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      segments.push({ text: line.slice(lastIndex, index), style })
+    }
+    if (match[2] === 'm') {
+      style = applyCodes(style, match[1] === '' ? [0] : match[1].split(';').map(Number))
+    }
+    lastIndex = index + match[0].length
+  }
+  if (lastIndex < line.length) {
+    segments.push({ text: line.slice(lastIndex), style })
+  }
+  return segments
+}
+
+export function stripAnsi(line: string): string {
+  return line.replace(ESCAPE_SEQUENCE, '')
+}
@@ -1,110 +1,21 @@
-import * as mockData from './mockData'
-
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080/api'
-const USE_MOCK_DATA = import.meta.env.VITE_USE_MOCK_DATA === 'true'
-
-// Export API_URL for components that need direct access
-export const getApiBaseUrl = () => API_URL
-
-// Get WebSocket URL based on API URL
-export const getWebSocketUrl = (path: string) => {
-  const apiUrl = new URL(API_URL)
-  const protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:'
-  return `${protocol}//${apiUrl.host}${path}`
-}
-
-function getToken(): string | null {
-  return localStorage.getItem('auth_token')
-}
-
-async function fetchWithAuth(url: string, options: RequestInit = {}) {
-  // Return mock data if enabled (for GitHub Pages demo)
-  if (USE_MOCK_DATA) {
-    await new Promise(resolve => setTimeout(resolve, 300)) // Simulate network delay
-    return getMockDataForUrl(url)
-  }
-
-  const token = getToken()
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  }
-
-  // Merge existing headers
-  if (options.headers) {
-    Object.entries(options.headers).forEach(([key, value]) => {
-      if (typeof value === 'string') {
-        headers[key] = value
-      }
-    })
-  }
-
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`
-  }
-
-  try {
-    const response = await fetch(`${API_URL}${url}`, {
-      ...options,
-      headers,
-      // Remove credentials in dev if CORS doesn't allow it
-      // credentials: 'include',
-    })
-
-    if (response.status === 401) {
-      localStorage.removeItem('auth_token')
-      window.location.href = '/login'
-      throw new Error('Unauthorized')
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`API error: ${response.statusText} - ${errorText}`)
-    }
-
-    return response.json()
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('Failed to fetch')) {
-      throw new Error('Cannot connect to API. Make sure the API is running on ' + API_URL)
-    }
-    throw error
-  }
-}
-
-function getMockDataForUrl(url: string): any {
-  // Parse URL and return appropriate mock data
-  if (url.includes('/dashboard/overview')) {
-    return mockData.mockOverview
-  }
-  if (url.includes('/dashboard/namespaces')) {
-    return mockData.mockNamespaces
-  }
-  if (url.includes('/dashboard/sync-status')) {
-    return mockData.mockSyncStatus
-  }
-  if (url.includes('/dashboard/sync-config')) {
-    return mockData.mockSyncConfig
-  }
-  if (url.includes('/dashboard/timeline')) {
-    return [] // Timeline data could be added to mockData if needed
-  }
-  if (url.includes('/synclogs')) {
-    return mockData.mockSyncLogs
-  }
-  if (url.includes('/secrets/namespace/')) {
-    const namespace = url.split('/').pop() || ''
-    return mockData.mockSecrets[namespace as keyof typeof mockData.mockSecrets] || []
-  }
-  if (url.includes('/secrets')) {
-    // Return all secrets flattened
-    return Object.values(mockData.mockSecrets).flat()
-  }
-  if (url.includes('/discovery')) {
-    return mockData.mockDiscovery
-  }
-  
-  // Default fallback
-  return {}
-}
+import { apiRequest } from './apiClient'
+import {
+  Schema,
+  array,
+  boolean,
+  dateString,
+  map,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+  withDefault,
+} from './schema'
+
+export { getApiBaseUrl, getWebSocketUrl } from './apiClient'
 
 export interface DashboardOverview {
   totalSyncs: number
@@ -115,8 +26,70 @@ export interface DashboardOverview {
   lastSyncTime: string | null
   averageSyncDuration: number
   successRate: number
+  recentActivity: RecentSyncActivity[]
+}
+
+export interface RecentSyncActivity {
+  id: number
+  startTime: string
+  status: string
+  createdSecrets: number
+  updatedSecrets: number
+  failedSecrets: number
+  durationSeconds: number
+  errorMessage: string | null
 }
 
+const dashboardOverviewSchema: Schema<DashboardOverview> = object({
+  totalSyncs: number,
+  successfulSyncs: number,
+  failedSyncs: number,
+  activeSecrets: number,
+  totalNamespaces: number,
+  lastSyncTime: nullable(dateString),
+  averageSyncDuration: number,
+  successRate: number,
+  recentActivity: withDefault(array(object({
+    id: number,
+    startTime: dateString,
+    status: string,
+    createdSecrets: number,
+    updatedSecrets: number,
+    failedSecrets: number,
+    durationSeconds: number,
+    errorMessage: nullable(string),
+  })), []),
+})
+
+export interface TimelinePoint {
+  date: string
+  totalSyncs: number
+  successfulSyncs: number
+  failedSyncs: number
+  secretsCreated: number
+  secretsUpdated: number
+  secretsFailed: number
+  secretsDeleted: number
+  avgDuration: number
+  maxDuration: number
+}
+
+export type TimelineInterval = 'hour' | 'day'
+
+// secretsFailed, secretsDeleted and maxDuration are missing from older API builds
+const timelinePointSchema: Schema<TimelinePoint> = object({
+  date: dateString,
+  totalSyncs: number,
+  successfulSyncs: number,
+  failedSyncs: number,
+  secretsCreated: number,
+  secretsUpdated: number,
+  secretsFailed: withDefault(number, 0),
+  secretsDeleted: withDefault(number, 0),
+  avgDuration: number,
+  maxDuration: withDefault(number, 0),
+})
+
 export interface SyncLog {
   id: number
   startTime: string
@@ -132,6 +105,182 @@ export interface SyncLog {
   durationSeconds: number
 }
 
+const syncLogShape = {
+  id: number,
+  startTime: dateString,
+  endTime: nullable(dateString),
+  status: string,
+  totalItems: number,
+  createdSecrets: number,
+  updatedSecrets: number,
+  skippedSecrets: number,
+  failedSecrets: number,
+  // Added after the first release - older databases may not have it
+  deletedSecrets: withDefault(number, 0),
+  errorMessage: nullable(string),
+  durationSeconds: number,
+}
+
+const syncLogSchema: Schema<SyncLog> = object(syncLogShape)
+
+// Runs only record secrets they changed or failed; 'Skipped' appears on rows written by older versions
+export type SyncRunOutcome = 'Created' | 'Updated' | 'Skipped' | 'Failed' | 'Deleted'
+
+export interface SyncRunItem {
+  id: number
+  /** Comma-separated Vaultwarden item ids; empty for orphan cleanups */
+  itemKey: string
+  itemName: string
+  namespace: string
+  secretName: string
+  status: string
+  outcome: string
+  details: string | null
+  /** Key names written to the Kubernetes secret; null when the run did not record them */
+  dataKeys: string[] | null
+  timestamp: string
+}
+
+export interface SyncLogDetail extends SyncLog {
+  items: SyncRunItem[]
+}
+
+const syncLogDetailSchema: Schema<SyncLogDetail> = object({
+  ...syncLogShape,
+  // Older API builds return the bare log without per-item results
+  items: withDefault(array(object({
+    id: number,
+    itemKey: string,
+    itemName: string,
+    namespace: string,
+    secretName: string,
+    status: string,
+    outcome: string,
+    details: nullable(string),
+    dataKeys: withDefault(nullable(array(string)), null),
+    timestamp: dateString,
+  })), []),
+})
+
+export type SyncRunChange = 'Added' | 'Removed' | 'StatusChanged' | 'KeysChanged' | 'Unchanged'
+
+export interface SyncRunDiffEntry {
+  namespace: string
+  secretName: string
+  change: SyncRunChange
+  baseStatus: string | null
+  targetStatus: string | null
+  baseOutcome: string | null
+  targetOutcome: string | null
+  baseDetails: string | null
+  targetDetails: string | null
+  addedKeys: string[]
+  removedKeys: string[]
+}
+
+export interface SyncRunComparison {
+  base: SyncLog
+  target: SyncLog
+  entries: SyncRunDiffEntry[]
+}
+
+const syncRunComparisonSchema: Schema<SyncRunComparison> = object({
+  base: syncLogSchema,
+  target: syncLogSchema,
+  entries: array(object({
+    namespace: string,
+    secretName: string,
+    change: map(string, value => value as SyncRunChange),
+    baseStatus: nullable(string),
+    targetStatus: nullable(string),
+    baseOutcome: nullable(string),
+    targetOutcome: nullable(string),
+    baseDetails: nullable(string),
+    targetDetails: nullable(string),
+    addedKeys: array(string),
+    removedKeys: array(string),
+  })),
+})
+
+export interface SyncLogPage {
+  items: SyncLog[]
+  totalCount: number
+  page: number
+  pageSize: number
+}
+
+const syncLogPageSchema: Schema<SyncLogPage> = object({
+  items: array(syncLogSchema),
+  totalCount: number,
+  page: number,
+  pageSize: number,
+})
+
+export interface FailingSecretSummary {
+  namespace: string
+  secretName: string
+  failures: number
+  lastFailedAt: string
+  lastError: string | null
+}
+
+export interface FailureRatePoint {
+  date: string
+  totalSyncs: number
+  failedSyncs: number
+  failureRate: number
+}
+
+export interface SyncStatistics {
+  totalSyncs: number
+  statusCounts: Record<SyncLogStatusFilter, number>
+  averageDuration: number
+  durationP50: number
+  durationP95: number
+  durationMax: number
+  averageItemsPerRun: number
+  topFailingSecrets: FailingSecretSummary[]
+  failureRateTrend: FailureRatePoint[]
+}
+
+const syncStatisticsSchema: Schema<SyncStatistics> = object({
+  totalSyncs: number,
+  statusCounts: object({
+    Success: withDefault(number, 0),
+    Failed: withDefault(number, 0),
+    Partial: withDefault(number, 0),
+    InProgress: withDefault(number, 0),
+  }),
+  averageDuration: number,
+  durationP50: number,
+  durationP95: number,
+  durationMax: number,
+  averageItemsPerRun: number,
+  topFailingSecrets: array(object({
+    namespace: string,
+    secretName: string,
+    failures: number,
+    lastFailedAt: dateString,
+    lastError: nullable(string),
+  })),
+  failureRateTrend: array(object({
+    date: dateString,
+    totalSyncs: number,
+    failedSyncs: number,
+    failureRate: number,
+  })),
+})
+
+export type SyncLogStatusFilter = 'Success' | 'Failed' | 'Partial' | 'InProgress'
+
+export interface SyncLogSearch {
+  start?: Date
+  end?: Date
+  statuses?: SyncLogStatusFilter[]
+  page: number
+  pageSize: number
+}
+
 export interface SecretState {
   id: number
   namespace: string
@@ -140,12 +289,57 @@ export interface SecretState {
   vaultwardenItemName: string
   status: string
   dataKeysCount: number
-  lastSyncTime: string
-  lastSynced: string  // API returns this
-  lastError: string | null  // API returns this, not errorMessage
-  errorMessage?: string | null  // Keep for backward compatibility
+  lastSynced: string
+  createdAt: string | null
+  lastError: string | null
+}
+
+// Older API builds and the demo data used lastSyncTime / errorMessage
+const secretStateSchema: Schema<SecretState> = object(
+  {
+    id: number,
+    namespace: string,
+    secretName: string,
+    vaultwardenItemId: string,
+    vaultwardenItemName: string,
+    status: string,
+    dataKeysCount: number,
+    lastSynced: dateString,
+    createdAt: nullable(dateString),
+    lastError: nullable(string),
+  },
+  {
+    lastSynced: ['lastSyncTime'],
+    lastError: ['errorMessage'],
+  }
+)
+
+export interface SecretSyncHistoryEntry {
+  syncLogId: number
+  itemKey: string
+  itemName: string
+  secretName: string
+  status: string
+  outcome: string
+  details: string | null
+  timestamp: string
+  syncStartTime: string | null
+  syncStatus: string | null
 }
 
+const secretSyncHistoryEntrySchema: Schema<SecretSyncHistoryEntry> = object({
+  syncLogId: number,
+  itemKey: string,
+  itemName: string,
+  secretName: string,
+  status: string,
+  outcome: string,
+  details: nullable(string),
+  timestamp: dateString,
+  syncStartTime: nullable(dateString),
+  syncStatus: nullable(string),
+})
+
 export interface SystemResources {
   cpu: {
     usagePercent: number
@@ -168,6 +362,40 @@ export interface SystemResources {
   timestamp: string
 }
 
+const systemResourcesSchema: Schema<SystemResources> = object({
+  cpu: object({ usagePercent: number, cores: number, totalProcessorTime: number }),
+  memory: object({ workingSetMB: number, privateMemoryMB: number, gcTotalMemoryMB: number }),
+  threads: object({ count: number }),
+  runtime: object({ uptimeSeconds: number, dotnetVersion: string, osDescription: string }),
+  timestamp: dateString,
+})
+
+export interface SyncServiceResources {
+  cpu: {
+    usagePercent: number
+    cores: number
+  }
+  memory: {
+    workingSetMB: number
+    privateMemoryMB: number
+  }
+  threads: {
+    count: number
+  }
+  processId: number
+  uptimeSeconds: number
+  timestamp: string
+}
+
+const syncServiceResourcesSchema: Schema<SyncServiceResources> = object({
+  cpu: object({ usagePercent: number, cores: number }),
+  memory: object({ workingSetMB: number, privateMemoryMB: number }),
+  threads: object({ count: number }),
+  processId: number,
+  uptimeSeconds: number,
+  timestamp: dateString,
+})
+
 export interface NamespaceStats {
   namespace: string
   secretCount: number
@@ -178,81 +406,460 @@ export interface NamespaceStats {
   successRate: number
 }
 
+const namespaceStatsSchema: Schema<NamespaceStats> = object({
+  namespace: string,
+  secretCount: number,
+  activeSecrets: number,
+  failedSecrets: number,
+  totalDataKeys: number,
+  lastSyncTime: nullable(dateString),
+  successRate: number,
+})
+
+export interface SyncStatus {
+  syncIntervalSeconds: number
+  continuousSync: boolean
+  lastSyncTime: string | null
+  nextSyncTime: string | null
+}
+
+const syncStatusSchema: Schema<SyncStatus> = object({
+  syncIntervalSeconds: number,
+  continuousSync: boolean,
+  lastSyncTime: nullable(dateString),
+  nextSyncTime: nullable(dateString),
+})
+
+/** Progress snapshot pushed by the sync service while a run is in progress */
+export interface SyncProgress {
+  phase: string
+  processed: number
+  total: number
+  failed: number
+  currentItem: string | null
+  startedAt: string
+  updatedAt: string
+  completed: boolean
+}
+
+export const syncProgressSchema: Schema<SyncProgress> = object({
+  phase: string,
+  processed: number,
+  total: number,
+  failed: withDefault(number, 0),
+  currentItem: withDefault(nullable(string), null),
+  startedAt: dateString,
+  updatedAt: dateString,
+  completed: boolean,
+})
+
+/** What a sync request covers; an empty target asks for a full sync */
+export interface SyncTarget {
+  namespace?: string
+  secretName?: string
+  itemId?: string
+}
+
+export interface SyncRequestResult {
+  requestId: string
+  message: string
+}
+
+const syncRequestResultSchema: Schema<SyncRequestResult> = object({
+  requestId: string,
+  message: withDefault(string, 'Sync requested'),
+})
+
+/** Pause and temporary interval of continuous sync, changed from the dashboard */
+export interface SyncSchedule {
+  /** False without Valkey, the schedule can then not be changed */
+  available: boolean
+  paused: boolean
+  pausedUntil: string | null
+  pausedAt: string | null
+  pausedBy: string | null
+  pauseReason: string | null
+  configuredIntervalSeconds: number
+  /** Interval in effect, the override while one is active */
+  intervalSeconds: number
+  intervalOverridden: boolean
+  intervalUntil: string | null
+  intervalChangedBy: string | null
+}
+
+const syncScheduleSchema: Schema<SyncSchedule> = object({
+  available: withDefault(boolean, false),
+  paused: withDefault(boolean, false),
+  pausedUntil: withDefault(nullable(dateString), null),
+  pausedAt: withDefault(nullable(dateString), null),
+  pausedBy: withDefault(nullable(string), null),
+  pauseReason: withDefault(nullable(string), null),
+  configuredIntervalSeconds: number,
+  intervalSeconds: number,
+  intervalOverridden: withDefault(boolean, false),
+  intervalUntil: withDefault(nullable(dateString), null),
+  intervalChangedBy: withDefault(nullable(string), null),
+})
+
+export interface PauseSyncOptions {
+  /** ISO time after which scheduled syncs resume on their own */
+  until?: string
+  reason?: string
+  /** Who paused, shown in the banner when no proxy forwards the signed-in user */
+  by?: string
+}
+
+export interface SyncIntervalOptions {
+  seconds: number
+  until?: string
+  by?: string
+}
+
+export interface DiscoveryVaultwardenItem {
+  id: string
+  name: string
+  folder: string | null
+  organizationId: string | null
+  organizationName: string | null
+  owner: string | null
+  fields: number
+  notes: string | null
+  hasNamespacesField: boolean
+  /** JSON array of the namespaces the item targets */
+  namespacesValue: string | null
+  /** Secret the item writes; null when cached by an older sync service */
+  secretName: string | null
+  /** Custom field names; null from APIs that only serve them per item */
+  fieldNames: string[] | null
+}
+
+export interface DiscoverySyncedSecret {
+  vaultwardenItemId: string
+  vaultwardenItemName: string
+  namespace: string
+  secretName: string
+  status: string
+  dataKeysCount: number
+  lastError: string | null
+}
+
+export interface DiscoveryData {
+  vaultwardenItems: DiscoveryVaultwardenItem[]
+  syncedSecrets: DiscoverySyncedSecret[]
+  lastScanTime: string
+}
+
+const discoveryDataSchema: Schema<DiscoveryData> = object({
+  vaultwardenItems: array(object({
+    id: string,
+    name: string,
+    folder: nullable(string),
+    organizationId: nullable(string),
+    organizationName: nullable(string),
+    owner: nullable(string),
+    fields: number,
+    notes: nullable(string),
+    hasNamespacesField: boolean,
+    namespacesValue: nullable(string),
+    secretName: withDefault(nullable(string), null),
+    fieldNames: withDefault(nullable(array(string)), null),
+  })),
+  syncedSecrets: array(object(
+    {
+      vaultwardenItemId: string,
+      vaultwardenItemName: string,
+      namespace: string,
+      secretName: string,
+      status: string,
+      dataKeysCount: number,
+      lastError: nullable(string),
+    },
+    { lastError: ['errorMessage'] }
+  )),
+  lastScanTime: dateString,
+})
+
+export interface ClusterNamespaces {
+  /** False when the API cannot reach the cluster */
+  available: boolean
+  namespaces: string[]
+}
+
+const clusterNamespacesSchema: Schema<ClusterNamespaces> = object({
+  available: boolean,
+  namespaces: array(string),
+})
+
+export interface VaultwardenItemField {
+  name: string
+  value?: string
+  type?: string
+}
+
+// The API returns the cached field names only; full field objects are accepted too
+const vaultwardenItemFieldSchema: Schema<VaultwardenItemField> = union<VaultwardenItemField>(
+  map(string, name => ({ name })),
+  object({ name: string, value: optional(string), type: optional(string) })
+)
+
+/** Secret an item would be synced to on its own, as built by the last sync. Never holds values. */
+export interface SecretPreview {
+  type: string
+  dataKeys: string[]
+  labels: Record<string, string>
+  annotations: Record<string, string>
+  /** Why the sync could not build the data, e.g. a registry item without a password */
+  error: string | null
+}
+
+const secretPreviewSchema: Schema<SecretPreview> = object({
+  type: withDefault(string, 'Opaque'),
+  dataKeys: withDefault(array(string), []),
+  labels: withDefault(record(string), {}),
+  annotations: withDefault(record(string), {}),
+  error: nullable(string),
+})
+
+export type FailureTriageStatus = 'Acknowledged' | 'Snoozed'
+
+/** Decision on a group of failing secrets that share one normalized error */
+export interface FailureTriage {
+  errorPattern: string
+  status: FailureTriageStatus
+  note: string | null
+  triagedBy: string | null
+  triagedAt: string
+  snoozedUntil: string | null
+  /** "namespace/secret" keys failing when the group was triaged */
+  secretKeys: string[]
+}
+
+export interface FailureTriageOptions {
+  errorPattern: string
+  status: FailureTriageStatus
+  note?: string
+  snoozedUntil?: string
+  secretKeys: string[]
+  by?: string
+}
+
+const failureTriageSchema: Schema<FailureTriage> = object({
+  errorPattern: string,
+  status: map(string, status => (status === 'Snoozed' ? 'Snoozed' : 'Acknowledged') as FailureTriageStatus),
+  note: withDefault(nullable(string), null),
+  triagedBy: withDefault(nullable(string), null),
+  triagedAt: dateString,
+  snoozedUntil: withDefault(nullable(dateString), null),
+  secretKeys: withDefault(array(string), []),
+})
+
+/** Effective sync service settings. Credentials are only reported as configured or not. */
+export interface SyncConfig {
+  vaultwarden: {
+    serverUrl: string
+    organizationId: string | null
+    organizationName: string | null
+    collectionId: string | null
+    collectionName: string | null
+    folderId: string | null
+    folderName: string | null
+    clientIdConfigured: boolean
+    clientSecretConfigured: boolean
+    masterPasswordConfigured: boolean
+  }
+  fieldNames: {
+    namespaces: string
+    secretName: string
+    secretKeyPassword: string
+    secretKeyUsername: string
+    ignoreField: string
+    secretAnnotations: string
+    secretLabels: string
+    secretType: string
+  }
+  kubernetes: {
+    defaultNamespace: string
+    inCluster: boolean
+  }
+  labels: {
+    managedByLabel: string
+    managedByValue: string
+    createdByLabel: string
+    createdByValue: string
+    hashAnnotation: string
+  }
+  sync: {
+    syncIntervalSeconds: number
+    continuousSync: boolean
+    dryRun: boolean
+    deleteOrphans: boolean
+  }
+}
+
+// Older APIs only report the namespaces and secret-name fields
+const syncConfigSchema: Schema<SyncConfig> = object({
+  vaultwarden: object({
+    serverUrl: withDefault(string, ''),
+    organizationId: withDefault(nullable(string), null),
+    organizationName: withDefault(nullable(string), null),
+    collectionId: withDefault(nullable(string), null),
+    collectionName: withDefault(nullable(string), null),
+    folderId: withDefault(nullable(string), null),
+    folderName: withDefault(nullable(string), null),
+    clientIdConfigured: withDefault(boolean, false),
+    clientSecretConfigured: withDefault(boolean, false),
+    masterPasswordConfigured: withDefault(boolean, false),
+  }),
+  fieldNames: object({
+    namespaces: withDefault(string, 'namespaces'),
+    secretName: withDefault(string, 'secret-name'),
+    secretKeyPassword: withDefault(string, 'secret-key-password'),
+    secretKeyUsername: withDefault(string, 'secret-key-username'),
+    ignoreField: withDefault(string, 'ignore-field'),
+    secretAnnotations: withDefault(string, 'secret-annotation'),
+    secretLabels: withDefault(string, 'secret-label'),
+    secretType: withDefault(string, 'secret-type'),
+  }),
+  kubernetes: withDefault(object({
+    defaultNamespace: withDefault(string, 'default'),
+    inCluster: withDefault(boolean, false),
+  }), { defaultNamespace: 'default', inCluster: false }),
+  labels: withDefault(object({
+    managedByLabel: string,
+    managedByValue: string,
+    createdByLabel: string,
+    createdByValue: string,
+    hashAnnotation: string,
+  }), {
+    managedByLabel: 'app.kubernetes.io/managed-by',
+    managedByValue: 'vaultwarden-kubernetes-secrets',
+    createdByLabel: 'app.kubernetes.io/created-by',
+    createdByValue: 'vaultwarden-k8s-sync',
+    hashAnnotation: 'vaultwarden-kubernetes-secrets/content-hash',
+  }),
+  sync: object({
+    syncIntervalSeconds: number,
+    continuousSync: boolean,
+    dryRun: boolean,
+    deleteOrphans: boolean,
+  }),
+})
+
+export interface AuthInfo {
+  authRequired: boolean
+  loginlessMode: boolean
+}
+
+const authInfoSchema: Schema<AuthInfo> = object({
+  authRequired: boolean,
+  loginlessMode: boolean,
+})
+
 export const api = {
   // Dashboard
   getDashboardOverview: (): Promise<DashboardOverview> =>
-    fetchWithAuth('/dashboard/overview'),
+    apiRequest('/dashboard/overview', { schema: dashboardOverviewSchema }),
+
+  getTimeline: (days: number = 7): Promise<TimelinePoint[]> =>
+    apiRequest(`/dashboard/timeline?days=${days}`, { schema: array(timelinePointSchema) }),
 
-  getTimeline: (days: number = 7): Promise<any[]> =>
-    fetchWithAuth(`/dashboard/timeline?days=${days}`),
+  getTimelineRange: (start: Date, end: Date, interval?: TimelineInterval): Promise<TimelinePoint[]> => {
+    const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() })
+    if (interval) params.set('interval', interval)
+    return apiRequest(`/dashboard/timeline?${params}`, { schema: array(timelinePointSchema) })
+  },
 
   getNamespaces: (): Promise<NamespaceStats[]> =>
-    fetchWithAuth('/dashboard/namespaces'),
+    apiRequest('/dashboard/namespaces', { schema: array(namespaceStatsSchema) }),
 
-  getSyncStatus: (): Promise<{syncIntervalSeconds: number, continuousSync: boolean, lastSyncTime: string | null, nextSyncTime: string | null}> =>
-    fetchWithAuth('/dashboard/sync-status'),
+  getSyncStatus: (): Promise<SyncStatus> =>
+    apiRequest('/dashboard/sync-status', { schema: syncStatusSchema }),
+
+  getSyncConfig: (): Promise<SyncConfig> =>
+    apiRequest('/dashboard/sync-config', { schema: syncConfigSchema }),
 
   // Sync Logs
-  getSyncLogs: (limit: number = 50): Promise<SyncLog[]> =>
-    fetchWithAuth(`/synclogs?limit=${limit}`),
+  getSyncLogs: (count: number = 50): Promise<SyncLog[]> =>
+    apiRequest(`/synclogs?count=${count}`, { schema: array(syncLogSchema) }),
+
+  getSyncLogsInRange: (start: Date, end: Date): Promise<SyncLog[]> =>
+    apiRequest(`/synclogs/range?${new URLSearchParams({ start: start.toISOString(), end: end.toISOString() })}`, {
+      schema: array(syncLogSchema),
+    }),
+
+  searchSyncLogs: ({ start, end, statuses, page, pageSize }: SyncLogSearch): Promise<SyncLogPage> => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+    if (start) params.set('start', start.toISOString())
+    if (end) params.set('end', end.toISOString())
+    if (statuses?.length) params.set('status', statuses.join(','))
+    return apiRequest(`/synclogs/search?${params}`, { schema: syncLogPageSchema })
+  },
+
+  getSyncStatistics: (start?: Date, end?: Date): Promise<SyncStatistics> => {
+    const params = new URLSearchParams()
+    if (start) params.set('start', start.toISOString())
+    if (end) params.set('end', end.toISOString())
+    return apiRequest(`/synclogs/statistics?${params}`, { schema: syncStatisticsSchema })
+  },
+
+  getSyncLog: (id: number): Promise<SyncLogDetail> =>
+    apiRequest(`/synclogs/${id}`, { schema: syncLogDetailSchema }),
 
-  getSyncLog: (id: number): Promise<SyncLog> =>
-    fetchWithAuth(`/synclogs/${id}`),
+  compareSyncLogs: (baseId: number, targetId: number): Promise<SyncRunComparison> =>
+    apiRequest(`/synclogs/compare?baseId=${baseId}&targetId=${targetId}`, { schema: syncRunComparisonSchema }),
 
   // Secrets
   getSecrets: (): Promise<SecretState[]> =>
-    fetchWithAuth('/secrets'),
+    apiRequest('/secrets', { schema: array(secretStateSchema) }),
 
   getActiveSecrets: (): Promise<SecretState[]> =>
-    fetchWithAuth('/secrets/active'),
+    apiRequest('/secrets/active', { schema: array(secretStateSchema) }),
 
   getSecretsByNamespace: (namespace: string): Promise<SecretState[]> =>
-    fetchWithAuth(`/secrets/namespace/${namespace}`),
+    apiRequest(`/secrets/namespace/${encodeURIComponent(namespace)}`, { schema: array(secretStateSchema) }),
+
+  getSecret: (namespace: string, secretName: string): Promise<SecretState> =>
+    apiRequest(`/secrets/namespace/${encodeURIComponent(namespace)}/name/${encodeURIComponent(secretName)}`, {
+      schema: secretStateSchema,
+    }),
+
+  getSecretHistory: (namespace: string, secretName: string, count: number = 50): Promise<SecretSyncHistoryEntry[]> =>
+    apiRequest(`/secrets/namespace/${encodeURIComponent(namespace)}/name/${encodeURIComponent(secretName)}/history?count=${count}`, {
+      schema: array(secretSyncHistoryEntrySchema),
+    }),
+
+  getNamespaceHistory: (namespace: string, count: number = 50): Promise<SecretSyncHistoryEntry[]> =>
+    apiRequest(`/secrets/namespace/${encodeURIComponent(namespace)}/history?count=${count}`, {
+      schema: array(secretSyncHistoryEntrySchema),
+    }),
 
   getSecretsByNamespaceAndStatus: (namespace: string, status: string): Promise<SecretState[]> =>
-    fetchWithAuth(`/secrets/namespace/${namespace}/status/${status}`),
+    apiRequest(`/secrets/namespace/${encodeURIComponent(namespace)}/status/${encodeURIComponent(status)}`, {
+      schema: array(secretStateSchema),
+    }),
 
   // System Resources
   getSystemResources: (): Promise<SystemResources> =>
-    fetchWithAuth('/system/resources'),
+    apiRequest('/system/resources', { schema: systemResourcesSchema }),
 
-  getSyncServiceResources: (): Promise<SystemResources> =>
-    fetchWithAuth('/system/sync-service-resources'),
+  getSyncServiceResources: (): Promise<SyncServiceResources> =>
+    apiRequest('/system/sync-service-resources', { schema: syncServiceResourcesSchema }),
 
   // Discovery
-  getDiscoveryData: (): Promise<{
-    vaultwardenItems: Array<{
-      id: string
-      name: string
-      folder: string | null
-      organizationId: string | null
-      organizationName: string | null
-      owner: string | null
-      fields: number
-      notes: string | null
-      hasNamespacesField: boolean
-      namespacesValue: string | null
-    }>
-    syncedSecrets: Array<{
-      vaultwardenItemId: string
-      vaultwardenItemName: string
-      namespace: string
-      secretName: string
-      status: string
-      dataKeysCount: number
-      lastError: string | null
-    }>
-    lastScanTime: string
-  }> => fetchWithAuth('/discovery'),
+  getDiscoveryData: (): Promise<DiscoveryData> =>
+    apiRequest('/discovery', { schema: discoveryDataSchema }),
+
+  getClusterNamespaces: (): Promise<ClusterNamespaces> =>
+    apiRequest('/discovery/namespaces', { schema: clusterNamespacesSchema }),
 
   // Get auth info - check if authentication is required
-  getAuthInfo: async (): Promise<{ authRequired: boolean; loginlessMode: boolean }> => {
+  getAuthInfo: async (): Promise<AuthInfo> => {
     try {
-      const response = await fetch(`${API_URL}/dashboard/auth-info`)
-      if (response.ok) {
-        return response.json()
-      }
-      return { authRequired: true, loginlessMode: false }
+      return await apiRequest('/dashboard/auth-info', {
+        auth: false,
+        redirectOnUnauthorized: false,
+        schema: authInfoSchema,
+      })
     } catch {
       return { authRequired: true, loginlessMode: false }
     }
@@ -276,12 +883,8 @@ export const api = {
       }
       
       // Auth is required - validate the token
-      const response = await fetch(`${API_URL}/dashboard/overview`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-      return response.ok
+      await apiRequest('/dashboard/overview', { token, redirectOnUnauthorized: false })
+      return true
     } catch {
       return false
     }
@@ -289,25 +892,74 @@ export const api = {
 
   // Secret data keys
   getSecretDataKeys: (namespace: string, secretName: string): Promise<string[]> =>
-    fetchWithAuth(`/secrets/${namespace}/${secretName}/keys`),
+    apiRequest(`/secrets/${encodeURIComponent(namespace)}/${encodeURIComponent(secretName)}/keys`, {
+      schema: array(string),
+    }),
 
   // Vaultwarden item fields
-  getVaultwardenItemFields: (itemId: string): Promise<Array<{name: string, value: string, type: string}>> =>
-    fetchWithAuth(`/vaultwarden/items/${itemId}/fields`),
+  getVaultwardenItemFields: (itemId: string): Promise<VaultwardenItemField[]> =>
+    apiRequest(`/vaultwarden/items/${encodeURIComponent(itemId)}/fields`, { schema: array(vaultwardenItemFieldSchema) }),
+
+  // 404 until a sync has cached the preview for the item
+  getSecretPreview: (itemId: string): Promise<SecretPreview> =>
+    apiRequest(`/vaultwarden/items/${encodeURIComponent(itemId)}/secret-preview`, { schema: secretPreviewSchema }),
+
+  // Failure triage - 404 from APIs that cannot store it
+  getFailureTriage: (): Promise<FailureTriage[]> =>
+    apiRequest('/discovery/failure-triage', { schema: array(failureTriageSchema) }),
+
+  setFailureTriage: (options: FailureTriageOptions): Promise<FailureTriage> =>
+    apiRequest('/discovery/failure-triage', {
+      method: 'PUT',
+      body: options,
+      schema: failureTriageSchema,
+    }),
+
+  reopenFailureGroup: (errorPattern: string): Promise<void> =>
+    apiRequest(`/discovery/failure-triage?errorPattern=${encodeURIComponent(errorPattern)}`, { method: 'DELETE' }),
+
+  // Sync requests - 409 while a sync is running, 503 when no sync service listens
+  requestSync: (target: SyncTarget = {}): Promise<SyncRequestResult> =>
+    apiRequest('/sync/requests', {
+      method: 'POST',
+      body: target,
+      schema: syncRequestResultSchema,
+    }),
+
+  // Schedule - 503 when Valkey is not configured
+  getSyncSchedule: (): Promise<SyncSchedule> =>
+    apiRequest('/sync/schedule', { schema: syncScheduleSchema }),
+
+  pauseSync: (options: PauseSyncOptions = {}): Promise<SyncSchedule> =>
+    apiRequest('/sync/schedule/pause', {
+      method: 'PUT',
+      body: options,
+      schema: syncScheduleSchema,
+    }),
+
+  resumeSync: (by?: string): Promise<SyncSchedule> =>
+    apiRequest(`/sync/schedule/pause${by ? `?by=${encodeURIComponent(by)}` : ''}`, {
+      method: 'DELETE',
+      schema: syncScheduleSchema,
+    }),
+
+  setSyncInterval: (options: SyncIntervalOptions): Promise<SyncSchedule> =>
+    apiRequest('/sync/schedule/interval', {
+      method: 'PUT',
+      body: options,
+      schema: syncScheduleSchema,
+    }),
+
+  resetSyncInterval: (by?: string): Promise<SyncSchedule> =>
+    apiRequest(`/sync/schedule/interval${by ? `?by=${encodeURIComponent(by)}` : ''}`, {
+      method: 'DELETE',
+      schema: syncScheduleSchema,
+    }),
 
   // System operations
-  resetDatabase: async (): Promise<{success: boolean, message: string}> => {
-    const token = localStorage.getItem('authToken')
-    const response = await fetch(`${API_URL}/system/reset-database`, {
+  resetDatabase: (): Promise<{ message: string }> =>
+    apiRequest('/system/reset-database', {
       method: 'POST',
-      headers: {
-        'Authorization': token ? `Bearer ${token}` : '',
-        'Content-Type': 'application/json',
-      },
-    })
-    if (!response.ok) {
-      throw new Error('Failed to reset database')
-    }
-    return response.json()
-  },
+      schema: object({ message: withDefault(string, 'Database reset') }),
+    }),
 }
@@ -0,0 +1,296 @@
+import { getMockResponse, getMockStreamLines } from './mockData'
+import {
+  ApiSchemaError,
+  ApiUnauthorizedError,
+  ApiUnavailableError,
+  errorForStatus,
+} from './apiErrors'
+import { Schema, SchemaError } from './schema'
+import { API_CLIENT_VERSION, reportSchemaProblem, reportServerVersion } from './apiCompatibility'
+import { createLogger } from './logger'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080/api'
+const USE_MOCK_DATA = import.meta.env.VITE_USE_MOCK_DATA === 'true'
+
+const log = createLogger('api')
+
+export const TOKEN_STORAGE_KEY = 'auth_token'
+
+export const isMockMode = () => USE_MOCK_DATA
+
+export const getApiBaseUrl = () => API_URL
+
+// Get WebSocket URL based on API URL
+export const getWebSocketUrl = (path: string) => {
+  const apiUrl = new URL(API_URL, window.location.origin)
+  const protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${apiUrl.host}${path}`
+}
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_STORAGE_KEY)
+}
+
+export interface RequestOptions<T = unknown> {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  body?: unknown
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  /** Send the stored bearer token (default true) */
+  auth?: boolean
+  /** Use this token instead of the stored one, e.g. when validating a login */
+  token?: string
+  /** Clear the stored token and go to /login on 401 (default true) */
+  redirectOnUnauthorized?: boolean
+  /** Validates and normalizes the response body */
+  schema?: Schema<T>
+}
+
+function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return undefined
+
+  const text = await response.text()
+  if (!text) return undefined
+
+  const contentType = response.headers.get('Content-Type') || ''
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+  return text
+}
+
+function messageFromBody(body: unknown, fallback: string): string {
+  if (typeof body === 'string' && body.trim()) return body.trim()
+  if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>
+    for (const key of ['message', 'error', 'title', 'detail']) {
+      if (typeof record[key] === 'string' && record[key]) return record[key] as string
+    }
+  }
+  return fallback
+}
+
+function handleUnauthorized() {
+  localStorage.removeItem(TOKEN_STORAGE_KEY)
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login'
+  }
+}
+
+function validate<T>(
+  schema: Schema<T> | undefined,
+  data: unknown,
+  context: { method: string; path: string; url: string; status: number; requestId: string }
+): T {
+  if (!schema) return data as T
+
+  try {
+    return schema.parse(data)
+  } catch (error) {
+    if (!(error instanceof SchemaError)) throw error
+
+    const endpoint = `${context.method} ${context.path}`
+    log.error('Response does not match the expected schema', {
+      endpoint,
+      requestId: context.requestId,
+      path: error.path,
+      expected: error.expected,
+      received: error.received,
+    })
+    // The full payload shows what changed in the API; redaction keeps item names and values out
+    log.debug('Payload that does not match the expected schema', { endpoint, requestId: context.requestId, payload: data })
+    reportSchemaProblem({
+      endpoint,
+      message: error.message,
+      requestId: context.requestId,
+      at: new Date().toISOString(),
+    })
+    throw new ApiSchemaError(`Unexpected response from ${endpoint}: ${error.message}`, {
+      status: context.status,
+      requestId: context.requestId,
+      url: context.url,
+      body: data,
+      cause: error,
+      path: error.path,
+    })
+  }
+}
+
+/**
+ * Single entry point for every call the dashboard makes to the API.
+ * Resolves with the parsed JSON body (validated when a schema is given)
+ * or throws a subclass of ApiError.
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    signal,
+    schema,
+    auth = true,
+    redirectOnUnauthorized = true,
+  } = options
+
+  // Return mock data if enabled (for GitHub Pages demo)
+  if (USE_MOCK_DATA) {
+    await new Promise(resolve => setTimeout(resolve, 300)) // Simulate network delay
+    const mock = getMockResponse(path, method, body)
+    if (mock === undefined) {
+      throw errorForStatus(404, `${method} ${path} failed: 404 Not Found`, { status: 404, requestId: 'mock', url: path })
+    }
+    return validate(schema, mock, { method, path, url: path, status: 200, requestId: 'mock' })
+  }
+
+  const requestId = createRequestId()
+  const url = `${API_URL}${path}`
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    'X-Request-Id': requestId,
+    'X-Client-Version': API_CLIENT_VERSION,
+    ...options.headers,
+  }
+
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const token = options.token ?? (auth ? getToken() : null)
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method,
+      headers,
+      signal,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    })
+  } catch (error) {
+    // Aborts are not failures - let React Query and callers handle them as usual
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error
+    }
+    throw new ApiUnavailableError(`Cannot connect to API. Make sure the API is running on ${API_URL}`, {
+      status: 0,
+      requestId,
+      url,
+      cause: error,
+    })
+  }
+
+  const responseRequestId = response.headers.get('X-Request-Id') || requestId
+  reportServerVersion(response.headers.get('X-Api-Version'))
+  const parsed = await readBody(response)
+
+  if (!response.ok) {
+    const details = { status: response.status, requestId: responseRequestId, url, body: parsed }
+    const message = messageFromBody(parsed, response.statusText || `HTTP ${response.status}`)
+    const error = errorForStatus(response.status, message, details)
+
+    if (error instanceof ApiUnauthorizedError && redirectOnUnauthorized) {
+      handleUnauthorized()
+    }
+    throw error
+  }
+
+  return validate(schema, parsed, { method, path, url, status: response.status, requestId: responseRequestId })
+}
+
+/** Sent by the API once the WebSocket auth handshake succeeded */
+export const WS_AUTH_OK = '__AUTH_OK__'
+
+export interface ApiWebSocketHandlers {
+  /** Called once the API accepted the token and starts streaming */
+  onReady?: () => void
+  onMessage: (data: string) => void
+  onError?: (error: Error) => void
+  onClose?: (event: CloseEvent) => void
+}
+
+/**
+ * Opens an API WebSocket and performs the auth handshake. Browsers cannot send an
+ * Authorization header on upgrade requests, so the token is the first message.
+ * Returns a function that closes the socket.
+ */
+export function openApiWebSocket(path: string, handlers: ApiWebSocketHandlers): () => void {
+  // Demo mode: replay canned output instead of opening a socket
+  if (USE_MOCK_DATA) {
+    const timers = [
+      setTimeout(() => handlers.onReady?.(), 0),
+      ...getMockStreamLines(path).map((line, index) =>
+        setTimeout(() => handlers.onMessage(line), 150 * (index + 1))
+      ),
+    ]
+    return () => timers.forEach(clearTimeout)
+  }
+
+  const url = getWebSocketUrl(path)
+  const requestId = createRequestId()
+  let ready = false
+  let closedByClient = false
+
+  const markReady = () => {
+    if (ready) return
+    ready = true
+    handlers.onReady?.()
+  }
+
+  let ws: WebSocket
+  try {
+    ws = new WebSocket(url)
+  } catch (error) {
+    handlers.onError?.(new ApiUnavailableError('Failed to open WebSocket connection', { status: 0, requestId, url, cause: error }))
+    return () => {}
+  }
+
+  ws.onopen = () => {
+    ws.send(JSON.stringify({ type: 'auth', token: getToken() ?? '', clientVersion: API_CLIENT_VERSION }))
+  }
+
+  ws.onmessage = (event) => {
+    const data = String(event.data)
+    if (!ready) {
+      markReady()
+      if (data === WS_AUTH_OK) return
+      // Older APIs stream right away without acknowledging the handshake
+    }
+    handlers.onMessage(data)
+  }
+
+  ws.onerror = () => {
+    if (closedByClient) return
+    handlers.onError?.(new ApiUnavailableError(`WebSocket connection to ${url} failed`, { status: 0, requestId, url }))
+  }
+
+  ws.onclose = (event) => {
+    if (closedByClient) return
+    // 1008 (policy violation) with this reason is the WebSocket equivalent of a 401
+    if (event.code === 1008 && event.reason === 'Authentication failed') {
+      handlers.onError?.(new ApiUnauthorizedError('The API rejected the token for the live stream', {
+        status: 401,
+        requestId,
+        url,
+      }))
+      handleUnauthorized()
+    }
+    handlers.onClose?.(event)
+  }
+
+  return () => {
+    closedByClient = true
+    ws.close()
+  }
+}
@@ -0,0 +1,77 @@
+import { useSyncExternalStore } from 'react'
+
+// Tracks evidence that the API and this dashboard build disagree on the contract:
+// a different X-Api-Version header, or responses that failed schema validation.
+// Layout renders the "backend version mismatch" banner from this state.
+
+// Bumped whenever the dashboard starts relying on a new API contract.
+// Must match ApiVersionMiddleware.Version in VaultwardenK8sSync.Api.
+export const API_CLIENT_VERSION = '1'
+
+export interface SchemaProblem {
+  endpoint: string
+  message: string
+  requestId: string
+  at: string
+}
+
+export interface ApiCompatibilityState {
+  /** Version reported by the API, null until the first response carrying the header */
+  serverVersion: string | null
+  clientVersion: string
+  versionMismatch: boolean
+  schemaProblems: SchemaProblem[]
+  dismissed: boolean
+}
+
+const MAX_SCHEMA_PROBLEMS = 20
+
+let state: ApiCompatibilityState = {
+  serverVersion: null,
+  clientVersion: API_CLIENT_VERSION,
+  versionMismatch: false,
+  schemaProblems: [],
+  dismissed: false,
+}
+
+const listeners = new Set<() => void>()
+
+function setState(next: ApiCompatibilityState) {
+  state = next
+  listeners.forEach(listener => listener())
+}
+
+export function reportServerVersion(version: string | null) {
+  if (!version || version === state.serverVersion) return
+  setState({
+    ...state,
+    serverVersion: version,
+    versionMismatch: version !== API_CLIENT_VERSION,
+    dismissed: false,
+  })
+}
+
+export function reportSchemaProblem(problem: SchemaProblem) {
+  // One entry per endpoint is enough - polling would otherwise flood the list
+  if (state.schemaProblems.some(p => p.endpoint === problem.endpoint && p.message === problem.message)) return
+  setState({
+    ...state,
+    schemaProblems: [problem, ...state.schemaProblems].slice(0, MAX_SCHEMA_PROBLEMS),
+    dismissed: false,
+  })
+}
+
+export function dismissCompatibilityWarning() {
+  setState({ ...state, dismissed: true })
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function useApiCompatibility(): ApiCompatibilityState {
+  return useSyncExternalStore(subscribe, () => state)
+}
@@ -0,0 +1,117 @@
+// Typed errors thrown by the API client (see apiClient.ts).
+// Pages switch on the class to decide which recovery UI to render instead of
+// matching substrings of error messages.
+
+export interface ApiErrorDetails {
+  status: number
+  requestId: string
+  url: string
+  body?: unknown
+  cause?: unknown
+}
+
+export class ApiError extends Error {
+  readonly status: number
+  readonly requestId: string
+  readonly url: string
+  readonly body: unknown
+  readonly cause: unknown
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = details.status
+    this.requestId = details.requestId
+    this.url = details.url
+    this.body = details.body
+    this.cause = details.cause
+  }
+}
+
+/** 401 - token missing, expired or rejected by the API */
+export class ApiUnauthorizedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiUnauthorizedError'
+  }
+}
+
+/** 403 - authenticated but not allowed */
+export class ApiForbiddenError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiForbiddenError'
+  }
+}
+
+/** 404 - the requested resource does not exist */
+export class ApiNotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiNotFoundError'
+  }
+}
+
+/** 400/409/422 - the request or the response payload was rejected as invalid */
+export class ApiValidationError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiValidationError'
+  }
+}
+
+/** 429 - rate limiter in Program.cs rejected the request */
+export class ApiRateLimitedError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiRateLimitedError'
+  }
+}
+
+/**
+ * The API answered successfully but the body did not match the dashboard's schema.
+ * Usually means the API and the dashboard come from different releases.
+ */
+export class ApiSchemaError extends ApiError {
+  /** Location of the first mismatch, e.g. "$[3].namespace" */
+  readonly path: string
+
+  constructor(message: string, details: ApiErrorDetails & { path: string }) {
+    super(message, details)
+    this.name = 'ApiSchemaError'
+    this.path = details.path
+  }
+}
+
+/** Network failure, CORS rejection or 502/503/504 - the API cannot be reached */
+export class ApiUnavailableError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiUnavailableError'
+  }
+}
+
+/** Any other 5xx response */
+export class ApiServerError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details)
+    this.name = 'ApiServerError'
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+/**
+ * Maps an HTTP status code to the matching error class.
+ */
+export function errorForStatus(status: number, message: string, details: ApiErrorDetails): ApiError {
+  if (status === 401) return new ApiUnauthorizedError(message, details)
+  if (status === 403) return new ApiForbiddenError(message, details)
+  if (status === 404) return new ApiNotFoundError(message, details)
+  if (status === 400 || status === 409 || status === 422) return new ApiValidationError(message, details)
+  if (status === 429) return new ApiRateLimitedError(message, details)
+  if (status === 502 || status === 503 || status === 504) return new ApiUnavailableError(message, details)
+  return new ApiServerError(message, details)
+}
@@ -0,0 +1,191 @@
+import { openApiWebSocket } from './apiClient'
+import { ApiUnauthorizedError } from './apiErrors'
+
+/**
+ * idle: not enabled. connecting: first attempt. live: streaming.
+ * reconnecting: waiting for (or making) another attempt after the connection dropped.
+ * unavailable: the server refused the stream, retrying would not help.
+ */
+export type StreamState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'unavailable'
+
+export interface ConnectionStatus {
+  state: StreamState
+  error: string | null
+  /** Failed attempts since the stream was last live */
+  attempt: number
+  /** When the next reconnect attempt is due (epoch ms) */
+  retryAt: number | null
+}
+
+export const IDLE_CONNECTION: ConnectionStatus = { state: 'idle', error: null, attempt: 0, retryAt: null }
+
+export interface ResilientStreamOptions {
+  /** Called before every attempt, so a reconnect can ask to resume where it left off */
+  path: () => string
+  /** Receives every message except heartbeats; isFirst is true for the first message of each connection */
+  onMessage: (message: string, isFirst: boolean) => void
+  onStatus: (status: ConnectionStatus) => void
+  /** Messages starting with one of these markers mean the server cannot stream at all */
+  unavailable?: { markers: string[]; reason: string; onMessage?: (message: string) => void }
+}
+
+export interface ResilientStream {
+  close: () => void
+  /** Skips the backoff wait, or starts over after the stream became unavailable */
+  retryNow: () => void
+}
+
+const PING_MARKER = '__PING__'
+
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 30_000
+// The API pings every 15s; three missed pings means the connection is gone
+const HEARTBEAT_TIMEOUT_MS = 45_000
+const HEARTBEAT_CHECK_MS = 5000
+
+export function backoffDelay(attempt: number, random: number = Math.random()): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt)
+  // ±20% jitter so clients do not reconnect in lockstep after an API restart
+  return Math.round(delay * (0.8 + random * 0.4))
+}
+
+/**
+ * Keeps an API WebSocket open: dropped connections are retried with exponential backoff,
+ * and a connection that stops sending heartbeats is treated as dropped.
+ */
+export function openResilientStream(options: ResilientStreamOptions): ResilientStream {
+  let status: ConnectionStatus = { ...IDLE_CONNECTION, state: 'connecting' }
+  let stopped = false
+  let terminal = false
+  let failures = 0
+  let connections = 0
+  let closeSocket: (() => void) | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let watchdog: ReturnType<typeof setInterval> | null = null
+
+  const report = (changes: Partial<ConnectionStatus>) => {
+    status = { ...status, ...changes }
+    options.onStatus(status)
+  }
+
+  const stopWatchdog = () => {
+    if (watchdog !== null) clearInterval(watchdog)
+    watchdog = null
+  }
+
+  const giveUp = (reason: string) => {
+    terminal = true
+    stopWatchdog()
+    report({ state: 'unavailable', error: reason, retryAt: null })
+  }
+
+  const scheduleRetry = () => {
+    if (stopped || terminal || retryTimer !== null) return
+    stopWatchdog()
+    const delay = backoffDelay(failures)
+    failures++
+    report({ state: 'reconnecting', attempt: failures, retryAt: Date.now() + delay })
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      connect()
+    }, delay)
+  }
+
+  const connect = () => {
+    const connection = ++connections
+    // Handlers of a connection that was already replaced must not touch the state
+    const isCurrent = () => !stopped && connection === connections
+    let lastMessageAt = Date.now()
+    let sawPing = false
+    let sawMessage = false
+
+    report({ state: connection === 1 ? 'connecting' : 'reconnecting', retryAt: null })
+
+    closeSocket = openApiWebSocket(options.path(), {
+      onReady: () => {
+        if (!isCurrent()) return
+        failures = 0
+        report({ state: 'live', error: null, attempt: 0 })
+        watchdog = setInterval(() => {
+          // Older APIs never ping, so silence only counts once a ping was seen
+          if (sawPing && Date.now() - lastMessageAt > HEARTBEAT_TIMEOUT_MS) {
+            closeSocket?.()
+            report({ error: 'No heartbeat from the API' })
+            scheduleRetry()
+          }
+        }, HEARTBEAT_CHECK_MS)
+      },
+      onMessage: (data) => {
+        if (!isCurrent()) return
+        lastMessageAt = Date.now()
+        const message = data.trimEnd()
+
+        if (message === PING_MARKER) {
+          sawPing = true
+          return
+        }
+
+        const unavailable = options.unavailable
+        if (unavailable && unavailable.markers.some(marker => message.startsWith(marker))) {
+          unavailable.onMessage?.(message)
+          giveUp(unavailable.reason)
+          return
+        }
+
+        options.onMessage(message, !sawMessage)
+        sawMessage = true
+      },
+      onError: (err) => {
+        if (!isCurrent()) return
+        if (err instanceof ApiUnauthorizedError) {
+          giveUp('Authentication failed')
+          return
+        }
+        report({ error: 'Connection error' })
+        scheduleRetry()
+      },
+      onClose: (event) => {
+        if (!isCurrent()) return
+        // 1008 (policy violation) is how the API refuses the stream: bad token, no Valkey
+        if (event.code === 1008) {
+          if (!terminal) giveUp(event.reason || 'Service unavailable')
+          return
+        }
+        scheduleRetry()
+      },
+    })
+  }
+
+  const retryNow = () => {
+    if (stopped) return
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+      connect()
+    } else if (terminal) {
+      terminal = false
+      failures = 0
+      report({ error: null, attempt: 0 })
+      connect()
+    }
+  }
+
+  // Coming back online should not wait out the remaining backoff
+  const handleOnline = () => {
+    if (retryTimer !== null) retryNow()
+  }
+  window.addEventListener('online', handleOnline)
+
+  connect()
+
+  return {
+    close: () => {
+      stopped = true
+      closeSocket?.()
+      stopWatchdog()
+      if (retryTimer !== null) clearTimeout(retryTimer)
+      window.removeEventListener('online', handleOnline)
+    },
+    retryNow,
+  }
+}
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState } from 'react'
+import { TOKEN_STORAGE_KEY } from './apiClient'
 
 interface AuthContextType {
   isAuthenticated: boolean
@@ -19,13 +20,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (isLoginlessMode) {
       return 'loginless-mode'
     }
-    return localStorage.getItem('auth_token')
+    return localStorage.getItem(TOKEN_STORAGE_KEY)
   })
 
   const isAuthenticated = isLoginlessMode || !!token
 
   const login = (newToken: string) => {
-    localStorage.setItem('auth_token', newToken)
+    localStorage.setItem(TOKEN_STORAGE_KEY, newToken)
     setToken(newToken)
   }
 
@@ -33,7 +34,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Don't allow logout in loginless mode
     if (isLoginlessMode) return
     
-    localStorage.removeItem('auth_token')
+    localStorage.removeItem(TOKEN_STORAGE_KEY)
     setToken(null)
   }
 
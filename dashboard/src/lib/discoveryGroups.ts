@@ -0,0 +1,170 @@
+import type { DiscoveryVaultwardenItem } from './api'
+
+export type ItemSyncState = 'synced' | 'failed' | 'not-synced'
+
+export const ITEM_SYNC_STATES: Record<ItemSyncState, { label: string; color: 'success' | 'danger' | 'neutral' }> = {
+  synced: { label: 'Synced', color: 'success' },
+  failed: { label: 'Failed', color: 'danger' },
+  'not-synced': { label: 'Not synced', color: 'neutral' },
+}
+
+export interface GroupCounts {
+  total: number
+  synced: number
+  failed: number
+  notSynced: number
+  /** Share of the group's items that are synced, 0-100 */
+  coverage: number
+}
+
+export interface FolderGroup {
+  key: string
+  name: string
+  items: DiscoveryVaultwardenItem[]
+  counts: GroupCounts
+}
+
+export interface OwnerGroup {
+  key: string
+  /** Organization name, or the owner of a personal vault */
+  name: string
+  personal: boolean
+  folders: FolderGroup[]
+  counts: GroupCounts
+}
+
+export type FacetName = 'owner' | 'folder' | 'state'
+
+export interface FacetValue {
+  value: string
+  label: string
+  count: number
+}
+
+export type FacetSelection = Record<FacetName, Set<string>>
+
+const NO_FOLDER = 'No folder'
+
+/** Organization items group by organization; personal items by the user who owns them */
+export function ownerKey(item: DiscoveryVaultwardenItem): string {
+  return item.organizationId ? `org:${item.organizationId}` : `user:${item.owner ?? ''}`
+}
+
+function ownerName(item: DiscoveryVaultwardenItem): string {
+  if (item.organizationId) return item.organizationName ?? item.organizationId
+  return item.owner ? `${item.owner} (personal)` : 'Personal vault'
+}
+
+function folderName(item: DiscoveryVaultwardenItem): string {
+  return item.folder ?? NO_FOLDER
+}
+
+/** Failed only counts when no namespace of the item synced */
+export function itemSyncStates(
+  items: DiscoveryVaultwardenItem[],
+  syncedItemIds: Set<string>,
+  failedItemIds: Set<string>
+): Map<string, ItemSyncState> {
+  return new Map(items.map(item => [
+    item.id,
+    syncedItemIds.has(item.id) ? 'synced' : failedItemIds.has(item.id) ? 'failed' : 'not-synced',
+  ]))
+}
+
+export function countStates(items: DiscoveryVaultwardenItem[], states: Map<string, ItemSyncState>): GroupCounts {
+  const counts = { total: items.length, synced: 0, failed: 0, notSynced: 0, coverage: 0 }
+  items.forEach(item => {
+    const state = states.get(item.id) ?? 'not-synced'
+    if (state === 'synced') counts.synced++
+    else if (state === 'failed') counts.failed++
+    else counts.notSynced++
+  })
+  counts.coverage = counts.total > 0 ? Math.round((counts.synced / counts.total) * 100) : 0
+  return counts
+}
+
+function facetValue(item: DiscoveryVaultwardenItem, facet: FacetName, states: Map<string, ItemSyncState>): string {
+  if (facet === 'owner') return ownerKey(item)
+  if (facet === 'folder') return folderName(item)
+  return states.get(item.id) ?? 'not-synced'
+}
+
+export function emptyFacetSelection(): FacetSelection {
+  return { owner: new Set(), folder: new Set(), state: new Set() }
+}
+
+function matchesFacets(
+  item: DiscoveryVaultwardenItem,
+  selection: FacetSelection,
+  states: Map<string, ItemSyncState>,
+  except?: FacetName
+): boolean {
+  return (Object.keys(selection) as FacetName[]).every(facet =>
+    facet === except || selection[facet].size === 0 || selection[facet].has(facetValue(item, facet, states))
+  )
+}
+
+export function filterByFacets(
+  items: DiscoveryVaultwardenItem[],
+  selection: FacetSelection,
+  states: Map<string, ItemSyncState>
+): DiscoveryVaultwardenItem[] {
+  return items.filter(item => matchesFacets(item, selection, states))
+}
+
+/**
+ * Values of a facet with how many items each would show; counts apply the other facets' selection
+ * so picking an organization narrows the folders to that organization's.
+ */
+export function facetValues(
+  items: DiscoveryVaultwardenItem[],
+  facet: FacetName,
+  selection: FacetSelection,
+  states: Map<string, ItemSyncState>
+): FacetValue[] {
+  const values = new Map<string, FacetValue>()
+  items.forEach(item => {
+    const value = facetValue(item, facet, states)
+    if (!values.has(value)) {
+      const label = facet === 'owner' ? ownerName(item) : facet === 'state' ? ITEM_SYNC_STATES[value as ItemSyncState].label : value
+      values.set(value, { value, label, count: 0 })
+    }
+    if (matchesFacets(item, selection, states, facet)) values.get(value)!.count++
+  })
+  // Selected values stay listed even when the other facets leave them no items
+  return [...values.values()]
+    .filter(entry => entry.count > 0 || selection[facet].has(entry.value))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
+
+/** Organization → folder → item tree; groups sorted by name with personal vaults and "No folder" last */
+export function groupItems(items: DiscoveryVaultwardenItem[], states: Map<string, ItemSyncState>): OwnerGroup[] {
+  const owners = new Map<string, { name: string; personal: boolean; folders: Map<string, DiscoveryVaultwardenItem[]> }>()
+  items.forEach(item => {
+    const key = ownerKey(item)
+    const owner = owners.get(key) ?? { name: ownerName(item), personal: !item.organizationId, folders: new Map() }
+    const folder = folderName(item)
+    owner.folders.set(folder, [...(owner.folders.get(folder) ?? []), item])
+    owners.set(key, owner)
+  })
+
+  return [...owners.entries()]
+    .map(([key, owner]): OwnerGroup => {
+      const folders = [...owner.folders.entries()]
+        .map(([name, folderItems]): FolderGroup => ({
+          key: `${key}/${name}`,
+          name,
+          items: [...folderItems].sort((a, b) => a.name.localeCompare(b.name)),
+          counts: countStates(folderItems, states),
+        }))
+        .sort((a, b) => Number(a.name === NO_FOLDER) - Number(b.name === NO_FOLDER) || a.name.localeCompare(b.name))
+      return {
+        key,
+        name: owner.name,
+        personal: owner.personal,
+        folders,
+        counts: countStates(folders.flatMap(folder => folder.items), states),
+      }
+    })
+    .sort((a, b) => Number(a.personal) - Number(b.personal) || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,317 @@
+import type { ClusterNamespaces, DiscoverySyncedSecret, DiscoveryVaultwardenItem, SyncConfig } from './api'
+
+/** Why a Vaultwarden item has no successfully synced secret, most fundamental first */
+export type NotSyncedReason =
+  | 'excluded-by-filter'
+  | 'missing-namespaces'
+  | 'invalid-namespace'
+  | 'unknown-namespace'
+  | 'secret-name-collision'
+  | 'sync-failed'
+  | 'pending'
+
+export const NOT_SYNCED_REASONS: Record<NotSyncedReason, { label: string; color: 'danger' | 'warning' | 'neutral' | 'primary' }> = {
+  'excluded-by-filter': { label: 'Excluded by filter', color: 'neutral' },
+  'missing-namespaces': { label: 'Missing namespaces field', color: 'warning' },
+  'invalid-namespace': { label: 'Invalid namespace', color: 'danger' },
+  'unknown-namespace': { label: 'Namespace does not exist', color: 'danger' },
+  'secret-name-collision': { label: 'Secret name collision', color: 'warning' },
+  'sync-failed': { label: 'Last sync failed', color: 'danger' },
+  'pending': { label: 'Not synced yet', color: 'primary' },
+}
+
+export const NOT_SYNCED_REASON_ORDER = Object.keys(NOT_SYNCED_REASONS) as NotSyncedReason[]
+
+export interface Diagnosis {
+  reason: NotSyncedReason
+  /** What the rule found, e.g. the offending namespace */
+  detail: string
+  /** Concrete change that resolves it */
+  fix: string
+  /** Secret the diagnosis is about, to link to its detail page */
+  secret?: { namespace: string; secretName: string }
+}
+
+export interface DiagnosisContext {
+  items: DiscoveryVaultwardenItem[]
+  syncedSecrets: DiscoverySyncedSecret[]
+  /** Filters and field names; the defaults are assumed without it */
+  config?: SyncConfig
+  /** Namespace existence is only checked when the API could list them */
+  clusterNamespaces?: ClusterNamespaces
+}
+
+// Kubernetes namespaces are RFC 1123 labels
+const NAMESPACE_PATTERN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/
+const MAX_NAMESPACE_LENGTH = 63
+
+export function isValidNamespaceName(name: string): boolean {
+  return name.length <= MAX_NAMESPACE_LENGTH && NAMESPACE_PATTERN.test(name)
+}
+
+/** Closest valid namespace name, e.g. "Shared_Services" → "shared-services" */
+export function toNamespaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, MAX_NAMESPACE_LENGTH)
+}
+
+/** The API caches a JSON array; older caches and the demo data hold the raw comma-separated field */
+export function parseNamespaces(value: string | null): string[] {
+  if (!value) return []
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (Array.isArray(parsed)) {
+      return parsed.filter((ns): ns is string => typeof ns === 'string').map(ns => ns.trim()).filter(Boolean)
+    }
+  } catch {
+    // Not JSON, fall through to the field's own format
+  }
+  return value.split(',').map(ns => ns.trim()).filter(Boolean)
+}
+
+export function secretKey(namespace: string, secretName: string): string {
+  return `${namespace}/${secretName}`
+}
+
+/**
+ * Items that write each namespace/secret, from both the configured items and the secrets
+ * already synced. The sync merges items sharing a secret into one, and records only one of
+ * them as the secret's source.
+ */
+export function secretWriters(items: DiscoveryVaultwardenItem[], syncedSecrets: DiscoverySyncedSecret[]): Map<string, Set<string>> {
+  const writers = new Map<string, Set<string>>()
+  const add = (key: string, itemId: string) => {
+    if (!writers.has(key)) writers.set(key, new Set())
+    writers.get(key)!.add(itemId)
+  }
+
+  items.forEach(item => {
+    if (!item.hasNamespacesField || !item.secretName) return
+    parseNamespaces(item.namespacesValue)
+      .filter(isValidNamespaceName)
+      .forEach(namespace => add(secretKey(namespace, item.secretName!), item.id))
+  })
+  syncedSecrets
+    .filter(secret => secret.status !== 'Deleted')
+    .forEach(secret => add(secretKey(secret.namespace, secret.secretName), secret.vaultwardenItemId))
+
+  return writers
+}
+
+export interface CollisionWriter {
+  itemId: string
+  itemName: string
+  /** The item's fields currently target the secret */
+  configured: boolean
+  /** The last sync recorded the item as the secret's source */
+  recorded: boolean
+}
+
+export interface SecretCollision {
+  namespace: string
+  secretName: string
+  writers: CollisionWriter[]
+  /** Item the secret is attributed to; null until a sync has written it */
+  winner: CollisionWriter | null
+  /** merged: the secret already combines the items; upcoming: the next sync will merge them */
+  state: 'merged' | 'upcoming'
+  production: boolean
+}
+
+const PRODUCTION_NAMESPACE = /(^|-)prod(uction)?($|-)/
+
+/**
+ * Targets written by more than one item. The sync writes them as one secret: keys present in
+ * several items take the value of the item processed last, and the secret is attributed to the
+ * first. Production namespaces and collisions not synced yet come first.
+ */
+export function findSecretCollisions(items: DiscoveryVaultwardenItem[], syncedSecrets: DiscoverySyncedSecret[]): SecretCollision[] {
+  const itemNames = new Map(items.map(item => [item.id, item.name]))
+  const recorded = new Map<string, DiscoverySyncedSecret>()
+  syncedSecrets
+    .filter(secret => secret.status !== 'Deleted')
+    .forEach(secret => {
+      recorded.set(secretKey(secret.namespace, secret.secretName), secret)
+      if (!itemNames.has(secret.vaultwardenItemId)) itemNames.set(secret.vaultwardenItemId, secret.vaultwardenItemName)
+    })
+  const configured = secretWriters(items, [])
+  // Items cached before secret names were recorded can only be matched through their synced secrets
+  const unknownTargets = new Set(items.filter(item => item.hasNamespacesField && !item.secretName).map(item => item.id))
+
+  const collisions: SecretCollision[] = []
+  secretWriters(items, syncedSecrets).forEach((itemIds, key) => {
+    const source = recorded.get(key)
+    // A recorded source that no longer targets the secret is replaced on the next sync, not merged
+    const writers = [...itemIds]
+      .map(itemId => ({
+        itemId,
+        itemName: itemNames.get(itemId) ?? itemId,
+        configured: configured.get(key)?.has(itemId) ?? false,
+        recorded: source?.vaultwardenItemId === itemId,
+      }))
+      .filter(writer => writer.configured || unknownTargets.has(writer.itemId))
+    if (writers.length < 2) return
+
+    const separator = key.indexOf('/')
+    const namespace = key.slice(0, separator)
+    const winner = writers.find(writer => writer.recorded) ?? null
+    collisions.push({
+      namespace,
+      secretName: key.slice(separator + 1),
+      writers,
+      winner,
+      state: winner && source?.status !== 'Failed' ? 'merged' : 'upcoming',
+      production: PRODUCTION_NAMESPACE.test(namespace),
+    })
+  })
+
+  return collisions.sort((a, b) =>
+    Number(b.production) - Number(a.production) ||
+    Number(b.state === 'upcoming') - Number(a.state === 'upcoming') ||
+    secretKey(a.namespace, a.secretName).localeCompare(secretKey(b.namespace, b.secretName))
+  )
+}
+
+// Known sync errors and what resolves them; the first match wins
+const ERROR_FIXES: Array<{ pattern: RegExp; fix: string }> = [
+  { pattern: /namespace .* (does not exist|not found)/i, fix: 'Create the namespace or remove it from the namespaces field, then resync.' },
+  { pattern: /forbidden|unauthorized|rbac/i, fix: 'Grant the sync service account access to secrets in this namespace (rbac.clusterWide in the chart), then resync.' },
+  { pattern: /invalid|must consist of|dns-1123/i, fix: 'Use lowercase letters, digits and "-" in the secret-name field and secret keys, then resync.' },
+  { pattern: /too long|exceeds/i, fix: 'Shorten the secret name or keys, then resync.' },
+]
+
+function fixForError(error: string | null): string {
+  const match = error ? ERROR_FIXES.find(({ pattern }) => pattern.test(error)) : undefined
+  return match?.fix ?? 'Open the secret for the full error, fix the cause in Vaultwarden and resync.'
+}
+
+function filterDiagnoses(item: DiscoveryVaultwardenItem, config?: SyncConfig): Diagnosis[] {
+  if (!config) return []
+  const { organizationId, organizationName, folderId, folderName } = config.vaultwarden
+  const diagnoses: Diagnosis[] = []
+
+  if (organizationId && item.organizationId?.toLowerCase() !== organizationId.toLowerCase()) {
+    diagnoses.push({
+      reason: 'excluded-by-filter',
+      detail: `Organization filter ${organizationName ?? organizationId} does not match ${item.organizationName ?? (item.organizationId ? 'the item\'s organization' : 'a personal item')}`,
+      fix: `Move the item into the ${organizationName ?? organizationId} organization, or clear VAULTWARDEN__ORGANIZATIONID.`,
+    })
+  }
+  // Discovery reports the folder ID in the folder column
+  if (folderId && item.folder?.toLowerCase() !== folderId.toLowerCase()) {
+    diagnoses.push({
+      reason: 'excluded-by-filter',
+      detail: `Folder filter ${folderName ?? folderId} does not contain the item`,
+      fix: `Move the item into the ${folderName ?? folderId} folder, or clear VAULTWARDEN__FOLDERID.`,
+    })
+  }
+  return diagnoses
+}
+
+/**
+ * Every reason an item is not synced. Items with several problems get several diagnoses so
+ * they can all be fixed in one go.
+ */
+export function diagnoseItem(
+  item: DiscoveryVaultwardenItem,
+  context: DiagnosisContext,
+  writers: Map<string, Set<string>> = secretWriters(context.items, context.syncedSecrets)
+): Diagnosis[] {
+  const namespacesField = context.config?.fieldNames.namespaces ?? 'namespaces'
+  const secretNameField = context.config?.fieldNames.secretName ?? 'secret-name'
+  const diagnoses = filterDiagnoses(item, context.config)
+
+  if (!item.hasNamespacesField) {
+    diagnoses.push({
+      reason: 'missing-namespaces',
+      detail: `No "${namespacesField}" custom field`,
+      fix: `Add a custom field "${namespacesField}" with the target namespaces, comma-separated (e.g. "default,staging").`,
+    })
+    return diagnoses
+  }
+
+  const namespaces = parseNamespaces(item.namespacesValue)
+  if (namespaces.length === 0) {
+    diagnoses.push({
+      reason: 'invalid-namespace',
+      detail: `The "${namespacesField}" field is empty`,
+      fix: `Set "${namespacesField}" to at least one namespace, e.g. "default".`,
+    })
+    return diagnoses
+  }
+
+  const existing = context.clusterNamespaces?.available ? new Set(context.clusterNamespaces.namespaces) : null
+  const itemNames = new Map(context.items.map(other => [other.id, other.name]))
+
+  namespaces.forEach(namespace => {
+    if (!isValidNamespaceName(namespace)) {
+      const suggestion = toNamespaceName(namespace)
+      diagnoses.push({
+        reason: 'invalid-namespace',
+        detail: `"${namespace}" is not a valid namespace name`,
+        fix: suggestion
+          ? `Change "${namespace}" to "${suggestion}" in the "${namespacesField}" field (lowercase letters, digits and "-" only).`
+          : `Replace "${namespace}" in the "${namespacesField}" field with a valid namespace name.`,
+      })
+      return
+    }
+
+    if (existing && !existing.has(namespace)) {
+      diagnoses.push({
+        reason: 'unknown-namespace',
+        detail: `Namespace "${namespace}" does not exist in the cluster`,
+        fix: `Create it (kubectl create namespace ${namespace}) or correct the "${namespacesField}" field.`,
+      })
+      return
+    }
+
+    if (!item.secretName) return
+    const others = [...(writers.get(secretKey(namespace, item.secretName)) ?? [])].filter(id => id !== item.id)
+    if (others.length > 0) {
+      diagnoses.push({
+        reason: 'secret-name-collision',
+        detail: `${namespace}/${item.secretName} is also written by ${others.map(id => itemNames.get(id) ?? id).join(', ')}; their data is merged into one secret`,
+        fix: `Set a unique "${secretNameField}" field on this item, unless merging the items is intended.`,
+        secret: { namespace, secretName: item.secretName },
+      })
+    }
+  })
+
+  context.syncedSecrets
+    .filter(secret => secret.vaultwardenItemId === item.id && secret.status === 'Failed')
+    .forEach(secret => {
+      diagnoses.push({
+        reason: 'sync-failed',
+        detail: secret.lastError ?? 'Sync failed - no error details',
+        fix: fixForError(secret.lastError),
+        secret: { namespace: secret.namespace, secretName: secret.secretName },
+      })
+    })
+
+  if (diagnoses.length === 0) {
+    diagnoses.push({
+      reason: 'pending',
+      detail: `Configured for ${namespaces.join(', ')} but not synced yet`,
+      fix: 'Wait for the next sync or resync the item; check the sync logs if it stays here.',
+    })
+  }
+  return diagnoses
+}
+
+export function diagnoseItems(items: DiscoveryVaultwardenItem[], context: DiagnosisContext): Map<string, Diagnosis[]> {
+  const writers = secretWriters(context.items, context.syncedSecrets)
+  return new Map(items.map(item => [item.id, diagnoseItem(item, context, writers)]))
+}
+
+/** Items per reason; an item with two diagnoses of the same reason counts once */
+export function countByReason(diagnoses: Map<string, Diagnosis[]>): Record<NotSyncedReason, number> {
+  const counts = Object.fromEntries(NOT_SYNCED_REASON_ORDER.map(reason => [reason, 0])) as Record<NotSyncedReason, number>
+  diagnoses.forEach(itemDiagnoses => {
+    new Set(itemDiagnoses.map(diagnosis => diagnosis.reason)).forEach(reason => counts[reason]++)
+  })
+  return counts
+}
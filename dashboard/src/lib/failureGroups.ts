@@ -0,0 +1,86 @@
+import type { DiscoverySyncedSecret, FailureTriage } from './api'
+import { secretKey } from './discoveryRules'
+
+export type FailureGroupState = 'open' | 'acknowledged' | 'snoozed'
+
+export interface FailureGroup {
+  /** Normalized error shared by the group; triage decisions are keyed by it */
+  pattern: string
+  secrets: DiscoverySyncedSecret[]
+  itemCount: number
+  namespaces: string[]
+  triage: FailureTriage | null
+  state: FailureGroupState
+  /** Failing secrets an acknowledgement did not cover; any reopens the group */
+  newSecrets: string[]
+}
+
+const NO_ERROR = 'Sync failed - no error details'
+const MAX_PATTERN_LENGTH = 200
+
+// Most specific first: a URL or timestamp holds numbers the later rules would replace
+const NORMALIZATIONS: Array<[RegExp, string]> = [
+  [/https?:\/\/\S+/g, '<url>'],
+  [/\d{4}-\d{2}-\d{2}[T ][\d:.]+Z?/g, '<time>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>'],
+  [/'[^']*'/g, "'<name>'"],
+  [/"[^"]*"/g, '"<name>"'],
+  [/\b\d+(\.\d+)?\b/g, '<n>'],
+  [/\s+/g, ' '],
+]
+
+/**
+ * The error with names, ids, numbers and times replaced, so "Namespace 'a' does not exist" and
+ * "Namespace 'b' does not exist" fall in one group. Only the first line is kept.
+ */
+export function normalizeSyncError(message: string | null): string {
+  const firstLine = (message ?? '').split('\n')[0].trim()
+  if (!firstLine) return NO_ERROR
+  return NORMALIZATIONS
+    .reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), firstLine)
+    .trim()
+    .slice(0, MAX_PATTERN_LENGTH)
+}
+
+function groupState(triage: FailureTriage | null, newSecrets: string[], now: Date): FailureGroupState {
+  if (!triage) return 'open'
+  if (triage.status === 'Snoozed') {
+    return triage.snoozedUntil && new Date(triage.snoozedUntil) > now ? 'snoozed' : 'open'
+  }
+  return newSecrets.length > 0 ? 'open' : 'acknowledged'
+}
+
+const STATE_ORDER: Record<FailureGroupState, number> = { open: 0, snoozed: 1, acknowledged: 2 }
+
+/** Failed secrets grouped by normalized error; open groups first, then by size */
+export function groupFailures(
+  failedSecrets: DiscoverySyncedSecret[],
+  triages: FailureTriage[],
+  now: Date = new Date()
+): FailureGroup[] {
+  const byPattern = new Map<string, DiscoverySyncedSecret[]>()
+  failedSecrets.forEach(secret => {
+    const pattern = normalizeSyncError(secret.lastError)
+    byPattern.set(pattern, [...(byPattern.get(pattern) ?? []), secret])
+  })
+  const triageByPattern = new Map(triages.map(triage => [triage.errorPattern, triage]))
+
+  return [...byPattern.entries()]
+    .map(([pattern, secrets]): FailureGroup => {
+      const triage = triageByPattern.get(pattern) ?? null
+      const covered = new Set(triage?.secretKeys ?? [])
+      const newSecrets = triage?.status === 'Acknowledged'
+        ? secrets.map(secret => secretKey(secret.namespace, secret.secretName)).filter(key => !covered.has(key))
+        : []
+      return {
+        pattern,
+        secrets: [...secrets].sort((a, b) => a.vaultwardenItemName.localeCompare(b.vaultwardenItemName)),
+        itemCount: new Set(secrets.map(secret => secret.vaultwardenItemId)).size,
+        namespaces: [...new Set(secrets.map(secret => secret.namespace))].sort(),
+        triage,
+        state: groupState(triage, newSecrets, now),
+        newSecrets,
+      }
+    })
+    .sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] || b.secrets.length - a.secrets.length || a.pattern.localeCompare(b.pattern))
+}
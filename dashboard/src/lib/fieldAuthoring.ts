@@ -0,0 +1,300 @@
+import type { DiscoveryVaultwardenItem, SecretPreview, SyncConfig, VaultwardenItemField } from './api'
+import { lintItem, LintIssue } from './itemLint'
+import { toDataKey } from './secretManifest'
+
+export type SecretKind = 'opaque' | 'dockerconfigjson' | 'ssh' | 'tls'
+
+export const SECRET_KINDS: Record<SecretKind, { label: string; secretType: string; itemType: string; hint: string }> = {
+  opaque: {
+    label: 'Opaque',
+    secretType: 'Opaque',
+    itemType: 'Login or secure note',
+    hint: 'The password (or the notes) and the username are written under keys named after the secret.',
+  },
+  dockerconfigjson: {
+    label: 'Docker registry',
+    secretType: 'kubernetes.io/dockerconfigjson',
+    itemType: 'Login',
+    hint: 'The username and password (or a full config JSON in the password) become .dockerconfigjson.',
+  },
+  ssh: {
+    label: 'SSH',
+    secretType: 'Opaque',
+    itemType: 'SSH key',
+    hint: 'The private key, public key and fingerprint of the SSH key item are written as three keys.',
+  },
+  tls: {
+    label: 'TLS',
+    secretType: 'kubernetes.io/tls',
+    itemType: 'Secure note',
+    hint: 'Paste the PEM certificate and key into the tls.crt and tls.key fields and leave the notes empty.',
+  },
+}
+
+export interface KeyValue {
+  key: string
+  value: string
+}
+
+export interface SecretDraft {
+  kind: SecretKind
+  namespaces: string[]
+  secretName: string
+  /** Opaque only: the item's username and password or notes are written */
+  includeUsername: boolean
+  includePassword: boolean
+  /** Key overrides; empty keeps the name the sync derives from the secret name */
+  usernameKey: string
+  passwordKey: string
+  /** Additional custom fields, each written as a key of the same name */
+  dataFields: string[]
+  labels: KeyValue[]
+  annotations: KeyValue[]
+  registryServer: string
+  registryEmail: string
+}
+
+export const EMPTY_DRAFT: SecretDraft = {
+  kind: 'opaque',
+  namespaces: [],
+  secretName: '',
+  includeUsername: true,
+  includePassword: true,
+  usernameKey: '',
+  passwordKey: '',
+  dataFields: [],
+  labels: [],
+  annotations: [],
+  registryServer: '',
+  registryEmail: '',
+}
+
+export interface AuthoredField {
+  name: string
+  /** Vaultwarden custom field type; values only the user knows go in hidden fields */
+  type: 'text' | 'hidden'
+  value: string
+  purpose: string
+}
+
+export const VALUE_PLACEHOLDER = '<your value>'
+
+const TLS_FIELDS = ['tls.crt', 'tls.key']
+// Not reported by the API; the sync reads them under these names unless overridden
+const REGISTRY_SERVER_FIELD = 'docker-config-json-server'
+const REGISTRY_EMAIL_FIELD = 'docker-config-json-email'
+const HASH_PLACEHOLDER = '<computed on sync>'
+
+const DEFAULT_FIELD_NAMES: SyncConfig['fieldNames'] = {
+  namespaces: 'namespaces',
+  secretName: 'secret-name',
+  secretKeyPassword: 'secret-key-password',
+  secretKeyUsername: 'secret-key-username',
+  ignoreField: 'ignore-field',
+  secretAnnotations: 'secret-annotation',
+  secretLabels: 'secret-label',
+  secretType: 'secret-type',
+}
+
+function filledEntries(entries: KeyValue[]): KeyValue[] {
+  return entries.filter(entry => entry.key.trim()).map(entry => ({ key: entry.key.trim(), value: entry.value.trim() }))
+}
+
+function dataFieldNames(draft: SecretDraft): string[] {
+  const names = draft.kind === 'tls' ? [...TLS_FIELDS, ...draft.dataFields] : draft.dataFields
+  return names.map(name => name.trim()).filter(Boolean)
+}
+
+/** The custom fields to add to the Vaultwarden item, in the order they are best entered */
+export function draftFields(draft: SecretDraft, config?: SyncConfig): AuthoredField[] {
+  const fieldNames = config?.fieldNames ?? DEFAULT_FIELD_NAMES
+  const fields: AuthoredField[] = [
+    { name: fieldNames.namespaces, type: 'text', value: draft.namespaces.join(','), purpose: 'Namespaces the secret is written to' },
+    { name: fieldNames.secretName, type: 'text', value: draft.secretName.trim(), purpose: 'Name of the Kubernetes Secret' },
+  ]
+  const add = (name: string, value: string, purpose: string, type: AuthoredField['type'] = 'text') => {
+    if (value.trim()) fields.push({ name, type, value: value.trim(), purpose })
+  }
+
+  const { secretType } = SECRET_KINDS[draft.kind]
+  if (secretType !== 'Opaque') add(fieldNames.secretType, secretType, 'Kubernetes Secret type')
+  if (draft.kind === 'opaque' && draft.includeUsername) add(fieldNames.secretKeyUsername, draft.usernameKey, 'Key of the username')
+  if ((draft.kind === 'opaque' && draft.includePassword) || draft.kind === 'ssh') {
+    add(fieldNames.secretKeyPassword, draft.passwordKey, draft.kind === 'ssh' ? 'Key of the private key' : 'Key of the password')
+  }
+  if (draft.kind === 'dockerconfigjson') {
+    add(REGISTRY_SERVER_FIELD, draft.registryServer, 'Registry the credentials are for')
+    add(REGISTRY_EMAIL_FIELD, draft.registryEmail, 'Email of the registry account')
+  }
+  dataFieldNames(draft).forEach(name => add(name, VALUE_PLACEHOLDER, `Written as key "${toDataKey(name)}"`, 'hidden'))
+  // One field per entry; the sync reads every field with these names
+  filledEntries(draft.labels).forEach(({ key, value }) => add(fieldNames.secretLabels, `${key}=${value}`, 'Label on the Secret'))
+  filledEntries(draft.annotations).forEach(({ key, value }) => add(fieldNames.secretAnnotations, `${key}=${value}`, 'Annotation on the Secret'))
+
+  return fields
+}
+
+/** Data keys the sync writes for the draft; mirrors ExtractSecretDataAsync for a valid secret name */
+export function draftDataKeys(draft: SecretDraft): string[] {
+  const baseKey = toDataKey(draft.secretName.trim())
+  const keys: string[] = []
+  const add = (key: string) => {
+    if (key && !keys.includes(key)) keys.push(key)
+  }
+
+  switch (draft.kind) {
+    case 'opaque':
+      if (draft.includeUsername) add(draft.usernameKey.trim() || `${baseKey}-username`)
+      if (draft.includePassword) add(draft.passwordKey.trim() || baseKey)
+      break
+    case 'dockerconfigjson':
+      add('.dockerconfigjson')
+      break
+    case 'ssh':
+      add(draft.passwordKey.trim() || baseKey)
+      add(`${baseKey}-public-key`)
+      add(`${baseKey}-fingerprint`)
+      break
+    case 'tls':
+      break
+  }
+  dataFieldNames(draft).forEach(name => add(toDataKey(name)))
+
+  return keys.sort()
+}
+
+/** The Secret the sync would build from the draft, for renderSecretManifest */
+export function draftPreview(draft: SecretDraft, config?: SyncConfig): SecretPreview {
+  const dataKeys = draftDataKeys(draft)
+  const labels: Record<string, string> = {}
+  const annotations: Record<string, string> = {}
+  if (config) {
+    labels[config.labels.managedByLabel] = config.labels.managedByValue
+    labels[config.labels.createdByLabel] = config.labels.createdByValue
+  }
+  // Custom labels cannot override the management labels; later entries win like in the sync
+  filledEntries(draft.labels).forEach(({ key, value }) => {
+    if (!config || (key !== config.labels.managedByLabel && key !== config.labels.createdByLabel)) labels[key] = value
+  })
+  filledEntries(draft.annotations).forEach(({ key, value }) => {
+    annotations[key] = value
+  })
+  annotations[config?.labels.hashAnnotation ?? 'vaultwarden-kubernetes-secrets/content-hash'] = HASH_PLACEHOLDER
+  annotations['vaultwarden-kubernetes-secrets/managed-keys'] = JSON.stringify(dataKeys)
+
+  return { type: SECRET_KINDS[draft.kind].secretType, dataKeys, labels, annotations, error: null }
+}
+
+/** Item the manifest is built for; its fields come from getVaultwardenItemFields */
+export interface DraftSource {
+  secretName: string
+  namespaces: string[]
+  fields: VaultwardenItemField[]
+}
+
+const KIND_BY_SECRET_TYPE: Record<string, SecretKind> = {
+  'kubernetes.io/dockerconfigjson': 'dockerconfigjson',
+  'kubernetes.io/tls': 'tls',
+}
+
+function fieldValues(fields: VaultwardenItemField[], name: string): string[] {
+  return fields
+    .filter(field => field.name.toLowerCase() === name.toLowerCase() && field.value?.trim())
+    .map(field => field.value!.trim())
+}
+
+function parseKeyValue(value: string): KeyValue {
+  const separator = value.indexOf('=')
+  return separator < 0 ? { key: value, value: '' } : { key: value.slice(0, separator), value: value.slice(separator + 1) }
+}
+
+// Metadata fields and those listed in the ignore field are not written as data; mirrors ExtractIgnoredFields
+function dataFieldsOf(fields: VaultwardenItemField[], config?: SyncConfig): VaultwardenItemField[] {
+  const fieldNames = config?.fieldNames ?? DEFAULT_FIELD_NAMES
+  const ignored = new Set(
+    [
+      ...Object.values(fieldNames),
+      ...Object.values(DEFAULT_FIELD_NAMES),
+      REGISTRY_SERVER_FIELD,
+      REGISTRY_EMAIL_FIELD,
+      ...fieldValues(fields, fieldNames.ignoreField).flatMap(value => value.split(',')),
+    ].map(name => name.trim().toLowerCase())
+  )
+  return fields.filter(field => field.name.trim() && !ignored.has(field.name.trim().toLowerCase()))
+}
+
+/**
+ * The draft an item's fields amount to, for draftPreview. The API sends field names only, so key overrides,
+ * labels, annotations and the secret type are only known when it also sends values. The item's own type is
+ * not sent either: the username and password keys assume a login, like an Opaque draft.
+ */
+export function itemDraft({ secretName, namespaces, fields }: DraftSource, config?: SyncConfig): SecretDraft {
+  const fieldNames = config?.fieldNames ?? DEFAULT_FIELD_NAMES
+  const first = (name: string) => fieldValues(fields, name)[0] ?? ''
+  const names = new Set(fields.map(field => field.name))
+  const kind = KIND_BY_SECRET_TYPE[first(fieldNames.secretType)]
+    ?? (TLS_FIELDS.every(name => names.has(name)) ? 'tls' : 'opaque')
+
+  return {
+    ...EMPTY_DRAFT,
+    kind,
+    namespaces,
+    secretName,
+    usernameKey: first(fieldNames.secretKeyUsername),
+    passwordKey: first(fieldNames.secretKeyPassword),
+    // The TLS kind adds its own fields
+    dataFields: dataFieldsOf(fields, config)
+      .map(field => field.name)
+      .filter(name => kind !== 'tls' || !TLS_FIELDS.includes(name)),
+    labels: fieldValues(fields, fieldNames.secretLabels).map(parseKeyValue),
+    annotations: fieldValues(fields, fieldNames.secretAnnotations).map(parseKeyValue),
+    registryServer: first(REGISTRY_SERVER_FIELD),
+    registryEmail: first(REGISTRY_EMAIL_FIELD),
+  }
+}
+
+/** Values of the data keys read from custom fields, by key; only fields the API sent a value for */
+export function itemDataValues(fields: VaultwardenItemField[], config?: SyncConfig): Record<string, string> {
+  return Object.fromEntries(
+    dataFieldsOf(fields, config)
+      .filter(field => field.value !== undefined)
+      .map(field => [toDataKey(field.name.trim()), field.value!])
+  )
+}
+
+/** Problems the linter finds in the fields the draft produces */
+export function lintDraft(draft: SecretDraft, config?: SyncConfig): LintIssue[] {
+  const fields: VaultwardenItemField[] = draftFields(draft, config).map(({ name }) => ({ name }))
+  const item: DiscoveryVaultwardenItem = {
+    id: 'draft',
+    name: draft.secretName.trim(),
+    folder: null,
+    organizationId: null,
+    organizationName: null,
+    owner: null,
+    fields: fields.length,
+    notes: null,
+    hasNamespacesField: true,
+    namespacesValue: JSON.stringify(draft.namespaces),
+    secretName: draft.secretName.trim() || null,
+    fieldNames: fields.map(field => field.name),
+  }
+  const issues = lintItem(item, fields, config)
+  if (!draft.secretName.trim()) {
+    issues.unshift({
+      itemId: item.id,
+      itemName: item.name,
+      severity: 'error',
+      rule: 'secret-name',
+      field: (config?.fieldNames ?? DEFAULT_FIELD_NAMES).secretName,
+      message: 'The secret has no name',
+      fix: 'Enter the name of the Kubernetes Secret.',
+    })
+  }
+  return issues
+}
+
+/** Fields in the JSON shape of the Bitwarden CLI item template (0 = text, 1 = hidden) */
+export function fieldsAsCliJson(fields: AuthoredField[]): string {
+  return JSON.stringify(fields.map(({ name, type, value }) => ({ name, value, type: type === 'hidden' ? 1 : 0 })), null, 2)
+}
@@ -0,0 +1,233 @@
+import type { DiscoveryVaultwardenItem, SyncConfig, VaultwardenItemField } from './api'
+import { isValidNamespaceName, parseNamespaces, toNamespaceName } from './discoveryRules'
+import { toDataKey } from './secretManifest'
+
+export type LintSeverity = 'error' | 'warning'
+
+export type LintRule =
+  | 'field-name-typo'
+  | 'duplicate-field'
+  | 'duplicate-key'
+  | 'invalid-key'
+  | 'invalid-namespace'
+  | 'secret-name'
+
+export const LINT_RULES: Record<LintRule, { label: string }> = {
+  'field-name-typo': { label: 'Misspelled field name' },
+  'duplicate-field': { label: 'Duplicate field' },
+  'duplicate-key': { label: 'Duplicate secret key' },
+  'invalid-key': { label: 'Invalid key characters' },
+  'invalid-namespace': { label: 'Invalid namespace' },
+  'secret-name': { label: 'Secret name' },
+}
+
+export interface LintIssue {
+  itemId: string
+  itemName: string
+  severity: LintSeverity
+  rule: LintRule
+  /** Custom field at fault; null when it is the item itself, e.g. its name */
+  field: string | null
+  message: string
+  fix: string
+}
+
+// Kubernetes limits for secret names (DNS-1123 subdomain) and data keys
+const SECRET_NAME_PATTERN = /^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/
+const MAX_NAME_LENGTH = 253
+const MAX_TYPO_DISTANCE = 2
+const MIN_TYPO_LENGTH = 5
+
+// Read by the sync under these names regardless of the configured field names
+const BUILT_IN_FIELDS = ['namespaces', 'secret-name', 'secret-key', 'docker-config-json-server', 'docker-config-json-email']
+
+/** Names the sync reads settings from, lowercased; the sync matches them case-insensitively */
+function metadataFieldNames(config?: SyncConfig): { names: Set<string>; repeatable: Set<string>; namespaces: string } {
+  const fieldNames = config?.fieldNames
+  const configured = fieldNames ? Object.values(fieldNames) : []
+  const names = new Set([...configured, ...BUILT_IN_FIELDS, 'secret-key-password', 'secret-key-username', 'ignore-field', 'secret-type', 'secret-label', 'secret-annotation'].map(name => name.toLowerCase()))
+  // Several label or annotation fields are all read
+  const repeatable = new Set([fieldNames?.secretLabels ?? 'secret-label', fieldNames?.secretAnnotations ?? 'secret-annotation', 'secret-label', 'secret-annotation'].map(name => name.toLowerCase()))
+  return { names, repeatable, namespaces: fieldNames?.namespaces ?? 'namespaces' }
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+function closestMetadataField(name: string, metadata: Set<string>): string | null {
+  const lower = name.toLowerCase()
+  if (lower.length < MIN_TYPO_LENGTH || metadata.has(lower)) return null
+  let closest: string | null = null
+  let closestDistance = MAX_TYPO_DISTANCE + 1
+  metadata.forEach(candidate => {
+    const distance = editDistance(lower, candidate)
+    if (distance < closestDistance) {
+      closest = candidate
+      closestDistance = distance
+    }
+  })
+  return closest
+}
+
+function lintSecretName(item: DiscoveryVaultwardenItem, hasSecretNameField: boolean, secretNameField: string): Omit<LintIssue, 'itemId' | 'itemName'>[] {
+  const secretName = item.secretName
+  if (!secretName) return []
+
+  if (secretName === 'unnamed-secret' || secretName.length > MAX_NAME_LENGTH || !SECRET_NAME_PATTERN.test(secretName)) {
+    return [{
+      severity: 'error',
+      rule: 'secret-name',
+      field: hasSecretNameField ? secretNameField : null,
+      message: `"${secretName}" is not a usable Kubernetes secret name`,
+      fix: `Set "${secretNameField}" to lowercase letters, digits and "-", at most ${MAX_NAME_LENGTH} characters.`,
+    }]
+  }
+  // Without the field the secret is named after the item, which is easy to change by accident
+  if (!hasSecretNameField && secretName !== item.name) {
+    return [{
+      severity: 'warning',
+      rule: 'secret-name',
+      field: null,
+      message: `No "${secretNameField}" field: the item name "${item.name}" becomes "${secretName}"`,
+      fix: `Add a "${secretNameField}" field with "${secretName}" so renaming the item does not rename the secret.`,
+    }]
+  }
+  return []
+}
+
+/**
+ * Checks an item's custom-field conventions. Without its fields (still loading, or none) only
+ * the namespaces and secret name the discovery data carries are checked.
+ */
+export function lintItem(item: DiscoveryVaultwardenItem, fields: VaultwardenItemField[] | undefined, config?: SyncConfig): LintIssue[] {
+  const { names: metadata, repeatable, namespaces: namespacesField } = metadataFieldNames(config)
+  const secretNameField = config?.fieldNames.secretName ?? 'secret-name'
+  const issues: Omit<LintIssue, 'itemId' | 'itemName'>[] = []
+
+  const seenFields = new Map<string, number>()
+  const keyOwners = new Map<string, string>()
+  for (const { name } of fields ?? []) {
+    const lower = name.toLowerCase()
+    seenFields.set(lower, (seenFields.get(lower) ?? 0) + 1)
+
+    if (metadata.has(lower)) {
+      if (seenFields.get(lower) === 2 && !repeatable.has(lower)) {
+        issues.push({
+          severity: 'warning',
+          rule: 'duplicate-field',
+          field: name,
+          message: `"${name}" appears more than once; only the first non-empty one is read`,
+          fix: `Keep a single "${name}" field.`,
+        })
+      }
+      continue
+    }
+
+    const typoOf = closestMetadataField(name, metadata)
+    if (typoOf) {
+      const missesNamespaces = typoOf === namespacesField.toLowerCase() && !item.hasNamespacesField
+      issues.push({
+        severity: missesNamespaces ? 'error' : 'warning',
+        rule: 'field-name-typo',
+        field: name,
+        message: missesNamespaces
+          ? `"${name}" looks like "${typoOf}"; without it the item is never synced`
+          : `"${name}" looks like "${typoOf}" and would be synced as a data key instead`,
+        fix: `Rename the field to "${typoOf}".`,
+      })
+      continue
+    }
+
+    // Every other field becomes a data key
+    const key = toDataKey(name)
+    if (!key || key.length > MAX_NAME_LENGTH) {
+      issues.push({
+        severity: 'error',
+        rule: 'invalid-key',
+        field: name,
+        message: key ? `Key "${key}" is longer than ${MAX_NAME_LENGTH} characters` : `"${name}" has no character allowed in a secret key`,
+        fix: 'Rename the field using letters, digits, "-", "_" and ".".',
+      })
+      continue
+    }
+    if (key !== name) {
+      issues.push({
+        severity: 'warning',
+        rule: 'invalid-key',
+        field: name,
+        message: `"${name}" is not a valid secret key and is written as "${key}"`,
+        fix: `Rename the field to "${key}" so the key matches what consumers expect.`,
+      })
+    }
+
+    const owner = keyOwners.get(key)
+    if (owner !== undefined) {
+      issues.push({
+        severity: 'error',
+        rule: 'duplicate-key',
+        field: name,
+        message: owner === name
+          ? `"${name}" appears more than once; only the first is written`
+          : `"${name}" and "${owner}" are both written as key "${key}"; only "${owner}" is kept`,
+        fix: 'Rename or remove one of the fields.',
+      })
+    } else {
+      keyOwners.set(key, name)
+    }
+  }
+
+  if (item.hasNamespacesField) {
+    const namespaces = parseNamespaces(item.namespacesValue)
+    if (namespaces.length === 0) {
+      issues.push({
+        severity: 'error',
+        rule: 'invalid-namespace',
+        field: namespacesField,
+        message: `"${namespacesField}" is empty`,
+        fix: `List at least one namespace, comma-separated (e.g. "default,staging").`,
+      })
+    }
+    namespaces.filter(ns => !isValidNamespaceName(ns)).forEach(ns => {
+      const suggestion = toNamespaceName(ns)
+      issues.push({
+        severity: 'error',
+        rule: 'invalid-namespace',
+        field: namespacesField,
+        message: `"${ns}" is not a valid namespace name`,
+        fix: suggestion ? `Use "${suggestion}" instead.` : 'Use lowercase letters, digits and "-".',
+      })
+    })
+  }
+
+  // Until the fields are loaded it is unknown whether the name comes from a field
+  if (fields) {
+    issues.push(...lintSecretName(item, seenFields.has(secretNameField.toLowerCase()) || seenFields.has('secret-name'), secretNameField))
+  }
+
+  return issues.map(issue => ({ itemId: item.id, itemName: item.name, ...issue }))
+}
+
+/** Lints every item; errors first, then by item name */
+export function lintItems(
+  items: DiscoveryVaultwardenItem[],
+  fieldsByItem: Map<string, VaultwardenItemField[]>,
+  config?: SyncConfig
+): LintIssue[] {
+  return items
+    .flatMap(item => lintItem(item, item.fields > 0 ? fieldsByItem.get(item.id) : [], config))
+    .sort((a, b) =>
+      Number(b.severity === 'error') - Number(a.severity === 'error') ||
+      a.itemName.localeCompare(b.itemName)
+    )
+}
@@ -0,0 +1,50 @@
+import { stripAnsi } from './ansi'
+
+export const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'CRIT'] as const
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+export interface LogLine {
+  id: number
+  /** Line as received, including ANSI escape codes */
+  raw: string
+  /** Line without escape codes, used for search, filtering and downloads */
+  text: string
+  level: LogLevel | null
+}
+
+/** Oldest lines are dropped beyond this so a long-running console does not grow without bound */
+export const MAX_LOG_LINES = 5000
+
+const LEVEL_PATTERN = /^\[[\d:]+\]\s*\[(TRACE|DEBUG|INFO|WARN|ERROR|CRIT)\]/
+
+/**
+ * Splits a streamed message into lines and appends them. Lines without a level prefix
+ * (stack traces, wrapped tables) inherit the level of the line before them.
+ */
+export function appendLogLines(
+  buffer: LogLine[],
+  message: string,
+  nextId: number,
+  maxLines: number = MAX_LOG_LINES
+): { lines: LogLine[]; dropped: number } {
+  let level = buffer.length > 0 ? buffer[buffer.length - 1].level : null
+  const added = message
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => line.length > 0)
+    .map((raw, index) => {
+      const text = stripAnsi(raw)
+      const match = LEVEL_PATTERN.exec(text)
+      if (match) level = match[1] as LogLevel
+      return { id: nextId + index, raw, text, level }
+    })
+
+  const lines = buffer.concat(added)
+  const dropped = Math.max(0, lines.length - maxLines)
+  return { lines: dropped > 0 ? lines.slice(dropped) : lines, dropped }
+}
+
+export function isAtLeastLevel(line: LogLine, minimum: LogLevel): boolean {
+  // Lines from before the first level prefix are always shown
+  return line.level === null || LOG_LEVELS.indexOf(line.level) >= LOG_LEVELS.indexOf(minimum)
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react'
+import { IDLE_CONNECTION, ConnectionStatus, openResilientStream } from './apiStream'
+import { LogLine, appendLogLines } from './logBuffer'
+
+export interface LogStreamOptions {
+  enabled: boolean
+  /** Messages starting with one of these markers mean the server cannot stream at all */
+  unavailable?: { markers: string[]; reason: string }
+}
+
+export interface LogStream extends ConnectionStatus {
+  lines: LogLine[]
+  droppedLines: number
+  retryNow: () => void
+}
+
+const CLEAR_MARKER = '__CLEAR__'
+const SEQUENCE_PREFIX = /^__SEQ:(\d+)__/
+
+/**
+ * Streams log lines from an API WebSocket into a bounded buffer. Dropped connections are
+ * retried with exponential backoff, and the last sequence number seen is sent on reconnect
+ * so the API only replays the lines that were missed.
+ */
+export function useLogStream(path: string, { enabled, unavailable }: LogStreamOptions): LogStream {
+  const [status, setStatus] = useState<ConnectionStatus>(IDLE_CONNECTION)
+  const [lines, setLines] = useState<LogLine[]>([])
+  const [droppedLines, setDroppedLines] = useState(0)
+  const retryNowRef = useRef<() => void>(() => {})
+  const unavailableRef = useRef(unavailable)
+  unavailableRef.current = unavailable
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus(IDLE_CONNECTION)
+      return
+    }
+
+    let buffer: LogLine[] = []
+    let dropped = 0
+    let nextId = 1
+    let lastSequence: number | null = null
+    let connections = 0
+    let pending: string[] = []
+    let frame: number | null = null
+
+    setLines([])
+    setDroppedLines(0)
+
+    // Messages can arrive faster than React should render, so they are applied once per frame
+    const flush = () => {
+      frame = null
+      for (const message of pending) {
+        if (message === CLEAR_MARKER) {
+          buffer = []
+          dropped = 0
+          continue
+        }
+        const result = appendLogLines(buffer, message, nextId)
+        nextId += result.lines.length - buffer.length + result.dropped
+        buffer = result.lines
+        dropped += result.dropped
+      }
+      pending = []
+      setLines(buffer)
+      setDroppedLines(dropped)
+    }
+
+    const enqueue = (message: string) => {
+      pending.push(message)
+      if (frame === null) frame = requestAnimationFrame(flush)
+    }
+
+    const notAvailable = unavailableRef.current
+    const stream = openResilientStream({
+      path: () => {
+        connections++
+        return lastSequence !== null ? `${path}?since=${lastSequence}` : path
+      },
+      onStatus: setStatus,
+      onMessage: (message, isFirst) => {
+        const sequence = SEQUENCE_PREFIX.exec(message)
+        const body = sequence ? message.slice(sequence[0].length) : message
+        if (sequence) {
+          lastSequence = Math.max(lastSequence ?? 0, Number(sequence[1]))
+        } else if (isFirst && connections > 1 && lastSequence === null && body !== CLEAR_MARKER) {
+          // APIs without sequence numbers resend the whole history on every connection
+          enqueue(CLEAR_MARKER)
+        }
+        if (body) enqueue(body)
+      },
+      unavailable: notAvailable && {
+        ...notAvailable,
+        onMessage: (message) => {
+          enqueue(CLEAR_MARKER)
+          enqueue(message.split('\n').filter(line => !line.startsWith('__')).join('\n'))
+        },
+      },
+    })
+    retryNowRef.current = stream.retryNow
+
+    return () => {
+      stream.close()
+      if (frame !== null) cancelAnimationFrame(frame)
+      retryNowRef.current = () => {}
+    }
+  }, [path, enabled])
+
+  return {
+    ...status,
+    lines,
+    droppedLines,
+    retryNow: () => retryNowRef.current(),
+  }
+}
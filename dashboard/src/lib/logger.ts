@@ -0,0 +1,140 @@
+// Browser console logging with levels and redaction.
+// Quiet by default in production builds. Turn it up for a session with ?log=debug (or ?log=off to
+// silence it), or from the Sync configuration page; the choice is kept in this browser.
+// Item names and field values are replaced with "[redacted]" unless redaction is switched off,
+// so a console shared in a bug report does not expose vault contents.
+
+import { isApiError } from './apiErrors'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off'
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'off']
+
+export interface LogSettings {
+  level: LogLevel
+  redact: boolean
+}
+
+/**
+ * Messages are written as given, only `context` is redacted: keep messages constant and pass
+ * endpoints, names and values through `context`.
+ */
+export interface Logger {
+  debug: (message: string, context?: Record<string, unknown>) => void
+  info: (message: string, context?: Record<string, unknown>) => void
+  warn: (message: string, context?: Record<string, unknown>) => void
+  error: (message: string, context?: Record<string, unknown>) => void
+}
+
+// Browser-wide rather than per user: logging is set up before anyone signs in
+const STORAGE_KEY = 'vks:log'
+const LEVEL_PARAM = 'log'
+const REDACT_PARAM = 'log-redact'
+
+const REDACTED = '[redacted]'
+// Item and secret names under every name the API uses for them, field values, and what else tells items apart
+const REDACTED_KEYS = new Set([
+  'name', 'itemName', 'vaultwardenItemName', 'secretName',
+  'value', 'values', 'notes', 'fields', 'namespacesValue',
+  'folder', 'organizationName', 'owner', 'lastError',
+])
+const MAX_DEPTH = 6
+
+// Optional chaining and the window check let the module load outside the browser, for unit checks
+const DEFAULT_SETTINGS: LogSettings = {
+  level: import.meta.env?.DEV ? 'info' : 'warn',
+  redact: true,
+}
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as string[]).includes(value)
+}
+
+function readStored(): Partial<LogSettings> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+    return {
+      level: isLogLevel(parsed.level) ? parsed.level : undefined,
+      redact: typeof parsed.redact === 'boolean' ? parsed.redact : undefined,
+    }
+  } catch {
+    return {}
+  }
+}
+
+function store(value: LogSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(value))
+  } catch {
+    // Storage full or disabled - the setting lasts until reload
+  }
+}
+
+/** Query parameters win over the stored settings and replace them */
+function initialSettings(): LogSettings {
+  const stored = readStored()
+  const settings: LogSettings = {
+    level: stored.level ?? DEFAULT_SETTINGS.level,
+    redact: stored.redact ?? DEFAULT_SETTINGS.redact,
+  }
+  const params = new URLSearchParams(typeof window === 'undefined' ? '' : window.location.search)
+  const level = params.get(LEVEL_PARAM)
+  const redact = params.get(REDACT_PARAM)
+  if (!isLogLevel(level) && redact === null) return settings
+
+  if (isLogLevel(level)) settings.level = level
+  if (redact !== null) settings.redact = redact !== 'off' && redact !== 'false'
+  store(settings)
+  return settings
+}
+
+let settings = initialSettings()
+
+export function getLogSettings(): LogSettings {
+  return settings
+}
+
+export function setLogSettings(next: Partial<LogSettings>) {
+  settings = { ...settings, ...next }
+  store(settings)
+}
+
+/** Copy of `value` with item names and field values replaced; errors become plain objects */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[…]'
+  if (value instanceof Error) {
+    // An API error's body is the response payload, redacted like any other context
+    return {
+      name: value.name,
+      message: value.message,
+      ...(isApiError(value) ? { status: value.status, requestId: value.requestId, body: redact(value.body, depth + 1) } : {}),
+      stack: value.stack,
+    }
+  }
+  if (Array.isArray(value)) return value.map(entry => redact(entry, depth + 1))
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      REDACTED_KEYS.has(key) && entry !== null && entry !== undefined ? REDACTED : redact(entry, depth + 1),
+    ])
+  )
+}
+
+function write(scope: string, level: Exclude<LogLevel, 'off'>, message: string, context?: Record<string, unknown>) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) return
+  const line = `[${scope}] ${message}`
+  const args = context === undefined ? [line] : [line, settings.redact ? redact(context) : context]
+  // The one place the dashboard writes to the console
+  console[level](...args)
+}
+
+/** Logger whose messages are prefixed with `scope`, e.g. createLogger('discovery') */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, context) => write(scope, 'debug', message, context),
+    info: (message, context) => write(scope, 'info', message, context),
+    warn: (message, context) => write(scope, 'warn', message, context),
+    error: (message, context) => write(scope, 'error', message, context),
+  }
+}
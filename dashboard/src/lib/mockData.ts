@@ -1,6 +1,9 @@
 // Mock data for GitHub Pages demo
 // This simulates a production-ready deployment
 
+import { computeSyncStatus } from './utils'
+import type { FailureTriage, FailureTriageOptions, PauseSyncOptions, SyncIntervalOptions, SyncSchedule } from './api'
+
 export const mockOverview = {
   totalSyncs: 1247,
   successfulSyncs: 1198,
@@ -127,30 +130,36 @@ export const mockNamespaces = [
 export const mockSecrets = {
   production: [
     {
+      id: 1,
       secretName: "database-credentials",
       namespace: "production",
       vaultwardenItemId: "1a2b3c4d",
       vaultwardenItemName: "Production Database",
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       lastSynced: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
       status: "Active",
       dataKeysCount: 4,
       lastError: null
     },
     {
+      id: 2,
       secretName: "api-keys",
       namespace: "production",
       vaultwardenItemId: "2b3c4d5e",
       vaultwardenItemName: "Production API Keys",
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       lastSynced: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
       status: "Active",
       dataKeysCount: 3,
       lastError: null
     },
     {
+      id: 3,
       secretName: "tls-certificates",
       namespace: "production",
       vaultwardenItemId: "3c4d5e6f",
       vaultwardenItemName: "Production TLS",
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       lastSynced: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
       status: "Active",
       dataKeysCount: 2,
@@ -159,10 +168,12 @@ export const mockSecrets = {
   ],
   staging: [
     {
+      id: 4,
       secretName: "database-credentials",
       namespace: "staging",
       vaultwardenItemId: "4d5e6f7g",
       vaultwardenItemName: "Staging Database",
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       lastSynced: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
       status: "Active",
       dataKeysCount: 4,
@@ -171,10 +182,12 @@ export const mockSecrets = {
   ],
   ingress: [
     {
+      id: 5,
       secretName: "ingress-tls",
       namespace: "ingress",
       vaultwardenItemId: "5e6f7g8h",
       vaultwardenItemName: "Ingress TLS Certificate",
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
       lastSynced: new Date(Date.now() - 125 * 60 * 1000).toISOString(),
       status: "Failed",
       dataKeysCount: 0,
@@ -189,6 +202,7 @@ export const mockSyncLogs = [
     startTime: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
     endTime: new Date(Date.now() - 5 * 60 * 1000 + 11200).toISOString(),
     status: "Success",
+    totalItems: 24,
     processedItems: 24,
     createdSecrets: 0,
     updatedSecrets: 2,
@@ -206,6 +220,7 @@ export const mockSyncLogs = [
     startTime: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
     endTime: new Date(Date.now() - 45 * 60 * 1000 + 13800).toISOString(),
     status: "Success",
+    totalItems: 24,
     processedItems: 24,
     createdSecrets: 1,
     updatedSecrets: 0,
@@ -223,6 +238,7 @@ export const mockSyncLogs = [
     startTime: new Date(Date.now() - 85 * 60 * 1000).toISOString(),
     endTime: new Date(Date.now() - 85 * 60 * 1000 + 10500).toISOString(),
     status: "Success",
+    totalItems: 24,
     processedItems: 24,
     createdSecrets: 0,
     updatedSecrets: 1,
@@ -240,6 +256,7 @@ export const mockSyncLogs = [
     startTime: new Date(Date.now() - 125 * 60 * 1000).toISOString(),
     endTime: new Date(Date.now() - 125 * 60 * 1000 + 8300).toISOString(),
     status: "Failed",
+    totalItems: 24,
     processedItems: 24,
     createdSecrets: 0,
     updatedSecrets: 0,
@@ -255,41 +272,76 @@ export const mockSyncLogs = [
 ];
 
 export const mockDiscovery = {
-  totalItems: 32,
-  syncedItems: 24,
-  unsyncedItems: 8,
-  syncCoverage: 75.0,
-  statistics: {
-    byOrganization: [
-      { name: "Infrastructure", total: 16, synced: 14 },
-      { name: "Applications", total: 12, synced: 8 },
-      { name: "Security", total: 4, synced: 2 }
-    ],
-    byCollection: [
-      { name: "Production Secrets", total: 12, synced: 12 },
-      { name: "Staging Secrets", total: 8, synced: 8 },
-      { name: "Development Secrets", total: 6, synced: 4 },
-      { name: "Other", total: 6, synced: 0 }
-    ]
-  },
-  unsyncedDetails: [
-    {
-      name: "Legacy Database Password",
-      id: "abc123",
-      organizationName: "Applications",
-      collectionNames: ["Other"],
-      reason: "Missing 'namespaces' custom field"
-    },
-    {
-      name: "Old API Key",
-      id: "def456",
-      organizationName: "Applications",
-      collectionNames: ["Other"],
-      reason: "Missing 'namespaces' custom field"
-    }
-  ]
+  vaultwardenItems: [
+    { id: "1a2b3c4d", name: "Production Database", folder: "Databases", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 3, notes: null, hasNamespacesField: true, namespacesValue: "[\"production\"]", secretName: "database-credentials" },
+    { id: "2b3c4d5e", name: "Production API Keys", folder: "APIs", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 2, notes: null, hasNamespacesField: true, namespacesValue: "[\"production\"]", secretName: "api-keys" },
+    { id: "3c4d5e6f", name: "Production TLS", folder: "Certificates", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 2, notes: null, hasNamespacesField: true, namespacesValue: "[\"production\"]", secretName: "tls-certificates" },
+    { id: "4d5e6f7g", name: "Staging Database", folder: "Databases", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 3, notes: null, hasNamespacesField: true, namespacesValue: "[\"staging\"]", secretName: "database-credentials" },
+    { id: "5e6f7g8h", name: "Ingress TLS Certificate", folder: "Certificates", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 2, notes: null, hasNamespacesField: true, namespacesValue: "[\"ingress\"]", secretName: "ingress-tls" },
+    { id: "abc123", name: "Legacy Database Password", folder: null, organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 0, notes: null, hasNamespacesField: false, namespacesValue: null, secretName: "legacy-database-password" },
+    { id: "def456", name: "Old API Key", folder: null, organizationId: null, organizationName: null, owner: "demo@example.com", fields: 1, notes: "Rotate before Q3", hasNamespacesField: false, namespacesValue: null, secretName: "old-api-key" },
+    { id: "7g8h9i0j", name: "Shared Redis", folder: "Caches", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 3, notes: null, hasNamespacesField: true, namespacesValue: "[\"Shared_Services\"]", secretName: "shared-redis" },
+    { id: "8h9i0j1k", name: "Payments Gateway", folder: "APIs", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 2, notes: null, hasNamespacesField: true, namespacesValue: "[\"payments\"]", secretName: "payments-gateway" },
+    { id: "9i0j1k2l", name: "Production Database Replica", folder: "Databases", organizationId: "org-123", organizationName: "Infrastructure Team", owner: null, fields: 4, notes: null, hasNamespacesField: true, namespacesValue: "[\"production\"]", secretName: "database-credentials" }
+  ],
+  syncedSecrets: Object.values(mockSecrets).flat().map(secret => ({
+    vaultwardenItemId: secret.vaultwardenItemId,
+    vaultwardenItemName: secret.vaultwardenItemName,
+    namespace: secret.namespace,
+    secretName: secret.secretName,
+    status: secret.status,
+    dataKeysCount: secret.dataKeysCount,
+    lastError: secret.lastError
+  })).concat([
+    // Failures of items that have no secret yet, so the Failed tab has groups to show
+    { vaultwardenItemId: "8h9i0j1k", vaultwardenItemName: "Payments Gateway", namespace: "payments", secretName: "payments-gateway", status: "Failed", dataKeysCount: 0, lastError: "Namespace 'payments' does not exist in Kubernetes cluster" },
+    { vaultwardenItemId: "7g8h9i0j", vaultwardenItemName: "Shared Redis", namespace: "Shared_Services", secretName: "shared-redis", status: "Failed", dataKeysCount: 0, lastError: "Operation returned an invalid status code 'UnprocessableEntity'" },
+  ]),
+  lastScanTime: new Date(Date.now() - 5 * 60 * 1000).toISOString()
 };
 
+// Field names of items whose conventions the linter should flag
+const mockItemFields: Record<string, string[]> = {
+  def456: ['namespace'],
+  '7g8h9i0j': ['namespaces', 'Redis Password', 'redis_url'],
+  '9i0j1k2l': ['namespaces', 'secret-name', 'replica-host', 'replica host'],
+}
+
+function getMockItemFieldNames(item: typeof mockDiscovery.vaultwardenItems[number]): string[] {
+  return mockItemFields[item.id] ?? ['namespaces', 'secret-name', 'username', 'password'].slice(0, item.fields)
+}
+
+// The API sends names only; values of harmless fields are sent here so the manifest can show them
+const mockItemFieldValues: Record<string, Record<string, string>> = {
+  '9i0j1k2l': { 'replica-host': 'db-replica.production.svc.cluster.local' },
+}
+
+function getMockItemFields(item: typeof mockDiscovery.vaultwardenItems[number]) {
+  const values = mockItemFieldValues[item.id] ?? {}
+  return getMockItemFieldNames(item).map(name => (name in values ? { name, value: values[name], type: 'text' } : name))
+}
+
+function getMockSecretPreview(item: typeof mockDiscovery.vaultwardenItems[number]) {
+  const tls = item.secretName.includes('tls')
+  const dataKeys = tls
+    ? ['tls.crt', 'tls.key']
+    : [item.secretName, `${item.secretName}-username`, ...(item.fields > 3 ? ['replica-host'] : [])].sort()
+  return {
+    type: tls ? 'kubernetes.io/tls' : 'Opaque',
+    dataKeys,
+    labels: {
+      'app.kubernetes.io/managed-by': 'vaultwarden-kubernetes-secrets',
+      'app.kubernetes.io/created-by': 'vaultwarden-k8s-sync',
+      ...(item.organizationName ? { team: 'infrastructure' } : {})
+    },
+    annotations: {
+      'vaultwarden-kubernetes-secrets/content-hash': `mock-${item.id}`,
+      'vaultwarden-kubernetes-secrets/managed-keys': JSON.stringify(dataKeys)
+    },
+    error: null
+  }
+}
+
 export const mockSyncConfig = {
   vaultwarden: {
     serverUrl: "https://vault.example.com",
@@ -298,11 +350,31 @@ export const mockSyncConfig = {
     collectionId: null,
     collectionName: null,
     folderId: null,
-    folderName: null
+    folderName: null,
+    clientIdConfigured: true,
+    clientSecretConfigured: true,
+    masterPasswordConfigured: true
   },
   fieldNames: {
     namespaces: "namespaces",
-    secretName: "secret-name"
+    secretName: "secret-name",
+    secretKeyPassword: "secret-key-password",
+    secretKeyUsername: "secret-key-username",
+    ignoreField: "ignore-field",
+    secretAnnotations: "secret-annotation",
+    secretLabels: "secret-label",
+    secretType: "secret-type"
+  },
+  kubernetes: {
+    defaultNamespace: "default",
+    inCluster: true
+  },
+  labels: {
+    managedByLabel: "app.kubernetes.io/managed-by",
+    managedByValue: "vaultwarden-kubernetes-secrets",
+    createdByLabel: "app.kubernetes.io/created-by",
+    createdByValue: "vaultwarden-k8s-sync",
+    hashAnnotation: "vaultwarden-kubernetes-secrets/content-hash"
   },
   sync: {
     syncIntervalSeconds: 600,
@@ -329,3 +401,441 @@ export const mockSyncStatus = {
   lastSyncTime: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
   nextSyncTime: null
 };
+
+export const mockSystemResources = {
+  cpu: { usagePercent: 3.2, cores: 2, totalProcessorTime: 184.6 },
+  memory: { workingSetMB: 142.3, privateMemoryMB: 168.9, gcTotalMemoryMB: 38.4 },
+  threads: { count: 27 },
+  runtime: {
+    uptimeSeconds: 3 * 24 * 60 * 60,
+    dotnetVersion: ".NET 10.0.0",
+    osDescription: "Linux 6.1.0 #1 SMP"
+  },
+  timestamp: new Date().toISOString()
+};
+
+export const mockAuthInfo = {
+  authRequired: false,
+  loginlessMode: true
+};
+
+export const mockSyncOutput = [
+  "🚀 Starting sync cycle #1248",
+  "🔐 Authenticated with Vaultwarden (https://vault.example.com)",
+  "📦 Fetched 32 items, 24 with a namespaces field",
+  "✓ production/database-credentials unchanged",
+  "✓ production/api-keys updated (3 keys)",
+  "✓ production/tls-certificates unchanged",
+  "✓ staging/database-credentials unchanged",
+  "✗ ingress/ingress-tls failed: Namespace 'ingress' does not exist in Kubernetes cluster",
+  "🏁 Sync finished in 11.2s - 0 created, 1 updated, 22 skipped, 1 failed"
+];
+
+/**
+ * Lines replayed by openApiWebSocket in demo mode.
+ */
+// A short run replayed over the progress stream in demo mode
+function getMockSyncProgress(): string[] {
+  const startedAt = new Date(Date.now() - 4000).toISOString()
+  const secrets = ['production/database-credentials', 'production/api-keys', 'staging/database-credentials', 'ingress/ingress-tls']
+  const snapshots = secrets.map((currentItem, processed) => ({
+    phase: `Processing ${secrets.length} secrets across 3 namespaces`,
+    processed,
+    total: secrets.length,
+    failed: 0,
+    currentItem: currentItem as string | null,
+    startedAt,
+    updatedAt: new Date().toISOString(),
+    completed: false,
+  }))
+  snapshots.push({ ...snapshots[snapshots.length - 1], phase: 'Sync completed', processed: secrets.length, failed: 1, currentItem: null, completed: true })
+  return snapshots.map(snapshot => JSON.stringify(snapshot))
+}
+
+export function getMockStreamLines(path: string): string[] {
+  if (path.includes('/sync-output/stream/progress')) {
+    return getMockSyncProgress()
+  }
+  if (path.includes('/sync-output/stream')) {
+    return mockSyncOutput
+  }
+  return []
+}
+
+/**
+ * Resolves the mock payload for an API path (used by apiClient in demo mode).
+ */
+function getMockSecretHistory(secret: { secretName: string; vaultwardenItemId: string; vaultwardenItemName: string; status: string; lastError?: string | null }) {
+  return mockSyncLogs.flatMap((log, index) => {
+    const failed = index === 0 && secret.status === 'Failed'
+    // Runs that left the secret unchanged do not record it
+    if (!failed && index !== mockSyncLogs.length - 1) return []
+    return [{
+      syncLogId: log.id,
+      itemKey: secret.vaultwardenItemId,
+      itemName: secret.vaultwardenItemName,
+      secretName: secret.secretName,
+      status: failed ? 'Failed' : 'Success',
+      outcome: failed ? 'Failed' : 'Created',
+      details: failed ? secret.lastError ?? null : null,
+      timestamp: log.startTime,
+      syncStartTime: log.startTime,
+      syncStatus: log.status,
+    }]
+  })
+}
+
+// Hands out the run's counts to the mock secrets so the run detail page lists matching items
+function getMockSyncLogDetail(id: number) {
+  const log = mockSyncLogs.find(l => l.id === id)
+  if (!log) return undefined
+
+  const secrets = Object.values(mockSecrets).flat()
+  const failed = secrets.filter(s => s.status === 'Failed').slice(0, log.failedSecrets)
+  const deleted = secrets.filter(s => s.status === 'Deleted').slice(0, log.deletedSecrets)
+  // Unchanged secrets are not recorded, so only the run's created and updated ones are listed
+  const changed = secrets.filter(s => s.status === 'Active').slice(0, log.createdSecrets + log.updatedSecrets)
+
+  const items = [
+    ...changed.map((secret, index) => ({ secret, outcome: index < log.createdSecrets ? 'Created' : 'Updated', details: null })),
+    ...failed.map(secret => ({ secret, outcome: 'Failed', details: secret.lastError })),
+    ...deleted.map(secret => ({ secret, outcome: 'Deleted', details: 'Secret removed - no longer configured in Vaultwarden' })),
+  ].map(({ secret, outcome, details }, index) => ({
+    id: id * 100 + index,
+    itemKey: outcome === 'Deleted' ? '' : secret.vaultwardenItemId,
+    itemName: outcome === 'Deleted' ? '' : secret.vaultwardenItemName,
+    namespace: secret.namespace,
+    secretName: secret.secretName,
+    status: outcome === 'Failed' ? 'Failed' : 'Success',
+    outcome,
+    details,
+    // Odd runs gained a key on updated secrets so comparing two runs shows a key change
+    dataKeys: outcome === 'Failed' || outcome === 'Deleted'
+      ? null
+      : Array.from({ length: secret.dataKeysCount + (outcome === 'Updated' && id % 2 === 1 ? 1 : 0) }, (_, i) => `key-${i + 1}`),
+    timestamp: log.startTime,
+  }))
+
+  return { ...log, items }
+}
+
+// Mirrors SyncLogsController.CompareRuns
+function getMockSyncLogComparison(baseId: number, targetId: number) {
+  const base = getMockSyncLogDetail(baseId)
+  const target = getMockSyncLogDetail(targetId)
+  if (!base || !target) return undefined
+
+  type Item = (typeof base.items)[number]
+  const bySecret = (items: Item[]) => new Map(items.map(i => [`${i.namespace}/${i.secretName}`, i]))
+  const before = bySecret(base.items)
+  const after = bySecret(target.items)
+
+  const entries = [...new Set([...before.keys(), ...after.keys()])].map(key => {
+    const b = before.get(key)
+    const t = after.get(key)
+    const addedKeys = b?.dataKeys && t?.dataKeys ? t.dataKeys.filter(k => !b.dataKeys!.includes(k)) : []
+    const removedKeys = b?.dataKeys && t?.dataKeys ? b.dataKeys.filter(k => !t.dataKeys!.includes(k)) : []
+    const baseDeleted = b?.outcome === 'Deleted'
+    const targetDeleted = t?.outcome === 'Deleted'
+    const change = targetDeleted && !baseDeleted ? 'Removed'
+      : (baseDeleted && !targetDeleted) || (t?.outcome === 'Created' && !b) ? 'Added'
+      : (b?.status ?? 'Success') !== (t?.status ?? 'Success') ? 'StatusChanged'
+      : addedKeys.length || removedKeys.length ? 'KeysChanged'
+      : 'Unchanged'
+    const [namespace, secretName] = key.split('/')
+    return {
+      namespace,
+      secretName,
+      change,
+      baseStatus: b?.status ?? null,
+      targetStatus: t?.status ?? null,
+      baseOutcome: b?.outcome ?? null,
+      targetOutcome: t?.outcome ?? null,
+      baseDetails: b?.details ?? null,
+      targetDetails: t?.details ?? null,
+      addedKeys,
+      removedKeys,
+    }
+  })
+  entries.sort((x, y) =>
+    Number(x.change === 'Unchanged') - Number(y.change === 'Unchanged') ||
+    x.namespace.localeCompare(y.namespace) ||
+    x.secretName.localeCompare(y.secretName))
+
+  const { items: _baseItems, ...baseLog } = base
+  const { items: _targetItems, ...targetLog } = target
+  return { base: baseLog, target: targetLog, entries }
+}
+
+// Plausible activity for the timeline chart: a run every 10 minutes, occasional changes and failures
+function getMockTimeline(url: string) {
+  const params = new URLSearchParams(url.split('?')[1] ?? '')
+  const end = params.get('end') ? new Date(params.get('end')!) : new Date()
+  const start = params.get('start')
+    ? new Date(params.get('start')!)
+    : new Date(end.getTime() - Number(params.get('days') ?? 7) * 24 * 60 * 60 * 1000)
+  const hourly = params.get('interval') === 'hour' ||
+    (!params.get('interval') && end.getTime() - start.getTime() <= 2 * 24 * 60 * 60 * 1000)
+  const bucketMs = (hourly ? 1 : 24) * 60 * 60 * 1000
+
+  const first = new Date(start)
+  first.setUTCMinutes(0, 0, 0)
+  if (!hourly) first.setUTCHours(0)
+
+  const points = []
+  for (let t = first.getTime(), i = 0; t < end.getTime(); t += bucketMs, i++) {
+    const runs = hourly ? 6 : 144
+    const failedSyncs = i % 7 === 3 ? 1 : 0
+    points.push({
+      date: new Date(t).toISOString(),
+      totalSyncs: runs,
+      successfulSyncs: runs - failedSyncs,
+      failedSyncs,
+      secretsCreated: i % 5 === 0 ? 1 : 0,
+      secretsUpdated: (i * 3) % 4,
+      secretsFailed: failedSyncs * 2,
+      secretsDeleted: i % 11 === 0 ? 1 : 0,
+      avgDuration: 10 + (i % 6),
+      maxDuration: 14 + (i % 9),
+    })
+  }
+  return points
+}
+
+function getMockSyncStatistics(url: string) {
+  const params = new URLSearchParams(url.split('?')[1] ?? '')
+  const start = params.get('start')
+  const end = params.get('end')
+  const logs = mockSyncLogs.filter(log =>
+    (!start || log.startTime >= start) && (!end || log.startTime <= end))
+  const durations = logs.map(log => log.durationSeconds).filter(d => d > 0).sort((a, b) => a - b)
+  const percentile = (p: number) =>
+    durations.length ? durations[Math.min(durations.length - 1, Math.max(0, Math.ceil(p / 100 * durations.length) - 1))] : 0
+
+  const statusCounts = { Success: 0, Failed: 0, Partial: 0, InProgress: 0 } as Record<string, number>
+  logs.forEach(log => { statusCounts[computeSyncStatus(log)] = (statusCounts[computeSyncStatus(log)] ?? 0) + 1 })
+
+  const failedSecrets = Object.values(mockSecrets).flat().filter(s => s.status === 'Failed')
+  const trendEnd = end ? new Date(end) : new Date()
+  const trendStart = start ? new Date(start) : new Date(trendEnd.getTime() - 7 * 24 * 60 * 60 * 1000)
+  const bucketMs = (trendEnd.getTime() - trendStart.getTime() <= 2 * 24 * 60 * 60 * 1000 ? 1 : 24) * 60 * 60 * 1000
+  const failureRateTrend = []
+  for (let t = trendStart.getTime() - trendStart.getTime() % bucketMs, i = 0; t <= trendEnd.getTime(); t += bucketMs, i++) {
+    const failedSyncs = i % 4 === 1 ? 1 + (i % 3) : 0
+    failureRateTrend.push({ date: new Date(t).toISOString(), totalSyncs: 6, failedSyncs, failureRate: failedSyncs / 6 })
+  }
+
+  return {
+    totalSyncs: logs.length,
+    statusCounts,
+    averageDuration: durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : 0,
+    durationP50: percentile(50),
+    durationP95: percentile(95),
+    durationMax: durations[durations.length - 1] ?? 0,
+    averageItemsPerRun: logs.length ? logs.reduce((sum, log) => sum + log.totalItems, 0) / logs.length : 0,
+    topFailingSecrets: failedSecrets.map((secret, i) => ({
+      namespace: secret.namespace,
+      secretName: secret.secretName,
+      failures: 5 - i,
+      lastFailedAt: secret.lastSynced,
+      lastError: secret.lastError,
+    })),
+    failureRateTrend,
+  }
+}
+
+// The demo keeps schedule changes in memory so pausing and resuming can be tried out
+let mockSchedule: SyncSchedule = {
+  available: true,
+  paused: false,
+  pausedUntil: null,
+  pausedAt: null,
+  pausedBy: null,
+  pauseReason: null,
+  configuredIntervalSeconds: 600,
+  intervalSeconds: 600,
+  intervalOverridden: false,
+  intervalUntil: null,
+  intervalChangedBy: null,
+}
+
+// DELETE requests carry no body
+function updateMockSchedule(url: string, method: string, body: Partial<PauseSyncOptions & SyncIntervalOptions> = {}): SyncSchedule {
+  if (url.includes('/sync/schedule/pause')) {
+    mockSchedule = method === 'PUT'
+      ? { ...mockSchedule, paused: true, pausedUntil: body.until ?? null, pausedAt: new Date().toISOString(), pausedBy: body.by || 'demo', pauseReason: body.reason || null }
+      : { ...mockSchedule, paused: false, pausedUntil: null, pausedAt: null, pausedBy: null, pauseReason: null }
+  } else {
+    mockSchedule = method === 'PUT'
+      ? { ...mockSchedule, intervalSeconds: body.seconds ?? 600, intervalOverridden: true, intervalUntil: body.until ?? null, intervalChangedBy: body.by || 'demo' }
+      : { ...mockSchedule, intervalSeconds: 600, intervalOverridden: false, intervalUntil: null, intervalChangedBy: null }
+  }
+  return mockSchedule
+}
+
+// Failure triage is kept in memory like the schedule
+let mockFailureTriage: FailureTriage[] = []
+
+function updateMockFailureTriage(url: string, method: string, body?: FailureTriageOptions) {
+  if (method === 'PUT' && body) {
+    const triage: FailureTriage = {
+      errorPattern: body.errorPattern,
+      status: body.status,
+      note: body.note || null,
+      triagedBy: body.by || 'demo',
+      triagedAt: new Date().toISOString(),
+      snoozedUntil: body.status === 'Snoozed' ? body.snoozedUntil ?? null : null,
+      secretKeys: body.secretKeys ?? [],
+    }
+    mockFailureTriage = [triage, ...mockFailureTriage.filter(t => t.errorPattern !== triage.errorPattern)]
+    return triage
+  }
+  const pattern = new URLSearchParams(url.split('?')[1]).get('errorPattern')
+  mockFailureTriage = mockFailureTriage.filter(t => t.errorPattern !== pattern)
+  return {}
+}
+
+export function getMockResponse(url: string, method: string = 'GET', body?: unknown): any {
+  if (method !== 'GET') {
+    if (url.includes('/sync/schedule')) {
+      return updateMockSchedule(url, method, body as Partial<PauseSyncOptions & SyncIntervalOptions> | undefined)
+    }
+    if (url.includes('/discovery/failure-triage')) {
+      return updateMockFailureTriage(url, method, body as FailureTriageOptions | undefined)
+    }
+    if (url.includes('/system/reset-database')) {
+      return { success: true, message: "Database reset is disabled in the demo" }
+    }
+    if (url.includes('/sync/requests')) {
+      return { requestId: 'mock', message: 'Sync requested (the demo replays a recorded run)' }
+    }
+    return {}
+  }
+
+  // Parse URL and return appropriate mock data
+  if (url.includes('/dashboard/auth-info')) {
+    return mockAuthInfo
+  }
+  if (url.includes('/dashboard/overview')) {
+    return mockOverview
+  }
+  if (url.includes('/dashboard/namespaces')) {
+    return mockNamespaces
+  }
+  if (url.includes('/sync/schedule')) {
+    return mockSchedule
+  }
+  if (url.includes('/dashboard/sync-status')) {
+    return mockSyncStatus
+  }
+  if (url.includes('/dashboard/sync-config')) {
+    return mockSyncConfig
+  }
+  if (url.includes('/dashboard/timeline')) {
+    return getMockTimeline(url)
+  }
+  if (url.includes('/synclogs/statistics')) {
+    return getMockSyncStatistics(url)
+  }
+  if (url.includes('/synclogs/search')) {
+    const params = new URLSearchParams(url.split('?')[1])
+    const start = params.get('start')
+    const end = params.get('end')
+    const statuses = params.get('status')?.split(',') ?? []
+    const page = Number(params.get('page') ?? 1)
+    const pageSize = Number(params.get('pageSize') ?? 25)
+    const matching = mockSyncLogs.filter(log =>
+      (!start || log.startTime >= start) &&
+      (!end || log.startTime <= end) &&
+      (statuses.length === 0 || statuses.includes(computeSyncStatus(log))))
+    return {
+      items: matching.slice((page - 1) * pageSize, page * pageSize),
+      totalCount: matching.length,
+      page,
+      pageSize,
+    }
+  }
+  if (url.includes('/synclogs/compare')) {
+    const params = new URLSearchParams(url.split('?')[1])
+    return getMockSyncLogComparison(Number(params.get('baseId')), Number(params.get('targetId')))
+  }
+  const syncLogMatch = url.match(/\/synclogs\/(\d+)$/)
+  if (syncLogMatch) {
+    return getMockSyncLogDetail(Number(syncLogMatch[1]))
+  }
+  if (url.includes('/synclogs/range')) {
+    const params = new URLSearchParams(url.split('?')[1])
+    const start = params.get('start') ?? ''
+    const end = params.get('end') ?? ''
+    return mockSyncLogs.filter(log => log.startTime >= start && log.startTime <= end)
+  }
+  if (url.includes('/synclogs')) {
+    return mockSyncLogs
+  }
+  if (url.includes('/system/resources')) {
+    return { ...mockSystemResources, timestamp: new Date().toISOString() }
+  }
+  if (url.includes('/system/sync-service-resources')) {
+    return {
+      cpu: { usagePercent: 1.4, cores: 2 },
+      memory: { workingSetMB: 96.1, privateMemoryMB: 110.5 },
+      threads: { count: 18 },
+      processId: 42,
+      uptimeSeconds: mockSystemResources.runtime.uptimeSeconds,
+      timestamp: new Date().toISOString()
+    }
+  }
+  if (url.endsWith('/keys')) {
+    const [, , namespace, secretName] = url.split('/').map(decodeURIComponent)
+    const secret = Object.values(mockSecrets).flat()
+      .find(s => s.namespace === namespace && s.secretName === secretName)
+    return Array.from({ length: secret?.dataKeysCount ?? 0 }, (_, i) => `key-${i + 1}`)
+  }
+  if (url.endsWith('/secret-preview')) {
+    const item = mockDiscovery.vaultwardenItems.find(i => i.id === url.split('/')[3])
+    return item?.hasNamespacesField ? getMockSecretPreview(item) : undefined
+  }
+  if (url.includes('/vaultwarden/items/')) {
+    const item = mockDiscovery.vaultwardenItems.find(i => i.id === url.split('/')[3])
+    return item ? getMockItemFields(item) : []
+  }
+  const secretMatch = url.match(/\/secrets\/namespace\/([^/]+)\/name\/([^/?]+)(\/history)?/)
+  if (secretMatch) {
+    const [, namespace, secretName, history] = secretMatch.map(part => part && decodeURIComponent(part))
+    const secret = Object.values(mockSecrets).flat()
+      .find(s => s.namespace === namespace && s.secretName === secretName)
+    if (!secret) return history ? [] : undefined
+    return history ? getMockSecretHistory(secret) : secret
+  }
+  const namespaceHistoryMatch = url.match(/\/secrets\/namespace\/([^/]+)\/history/)
+  if (namespaceHistoryMatch) {
+    const namespace = decodeURIComponent(namespaceHistoryMatch[1])
+    return Object.values(mockSecrets).flat()
+      .filter(s => s.namespace === namespace)
+      .flatMap(getMockSecretHistory)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }
+  if (url.includes('/secrets/namespace/')) {
+    const namespace = url.split('/').pop() || ''
+    return mockSecrets[namespace as keyof typeof mockSecrets] || []
+  }
+  if (url.includes('/secrets')) {
+    // Return all secrets flattened
+    return Object.values(mockSecrets).flat()
+  }
+  if (url.includes('/discovery/failure-triage')) {
+    return mockFailureTriage
+  }
+  if (url.includes('/discovery/namespaces')) {
+    return { available: true, namespaces: ['default', 'kube-system', 'production', 'staging', 'development', 'monitoring', 'logging'] }
+  }
+  if (url.includes('/discovery')) {
+    return {
+      ...mockDiscovery,
+      vaultwardenItems: mockDiscovery.vaultwardenItems.map(item => ({ ...item, fieldNames: getMockItemFieldNames(item) })),
+    }
+  }
+
+  // Default fallback
+  return {}
+}
@@ -0,0 +1,95 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react'
+import { useAuth } from './auth'
+
+// UI preferences (grid layout, filters, ...) kept in localStorage.
+// Keys are scoped per user: the dashboard has no user accounts, so the scope is a
+// fingerprint of the API token - never the token itself.
+
+const PREFIX = 'vks:prefs'
+
+function fingerprint(value: string): string {
+  // FNV-1a, enough to tell tokens apart without storing them
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+export function preferenceScope(token: string | null, loginlessMode: boolean): string {
+  return loginlessMode || !token ? 'default' : fingerprint(token)
+}
+
+function storageKey(scope: string, key: string): string {
+  return `${PREFIX}:${scope}:${key}`
+}
+
+// Values that could not be stored (storage full or disabled) last until reload
+const unsaved = new Map<string, string>()
+const listeners = new Set<() => void>()
+
+function readRaw(fullKey: string): string | null {
+  const pending = unsaved.get(fullKey)
+  if (pending !== undefined) return pending
+  try {
+    return localStorage.getItem(fullKey)
+  } catch {
+    return null
+  }
+}
+
+function writeRaw(fullKey: string, raw: string) {
+  try {
+    localStorage.setItem(fullKey, raw)
+    unsaved.delete(fullKey)
+  } catch {
+    unsaved.set(fullKey, raw)
+  }
+  listeners.forEach(listener => listener())
+}
+
+// Every hook reading a key sees writes made through another one, and through other tabs
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener('storage', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', listener)
+  }
+}
+
+function parse<T>(raw: string | null, fallback: T): T {
+  if (raw === null) return fallback
+  try {
+    const parsed = JSON.parse(raw)
+    // Merge so preferences saved by older builds pick up newly added fields
+    if (fallback && typeof fallback === 'object' && !Array.isArray(fallback) && parsed && typeof parsed === 'object') {
+      return { ...fallback, ...parsed }
+    }
+    return parsed as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * useState that survives reloads, stored per user under `key`. Components using the same key share the value.
+ */
+export function usePreference<T>(key: string, defaultValue: T): [T, (value: T | ((prev: T) => T)) => void] {
+  const { token, loginlessMode } = useAuth()
+  const fullKey = storageKey(preferenceScope(token, loginlessMode), key)
+  // Callers pass literals, so only the first default counts
+  const fallback = useRef(defaultValue).current
+
+  const raw = useSyncExternalStore(subscribe, () => readRaw(fullKey))
+  const value = useMemo(() => parse(raw, fallback), [raw, fallback])
+
+  const update = useCallback((next: T | ((prev: T) => T)) => {
+    const current = parse(readRaw(fullKey), fallback)
+    const resolved = typeof next === 'function' ? (next as (prev: T) => T)(current) : next
+    writeRaw(fullKey, JSON.stringify(resolved))
+  }, [fullKey, fallback])
+
+  return [value, update]
+}
@@ -0,0 +1,168 @@
+// Minimal runtime schemas for API responses.
+// Each schema both validates and normalizes: the parsed value only contains the
+// declared keys, with known aliases folded into their canonical name.
+
+export class SchemaError extends Error {
+  readonly path: string
+  readonly expected: string
+  readonly received: string
+
+  constructor(path: string, expected: string, received: unknown) {
+    const receivedType = describeValue(received)
+    super(`${path} should be ${expected} but was ${receivedType}`)
+    this.name = 'SchemaError'
+    this.path = path
+    this.expected = expected
+    this.received = receivedType
+  }
+}
+
+export interface Schema<T> {
+  readonly expected: string
+  parse(value: unknown, path?: string): T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+// Only the type: the message is logged and shown in the compatibility banner, and the value may be
+// an item name, note or field value
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'missing'
+  if (Array.isArray(value)) return 'an array'
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value)
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => value is T): Schema<T> {
+  return {
+    expected,
+    parse(value, path = '$') {
+      if (!check(value)) throw new SchemaError(path, expected, value)
+      return value
+    },
+  }
+}
+
+export const string = primitive('a string', (v): v is string => typeof v === 'string')
+export const number = primitive('a number', (v): v is number => typeof v === 'number' && Number.isFinite(v))
+export const boolean = primitive('a boolean', (v): v is boolean => typeof v === 'boolean')
+
+/** ISO timestamp string, as serialized by UtcDateTimeConverter */
+export const dateString = primitive(
+  'an ISO date string',
+  (v): v is string => typeof v === 'string' && !Number.isNaN(Date.parse(v))
+)
+
+/** Accepts null or a missing key, both normalized to null */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} or null`,
+    parse(value, path = '$') {
+      return value === null || value === undefined ? null : schema.parse(value, path)
+    },
+  }
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} or nothing`,
+    parse(value, path = '$') {
+      return value === undefined ? undefined : schema.parse(value, path)
+    },
+  }
+}
+
+/** Uses the fallback when the key is missing or null (older APIs that did not send it yet) */
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    expected: schema.expected,
+    parse(value, path = '$') {
+      return value === null || value === undefined ? fallback : schema.parse(value, path)
+    },
+  }
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `an array of ${item.expected}`,
+    parse(value, path = '$') {
+      if (!Array.isArray(value)) throw new SchemaError(path, this.expected, value)
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`))
+    },
+  }
+}
+
+/** Object used as a dictionary, e.g. labels; every value must match the schema */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `an object of ${value.expected}`,
+    parse(input, path = '$') {
+      if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+        throw new SchemaError(path, this.expected, input)
+      }
+      return Object.fromEntries(
+        Object.entries(input as Record<string, unknown>).map(([key, entry]) => [key, value.parse(entry, `${path}.${key}`)])
+      )
+    },
+  }
+}
+
+/** Tries each schema in turn and returns the first successful parse */
+export function union<T>(...schemas: Schema<T>[]): Schema<T> {
+  return {
+    expected: schemas.map(s => s.expected).join(' or '),
+    parse(value, path = '$') {
+      for (const schema of schemas) {
+        try {
+          return schema.parse(value, path)
+        } catch (error) {
+          if (!(error instanceof SchemaError)) throw error
+        }
+      }
+      throw new SchemaError(path, this.expected, value)
+    },
+  }
+}
+
+export function map<A, B>(schema: Schema<A>, convert: (value: A) => B): Schema<B> {
+  return {
+    expected: schema.expected,
+    parse(value, path = '$') {
+      return convert(schema.parse(value, path))
+    },
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> }
+
+/**
+ * Object schema. `aliases` lists alternative key names the API has used for a
+ * field; the first one present is read when the canonical key is missing.
+ */
+export function object<S extends Shape>(
+  shape: S,
+  aliases: Partial<Record<keyof S, string[]>> = {}
+): Schema<ObjectOf<S>> {
+  return {
+    expected: 'an object',
+    parse(value, path = '$') {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SchemaError(path, 'an object', value)
+      }
+      const record = value as Record<string, unknown>
+      const result: Record<string, unknown> = {}
+
+      for (const key of Object.keys(shape)) {
+        let raw = record[key]
+        if (raw === undefined) {
+          const alias = aliases[key]?.find(name => record[name] !== undefined)
+          if (alias) raw = record[alias]
+        }
+        result[key] = shape[key].parse(raw, `${path}.${key}`)
+      }
+      return result as ObjectOf<S>
+    },
+  }
+}
@@ -0,0 +1,90 @@
+import type { SecretPreview, VaultwardenItemField } from './api'
+
+/** Stands in for values that are hidden or that the dashboard does not know */
+export const MASKED_VALUE = '••••••••'
+
+export interface ManifestOptions {
+  namespace: string
+  secretName: string
+  preview: SecretPreview
+  /** The item's custom fields, to tell which one each key is read from */
+  fields?: VaultwardenItemField[]
+  /** Adds a comment with the source of each value */
+  showSources?: boolean
+  /** Plain values to show instead of the mask, by data key */
+  values?: Record<string, string>
+  /** First-line comment, for manifests that do not come from a sync */
+  header?: string
+}
+
+// Mirrors SanitizeFieldName in the sync service with its default "-" replacement
+export function toDataKey(fieldName: string): string {
+  return fieldName
+    .replace(/[^-._a-zA-Z0-9]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/** Where the sync reads a key's value from, e.g. 'custom field "api-token"' */
+export function keySource(key: string, fields: VaultwardenItemField[] = []): string {
+  const field = fields.find(f => toDataKey(f.name) === key)
+  if (field) return `custom field "${field.name}"`
+  if (key === '.dockerconfigjson') return 'username, password and registry fields'
+  if (key.endsWith('-username')) return 'login username'
+  if (key.endsWith('-public-key')) return 'SSH public key'
+  if (key.endsWith('-fingerprint')) return 'SSH fingerprint'
+  return 'password, SSH private key or notes'
+}
+
+const PLAIN_SCALAR = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/
+const AMBIGUOUS_SCALAR = /^(true|false|yes|no|on|off|null|~|[-+]?[0-9._]+)$/i
+
+// Double-quoted YAML scalars share JSON's escaping
+function yamlScalar(value: string): string {
+  return PLAIN_SCALAR.test(value) && !AMBIGUOUS_SCALAR.test(value) ? value : JSON.stringify(value)
+}
+
+function yamlMap(name: string, entries: Array<[string, string, string?]>, indent: string): string[] {
+  if (entries.length === 0) return [`${indent}${name}: {}`]
+  return [
+    `${indent}${name}:`,
+    ...entries.map(([key, value, comment]) =>
+      `${indent}  ${yamlScalar(key)}: ${yamlScalar(value)}${comment ? `  # ${comment}` : ''}`
+    ),
+  ]
+}
+
+// Secret data is base64 of the UTF-8 bytes
+function toBase64(value: string): string {
+  return btoa(Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join(''))
+}
+
+function sortedEntries(values: Record<string, string>): Array<[string, string]> {
+  return Object.entries(values).sort(([a], [b]) => a.localeCompare(b))
+}
+
+/** The Secret the sync writes for the item, with values masked unless given in `values` */
+export function renderSecretManifest({ namespace, secretName, preview, fields, showSources, values = {}, header }: ManifestOptions): string {
+  const data = preview.dataKeys.map((key): [string, string, string?] => [
+    key,
+    key in values ? toBase64(values[key]) : MASKED_VALUE,
+    showSources ? keySource(key, fields) : undefined,
+  ])
+
+  return [
+    `# ${header ?? 'Preview of the Secret built by the last sync; values are masked'}`,
+    'apiVersion: v1',
+    'kind: Secret',
+    'metadata:',
+    `  name: ${yamlScalar(secretName)}`,
+    `  namespace: ${yamlScalar(namespace)}`,
+    ...yamlMap('labels', sortedEntries(preview.labels), '  '),
+    ...yamlMap('annotations', sortedEntries(preview.annotations), '  '),
+    `type: ${yamlScalar(preview.type)}`,
+    ...yamlMap('data', data, ''),
+  ].join('\n') + '\n'
+}
+
+export function manifestFileName(namespace: string, secretName: string): string {
+  return `${namespace}-${secretName}.yaml`
+}
@@ -0,0 +1,126 @@
+import type { SyncConfig } from './api'
+
+export type ConfigValue = string | number | boolean | null
+
+export interface ConfigSetting {
+  label: string
+  /** Environment variable that sets it, when it can be changed */
+  envVar?: string
+  value: ConfigValue
+  /** Value the Helm chart deploys with; undefined for settings that cannot be changed */
+  chartDefault?: ConfigValue
+  /** Identifiers and URLs that should not be shown in full by default */
+  sensitive?: boolean
+  /** Credential: only whether it is set is known */
+  credential?: boolean
+  /** The chart default is a placeholder that has to be replaced */
+  placeholder?: boolean
+  hint?: string
+}
+
+export interface ConfigSection {
+  id: string
+  title: string
+  settings: ConfigSetting[]
+}
+
+export type SettingStatus = 'default' | 'changed' | 'placeholder' | 'missing' | 'fixed'
+
+// Defaults below mirror env.config and env.fields in charts/vaultwarden-kubernetes-secrets/values.yaml,
+// falling back to the app's own default where the chart leaves a variable unset
+const CHART_PLACEHOLDER_SERVER_URL = 'https://your-vaultwarden-server.com'
+
+function emptyToNull(value: string | null): string | null {
+  return value ? value : null
+}
+
+export function describeSyncConfig(config: SyncConfig): ConfigSection[] {
+  const { vaultwarden, fieldNames, kubernetes, labels, sync } = config
+
+  return [
+    {
+      id: 'vaultwarden',
+      title: 'Vaultwarden',
+      settings: [
+        { label: 'Server URL', envVar: 'VAULTWARDEN__SERVERURL', value: vaultwarden.serverUrl, chartDefault: CHART_PLACEHOLDER_SERVER_URL, sensitive: true, placeholder: true },
+        { label: 'Client ID', envVar: 'BW_CLIENTID', value: vaultwarden.clientIdConfigured, credential: true },
+        { label: 'Client secret', envVar: 'BW_CLIENTSECRET', value: vaultwarden.clientSecretConfigured, credential: true },
+        { label: 'Master password', envVar: 'VAULTWARDEN__MASTERPASSWORD', value: vaultwarden.masterPasswordConfigured, credential: true },
+      ],
+    },
+    {
+      id: 'filters',
+      title: 'Filters',
+      settings: [
+        { label: 'Organization ID', envVar: 'VAULTWARDEN__ORGANIZATIONID', value: emptyToNull(vaultwarden.organizationId), chartDefault: null, sensitive: true, hint: 'Recommended' },
+        { label: 'Organization name', envVar: 'VAULTWARDEN__ORGANIZATIONNAME', value: emptyToNull(vaultwarden.organizationName), chartDefault: null },
+        { label: 'Collection ID', envVar: 'VAULTWARDEN__COLLECTIONID', value: emptyToNull(vaultwarden.collectionId), chartDefault: null, sensitive: true, hint: 'Recommended' },
+        { label: 'Collection name', envVar: 'VAULTWARDEN__COLLECTIONNAME', value: emptyToNull(vaultwarden.collectionName), chartDefault: null },
+        { label: 'Folder ID', envVar: 'VAULTWARDEN__FOLDERID', value: emptyToNull(vaultwarden.folderId), chartDefault: null, sensitive: true },
+        { label: 'Folder name', envVar: 'VAULTWARDEN__FOLDERNAME', value: emptyToNull(vaultwarden.folderName), chartDefault: null },
+      ],
+    },
+    {
+      id: 'sync',
+      title: 'Sync',
+      settings: [
+        { label: 'Interval (seconds)', envVar: 'SYNC__SYNCINTERVALSECONDS', value: sync.syncIntervalSeconds, chartDefault: 30 },
+        { label: 'Continuous sync', envVar: 'SYNC__CONTINUOUSSYNC', value: sync.continuousSync, chartDefault: true },
+        { label: 'Dry run', envVar: 'SYNC__DRYRUN', value: sync.dryRun, chartDefault: false, hint: 'Nothing is written to Kubernetes' },
+        { label: 'Delete orphans', envVar: 'SYNC__DELETEORPHANS', value: sync.deleteOrphans, chartDefault: true, hint: 'Removes managed secrets whose item is gone' },
+        { label: 'Default namespace', envVar: 'KUBERNETES__DEFAULTNAMESPACE', value: kubernetes.defaultNamespace, chartDefault: 'default' },
+        { label: 'In cluster', envVar: 'KUBERNETES__INCLUSTER', value: kubernetes.inCluster, chartDefault: true },
+      ],
+    },
+    {
+      id: 'fields',
+      title: 'Item field names',
+      settings: [
+        { label: 'Namespaces', envVar: 'SYNC__FIELD__NAMESPACES', value: fieldNames.namespaces, chartDefault: 'namespaces' },
+        { label: 'Secret name', envVar: 'SYNC__FIELD__SECRETNAME', value: fieldNames.secretName, chartDefault: 'secret-name' },
+        { label: 'Password key', envVar: 'SYNC__FIELD__SECRETKEYPASSWORD', value: fieldNames.secretKeyPassword, chartDefault: 'secret-key-password' },
+        { label: 'Username key', envVar: 'SYNC__FIELD__SECRETKEYUSERNAME', value: fieldNames.secretKeyUsername, chartDefault: 'secret-key-username' },
+        { label: 'Ignore field', envVar: 'SYNC__FIELD__IGNOREFIELD', value: fieldNames.ignoreField, chartDefault: 'ignore-field' },
+        { label: 'Secret type', envVar: 'SYNC__FIELD__SECRETTYPE', value: fieldNames.secretType, chartDefault: 'secret-type' },
+      ],
+    },
+    {
+      id: 'labels',
+      title: 'Labels & annotations',
+      settings: [
+        { label: 'Labels field', envVar: 'SYNC__FIELD__SECRETLABELS', value: fieldNames.secretLabels, chartDefault: 'secret-label', hint: 'Note field with key=value lines' },
+        { label: 'Annotations field', envVar: 'SYNC__FIELD__SECRETANNOTATIONS', value: fieldNames.secretAnnotations, chartDefault: 'secret-annotation', hint: 'Note field with key=value lines' },
+        { label: labels.managedByLabel, value: labels.managedByValue, hint: 'Marks secrets the sync may update or delete' },
+        { label: labels.createdByLabel, value: labels.createdByValue },
+        { label: 'Content hash annotation', value: labels.hashAnnotation },
+      ],
+    },
+  ]
+}
+
+export function settingStatus(setting: ConfigSetting): SettingStatus {
+  if (setting.credential) return setting.value ? 'default' : 'missing'
+  if (setting.chartDefault === undefined) return 'fixed'
+  if (setting.placeholder && (setting.value === setting.chartDefault || !setting.value)) return 'placeholder'
+  if (setting.placeholder) return 'default'
+  return setting.value === setting.chartDefault ? 'default' : 'changed'
+}
+
+/** Keeps enough of an identifier to recognise it, e.g. "3fa8…b2c1" */
+export function maskValue(value: string): string {
+  try {
+    // URLs keep their host so the server can still be told apart
+    const url = new URL(value)
+    const hasSecrets = url.username || url.password || url.search
+    return hasSecrets ? `${url.protocol}//${url.host}${url.pathname}${url.search ? '?•••' : ''}` : value
+  } catch {
+    if (value.length <= 8) return '•'.repeat(value.length)
+    return `${value.slice(0, 4)}…${value.slice(-4)}`
+  }
+}
+
+export function formatConfigValue(value: ConfigValue): string {
+  if (value === null || value === '') return '(not set)'
+  if (typeof value === 'boolean') return value ? 'true' : 'false'
+  return String(value)
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react'
+import { SyncProgress, syncProgressSchema } from './api'
+import { IDLE_CONNECTION, ConnectionStatus, openResilientStream } from './apiStream'
+
+export interface SyncProgressStream extends ConnectionStatus {
+  /** Latest snapshot, null until the sync service pushed one */
+  progress: SyncProgress | null
+  retryNow: () => void
+}
+
+// Sent by APIs that have no Valkey, in which case nothing can be pushed
+const NOT_CONFIGURED_MARKERS = ['__VALKEY_NOT_CONFIGURED__', '__REDIS_NOT_CONFIGURED__']
+
+/**
+ * Subscribes to progress snapshots pushed by the sync service. Callers fall back to
+ * polling whenever the stream is not live.
+ */
+export function useSyncProgress(enabled: boolean = true): SyncProgressStream {
+  const [status, setStatus] = useState<ConnectionStatus>(IDLE_CONNECTION)
+  const [progress, setProgress] = useState<SyncProgress | null>(null)
+  const retryNowRef = useRef<() => void>(() => {})
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus(IDLE_CONNECTION)
+      return
+    }
+
+    const stream = openResilientStream({
+      path: () => '/api/sync-output/stream/progress',
+      onStatus: setStatus,
+      onMessage: (message) => {
+        try {
+          setProgress(syncProgressSchema.parse(JSON.parse(message)))
+        } catch {
+          // Not a snapshot (e.g. an API that predates progress events) - keep the last one
+        }
+      },
+      unavailable: { markers: NOT_CONFIGURED_MARKERS, reason: 'Valkey Not Configured' },
+    })
+    retryNowRef.current = stream.retryNow
+
+    return () => {
+      stream.close()
+      retryNowRef.current = () => {}
+    }
+  }, [enabled])
+
+  return { ...status, progress, retryNow: () => retryNowRef.current() }
+}
+
+// An unfinished snapshot this old belongs to a sync that died; the API uses the same limit
+const STALE_PROGRESS_MS = 5 * 60 * 1000
+
+/** Whether a snapshot describes a sync that is still running */
+export function isSyncRunning(progress: SyncProgress | null, now: number = Date.now()): progress is SyncProgress {
+  return !!progress && !progress.completed && now - new Date(progress.updatedAt).getTime() < STALE_PROGRESS_MS
+}
+
+/**
+ * Percentage and seconds left from a snapshot, or null while the total is unknown.
+ * The ETA extrapolates the average time per item so far.
+ */
+export function estimateProgress(progress: SyncProgress, now: number = Date.now()): { percent: number; secondsLeft: number | null } | null {
+  if (progress.total <= 0) return null
+
+  const percent = Math.min(100, (progress.processed / progress.total) * 100)
+  if (progress.processed === 0) return { percent, secondsLeft: null }
+
+  const elapsed = (now - new Date(progress.startedAt).getTime()) / 1000
+  const secondsLeft = Math.max(0, (elapsed / progress.processed) * (progress.total - progress.processed))
+  return { percent, secondsLeft }
+}
@@ -45,6 +45,22 @@ export function getStatusColor(status: string): 'success' | 'danger' | 'warning'
   }
 }
 
+// Same colours as the count columns on the Sync Logs page
+export function getOutcomeColor(outcome: string): 'success' | 'danger' | 'primary' | 'warning' | 'neutral' {
+  switch (outcome) {
+    case 'Created':
+      return 'success'
+    case 'Updated':
+      return 'primary'
+    case 'Failed':
+      return 'danger'
+    case 'Deleted':
+      return 'warning'
+    default:
+      return 'neutral'
+  }
+}
+
 export interface SyncLogCounts {
   status: string
   failedSecrets: number
@@ -75,3 +91,11 @@ export function computeSyncStatus(log: SyncLogCounts): string {
   // Otherwise use the original status from backend
   return log.status
 }
+
+export function secretDetailPath(namespace: string, secretName: string): string {
+  return `/secrets/${encodeURIComponent(namespace)}/${encodeURIComponent(secretName)}`
+}
+
+export function namespaceDetailPath(namespace: string): string {
+  return `/namespaces/${encodeURIComponent(namespace)}`
+}
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
-import { useState, useMemo, useCallback } from 'react'
+import { useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
 import {
   Box,
   Typography,
@@ -11,11 +12,12 @@ import {
   Alert,
   Table,
   Sheet,
+  Link,
 } from '@mui/joy'
-import { api, SecretState } from '../lib/api'
-import { formatRelative, formatDuration } from '../lib/utils'
-import SecretsModal from '../components/SecretsModal'
-import KeysModal from '../components/KeysModal'
+import { api } from '../lib/api'
+import { formatRelative, formatDuration, namespaceDetailPath } from '../lib/utils'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+import SyncTimelineChart from '../components/SyncTimelineChart'
 
 function StatCard({ title, value, emoji, subtitle, helpText, testId, color = 'primary' }: any) {
   return (
@@ -96,16 +98,9 @@ function StatCard({ title, value, emoji, subtitle, helpText, testId, color = 'pr
 }
 
 export default function Dashboard() {
-  const [modalOpen, setModalOpen] = useState(false)
-  const [modalSecrets, setModalSecrets] = useState<SecretState[]>([])
-  const [modalTitle, setModalTitle] = useState('')
-  const [modalNamespace, setModalNamespace] = useState('')
-  const [loadingSecrets, setLoadingSecrets] = useState(false)
-  const [dataKeysModalOpen, setDataKeysModalOpen] = useState(false)
-  const [selectedDataKeys, setSelectedDataKeys] = useState<Array<{label: string, keys: string[]}>>([])
-  const [loadingDataKeys, setLoadingDataKeys] = useState(false)
+  const navigate = useNavigate()
 
-  const { data: overview, isLoading, error } = useQuery({
+  const { data: overview, isLoading, error, refetch } = useQuery({
     queryKey: ['dashboard-overview'],
     queryFn: api.getDashboardOverview,
     refetchInterval: 30000,
@@ -151,74 +146,9 @@ export default function Dashboard() {
     [namespaces]
   )
 
-  const handleShowSecrets = useCallback(async (namespace: string, status: 'Active' | 'Failed', count?: number) => {
-    if (count === 0) return
-
-    setLoadingSecrets(true)
-    setModalNamespace(namespace)
-    setModalTitle(`Secrets With Errors in ${namespace}`)
-    setModalOpen(true)
-
-    try {
-      const secrets = await api.getSecretsByNamespace(namespace)
-      const filteredSecrets = secrets.filter(s => s.status === status)
-      setModalSecrets(filteredSecrets)
-    } catch (err) {
-      console.error('Failed to load secrets:', err)
-      setModalSecrets([])
-    } finally {
-      setLoadingSecrets(false)
-    }
-  }, [])
-
-  const handleShowAllSecrets = useCallback(async (namespace: string) => {
-    setLoadingSecrets(true)
-    setModalNamespace(namespace)
-    setModalTitle(`All Secrets in ${namespace}`)
-    setModalOpen(true)
-
-    try {
-      const secrets = await api.getSecretsByNamespace(namespace)
-      setModalSecrets(secrets)
-    } catch (err) {
-      console.error('Failed to load secrets:', err)
-      setModalSecrets([])
-    } finally {
-      setLoadingSecrets(false)
-    }
-  }, [])
-
-  const handleShowDataKeys = useCallback(async (namespace: string) => {
-    setLoadingDataKeys(true)
-    setModalNamespace(namespace)
-    setDataKeysModalOpen(true)
-
-    try {
-      const secrets = await api.getSecretsByNamespace(namespace)
-      const keysPromises = secrets.map(async (secret) => {
-        try {
-          const keys = await api.getSecretDataKeys(secret.namespace, secret.secretName)
-          return { secretName: secret.secretName, keys }
-        } catch (error) {
-          console.error(`Error fetching keys for ${secret.secretName}:`, error)
-          return { secretName: secret.secretName, keys: ['Error fetching keys'] }
-        }
-      })
-      const allKeys = await Promise.all(keysPromises)
-      // Show all secrets, even if we couldn't fetch their keys
-      // Convert to KeysModal format
-      const formattedKeys = allKeys.map(item => ({
-        label: item.secretName,
-        keys: item.keys
-      }))
-      setSelectedDataKeys(formattedKeys)
-    } catch (err) {
-      console.error('Failed to load secrets:', err)
-      setSelectedDataKeys([])
-    } finally {
-      setLoadingDataKeys(false)
-    }
-  }, [])
+  const openNamespace = (namespace: string, status?: 'Active' | 'Failed') => {
+    navigate(`${namespaceDetailPath(namespace)}${status ? `?status=${status}` : ''}`)
+  }
 
   if (isLoading) {
     return (
@@ -231,14 +161,7 @@ export default function Dashboard() {
   if (error) {
     return (
       <Box sx={{ p: 3 }}>
-        <Alert color="danger" variant="soft">
-          <Typography level="body-sm">
-            <strong>❌ Error:</strong> Failed to load dashboard: {(error as Error).message}
-          </Typography>
-          <Typography level="body-xs" sx={{ mt: 1 }}>
-            Please check that the API is running and accessible. The page will retry automatically.
-          </Typography>
-        </Alert>
+        <ApiErrorAlert error={error} context="Failed to load dashboard" onRetry={() => refetch()} />
       </Box>
     )
   }
@@ -297,6 +220,8 @@ export default function Dashboard() {
         </Grid>
       </Grid>
 
+      <SyncTimelineChart />
+
       {/* Namespaces Table */}
       <Card 
         variant="outlined" 
@@ -329,7 +254,7 @@ export default function Dashboard() {
                   {namespaces.map((ns) => (
                     <tr key={ns.namespace} data-testid={`namespace-row-${ns.namespace}`}>
                       <td data-testid="namespace-name">
-                        <Typography fontWeight="medium">{ns.namespace}</Typography>
+                        <Link fontWeight="md" onClick={() => openNamespace(ns.namespace)}>{ns.namespace}</Link>
                       </td>
                       <td data-testid="namespace-total-secrets">
                         <Chip 
@@ -339,7 +264,7 @@ export default function Dashboard() {
                           sx={{ 
                             cursor: ns.secretCount > 0 ? 'pointer' : 'default',
                           }}
-                          onClick={() => ns.secretCount > 0 && handleShowAllSecrets(ns.namespace)}
+                          onClick={() => ns.secretCount > 0 && openNamespace(ns.namespace)}
                           data-testid="chip-total-secrets"
                         >
                           {ns.secretCount}
@@ -353,7 +278,7 @@ export default function Dashboard() {
                           sx={{ 
                             cursor: ns.activeSecrets > 0 ? 'pointer' : 'default',
                           }}
-                          onClick={() => handleShowSecrets(ns.namespace, 'Active', ns.activeSecrets)}
+                          onClick={() => ns.activeSecrets > 0 && openNamespace(ns.namespace, 'Active')}
                           data-testid="chip-active-secrets"
                         >
                           {ns.activeSecrets}
@@ -368,7 +293,7 @@ export default function Dashboard() {
                             sx={{ 
                               cursor: 'pointer',
                             }}
-                            onClick={() => handleShowSecrets(ns.namespace, 'Failed', ns.failedSecrets)}
+                            onClick={() => openNamespace(ns.namespace, 'Failed')}
                             data-testid="chip-failed-secrets"
                           >
                             {ns.failedSecrets}
@@ -387,7 +312,7 @@ export default function Dashboard() {
                           sx={{ 
                             cursor: ns.totalDataKeys > 0 ? 'pointer' : 'default',
                           }}
-                          onClick={() => ns.totalDataKeys > 0 && handleShowDataKeys(ns.namespace)}
+                          onClick={() => ns.totalDataKeys > 0 && openNamespace(ns.namespace)}
                           data-testid="chip-data-keys"
                         >
                           {ns.totalDataKeys}
@@ -500,25 +425,6 @@ export default function Dashboard() {
         </Alert>
       )} */}
 
-      {/* Secrets Modal */}
-      <SecretsModal
-        open={modalOpen}
-        onClose={() => setModalOpen(false)}
-        secrets={loadingSecrets ? [] : modalSecrets}
-        title={loadingSecrets ? 'Loading...' : modalTitle}
-        namespace={modalNamespace}
-      />
-
-      {/* Data Keys Modal */}
-      <KeysModal
-        open={dataKeysModalOpen}
-        onClose={() => setDataKeysModalOpen(false)}
-        title={`Data Keys in ${modalNamespace}`}
-        subtitle={`${selectedDataKeys.length} ${selectedDataKeys.length === 1 ? 'secret' : 'secrets'}`}
-        loading={loadingDataKeys}
-        items={selectedDataKeys}
-        emptyMessage="No data keys found in this namespace"
-      />
     </Box>
   )
 }
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import {
   Box,
   Typography,
@@ -15,10 +16,35 @@ import {
   Tab,
   TabPanel,
   Input,
+  Link,
+  Button,
 } from '@mui/joy'
+import { FilePlus } from 'lucide-react'
 import KeysModal from '../components/KeysModal'
 import NamespacesModal from '../components/NamespacesModal'
+import SecretManifestModal, { ManifestButton, ManifestTarget } from '../components/SecretManifestModal'
+import ItemLintPanel from '../components/ItemLintPanel'
+import DiscoveryGroupsPanel from '../components/DiscoveryGroupsPanel'
+import FailedSecretsPanel from '../components/FailedSecretsPanel'
 import { api } from '../lib/api'
+import { ApiUnavailableError } from '../lib/apiErrors'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+import { ResyncButton } from '../components/SyncActions'
+import { secretDetailPath } from '../lib/utils'
+import { createLogger } from '../lib/logger'
+import {
+  NOT_SYNCED_REASONS,
+  NOT_SYNCED_REASON_ORDER,
+  NotSyncedReason,
+  countByReason,
+  diagnoseItems,
+  findSecretCollisions,
+  parseNamespaces,
+  secretKey,
+} from '../lib/discoveryRules'
+import { itemSyncStates } from '../lib/discoveryGroups'
+
+const log = createLogger('discovery')
 
 interface VaultwardenItem {
   id: string
@@ -31,10 +57,13 @@ interface VaultwardenItem {
   notes: string | null
   hasNamespacesField: boolean
   namespacesValue: string | null
+  secretName: string | null
 }
 
 export default function Discovery() {
-  const [searchTerm, setSearchTerm] = useState('')
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('search') ?? '')
   const [activeTab, setActiveTab] = useState(0)
   const [dataKeysModalOpen, setDataKeysModalOpen] = useState(false)
   const [selectedDataKeys, setSelectedDataKeys] = useState<Array<{label: string, keys: string[]}>>([])  
@@ -48,6 +77,8 @@ export default function Discovery() {
   const [namespacesModalOpen, setNamespacesModalOpen] = useState(false)
   const [selectedNamespaces, setSelectedNamespaces] = useState<Array<{namespace: string, secretName: string, status: string}>>([])
   const [namespacesModalItemName, setNamespacesModalItemName] = useState('')
+  const [reasonFilter, setReasonFilter] = useState<NotSyncedReason | null>(null)
+  const [manifestTarget, setManifestTarget] = useState<ManifestTarget | null>(null)
 
   // Fetch sync status to get interval and timing
   const { data: syncStatus } = useQuery({
@@ -63,13 +94,25 @@ export default function Discovery() {
     : 30000 // Default to 30s if not yet loaded
 
   // Fetch discovery data from API
-  const { data, isLoading, error } = useQuery({
+  const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['discovery'],
     queryFn: api.getDiscoveryData,
     refetchInterval: discoveryRefetchInterval,
     retry: 2,
   })
 
+  // Filters, field names and existing namespaces let the analyzer explain unsynced items
+  const { data: syncConfig } = useQuery({
+    queryKey: ['sync-config'],
+    queryFn: api.getSyncConfig,
+  })
+
+  const { data: clusterNamespaces } = useQuery({
+    queryKey: ['cluster-namespaces'],
+    queryFn: api.getClusterNamespaces,
+    refetchInterval: discoveryRefetchInterval,
+  })
+
   // Filter out deleted secrets
   const activeSecrets = data?.syncedSecrets.filter((s: { status: string }) => s.status !== 'Deleted') || []
   
@@ -85,19 +128,6 @@ export default function Discovery() {
   // @ts-ignore - Used in Coverage Analysis section (line 534), but TS can't detect usage in JSX
   const syncedItems = data?.vaultwardenItems.filter((item: VaultwardenItem) => successfullySyncedItemIds.has(item.id)) || []
   
-  // Debug: Log secrets info
-  console.log('All Vaultwarden items:', data?.vaultwardenItems)
-  console.log('All active secrets:', activeSecrets)
-  console.log('All synced secrets statuses:', activeSecrets.map((s: any) => ({ id: s.vaultwardenItemId, name: s.vaultwardenItemName, status: s.status, error: s.lastError })))
-  console.log('Items with namespaces field:', data?.vaultwardenItems?.filter((i: VaultwardenItem) => i.hasNamespacesField))
-  console.log('Not synced items:', notSyncedItems.map((i: VaultwardenItem) => ({ id: i.id, name: i.name, hasNsField: i.hasNamespacesField })))
-  if (failedSecrets.length > 0) {
-    console.log('Failed secrets:', failedSecrets)
-    console.log('Failed item IDs:', Array.from(failedItemIds))
-  } else {
-    console.log('No failed secrets found in database')
-  }
-  
   // Use active secrets only (exclude deleted and failed)
   const syncedSecrets = activeSecrets.filter((s: { status: string }) => s.status !== 'Failed')
   
@@ -126,9 +156,33 @@ export default function Discovery() {
   
   const dedupedSyncedSecrets = Object.values(groupedSyncedSecrets)
   
+  const diagnoses = diagnoseItems(notSyncedItems, {
+    items: data?.vaultwardenItems ?? [],
+    syncedSecrets: activeSecrets,
+    config: syncConfig,
+    clusterNamespaces,
+  })
+  const reasonCounts = countByReason(diagnoses)
+
+  // Several items writing one secret are merged by the sync, usually by accident
+  const collisions = findSecretCollisions(data?.vaultwardenItems ?? [], activeSecrets)
+  const collidingSecrets = new Set(collisions.map(collision => secretKey(collision.namespace, collision.secretName)))
+  const riskyCollisions = collisions.filter(collision => collision.production || collision.state === 'upcoming')
+
   const filteredNotSynced = notSyncedItems.filter(
-    (item: VaultwardenItem) => item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-           (item.folder?.toLowerCase().includes(searchTerm.toLowerCase()) || false)
+    (item: VaultwardenItem) => (item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+           (item.folder?.toLowerCase().includes(searchTerm.toLowerCase()) || false)) &&
+      (!reasonFilter || diagnoses.get(item.id)?.some(diagnosis => diagnosis.reason === reasonFilter))
+  )
+
+  const syncStates = itemSyncStates(data?.vaultwardenItems ?? [], successfullySyncedItemIds, failedItemIds)
+  const syncErrors = new Map(
+    failedSecrets
+      .filter((s: { lastError: string | null }) => s.lastError)
+      .map((s: { vaultwardenItemId: string; lastError: string | null }) => [s.vaultwardenItemId, s.lastError!])
+  )
+  const filteredItems = (data?.vaultwardenItems ?? []).filter((item: VaultwardenItem) =>
+    [item.name, item.folder, item.organizationName, item.owner].some(value => value?.toLowerCase().includes(searchTerm.toLowerCase()))
   )
 
   const filteredSynced = dedupedSyncedSecrets.filter(
@@ -149,7 +203,7 @@ export default function Discovery() {
       const keys = await api.getSecretDataKeys(namespace, secretName)
       setSelectedDataKeys([{ label: secretName, keys }])
     } catch (error) {
-      console.error(`Error fetching keys:`, error)
+      log.warn('Fetching data keys failed', { namespace, secretName, error })
       setSelectedDataKeys([{ label: secretName, keys: ['Error fetching keys'] }])
     } finally {
       setLoadingDataKeys(false)
@@ -163,11 +217,11 @@ export default function Discovery() {
     
     try {
       const fields = await api.getVaultwardenItemFields(itemId)
-      // Map field objects to strings for display
-      const fieldStrings = fields.map(f => `${f.name}: ${f.value}`)
+      // The API only exposes cached field names; show values when present
+      const fieldStrings = fields.map(f => f.value !== undefined ? `${f.name}: ${f.value}` : f.name)
       setSelectedFields([{ label: 'Custom Fields', keys: fieldStrings }])
     } catch (error) {
-      console.error(`Error fetching fields:`, error)
+      log.warn('Fetching item fields failed', { itemId, error })
       setSelectedFields([{ label: 'Custom Fields', keys: ['Error fetching fields'] }])
     } finally {
       setLoadingFields(false)
@@ -201,14 +255,9 @@ export default function Discovery() {
 
       {/* Error Alert */}
       {error && (
-        <Alert color="danger" variant="soft" sx={{ mb: 3 }}>
-          <Typography level="body-sm">
-            <strong>❌ Error:</strong> {(error as Error).message}
-          </Typography>
-          <Typography level="body-xs" sx={{ mt: 1 }}>
-            Please check that the API is running and accessible. The page will retry automatically.
-          </Typography>
-        </Alert>
+        <Box sx={{ mb: 3 }}>
+          <ApiErrorAlert error={error} context="Failed to load discovery data" onRetry={() => refetch()} />
+        </Box>
       )}
 
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
@@ -219,16 +268,27 @@ export default function Discovery() {
             </Typography>
           )}
         </Box>
-        <Input
-          placeholder="🔍 Search items..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          sx={{ width: 300 }}
-        />
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            color="neutral"
+            startDecorator={<FilePlus size={16} />}
+            onClick={() => navigate('/discovery/author')}
+            data-testid="field-authoring-link"
+          >
+            Author item fields
+          </Button>
+          <Input
+            placeholder="🔍 Search items..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            sx={{ width: 300 }}
+          />
+        </Box>
       </Box>
 
       {/* Info Alert - Only show if there's an error AND no data loaded */}
-      {error && (!data?.vaultwardenItems || data.vaultwardenItems.length === 0) && (
+      {error && !(error instanceof ApiUnavailableError) && (!data?.vaultwardenItems || data.vaultwardenItems.length === 0) && (
         <Alert color="warning" variant="soft" sx={{ mb: 3 }}>
           <Typography level="body-sm">
             <strong>⚠️ Authentication Issue:</strong> Vaultwarden items could not be loaded. 
@@ -276,6 +336,27 @@ export default function Discovery() {
         </Card>
       </Box>
 
+      {riskyCollisions.length > 0 && (
+        <Alert
+          color={riskyCollisions.some(collision => collision.production) ? 'danger' : 'warning'}
+          variant="soft"
+          sx={{ mb: 3 }}
+          data-testid="secret-collisions-warning"
+          endDecorator={
+            <Link level="body-sm" onClick={() => setActiveTab(3)}>
+              Review
+            </Link>
+          }
+        >
+          <Typography level="body-sm">
+            <strong>{riskyCollisions.length} secret name {riskyCollisions.length === 1 ? 'collision' : 'collisions'}:</strong>{' '}
+            several items write {riskyCollisions.length === 1 ? 'the same secret' : 'the same secrets'}
+            {riskyCollisions.some(collision => collision.production) && ' in a production namespace'}, and the sync
+            merges them into one.
+          </Typography>
+        </Alert>
+      )}
+
       {/* Tabs */}
       <Card variant="outlined" sx={{ bgcolor: 'background.surface' }}>
         <Tabs value={activeTab} onChange={(_, value) => setActiveTab(value as number)}>
@@ -286,6 +367,18 @@ export default function Discovery() {
             <Tab>
               Not Synced ({notSyncedItems.length})
             </Tab>
+            <Tab data-testid="failed-secrets-tab">
+              Failed ({failedSecrets.length})
+            </Tab>
+            <Tab data-testid="secret-collisions-tab">
+              Collisions ({collisions.length})
+            </Tab>
+            <Tab data-testid="item-lint-tab">
+              Lint
+            </Tab>
+            <Tab data-testid="discovery-groups-tab">
+              By organization
+            </Tab>
             {/* <Tab>
               Statistics
             </Tab> */}
@@ -301,6 +394,7 @@ export default function Discovery() {
                     <th>Secret Name</th>
                     <th>Namespaces</th>
                     <th>Data Keys</th>
+                    <th style={{ width: 90 }} aria-label="Actions" />
                   </tr>
                 </thead>
                 <tbody>
@@ -318,9 +412,19 @@ export default function Discovery() {
                             </Typography>
                           </td>
                           <td>
-                            <Typography level="body-sm">
+                            <Link
+                              level="body-sm"
+                              onClick={() => item.namespaces.length === 1
+                                ? navigate(secretDetailPath(item.namespaces[0].namespace, item.namespaces[0].secretName))
+                                : handleShowNamespaces(item.vaultwardenItemName, item.namespaces)}
+                            >
                               {item.secretName}
-                            </Typography>
+                            </Link>
+                            {item.namespaces.some(ns => collidingSecrets.has(secretKey(ns.namespace, ns.secretName))) && (
+                              <Chip size="sm" variant="soft" color="warning" sx={{ ml: 1 }} onClick={() => setActiveTab(3)}>
+                                Shared
+                              </Chip>
+                            )}
                           </td>
                           <td>
                             <Chip 
@@ -343,12 +447,25 @@ export default function Discovery() {
                               {item.totalDataKeys}
                             </Typography>
                           </td>
+                          <td>
+                            <Box sx={{ display: 'flex' }}>
+                              <ManifestButton
+                                onClick={() => setManifestTarget({
+                                  itemId: item.vaultwardenItemId,
+                                  itemName: item.vaultwardenItemName,
+                                  secretName: item.secretName,
+                                  namespaces: item.namespaces.map(ns => ns.namespace),
+                                })}
+                              />
+                              <ResyncButton target={{ itemId: item.vaultwardenItemId }} label={item.vaultwardenItemName} />
+                            </Box>
+                          </td>
                         </tr>
                       )
                     })
                   ) : (
                     <tr>
-                      <td colSpan={5} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
                         <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
                           {searchTerm ? 'No items found matching your search' : 'No synced items found'}
                         </Typography>
@@ -362,6 +479,30 @@ export default function Discovery() {
 
           {/* Not Synced Tab */}
           <TabPanel value={1}>
+            {notSyncedItems.length > 0 && (
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }} data-testid="not-synced-summary">
+                <Typography level="body-sm" sx={{ color: 'text.secondary', mr: 1 }}>
+                  Why:
+                </Typography>
+                {NOT_SYNCED_REASON_ORDER.filter(reason => reasonCounts[reason] > 0).map(reason => (
+                  <Chip
+                    key={reason}
+                    size="sm"
+                    variant={reasonFilter === reason ? 'solid' : 'soft'}
+                    color={NOT_SYNCED_REASONS[reason].color}
+                    onClick={() => setReasonFilter(reasonFilter === reason ? null : reason)}
+                    data-testid={`not-synced-reason-${reason}`}
+                  >
+                    {NOT_SYNCED_REASONS[reason].label}: {reasonCounts[reason]}
+                  </Chip>
+                ))}
+                {reasonFilter && (
+                  <Link level="body-xs" onClick={() => setReasonFilter(null)}>
+                    Show all
+                  </Link>
+                )}
+              </Box>
+            )}
             <Sheet sx={{ overflow: 'auto' }}>
               <Table hoverRow>
                 <thead>
@@ -371,6 +512,7 @@ export default function Discovery() {
                     <th>Owner</th>
                     <th>Fields</th>
                     <th>Reason Not Synced</th>
+                    <th style={{ width: 90 }} aria-label="Actions" />
                   </tr>
                 </thead>
                 <tbody>
@@ -417,60 +559,55 @@ export default function Discovery() {
                             {item.fields} {item.fields === 1 ? 'field' : 'fields'}
                           </Chip>
                         </td>
-                        <td>
-                          {(() => {
-                            // Missing namespaces field
-                            if (!item.hasNamespacesField) {
-                              return (
-                                <Typography level="body-sm" sx={{ color: 'warning.500' }}>
-                                  Missing 'namespaces' custom field
-                                </Typography>
-                              )
-                            }
-                            
-                            // Failed sync with error
-                            if (failedItemIds.has(item.id)) {
-                              const failedSecret = failedSecrets.find((s: any) => s.vaultwardenItemId === item.id)
-                              const error = failedSecret?.lastError
-                              return (
-                                <Typography level="body-sm" sx={{ color: 'danger.500', fontFamily: 'monospace' }}>
-                                  {error || 'Sync failed - no error details'}
-                                </Typography>
-                              )
-                            }
-                            
-                            // Has namespaces field but not synced - show actual namespaces value
-                            let namespaces: string[] = []
-                            try {
-                              if (item.namespacesValue) {
-                                namespaces = JSON.parse(item.namespacesValue)
-                              }
-                            } catch {
-                              // Invalid JSON
-                            }
-                            
-                            if (namespaces.length === 0) {
-                              return (
-                                <Typography level="body-sm" sx={{ color: 'warning.500' }}>
-                                  'namespaces' field exists but is empty or invalid
-                                </Typography>
-                              )
-                            }
-                            
-                            return (
-                              <Typography level="body-sm" sx={{ color: 'neutral.500' }}>
-                                Configured for: {namespaces.join(', ')} - Not yet synced (check sync logs for errors)
+                        <td data-testid="not-synced-reasons">
+                          {diagnoses.get(item.id)?.map((diagnosis, index) => (
+                            <Box key={index} sx={{ mb: 1, '&:last-child': { mb: 0 } }} data-testid="not-synced-diagnosis" data-reason={diagnosis.reason}>
+                              <Chip size="sm" variant="soft" color={NOT_SYNCED_REASONS[diagnosis.reason].color}>
+                                {NOT_SYNCED_REASONS[diagnosis.reason].label}
+                              </Chip>
+                              <Typography
+                                level="body-sm"
+                                sx={{ mt: 0.5, fontFamily: diagnosis.reason === 'sync-failed' ? 'monospace' : undefined }}
+                              >
+                                {diagnosis.detail}
+                              </Typography>
+                              <Typography level="body-xs" sx={{ color: 'text.secondary' }} data-testid="not-synced-fix">
+                                <strong>Fix:</strong> {diagnosis.fix}
                               </Typography>
-                            )
-                          })()}
+                              {diagnosis.secret && (
+                                <Link
+                                  level="body-xs"
+                                  onClick={() => navigate(secretDetailPath(diagnosis.secret!.namespace, diagnosis.secret!.secretName))}
+                                >
+                                  View secret {diagnosis.secret.namespace}/{diagnosis.secret.secretName} →
+                                </Link>
+                              )}
+                            </Box>
+                          ))}
+                        </td>
+                        <td>
+                          <Box sx={{ display: 'flex' }}>
+                            <ManifestButton
+                              onClick={() => setManifestTarget({
+                                itemId: item.id,
+                                itemName: item.name,
+                                secretName: item.secretName ?? item.name,
+                                namespaces: parseNamespaces(item.namespacesValue),
+                              })}
+                            />
+                            {/* Without a namespaces field a sync would not pick the item up */}
+                            {item.hasNamespacesField && (
+                              <ResyncButton target={{ itemId: item.id }} label={item.name} />
+                            )}
+                          </Box>
                         </td>
                       </tr>
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={5} style={{ textAlign: 'center', padding: '2rem' }}>
+                      <td colSpan={6} style={{ textAlign: 'center', padding: '2rem' }}>
                         <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
-                          {searchTerm ? 'No items found matching your search' : 'All items are synced! 🎉'}
+                          {searchTerm || reasonFilter ? 'No items found matching your search' : 'All items are synced! 🎉'}
                         </Typography>
                       </td>
                     </tr>
@@ -480,8 +617,102 @@ export default function Discovery() {
             </Sheet>
           </TabPanel>
 
+          {/* Failed Tab */}
+          <TabPanel value={2}>
+            <FailedSecretsPanel failedSecrets={failedSecrets} searchTerm={searchTerm} />
+          </TabPanel>
+
+          {/* Collisions Tab */}
+          <TabPanel value={3}>
+            <Typography level="body-sm" sx={{ color: 'text.secondary', mb: 2 }}>
+              Items targeting the same namespace and secret name are written as one secret. Keys present in several
+              items take the value of the item the sync processes last, and the secret is attributed to the first.
+            </Typography>
+            <Sheet sx={{ overflow: 'auto' }}>
+              <Table hoverRow>
+                <thead>
+                  <tr>
+                    <th>Secret</th>
+                    <th>Written by</th>
+                    <th>Attributed to</th>
+                    <th style={{ width: 160 }}>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {collisions.length > 0 ? (
+                    collisions.map(collision => (
+                      <tr
+                        key={secretKey(collision.namespace, collision.secretName)}
+                        data-testid="secret-collision"
+                        data-state={collision.state}
+                      >
+                        <td>
+                          <Link
+                            level="body-sm"
+                            onClick={() => navigate(secretDetailPath(collision.namespace, collision.secretName))}
+                          >
+                            {collision.namespace}/{collision.secretName}
+                          </Link>
+                          {collision.production && (
+                            <Chip size="sm" variant="soft" color="danger" sx={{ ml: 1 }}>
+                              Production
+                            </Chip>
+                          )}
+                        </td>
+                        <td>
+                          {collision.writers.map(writer => (
+                            <Typography key={writer.itemId} level="body-sm" data-testid="secret-collision-writer">
+                              🔐 {writer.itemName}
+                            </Typography>
+                          ))}
+                        </td>
+                        <td data-testid="secret-collision-winner">
+                          {collision.winner ? (
+                            <Typography level="body-sm" fontWeight="md">{collision.winner.itemName}</Typography>
+                          ) : (
+                            <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>
+                              Decided by Vaultwarden's item order on the next sync
+                            </Typography>
+                          )}
+                        </td>
+                        <td>
+                          <Chip size="sm" variant="soft" color={collision.state === 'upcoming' ? 'warning' : 'neutral'}>
+                            {collision.state === 'upcoming' ? 'Merged on next sync' : 'Merged'}
+                          </Chip>
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={4} style={{ textAlign: 'center', padding: '2rem' }}>
+                        <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+                          Every secret is written by a single item
+                        </Typography>
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </Table>
+            </Sheet>
+            {collisions.length > 0 && (
+              <Typography level="body-xs" sx={{ color: 'text.tertiary', mt: 1 }}>
+                Give each item its own "{syncConfig?.fieldNames.secretName ?? 'secret-name'}" field unless merging them is intended.
+              </Typography>
+            )}
+          </TabPanel>
+
+          {/* Lint Tab */}
+          <TabPanel value={4}>
+            <ItemLintPanel items={data?.vaultwardenItems ?? []} config={syncConfig} searchTerm={searchTerm} />
+          </TabPanel>
+
+          {/* Grouped Tab */}
+          <TabPanel value={5}>
+            <DiscoveryGroupsPanel items={filteredItems} states={syncStates} errors={syncErrors} />
+          </TabPanel>
+
           {/* Statistics Tab */}
-          {/* <TabPanel value={2}>
+          {/* <TabPanel value={6}>
             <Box sx={{ p: 3 }}>
               <Typography level="h4" sx={{ mb: 3 }}>📊 Sync Statistics</Typography>
               
@@ -574,6 +805,9 @@ export default function Discovery() {
         namespaces={selectedNamespaces}
         onViewKeys={handleShowDataKeys}
       />
+
+      {/* Manifest Preview Modal */}
+      <SecretManifestModal target={manifestTarget} onClose={() => setManifestTarget(null)} />
     </Box>
   )
 }
@@ -0,0 +1,358 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate } from 'react-router-dom'
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Breadcrumbs,
+  Button,
+  Card,
+  Checkbox,
+  Chip,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Grid,
+  IconButton,
+  Input,
+  Link,
+  Sheet,
+  Table,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/joy'
+import { Copy, Plus, Trash2 } from 'lucide-react'
+import { api } from '../lib/api'
+import {
+  EMPTY_DRAFT,
+  KeyValue,
+  SECRET_KINDS,
+  SecretDraft,
+  SecretKind,
+  draftFields,
+  draftPreview,
+  fieldsAsCliJson,
+  lintDraft,
+} from '../lib/fieldAuthoring'
+import { renderSecretManifest } from '../lib/secretManifest'
+
+const KINDS = Object.keys(SECRET_KINDS) as SecretKind[]
+
+function KeyValueEditor({ label, entries, onChange, testId }: {
+  label: string
+  entries: KeyValue[]
+  onChange: (entries: KeyValue[]) => void
+  testId: string
+}) {
+  const updateEntry = (index: number, changes: Partial<KeyValue>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)))
+
+  return (
+    <FormControl data-testid={testId}>
+      <FormLabel>{label}</FormLabel>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {entries.map((entry, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1 }}>
+            <Input size="sm" placeholder="key" value={entry.key} onChange={(e) => updateEntry(index, { key: e.target.value })} sx={{ flex: 1 }} />
+            <Input size="sm" placeholder="value" value={entry.value} onChange={(e) => updateEntry(index, { value: e.target.value })} sx={{ flex: 1 }} />
+            <IconButton size="sm" variant="plain" color="neutral" aria-label={`Remove ${label.toLowerCase()}`} onClick={() => onChange(entries.filter((_, i) => i !== index))}>
+              <Trash2 size={14} />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          size="sm"
+          variant="plain"
+          startDecorator={<Plus size={14} />}
+          onClick={() => onChange([...entries, { key: '', value: '' }])}
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          Add
+        </Button>
+      </Box>
+    </FormControl>
+  )
+}
+
+/** Form that writes the custom fields of a Vaultwarden item for the Secret the user describes */
+export default function FieldAuthoring() {
+  const navigate = useNavigate()
+  const [draft, setDraft] = useState<SecretDraft>(EMPTY_DRAFT)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  const { data: config } = useQuery({
+    queryKey: ['sync-config'],
+    queryFn: api.getSyncConfig,
+  })
+
+  const { data: namespaceStats } = useQuery({
+    queryKey: ['namespaces'],
+    queryFn: api.getNamespaces,
+  })
+
+  const update = (changes: Partial<SecretDraft>) => {
+    setDraft(current => ({ ...current, ...changes }))
+    setCopied(null)
+  }
+
+  const fields = draftFields(draft, config)
+  const issues = lintDraft(draft, config)
+  const manifest = renderSecretManifest({
+    namespace: draft.namespaces[0] ?? config?.kubernetes.defaultNamespace ?? 'default',
+    secretName: draft.secretName.trim() || 'unnamed-secret',
+    preview: draftPreview(draft, config),
+    fields,
+    showSources: true,
+    header: 'Secret the sync will write for these fields; values are masked',
+  })
+  const kind = SECRET_KINDS[draft.kind]
+
+  const copy = async (id: string, text: string) => {
+    await navigator.clipboard.writeText(text)
+    setCopied(id)
+  }
+
+  return (
+    <Box data-testid="field-authoring">
+      <Breadcrumbs sx={{ px: 0, mb: 1 }}>
+        <Link component="button" onClick={() => navigate('/discovery')}>Discovery</Link>
+        <Typography>Author item fields</Typography>
+      </Breadcrumbs>
+      <Typography level="h2" sx={{ mb: 1 }}>Author item fields</Typography>
+      <Typography level="body-sm" sx={{ color: 'text.secondary', mb: 3 }}>
+        Describe the Secret you need and add the generated custom fields to a Vaultwarden item. Nothing is saved;
+        values stay in Vaultwarden.
+      </Typography>
+
+      <Grid container spacing={2}>
+        <Grid xs={12} lg={5}>
+          <Card variant="outlined" sx={{ gap: 2 }}>
+            <FormControl>
+              <FormLabel>Type</FormLabel>
+              <ToggleButtonGroup
+                size="sm"
+                value={draft.kind}
+                onChange={(_, value) => value && update({ kind: value as SecretKind })}
+                data-testid="field-authoring-kind"
+              >
+                {KINDS.map(k => (
+                  <Button key={k} value={k}>{SECRET_KINDS[k].label}</Button>
+                ))}
+              </ToggleButtonGroup>
+              <FormHelperText>
+                Create a {kind.itemType.toLowerCase()} item. {kind.hint}
+              </FormHelperText>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>Namespaces</FormLabel>
+              <Autocomplete
+                multiple
+                freeSolo
+                size="sm"
+                placeholder="Pick or type namespaces"
+                options={(namespaceStats ?? []).map(ns => ns.namespace)}
+                value={draft.namespaces}
+                onChange={(_, value) => update({ namespaces: value.map(ns => ns.trim()).filter(Boolean) })}
+                data-testid="field-authoring-namespaces"
+              />
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>Secret name</FormLabel>
+              <Input
+                size="sm"
+                placeholder="my-app-credentials"
+                value={draft.secretName}
+                onChange={(e) => update({ secretName: e.target.value })}
+                slotProps={{ input: { 'data-testid': 'field-authoring-secret-name' } }}
+              />
+            </FormControl>
+
+            {draft.kind === 'opaque' && (
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                <FormLabel>Key mappings</FormLabel>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <Checkbox size="sm" label="Username" checked={draft.includeUsername} onChange={(e) => update({ includeUsername: e.target.checked })} sx={{ width: 170 }} />
+                  <Input
+                    size="sm"
+                    placeholder={`${draft.secretName.trim() || 'secret-name'}-username`}
+                    disabled={!draft.includeUsername}
+                    value={draft.usernameKey}
+                    onChange={(e) => update({ usernameKey: e.target.value })}
+                    sx={{ flex: 1 }}
+                  />
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <Checkbox size="sm" label="Password or notes" checked={draft.includePassword} onChange={(e) => update({ includePassword: e.target.checked })} sx={{ width: 170 }} />
+                  <Input
+                    size="sm"
+                    placeholder={draft.secretName.trim() || 'secret-name'}
+                    disabled={!draft.includePassword}
+                    value={draft.passwordKey}
+                    onChange={(e) => update({ passwordKey: e.target.value })}
+                    sx={{ flex: 1 }}
+                  />
+                </Box>
+              </Box>
+            )}
+
+            {draft.kind === 'ssh' && (
+              <FormControl>
+                <FormLabel>Private key key</FormLabel>
+                <Input
+                  size="sm"
+                  placeholder={draft.secretName.trim() || 'secret-name'}
+                  value={draft.passwordKey}
+                  onChange={(e) => update({ passwordKey: e.target.value })}
+                />
+              </FormControl>
+            )}
+
+            {draft.kind === 'dockerconfigjson' && (
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <FormControl sx={{ flex: 1 }}>
+                  <FormLabel>Registry</FormLabel>
+                  <Input size="sm" placeholder="Sync default" value={draft.registryServer} onChange={(e) => update({ registryServer: e.target.value })} />
+                </FormControl>
+                <FormControl sx={{ flex: 1 }}>
+                  <FormLabel>Email</FormLabel>
+                  <Input size="sm" placeholder="Optional" value={draft.registryEmail} onChange={(e) => update({ registryEmail: e.target.value })} />
+                </FormControl>
+              </Box>
+            )}
+
+            <FormControl>
+              <FormLabel>Additional keys</FormLabel>
+              <Autocomplete
+                multiple
+                freeSolo
+                size="sm"
+                placeholder="Type a key and press Enter"
+                options={[]}
+                value={draft.dataFields}
+                onChange={(_, value) => update({ dataFields: value.map(name => name.trim()).filter(Boolean) })}
+                data-testid="field-authoring-data-fields"
+              />
+              <FormHelperText>Each becomes a hidden custom field holding the key's value.</FormHelperText>
+            </FormControl>
+
+            <KeyValueEditor label="Labels" entries={draft.labels} onChange={(labels) => update({ labels })} testId="field-authoring-labels" />
+            <KeyValueEditor label="Annotations" entries={draft.annotations} onChange={(annotations) => update({ annotations })} testId="field-authoring-annotations" />
+
+            <Button size="sm" variant="plain" color="neutral" onClick={() => update(EMPTY_DRAFT)} sx={{ alignSelf: 'flex-start' }}>
+              Reset
+            </Button>
+          </Card>
+        </Grid>
+
+        <Grid xs={12} lg={7}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {issues.length > 0 && (
+              <Alert
+                color={issues.some(issue => issue.severity === 'error') ? 'danger' : 'warning'}
+                variant="soft"
+                data-testid="field-authoring-issues"
+              >
+                <Box>
+                  {issues.map((issue, index) => (
+                    <Typography key={index} level="body-sm" data-severity={issue.severity}>
+                      {issue.message}. {issue.fix}
+                    </Typography>
+                  ))}
+                </Box>
+              </Alert>
+            )}
+
+            <Card variant="outlined">
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography level="title-md">Custom fields</Typography>
+                <Tooltip title="Fields in the JSON of a Bitwarden CLI item template">
+                  <Button
+                    size="sm"
+                    variant="soft"
+                    startDecorator={<Copy size={14} />}
+                    onClick={() => copy('json', fieldsAsCliJson(fields))}
+                    data-testid="field-authoring-copy-json"
+                  >
+                    {copied === 'json' ? 'Copied' : 'Copy as JSON'}
+                  </Button>
+                </Tooltip>
+              </Box>
+              <Table size="sm" data-testid="field-authoring-fields">
+                <thead>
+                  <tr>
+                    <th style={{ width: '30%' }}>Name</th>
+                    <th style={{ width: 80 }}>Type</th>
+                    <th>Value</th>
+                    <th style={{ width: 80 }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((field, index) => (
+                    <tr key={index} data-testid="field-authoring-field">
+                      <td>
+                        <Typography level="body-sm" fontFamily="monospace">{field.name}</Typography>
+                      </td>
+                      <td>
+                        <Chip size="sm" variant="soft" color={field.type === 'hidden' ? 'warning' : 'neutral'}>
+                          {field.type === 'hidden' ? 'Hidden' : 'Text'}
+                        </Chip>
+                      </td>
+                      <td>
+                        <Typography
+                          level="body-sm"
+                          fontFamily="monospace"
+                          sx={{ wordBreak: 'break-all', color: field.value ? undefined : 'text.tertiary' }}
+                        >
+                          {field.value || '(empty)'}
+                        </Typography>
+                        <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>{field.purpose}</Typography>
+                      </td>
+                      <td>
+                        <Tooltip title="Copy name">
+                          <IconButton size="sm" variant="plain" color="neutral" aria-label="Copy name" onClick={() => copy(`name-${index}`, field.name)}>
+                            <Copy size={14} />
+                          </IconButton>
+                        </Tooltip>
+                        {field.type === 'text' && field.value && (
+                          <Tooltip title="Copy value">
+                            <IconButton size="sm" variant="plain" color="primary" aria-label="Copy value" onClick={() => copy(`value-${index}`, field.value)}>
+                              <Copy size={14} />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </Card>
+
+            <Card variant="outlined">
+              <Typography level="title-md">Secret preview</Typography>
+              <Sheet variant="soft" sx={{ borderRadius: 'sm', overflow: 'auto', p: 2 }}>
+                <Typography
+                  component="pre"
+                  level="body-xs"
+                  fontFamily="monospace"
+                  sx={{ m: 0, whiteSpace: 'pre' }}
+                  data-testid="field-authoring-manifest"
+                >
+                  {manifest}
+                </Typography>
+              </Sheet>
+              {draft.namespaces.length > 1 && (
+                <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>
+                  The same Secret is also written to {draft.namespaces.slice(1).join(', ')}.
+                </Typography>
+              )}
+            </Card>
+          </Box>
+        </Grid>
+      </Grid>
+    </Box>
+  )
+}
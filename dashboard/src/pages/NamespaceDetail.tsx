@@ -0,0 +1,382 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useMemo, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import {
+  Box,
+  Typography,
+  Card,
+  Chip,
+  CircularProgress,
+  Sheet,
+  Table,
+  Button,
+  Breadcrumbs,
+  Link,
+  Grid,
+  ToggleButtonGroup,
+} from '@mui/joy'
+import { api, SecretState } from '../lib/api'
+import { formatDate, formatRelative, getOutcomeColor, getStatusColor, secretDetailPath } from '../lib/utils'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+
+// Key names come from the Kubernetes API, one request per secret - never fire them all at once
+const KEY_FETCH_BATCH_SIZE = 5
+
+const secretKeysQueryKey = (namespace: string, secretName: string) => ['secret-keys', namespace, secretName]
+
+function SecretKeys({ namespace, secretName }: { namespace: string; secretName: string }) {
+  const { data: keys, isLoading, error, refetch } = useQuery({
+    queryKey: secretKeysQueryKey(namespace, secretName),
+    queryFn: () => api.getSecretDataKeys(namespace, secretName),
+    staleTime: 60000,
+  })
+
+  if (isLoading) return <CircularProgress size="sm" />
+  if (error) return <ApiErrorAlert error={error} context="Failed to load key names" onRetry={() => refetch()} />
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }} data-testid="namespace-secret-keys">
+      {keys?.map(key => (
+        <Chip key={key} size="sm" variant="outlined" sx={{ fontFamily: 'monospace' }}>{key}</Chip>
+      ))}
+    </Box>
+  )
+}
+
+function MiniStat({ label, value, color = 'neutral', testId }: { label: string; value: React.ReactNode; color?: 'neutral' | 'success' | 'warning' | 'primary'; testId: string }) {
+  return (
+    <Card variant="soft" color={color} data-testid={testId}>
+      <Typography level="body-xs">{label}</Typography>
+      <Typography level="h3" color={color} data-testid={`${testId}-value`}>{value}</Typography>
+    </Card>
+  )
+}
+
+export default function NamespaceDetail() {
+  const { namespace = '' } = useParams()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const statusFilter = searchParams.get('status') ?? 'all'
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [loadingAllKeys, setLoadingAllKeys] = useState(false)
+
+  const { data: allNamespaces } = useQuery({
+    queryKey: ['namespaces'],
+    queryFn: api.getNamespaces,
+    refetchInterval: 60000,
+    staleTime: 60000,
+  })
+  const stats = allNamespaces?.find(ns => ns.namespace === namespace)
+
+  const { data: secrets, isLoading, error, refetch } = useQuery({
+    queryKey: ['namespace-secrets', namespace],
+    queryFn: () => api.getSecretsByNamespace(namespace),
+    refetchInterval: 30000,
+  })
+
+  const historyQuery = useQuery({
+    queryKey: ['namespace-history', namespace],
+    queryFn: () => api.getNamespaceHistory(namespace, 25),
+    refetchInterval: 30000,
+  })
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    secrets?.forEach(secret => {
+      counts[secret.status] = (counts[secret.status] ?? 0) + 1
+    })
+    return counts
+  }, [secrets])
+
+  // Failed secrets grouped by their error so one broken item does not look like ten problems
+  const failureBreakdown = useMemo(() => {
+    const groups = new Map<string, SecretState[]>()
+    secrets?.filter(s => s.status === 'Failed').forEach(secret => {
+      const error = secret.lastError?.split('\n')[0].trim() || 'No error details'
+      groups.set(error, [...(groups.get(error) ?? []), secret])
+    })
+    return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)
+  }, [secrets])
+
+  const visibleSecrets = useMemo(
+    () => (secrets ?? [])
+      .filter(s => statusFilter === 'all' || s.status === statusFilter)
+      .sort((a, b) => a.secretName.localeCompare(b.secretName)),
+    [secrets, statusFilter]
+  )
+
+  const toggleExpanded = (secretName: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(secretName)) next.delete(secretName)
+      else next.add(secretName)
+      return next
+    })
+  }
+
+  const handleLoadAllKeys = async () => {
+    const pending = visibleSecrets.filter(s => s.dataKeysCount > 0 && !expanded.has(s.secretName))
+    setLoadingAllKeys(true)
+    try {
+      for (let i = 0; i < pending.length; i += KEY_FETCH_BATCH_SIZE) {
+        const batch = pending.slice(i, i + KEY_FETCH_BATCH_SIZE)
+        await Promise.all(batch.map(secret => queryClient.prefetchQuery({
+          queryKey: secretKeysQueryKey(namespace, secret.secretName),
+          queryFn: () => api.getSecretDataKeys(namespace, secret.secretName),
+          staleTime: 60000,
+        })))
+        // Expand as each batch lands so rows render from cache instead of fetching themselves
+        setExpanded(prev => new Set([...prev, ...batch.map(s => s.secretName)]))
+      }
+    } finally {
+      setLoadingAllKeys(false)
+    }
+  }
+
+  const setStatusFilter = (status: string) => {
+    setSearchParams(status === 'all' ? {} : { status }, { replace: true })
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  const breadcrumbs = (
+    <Breadcrumbs sx={{ px: 0, mb: 1 }}>
+      <Link component="button" onClick={() => navigate('/')}>Dashboard</Link>
+      <Typography>Namespaces</Typography>
+      <Typography>{namespace}</Typography>
+    </Breadcrumbs>
+  )
+
+  if (error) {
+    return (
+      <Box>
+        {breadcrumbs}
+        <ApiErrorAlert error={error} context={`Failed to load secrets in ${namespace}`} onRetry={() => refetch()} />
+      </Box>
+    )
+  }
+
+  const totalDataKeys = stats?.totalDataKeys ?? (secrets ?? []).reduce((sum, s) => sum + s.dataKeysCount, 0)
+
+  return (
+    <Box data-testid="namespace-detail">
+      {breadcrumbs}
+      <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1.5, mb: 3, flexWrap: 'wrap' }}>
+        <Typography level="h2">📂 {namespace}</Typography>
+        <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+          Last sync: {stats?.lastSyncTime ? formatRelative(stats.lastSyncTime) : 'Never'}
+          {stats && ` • ${stats.successRate.toFixed(0)}% success`}
+        </Typography>
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid xs={6} md={3}>
+          <MiniStat label="Total secrets" value={stats?.secretCount ?? secrets?.length ?? 0} testId="namespace-stat-total" />
+        </Grid>
+        <Grid xs={6} md={3}>
+          <MiniStat label="Active" value={stats?.activeSecrets ?? statusCounts['Active'] ?? 0} color="success" testId="namespace-stat-active" />
+        </Grid>
+        <Grid xs={6} md={3}>
+          <MiniStat label="With errors" value={stats?.failedSecrets ?? statusCounts['Failed'] ?? 0} color="warning" testId="namespace-stat-failed" />
+        </Grid>
+        <Grid xs={6} md={3}>
+          <MiniStat
+            label="Data keys"
+            value={totalDataKeys}
+            color="primary"
+            testId="namespace-stat-keys"
+          />
+        </Grid>
+      </Grid>
+
+      {failureBreakdown.length > 0 && (
+        <Card variant="outlined" color="warning" sx={{ mb: 3 }} data-testid="namespace-failure-breakdown">
+          <Typography level="title-md">⚠️ Failure breakdown</Typography>
+          {failureBreakdown.map(([error, failed]) => (
+            <Box key={error} sx={{ py: 0.5 }}>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+                <Chip size="sm" variant="soft" color="danger">{failed.length}</Chip>
+                <Typography level="body-sm" sx={{ fontFamily: 'monospace', wordBreak: 'break-word' }}>{error}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', pl: 5 }}>
+                {failed.map(secret => (
+                  <Link key={secret.id} level="body-xs" onClick={() => navigate(secretDetailPath(secret.namespace, secret.secretName))}>
+                    {secret.secretName}
+                  </Link>
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </Card>
+      )}
+
+      <Card variant="outlined" sx={{ mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Typography level="title-md">🔐 Secrets</Typography>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <ToggleButtonGroup
+              size="sm"
+              value={statusFilter}
+              onChange={(_, value) => value && setStatusFilter(value)}
+              data-testid="namespace-status-filter"
+            >
+              <Button value="all">All ({secrets?.length ?? 0})</Button>
+              {Object.entries(statusCounts).map(([status, count]) => (
+                <Button key={status} value={status}>{status} ({count})</Button>
+              ))}
+            </ToggleButtonGroup>
+            <Button size="sm" variant="soft" loading={loadingAllKeys} onClick={handleLoadAllKeys} data-testid="namespace-load-all-keys">
+              Show all key names
+            </Button>
+          </Box>
+        </Box>
+        {visibleSecrets.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2 }}>No secrets found</Typography>
+        ) : (
+          <Sheet sx={{ overflow: 'auto' }}>
+            <Table hoverRow data-testid="namespace-secrets-table">
+              <thead>
+                <tr>
+                  <th>Secret Name</th>
+                  <th>Vaultwarden Item</th>
+                  <th style={{ width: 100 }}>Status</th>
+                  <th style={{ width: 90 }}>Keys</th>
+                  <th style={{ width: 140 }}>Last Synced</th>
+                  <th>Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleSecrets.map(secret => (
+                  <SecretRows
+                    key={secret.id}
+                    secret={secret}
+                    expanded={expanded.has(secret.secretName)}
+                    onToggle={() => toggleExpanded(secret.secretName)}
+                    onOpen={() => navigate(secretDetailPath(secret.namespace, secret.secretName))}
+                  />
+                ))}
+              </tbody>
+            </Table>
+          </Sheet>
+        )}
+      </Card>
+
+      <Card variant="outlined">
+        <Typography level="title-md">🔄 Recent sync history</Typography>
+        {historyQuery.isLoading ? (
+          <CircularProgress size="sm" />
+        ) : historyQuery.error ? (
+          <ApiErrorAlert error={historyQuery.error} context="Failed to load sync history" onRetry={() => historyQuery.refetch()} />
+        ) : !historyQuery.data?.length ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>No sync runs have recorded this namespace yet</Typography>
+        ) : (
+          <Sheet sx={{ overflow: 'auto' }}>
+            <Table size="sm" data-testid="namespace-history-table">
+              <thead>
+                <tr>
+                  <th style={{ width: 90 }}>Run</th>
+                  <th style={{ width: 160 }}>Time</th>
+                  <th>Secret</th>
+                  <th style={{ width: 100 }}>Outcome</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {historyQuery.data.map(entry => (
+                  <tr key={`${entry.syncLogId}-${entry.secretName}-${entry.timestamp}`}>
+                    <td>
+                      <Link component="button" level="body-sm" onClick={() => navigate(`/logs/${entry.syncLogId}`)}>#{entry.syncLogId}</Link>
+                    </td>
+                    <td>
+                      <Typography level="body-sm" title={formatDate(entry.timestamp)}>{formatRelative(entry.timestamp)}</Typography>
+                    </td>
+                    <td>
+                      <Link level="body-sm" onClick={() => navigate(secretDetailPath(namespace, entry.secretName))}>
+                        {entry.secretName}
+                      </Link>
+                    </td>
+                    <td>
+                      <Chip size="sm" variant="soft" color={getOutcomeColor(entry.outcome)}>
+                        {entry.outcome}
+                      </Chip>
+                    </td>
+                    <td>
+                      <Typography level="body-xs" sx={{ color: entry.status === 'Failed' ? 'danger.500' : 'text.secondary', wordBreak: 'break-word' }}>
+                        {entry.details || '-'}
+                      </Typography>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Sheet>
+        )}
+      </Card>
+    </Box>
+  )
+}
+
+interface SecretRowsProps {
+  secret: SecretState
+  expanded: boolean
+  onToggle: () => void
+  onOpen: () => void
+}
+
+function SecretRows({ secret, expanded, onToggle, onOpen }: SecretRowsProps) {
+  return (
+    <>
+      <tr data-testid={`namespace-secret-row-${secret.secretName}`}>
+        <td>
+          <Link fontWeight="md" onClick={onOpen}>{secret.secretName}</Link>
+        </td>
+        <td>
+          <Typography level="body-sm">{secret.vaultwardenItemName}</Typography>
+        </td>
+        <td>
+          <Chip size="sm" variant="soft" color={getStatusColor(secret.status)}>{secret.status}</Chip>
+        </td>
+        <td>
+          <Chip
+            size="sm"
+            variant="outlined"
+            color={secret.dataKeysCount > 0 ? 'primary' : 'neutral'}
+            sx={{ cursor: secret.dataKeysCount > 0 ? 'pointer' : 'default' }}
+            onClick={() => secret.dataKeysCount > 0 && onToggle()}
+            data-testid="namespace-secret-key-count"
+          >
+            {secret.dataKeysCount > 0 && (expanded ? '▾ ' : '▸ ')}{secret.dataKeysCount}
+          </Chip>
+        </td>
+        <td>
+          <Typography level="body-sm" sx={{ color: 'text.secondary' }} title={formatDate(secret.lastSynced)}>
+            {formatRelative(secret.lastSynced)}
+          </Typography>
+        </td>
+        <td>
+          <Typography
+            level="body-xs"
+            sx={{ color: secret.lastError ? 'danger.500' : 'text.tertiary', maxWidth: 300, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={secret.lastError ?? undefined}
+          >
+            {secret.lastError || '-'}
+          </Typography>
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={6}>
+            <SecretKeys namespace={secret.namespace} secretName={secret.secretName} />
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
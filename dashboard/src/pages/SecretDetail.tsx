@@ -0,0 +1,210 @@
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+  Box,
+  Typography,
+  Card,
+  Chip,
+  CircularProgress,
+  Sheet,
+  Table,
+  Button,
+  Breadcrumbs,
+  Link,
+  Grid,
+} from '@mui/joy'
+import { api } from '../lib/api'
+import { ApiNotFoundError } from '../lib/apiErrors'
+import { formatDate, formatRelative, getOutcomeColor, getStatusColor } from '../lib/utils'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+
+export default function SecretDetail() {
+  const { namespace = '', name = '' } = useParams()
+  const navigate = useNavigate()
+
+  const { data: secret, isLoading, error, refetch } = useQuery({
+    queryKey: ['secret', namespace, name],
+    queryFn: () => api.getSecret(namespace, name),
+    refetchInterval: 30000,
+  })
+
+  const keysQuery = useQuery({
+    queryKey: ['secret-keys', namespace, name],
+    queryFn: () => api.getSecretDataKeys(namespace, name),
+    enabled: !!secret && secret.dataKeysCount > 0,
+  })
+
+  const historyQuery = useQuery({
+    queryKey: ['secret-history', namespace, name],
+    queryFn: () => api.getSecretHistory(namespace, name),
+    enabled: !!secret,
+    refetchInterval: 30000,
+  })
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  const breadcrumbs = (
+    <Breadcrumbs sx={{ px: 0, mb: 1 }}>
+      <Link component="button" onClick={() => navigate('/secrets')}>Secrets</Link>
+      <Typography>{namespace}</Typography>
+      <Typography>{name}</Typography>
+    </Breadcrumbs>
+  )
+
+  if (error || !secret) {
+    return (
+      <Box>
+        {breadcrumbs}
+        {error instanceof ApiNotFoundError ? (
+          <Card variant="outlined" sx={{ textAlign: 'center', py: 6 }} data-testid="secret-not-found">
+            <Typography level="h4">Secret not found</Typography>
+            <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+              No secret named <strong>{name}</strong> has been synced to namespace <strong>{namespace}</strong>.
+            </Typography>
+            <Box>
+              <Button variant="soft" onClick={() => navigate('/secrets')}>Back to secrets</Button>
+            </Box>
+          </Card>
+        ) : (
+          <ApiErrorAlert error={error} context="Failed to load secret" onRetry={() => refetch()} />
+        )}
+      </Box>
+    )
+  }
+
+  return (
+    <Box data-testid="secret-detail">
+      {breadcrumbs}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 3, flexWrap: 'wrap' }}>
+        <Typography level="h2">{secret.secretName}</Typography>
+        <Chip variant="soft" color="neutral">{secret.namespace}</Chip>
+        <Chip variant="soft" color={getStatusColor(secret.status)} data-testid="secret-detail-status">
+          {secret.status}
+        </Chip>
+      </Box>
+
+      {secret.lastError && (
+        <Card variant="soft" color="danger" sx={{ mb: 3 }} data-testid="secret-detail-error">
+          <Typography level="title-md">❌ Last error</Typography>
+          <Typography level="body-sm" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {secret.lastError}
+          </Typography>
+        </Card>
+      )}
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid xs={12} md={6}>
+          <Card variant="outlined" sx={{ height: '100%' }}>
+            <Typography level="title-md">🔐 Source item</Typography>
+            <Typography level="body-md" fontWeight="md">{secret.vaultwardenItemName}</Typography>
+            <Typography level="body-xs" sx={{ color: 'text.tertiary', fontFamily: 'monospace' }}>
+              ID: {secret.vaultwardenItemId}
+            </Typography>
+            <Box>
+              <Button
+                size="sm"
+                variant="plain"
+                sx={{ px: 0 }}
+                onClick={() => navigate(`/discovery?search=${encodeURIComponent(secret.vaultwardenItemName)}`)}
+              >
+                View in Discovery →
+              </Button>
+            </Box>
+          </Card>
+        </Grid>
+        <Grid xs={12} md={6}>
+          <Card variant="outlined" sx={{ height: '100%' }}>
+            <Typography level="title-md">🕒 Timestamps</Typography>
+            <Typography level="body-sm">
+              Last synced: <strong title={formatDate(secret.lastSynced)}>{formatRelative(secret.lastSynced)}</strong>
+            </Typography>
+            <Typography level="body-xs" sx={{ color: 'text.secondary' }}>{formatDate(secret.lastSynced)}</Typography>
+            <Typography level="body-sm">
+              Created: <strong>{secret.createdAt ? formatDate(secret.createdAt) : '-'}</strong>
+            </Typography>
+          </Card>
+        </Grid>
+      </Grid>
+
+      <Card variant="outlined" sx={{ mb: 3 }}>
+        <Typography level="title-md">🔑 Data keys ({secret.dataKeysCount})</Typography>
+        {secret.dataKeysCount === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>This secret has no data keys</Typography>
+        ) : keysQuery.isLoading ? (
+          <CircularProgress size="sm" />
+        ) : keysQuery.error ? (
+          <ApiErrorAlert error={keysQuery.error} context="Failed to load key names" onRetry={() => keysQuery.refetch()} />
+        ) : (
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }} data-testid="secret-detail-keys">
+            {keysQuery.data?.map(key => (
+              <Chip key={key} variant="outlined" sx={{ fontFamily: 'monospace' }}>{key}</Chip>
+            ))}
+          </Box>
+        )}
+      </Card>
+
+      <Card variant="outlined">
+        <Typography level="title-md">🔄 Sync runs</Typography>
+        {historyQuery.isLoading ? (
+          <CircularProgress size="sm" />
+        ) : historyQuery.error ? (
+          <ApiErrorAlert error={historyQuery.error} context="Failed to load sync history" onRetry={() => historyQuery.refetch()} />
+        ) : !historyQuery.data?.length ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary' }}>
+            No sync runs have recorded this secret yet
+          </Typography>
+        ) : (
+          <Sheet sx={{ overflow: 'auto' }}>
+            <Table hoverRow data-testid="secret-detail-history">
+              <thead>
+                <tr>
+                  <th style={{ width: 100 }}>Run</th>
+                  <th style={{ width: 200 }}>Time</th>
+                  <th style={{ width: 110 }}>Outcome</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {historyQuery.data.map(entry => (
+                  <tr key={`${entry.syncLogId}-${entry.timestamp}`}>
+                    <td>
+                      <Link component="button" level="body-sm" onClick={() => navigate(`/logs/${entry.syncLogId}`)}>
+                        #{entry.syncLogId}
+                      </Link>
+                    </td>
+                    <td>
+                      <Typography level="body-sm" title={formatDate(entry.timestamp)}>
+                        {formatRelative(entry.timestamp)}
+                      </Typography>
+                    </td>
+                    <td>
+                      <Chip size="sm" variant="soft" color={getOutcomeColor(entry.outcome)}>{entry.outcome}</Chip>
+                    </td>
+                    <td>
+                      <Typography
+                        level="body-xs"
+                        sx={{
+                          color: entry.status === 'Failed' ? 'danger.500' : 'text.secondary',
+                          whiteSpace: 'pre-wrap',
+                          wordBreak: 'break-word',
+                        }}
+                      >
+                        {entry.details || '-'}
+                      </Typography>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Sheet>
+        )}
+      </Card>
+    </Box>
+  )
+}
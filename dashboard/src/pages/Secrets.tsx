@@ -6,27 +6,83 @@ import {
   Input,
   Chip,
   CircularProgress,
-  Alert,
-  Table,
-  Sheet,
   Modal,
   ModalDialog,
   IconButton,
+  Select,
+  Option,
+  Button,
+  Link,
 } from '@mui/joy'
-import { api } from '../lib/api'
-import { getStatusColor } from '../lib/utils' // formatRelative commented out - not currently used
-import { useState } from 'react'
+import {
+  DataGrid,
+  GridColDef,
+  GridColumnVisibilityModel,
+  GridDensity,
+  GridRow,
+  GridRowProps,
+  GridRowSelectionModel,
+  GridSortModel,
+} from '@mui/x-data-grid'
+import { api, SecretState } from '../lib/api'
+import { formatDate, formatRelative, getStatusColor, secretDetailPath } from '../lib/utils'
+import { usePreference } from '../lib/preferences'
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
 import KeysModal from '../components/KeysModal'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+import DataGridThemeProvider from '../components/DataGridThemeProvider'
+import { ResyncButton } from '../components/SyncActions'
+import { createLogger } from '../lib/logger'
+
+interface SecretsGridPreferences {
+  search: string
+  namespaces: string[]
+  statuses: string[]
+  item: string
+  sortModel: GridSortModel
+  columnVisibilityModel: GridColumnVisibilityModel
+  density: GridDensity
+  pageSize: number
+}
+
+const log = createLogger('secrets')
+
+const DEFAULT_PREFERENCES: SecretsGridPreferences = {
+  search: '',
+  namespaces: [],
+  statuses: [],
+  item: '',
+  sortModel: [{ field: 'namespace', sort: 'asc' }],
+  columnVisibilityModel: { lastSynced: false, createdAt: false },
+  density: 'standard',
+  pageSize: 100, // MIT DataGrid maximum
+}
+
+const EMPTY_SELECTION: GridRowSelectionModel = { type: 'include', ids: new Set() }
+
+// Keeps the per-row test ids the e2e suite relies on
+function SecretRow(props: GridRowProps) {
+  const secret = props.row as SecretState
+  return <GridRow {...props} data-testid={`secret-row-${secret.namespace}-${secret.secretName}`} />
+}
 
 export default function Secrets() {
-  const [searchTerm, setSearchTerm] = useState('')
+  const navigate = useNavigate()
+  const [preferences, setPreferences] = usePreference<SecretsGridPreferences>('secrets-grid', DEFAULT_PREFERENCES)
+  const [page, setPage] = useState(0)
+  const [rowSelectionModel, setRowSelectionModel] = useState<GridRowSelectionModel>(EMPTY_SELECTION)
   const [errorModalOpen, setErrorModalOpen] = useState(false)
   const [selectedError, setSelectedError] = useState<string | null>(null)
   const [dataKeysModalOpen, setDataKeysModalOpen] = useState(false)
   const [selectedDataKeys, setSelectedDataKeys] = useState<Array<{label: string, keys: string[]}>>([])
   const [loadingDataKeys, setLoadingDataKeys] = useState(false)
   const [dataKeysModalTitle, setDataKeysModalTitle] = useState('')
-  
+
+  const updatePreferences = (changes: Partial<SecretsGridPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }))
+  }
+
   const handleShowKeys = (keys: string[], namespace: string, secretName: string) => {
     setSelectedDataKeys([{
       label: `${namespace}/${secretName}`,
@@ -35,19 +91,202 @@ export default function Secrets() {
     setDataKeysModalTitle(`${namespace}/${secretName}`)
     setDataKeysModalOpen(true)
   }
-  
-  const { data: secrets, isLoading, error } = useQuery({
+
+  const handleDataKeysClick = async (secret: SecretState) => {
+    if (secret.dataKeysCount === 0) return
+    setLoadingDataKeys(true)
+    try {
+      // Fetch actual data keys from K8s secret
+      const keys = await api.getSecretDataKeys(secret.namespace, secret.secretName)
+      handleShowKeys(keys, secret.namespace, secret.secretName)
+    } catch (err) {
+      log.warn('Fetching data keys failed', { namespace: secret.namespace, secretName: secret.secretName, error: err })
+      handleShowKeys([`${secret.dataKeysCount} keys (error fetching names)`], secret.namespace, secret.secretName)
+    } finally {
+      setLoadingDataKeys(false)
+    }
+  }
+
+  const { data: secrets, isLoading, error, refetch } = useQuery({
     queryKey: ['secrets'],
     queryFn: api.getSecrets,
     refetchInterval: 30000,
   })
 
-  const filteredSecrets = secrets?.filter(
-    (secret) =>
-      secret.secretName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      secret.namespace.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      secret.vaultwardenItemName.toLowerCase().includes(searchTerm.toLowerCase())
+  const namespaceOptions = useMemo(
+    () => Array.from(new Set(secrets?.map(s => s.namespace) ?? [])).sort(),
+    [secrets]
   )
+  const statusOptions = useMemo(
+    () => Array.from(new Set(secrets?.map(s => s.status) ?? [])).sort(),
+    [secrets]
+  )
+
+  const filteredSecrets = useMemo(() => {
+    const search = preferences.search.toLowerCase()
+    const item = preferences.item.toLowerCase()
+    return (secrets ?? []).filter(secret =>
+      (preferences.namespaces.length === 0 || preferences.namespaces.includes(secret.namespace)) &&
+      (preferences.statuses.length === 0 || preferences.statuses.includes(secret.status)) &&
+      (!item || secret.vaultwardenItemName.toLowerCase().includes(item) || secret.vaultwardenItemId.toLowerCase() === item) &&
+      (!search ||
+        secret.secretName.toLowerCase().includes(search) ||
+        secret.namespace.toLowerCase().includes(search) ||
+        secret.vaultwardenItemName.toLowerCase().includes(search))
+    )
+  }, [secrets, preferences.search, preferences.item, preferences.namespaces, preferences.statuses])
+
+  const selectedSecrets = useMemo(() => {
+    const ids = rowSelectionModel.ids
+    return filteredSecrets.filter(secret => rowSelectionModel.type === 'include' ? ids.has(secret.id) : !ids.has(secret.id))
+  }, [filteredSecrets, rowSelectionModel])
+
+  const hasActiveFilters = !!preferences.search || !!preferences.item ||
+    preferences.namespaces.length > 0 || preferences.statuses.length > 0
+
+  const columns: GridColDef<SecretState>[] = [
+    {
+      field: 'namespace',
+      headerName: 'Namespace',
+      width: 180,
+      renderCell: ({ row }) => (
+        <Chip variant="soft" size="sm" color="neutral" data-testid="secret-namespace">
+          {row.namespace}
+        </Chip>
+      ),
+    },
+    {
+      field: 'secretName',
+      headerName: 'Secret Name',
+      flex: 1,
+      minWidth: 200,
+      renderCell: ({ row }) => (
+        <Link
+          level="body-sm"
+          fontWeight="md"
+          data-testid="secret-name"
+          onClick={(e) => {
+            e.stopPropagation()
+            navigate(secretDetailPath(row.namespace, row.secretName))
+          }}
+        >
+          {row.secretName}
+        </Link>
+      ),
+    },
+    {
+      field: 'vaultwardenItemName',
+      headerName: 'Vaultwarden Item',
+      flex: 1,
+      minWidth: 180,
+      renderCell: ({ row }) => (
+        <Typography level="body-sm" data-testid="secret-vaultwarden-item">{row.vaultwardenItemName}</Typography>
+      ),
+    },
+    {
+      field: 'status',
+      headerName: 'Status',
+      width: 110,
+      renderCell: ({ row }) => (
+        <Chip variant="soft" size="sm" color={getStatusColor(row.status)} data-testid="secret-status">
+          {row.status}
+        </Chip>
+      ),
+    },
+    {
+      field: 'dataKeysCount',
+      headerName: 'Keys',
+      type: 'number',
+      width: 80,
+      renderCell: ({ row }) => (
+        <Typography
+          level="body-sm"
+          data-testid="secret-data-keys"
+          sx={{
+            cursor: row.dataKeysCount > 0 ? 'pointer' : 'default',
+            color: row.dataKeysCount > 0 ? 'primary.600' : 'text.primary',
+            '&:hover': row.dataKeysCount > 0 ? {
+              textDecoration: 'underline'
+            } : {}
+          }}
+          onClick={(e) => {
+            e.stopPropagation()
+            handleDataKeysClick(row)
+          }}
+        >
+          {row.dataKeysCount}
+        </Typography>
+      ),
+    },
+    {
+      field: 'lastSynced',
+      headerName: 'Last Sync',
+      type: 'dateTime',
+      width: 160,
+      valueGetter: (value: string) => new Date(value),
+      renderCell: ({ row }) => (
+        <Typography level="body-xs" sx={{ color: 'text.secondary' }} title={formatDate(row.lastSynced)} data-testid="secret-last-sync">
+          {formatRelative(row.lastSynced)}
+        </Typography>
+      ),
+    },
+    {
+      field: 'createdAt',
+      headerName: 'Created',
+      type: 'dateTime',
+      width: 160,
+      valueGetter: (value: string | null) => value ? new Date(value) : null,
+      renderCell: ({ row }) => (
+        <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
+          {row.createdAt ? formatDate(row.createdAt) : '-'}
+        </Typography>
+      ),
+    },
+    {
+      field: 'lastError',
+      headerName: 'Error',
+      flex: 1,
+      minWidth: 200,
+      renderCell: ({ row }) => row.lastError ? (
+        <Typography
+          level="body-xs"
+          data-testid="secret-error"
+          sx={{
+            color: 'danger.500',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+            cursor: 'pointer',
+            '&:hover': {
+              textDecoration: 'underline'
+            }
+          }}
+          onClick={(e) => {
+            e.stopPropagation()
+            setSelectedError(row.lastError || '')
+            setErrorModalOpen(true)
+          }}
+        >
+          {row.lastError}
+        </Typography>
+      ) : (
+        <Typography level="body-xs" sx={{ color: 'text.tertiary' }} data-testid="secret-error">
+          -
+        </Typography>
+      ),
+    },
+    {
+      field: 'actions',
+      headerName: '',
+      width: 60,
+      sortable: false,
+      filterable: false,
+      disableColumnMenu: true,
+      renderCell: ({ row }) => (
+        <ResyncButton target={{ namespace: row.namespace, secretName: row.secretName }} />
+      ),
+    },
+  ]
 
   if (isLoading) {
     return (
@@ -59,145 +298,146 @@ export default function Secrets() {
 
   if (error) {
     return (
-      <Alert color="danger">
-        Failed to load secrets: {(error as Error).message}
-      </Alert>
+      <ApiErrorAlert error={error} context="Failed to load secrets" onRetry={() => refetch()} />
     )
   }
 
   return (
     <Box>
-      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, gap: 2, flexWrap: 'wrap' }}>
         <Box>
           <Typography level="h2">Secrets</Typography>
-          <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
-            {secrets?.length || 0} total secrets synced
+          <Typography level="body-sm" sx={{ color: 'text.secondary' }} data-testid="secrets-visible-count">
+            {hasActiveFilters
+              ? `${filteredSecrets.length} of ${secrets?.length || 0} secrets`
+              : `${secrets?.length || 0} total secrets synced`}
           </Typography>
         </Box>
         <Input
           placeholder="🔍 Search secrets..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
+          value={preferences.search}
+          onChange={(e) => {
+            updatePreferences({ search: e.target.value })
+            setPage(0)
+          }}
           sx={{ width: 300 }}
         />
       </Box>
 
-      <Card variant="outlined" sx={{ bgcolor: 'background.surface' }}>
-        <Sheet sx={{ overflow: 'auto' }}>
-          <Table hoverRow>
-            <thead>
-              <tr>
-                <th style={{ width: 200 }}>Namespace</th>
-                <th style={{ width: 250 }}>Secret Name</th>
-                <th style={{ width: 200 }}>Vaultwarden Item</th>
-                <th style={{ width: 100 }}>Status</th>
-                <th style={{ width: 80 }}>Keys</th>
-                {/* <th style={{ width: 180 }}>Last Sync</th> */}
-                <th>Error</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredSecrets && filteredSecrets.length > 0 ? (
-                filteredSecrets.map((secret) => (
-                  <tr key={secret.id} data-testid={`secret-row-${secret.namespace}-${secret.secretName}`}>
-                    <td data-testid="secret-namespace">
-                      <Chip variant="soft" size="sm" color="neutral">
-                        {secret.namespace}
-                      </Chip>
-                    </td>
-                    <td data-testid="secret-name">
-                      <Typography level="body-sm" fontWeight="medium">
-                        {secret.secretName}
-                      </Typography>
-                    </td>
-                    <td data-testid="secret-vaultwarden-item">
-                      <Typography level="body-sm">{secret.vaultwardenItemName}</Typography>
-                    </td>
-                    <td data-testid="secret-status">
-                      <Chip
-                        variant="soft"
-                        size="sm"
-                        color={getStatusColor(secret.status)}
-                      >
-                        {secret.status}
-                      </Chip>
-                    </td>
-                    <td data-testid="secret-data-keys">
-                      <Typography 
-                        level="body-sm"
-                        sx={{ 
-                          cursor: secret.dataKeysCount > 0 ? 'pointer' : 'default',
-                          color: secret.dataKeysCount > 0 ? 'primary.600' : 'text.primary',
-                          '&:hover': secret.dataKeysCount > 0 ? {
-                            textDecoration: 'underline'
-                          } : {}
-                        }}
-                        onClick={async () => {
-                          if (secret.dataKeysCount > 0) {
-                            setLoadingDataKeys(true)
-                            try {
-                              // Fetch actual data keys from K8s secret
-                              const keys = await api.getSecretDataKeys(secret.namespace, secret.secretName)
-                              handleShowKeys(keys, secret.namespace, secret.secretName)
-                            } catch (err) {
-                              console.error('Failed to fetch data keys:', err)
-                              handleShowKeys([`${secret.dataKeysCount} keys (error fetching names)`], secret.namespace, secret.secretName)
-                            } finally {
-                              setLoadingDataKeys(false)
-                            }
-                          }
-                        }}
-                      >
-                        {secret.dataKeysCount}
-                      </Typography>
-                    </td>
-                    {/* <td data-testid="secret-last-sync">
-                      <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
-                        {formatRelative(secret.lastSynced || secret.lastSyncTime)}
-                      </Typography>
-                    </td> */}
-                    <td data-testid="secret-error">
-                      {(secret.lastError || secret.errorMessage) ? (
-                        <Typography 
-                          level="body-xs" 
-                          sx={{ 
-                            color: 'danger.500',
-                            maxWidth: 250,
-                            overflow: 'hidden',
-                            textOverflow: 'ellipsis',
-                            whiteSpace: 'nowrap',
-                            cursor: 'pointer',
-                            '&:hover': {
-                              textDecoration: 'underline'
-                            }
-                          }}
-                          onClick={() => {
-                            setSelectedError(secret.lastError || secret.errorMessage || '')
-                            setErrorModalOpen(true)
-                          }}
-                        >
-                          {secret.lastError || secret.errorMessage}
-                        </Typography>
-                      ) : (
-                        <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>
-                          -
-                        </Typography>
-                      )}
-                    </td>
-                  </tr>
-                ))
-              ) : (
-                <tr>
-                  <td colSpan={7} style={{ textAlign: 'center', padding: '2rem' }}>
-                    <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
-                      {searchTerm ? 'No secrets found matching your search' : 'No secrets available'}
-                    </Typography>
-                  </td>
-                </tr>
+      <Box sx={{ display: 'flex', gap: 1.5, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Select
+          multiple
+          size="sm"
+          placeholder="All namespaces"
+          value={preferences.namespaces}
+          onChange={(_, value) => {
+            updatePreferences({ namespaces: value })
+            setPage(0)
+          }}
+          sx={{ minWidth: 200 }}
+          data-testid="filter-namespace"
+        >
+          {namespaceOptions.map(ns => (
+            <Option key={ns} value={ns}>{ns}</Option>
+          ))}
+        </Select>
+        <Select
+          multiple
+          size="sm"
+          placeholder="All statuses"
+          value={preferences.statuses}
+          onChange={(_, value) => {
+            updatePreferences({ statuses: value })
+            setPage(0)
+          }}
+          sx={{ minWidth: 160 }}
+          data-testid="filter-status"
+        >
+          {statusOptions.map(status => (
+            <Option key={status} value={status}>{status}</Option>
+          ))}
+        </Select>
+        <Input
+          size="sm"
+          placeholder="Vaultwarden item name or id"
+          value={preferences.item}
+          onChange={(e) => {
+            updatePreferences({ item: e.target.value })
+            setPage(0)
+          }}
+          sx={{ minWidth: 240 }}
+          data-testid="filter-item"
+        />
+        {hasActiveFilters && (
+          <Button
+            size="sm"
+            variant="plain"
+            color="neutral"
+            onClick={() => {
+              updatePreferences({ search: '', namespaces: [], statuses: [], item: '' })
+              setPage(0)
+            }}
+          >
+            Clear filters
+          </Button>
+        )}
+        {selectedSecrets.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', ml: 'auto' }}>
+            <Typography level="body-sm">{selectedSecrets.length} selected</Typography>
+            <Button
+              size="sm"
+              variant="soft"
+              onClick={() => navigator.clipboard.writeText(
+                selectedSecrets.map(s => `${s.namespace}/${s.secretName}`).join('\n')
               )}
-            </tbody>
-          </Table>
-        </Sheet>
+            >
+              Copy names
+            </Button>
+            <Button size="sm" variant="plain" color="neutral" onClick={() => setRowSelectionModel(EMPTY_SELECTION)}>
+              Clear selection
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      <Card variant="outlined" sx={{ bgcolor: 'background.surface', p: 0, overflow: 'hidden' }}>
+        <DataGridThemeProvider>
+          <DataGrid
+            rows={filteredSecrets}
+            columns={columns}
+            getRowId={(row) => row.id}
+            showToolbar
+            checkboxSelection
+            disableRowSelectionOnClick
+            disableColumnFilter
+            rowSelectionModel={rowSelectionModel}
+            onRowSelectionModelChange={setRowSelectionModel}
+            sortModel={preferences.sortModel}
+            onSortModelChange={(sortModel) => updatePreferences({ sortModel })}
+            columnVisibilityModel={preferences.columnVisibilityModel}
+            onColumnVisibilityModelChange={(columnVisibilityModel) => updatePreferences({ columnVisibilityModel })}
+            density={preferences.density}
+            onDensityChange={(density) => updatePreferences({ density })}
+            paginationModel={{ page, pageSize: preferences.pageSize }}
+            onPaginationModelChange={(model) => {
+              setPage(model.page)
+              if (model.pageSize !== preferences.pageSize) updatePreferences({ pageSize: model.pageSize })
+            }}
+            pageSizeOptions={[25, 50, 100]}
+            slots={{ row: SecretRow }}
+            slotProps={{
+              toolbar: { csvOptions: { fileName: 'vks-secrets' }, printOptions: { disableToolbarButton: true } },
+            }}
+            localeText={{ noRowsLabel: hasActiveFilters ? 'No secrets found matching your filters' : 'No secrets available' }}
+            sx={{
+              border: 0,
+              // Fixed height keeps the header sticky and lets the grid virtualize rows
+              height: 'calc(100vh - 300px)',
+              minHeight: 400,
+              '--DataGrid-containerBackground': 'var(--joy-palette-background-level1)',
+            }}
+          />
+        </DataGridThemeProvider>
       </Card>
 
       {/* Error Modal */}
@@ -0,0 +1,277 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  Box,
+  Typography,
+  Card,
+  Chip,
+  CircularProgress,
+  Sheet,
+  Table,
+  Button,
+  Breadcrumbs,
+  Link,
+  Grid,
+  ToggleButtonGroup,
+} from '@mui/joy'
+import { ArrowLeftRight } from 'lucide-react'
+import { api, SyncLog, SyncRunChange, SyncRunDiffEntry } from '../lib/api'
+import { ApiNotFoundError } from '../lib/apiErrors'
+import {
+  computeSyncStatus,
+  formatDate,
+  formatDuration,
+  getOutcomeColor,
+  getStatusColor,
+  secretDetailPath,
+} from '../lib/utils'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+
+const CHANGE_LABELS: Record<SyncRunChange, string> = {
+  Added: 'Appeared',
+  Removed: 'Disappeared',
+  StatusChanged: 'Status changed',
+  KeysChanged: 'Keys changed',
+  Unchanged: 'Unchanged',
+}
+
+const CHANGE_COLORS: Record<SyncRunChange, 'success' | 'danger' | 'warning' | 'primary' | 'neutral'> = {
+  Added: 'success',
+  Removed: 'danger',
+  StatusChanged: 'warning',
+  KeysChanged: 'primary',
+  Unchanged: 'neutral',
+}
+
+const CHANGES = Object.keys(CHANGE_LABELS) as SyncRunChange[]
+
+function RunCard({ label, log, onOpen }: { label: string; log: SyncLog; onOpen: () => void }) {
+  const status = computeSyncStatus(log)
+  return (
+    <Card variant="outlined" sx={{ height: '100%' }}>
+      <Typography level="body-xs" sx={{ color: 'text.secondary', textTransform: 'uppercase' }}>{label}</Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Link component="button" level="title-lg" onClick={onOpen}>Run #{log.id}</Link>
+        <Chip size="sm" variant="soft" color={getStatusColor(status)}>{status}</Chip>
+      </Box>
+      <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+        {formatDate(log.startTime)} · {formatDuration(log.durationSeconds)}
+      </Typography>
+      <Typography level="body-sm">
+        {log.createdSecrets} created · {log.updatedSecrets} updated · {log.skippedSecrets} unchanged ·{' '}
+        {log.failedSecrets} failed · {log.deletedSecrets} deleted
+      </Typography>
+    </Card>
+  )
+}
+
+function SideCell({ outcome, details }: { outcome: string | null; details: string | null }) {
+  if (!outcome) {
+    return <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>Not in this run</Typography>
+  }
+  return (
+    <Box>
+      <Chip size="sm" variant="soft" color={getOutcomeColor(outcome)}>{outcome}</Chip>
+      {details && (
+        <Typography
+          level="body-xs"
+          sx={{ color: outcome === 'Failed' ? 'danger.500' : 'text.secondary', wordBreak: 'break-word', mt: 0.5 }}
+        >
+          {details}
+        </Typography>
+      )}
+    </Box>
+  )
+}
+
+function KeyChanges({ entry }: { entry: SyncRunDiffEntry }) {
+  if (entry.addedKeys.length === 0 && entry.removedKeys.length === 0) {
+    return <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>-</Typography>
+  }
+  return (
+    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+      {entry.addedKeys.map(key => (
+        <Chip key={`+${key}`} size="sm" variant="outlined" color="success" sx={{ fontFamily: 'monospace' }}>+{key}</Chip>
+      ))}
+      {entry.removedKeys.map(key => (
+        <Chip key={`-${key}`} size="sm" variant="outlined" color="danger" sx={{ fontFamily: 'monospace' }}>-{key}</Chip>
+      ))}
+    </Box>
+  )
+}
+
+export default function SyncLogCompare() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const baseId = Number(searchParams.get('base'))
+  const targetId = Number(searchParams.get('target'))
+  const changeFilter = searchParams.get('change') ?? 'changed'
+  const validIds = Number.isInteger(baseId) && baseId > 0 && Number.isInteger(targetId) && targetId > 0
+
+  const { data: comparison, isLoading, error, refetch } = useQuery({
+    queryKey: ['sync-log-compare', baseId, targetId],
+    queryFn: () => api.compareSyncLogs(baseId, targetId),
+    enabled: validIds,
+  })
+
+  const changeCounts = useMemo(() => {
+    const counts: Partial<Record<SyncRunChange, number>> = {}
+    comparison?.entries.forEach(entry => {
+      counts[entry.change] = (counts[entry.change] ?? 0) + 1
+    })
+    return counts
+  }, [comparison])
+
+  const visibleEntries = useMemo(() => (comparison?.entries ?? []).filter(entry =>
+    changeFilter === 'all' ||
+    (changeFilter === 'changed' ? entry.change !== 'Unchanged' : entry.change === changeFilter)),
+  [comparison, changeFilter])
+
+  const updateParams = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams)
+    Object.entries(changes).forEach(([key, value]) => next.set(key, value))
+    setSearchParams(next, { replace: true })
+  }
+
+  const breadcrumbs = (
+    <Breadcrumbs sx={{ px: 0, mb: 1 }}>
+      <Link component="button" onClick={() => navigate('/logs')}>Sync Logs</Link>
+      <Typography>Compare #{searchParams.get('base') ?? '?'} → #{searchParams.get('target') ?? '?'}</Typography>
+    </Breadcrumbs>
+  )
+
+  if (!validIds) {
+    return (
+      <Box>
+        {breadcrumbs}
+        <Card variant="outlined" sx={{ textAlign: 'center', py: 6 }}>
+          <Typography level="h4">Pick two runs to compare</Typography>
+          <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+            Select two runs on the Sync Logs page and choose "Compare runs".
+          </Typography>
+          <Box>
+            <Button variant="soft" onClick={() => navigate('/logs')}>Back to sync logs</Button>
+          </Box>
+        </Card>
+      </Box>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  if (error || !comparison) {
+    return (
+      <Box>
+        {breadcrumbs}
+        {error && !(error instanceof ApiNotFoundError) ? (
+          <ApiErrorAlert error={error} context="Failed to compare sync runs" onRetry={() => refetch()} />
+        ) : (
+          <Card variant="outlined" sx={{ textAlign: 'center', py: 6 }} data-testid="sync-log-compare-not-found">
+            <Typography level="h4">Sync run not found</Typography>
+            <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+              Run #{baseId} or #{targetId} no longer exists.
+            </Typography>
+          </Card>
+        )}
+      </Box>
+    )
+  }
+
+  return (
+    <Box data-testid="sync-log-compare">
+      {breadcrumbs}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+        <Typography level="h2">Compare sync runs</Typography>
+        <Button
+          size="sm"
+          variant="soft"
+          startDecorator={<ArrowLeftRight size={16} />}
+          onClick={() => updateParams({ base: String(targetId), target: String(baseId) })}
+        >
+          Swap
+        </Button>
+      </Box>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid xs={12} md={6}>
+          <RunCard label="Base" log={comparison.base} onOpen={() => navigate(`/logs/${comparison.base.id}`)} />
+        </Grid>
+        <Grid xs={12} md={6}>
+          <RunCard label="Compared with" log={comparison.target} onOpen={() => navigate(`/logs/${comparison.target.id}`)} />
+        </Grid>
+      </Grid>
+
+      <Card variant="outlined">
+        <ToggleButtonGroup
+          size="sm"
+          value={changeFilter}
+          onChange={(_, value) => value && updateParams({ change: value })}
+          sx={{ flexWrap: 'wrap' }}
+          data-testid="sync-log-compare-filter"
+        >
+          <Button value="changed">
+            All changes ({comparison.entries.length - (changeCounts.Unchanged ?? 0)})
+          </Button>
+          {CHANGES.map(change => (
+            <Button key={change} value={change} disabled={!changeCounts[change]}>
+              {CHANGE_LABELS[change]} ({changeCounts[change] ?? 0})
+            </Button>
+          ))}
+          <Button value="all">Everything ({comparison.entries.length})</Button>
+        </ToggleButtonGroup>
+
+        {comparison.entries.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2 }}>
+            Neither run recorded per-secret results, so there is nothing to compare.
+          </Typography>
+        ) : visibleEntries.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2 }} data-testid="sync-log-compare-empty">
+            {changeFilter === 'changed' ? 'No secret changed between these runs' : 'No secrets in this category'}
+          </Typography>
+        ) : (
+          <Sheet sx={{ overflow: 'auto' }}>
+            <Table hoverRow data-testid="sync-log-compare-table">
+              <thead>
+                <tr>
+                  <th style={{ width: 130 }}>Change</th>
+                  <th>Secret</th>
+                  <th>Run #{comparison.base.id}</th>
+                  <th>Run #{comparison.target.id}</th>
+                  <th>Keys</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map(entry => (
+                  <tr key={`${entry.namespace}/${entry.secretName}`}>
+                    <td>
+                      <Chip size="sm" variant="soft" color={CHANGE_COLORS[entry.change]}>{CHANGE_LABELS[entry.change]}</Chip>
+                    </td>
+                    <td>
+                      <Link
+                        component="button"
+                        level="body-sm"
+                        onClick={() => navigate(secretDetailPath(entry.namespace, entry.secretName))}
+                      >
+                        {entry.namespace}/{entry.secretName}
+                      </Link>
+                    </td>
+                    <td><SideCell outcome={entry.baseOutcome} details={entry.baseDetails} /></td>
+                    <td><SideCell outcome={entry.targetOutcome} details={entry.targetDetails} /></td>
+                    <td><KeyChanges entry={entry} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Sheet>
+        )}
+      </Card>
+    </Box>
+  )
+}
@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import {
+  Box,
+  Typography,
+  Card,
+  Chip,
+  CircularProgress,
+  Sheet,
+  Table,
+  Button,
+  Breadcrumbs,
+  Link,
+  Input,
+  ToggleButtonGroup,
+} from '@mui/joy'
+import { Search } from 'lucide-react'
+import { api, SyncRunOutcome } from '../lib/api'
+import { ApiNotFoundError } from '../lib/apiErrors'
+import {
+  computeSyncStatus,
+  formatDate,
+  formatDuration,
+  getOutcomeColor,
+  getStatusColor,
+  secretDetailPath,
+} from '../lib/utils'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+
+const OUTCOMES: SyncRunOutcome[] = ['Created', 'Updated', 'Failed', 'Deleted']
+
+export default function SyncLogDetail() {
+  const { id = '' } = useParams()
+  const runId = Number(id)
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const outcomeFilter = searchParams.get('outcome') ?? 'all'
+  const [search, setSearch] = useState('')
+
+  const { data: log, isLoading, error, refetch } = useQuery({
+    queryKey: ['sync-log', runId],
+    queryFn: () => api.getSyncLog(runId),
+    enabled: Number.isInteger(runId),
+    // Keep polling while the run is still writing items
+    refetchInterval: (query) => query.state.data?.status === 'InProgress' ? 5000 : false,
+  })
+
+  // "What changed since the last good sync" - the newest fully successful run before this one
+  const { data: lastGoodRun } = useQuery({
+    queryKey: ['sync-log-last-success', runId],
+    queryFn: async () => {
+      const page = await api.searchSyncLogs({
+        end: new Date(new Date(log!.startTime).getTime() - 1),
+        statuses: ['Success'],
+        page: 1,
+        pageSize: 1,
+      })
+      return page.items[0] ?? null
+    },
+    enabled: !!log,
+  })
+
+  const outcomeCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    log?.items.forEach(item => {
+      counts[item.outcome] = (counts[item.outcome] ?? 0) + 1
+    })
+    return counts
+  }, [log])
+
+  const visibleItems = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return (log?.items ?? []).filter(item =>
+      (outcomeFilter === 'all' || item.outcome === outcomeFilter) &&
+      (!term ||
+        item.namespace.toLowerCase().includes(term) ||
+        item.secretName.toLowerCase().includes(term) ||
+        item.itemName.toLowerCase().includes(term)))
+  }, [log, outcomeFilter, search])
+
+  const setOutcomeFilter = (outcome: string) => {
+    setSearchParams(outcome === 'all' ? {} : { outcome }, { replace: true })
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  const breadcrumbs = (
+    <Breadcrumbs sx={{ px: 0, mb: 1 }}>
+      <Link component="button" onClick={() => navigate('/logs')}>Sync Logs</Link>
+      <Typography>Run #{id}</Typography>
+    </Breadcrumbs>
+  )
+
+  if (error || !log) {
+    return (
+      <Box>
+        {breadcrumbs}
+        {error && !(error instanceof ApiNotFoundError) ? (
+          <ApiErrorAlert error={error} context="Failed to load sync run" onRetry={() => refetch()} />
+        ) : (
+          <Card variant="outlined" sx={{ textAlign: 'center', py: 6 }} data-testid="sync-log-not-found">
+            <Typography level="h4">Sync run not found</Typography>
+            <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+              There is no sync run <strong>#{id}</strong>. It may have been removed when the logs were reset.
+            </Typography>
+            <Box>
+              <Button variant="soft" onClick={() => navigate('/logs')}>Back to sync logs</Button>
+            </Box>
+          </Card>
+        )}
+      </Box>
+    )
+  }
+
+  const status = computeSyncStatus(log)
+
+  return (
+    <Box data-testid="sync-log-detail">
+      {breadcrumbs}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 1, flexWrap: 'wrap' }}>
+        <Typography level="h2">Run #{log.id}</Typography>
+        <Chip variant="soft" color={getStatusColor(status)} data-testid="sync-log-detail-status">{status}</Chip>
+        {lastGoodRun && (
+          <Button
+            size="sm"
+            variant="soft"
+            sx={{ ml: 'auto' }}
+            onClick={() => navigate(`/logs/compare?base=${lastGoodRun.id}&target=${log.id}`)}
+            data-testid="compare-last-good-run"
+          >
+            Compare with last successful run (#{lastGoodRun.id})
+          </Button>
+        )}
+      </Box>
+      <Typography level="body-sm" sx={{ color: 'text.secondary', mb: 3 }}>
+        Started {formatDate(log.startTime)} · took {formatDuration(log.durationSeconds)} · {log.totalItems} Vaultwarden items
+      </Typography>
+
+      {log.errorMessage && (
+        <Card variant="soft" color={status === 'Failed' ? 'danger' : 'neutral'} sx={{ mb: 3 }}>
+          <Typography level="title-md">Run message</Typography>
+          <Typography level="body-sm" sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {log.errorMessage}
+          </Typography>
+        </Card>
+      )}
+
+      <Card variant="outlined">
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <ToggleButtonGroup
+            size="sm"
+            value={outcomeFilter}
+            onChange={(_, value) => value && setOutcomeFilter(value)}
+            data-testid="sync-log-outcome-filter"
+          >
+            <Button value="all">All ({log.items.length})</Button>
+            {OUTCOMES.map(outcome => (
+              <Button key={outcome} value={outcome} disabled={!outcomeCounts[outcome]}>
+                {outcome} ({outcomeCounts[outcome] ?? 0})
+              </Button>
+            ))}
+          </ToggleButtonGroup>
+          <Input
+            size="sm"
+            placeholder="Filter by namespace, secret or item..."
+            startDecorator={<Search size={16} />}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            sx={{ minWidth: 260 }}
+          />
+        </Box>
+
+        {log.items.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2 }}>
+            {status === 'InProgress'
+              ? 'This run has not finished any secrets yet'
+              : 'No per-secret results were recorded for this run. Runs from older versions only kept the totals.'}
+          </Typography>
+        ) : visibleItems.length === 0 ? (
+          <Typography level="body-sm" sx={{ color: 'text.tertiary', py: 2 }}>No items match these filters</Typography>
+        ) : (
+          <Sheet sx={{ overflow: 'auto' }}>
+            <Table hoverRow data-testid="sync-log-items">
+              <thead>
+                <tr>
+                  <th style={{ width: 100 }}>Outcome</th>
+                  <th style={{ width: 160 }}>Namespace</th>
+                  <th>Secret</th>
+                  <th>Vaultwarden Item</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleItems.map(item => (
+                  <tr key={item.id} data-testid={`sync-log-item-${item.namespace}-${item.secretName}`}>
+                    <td>
+                      <Chip size="sm" variant="soft" color={getOutcomeColor(item.outcome)}>{item.outcome}</Chip>
+                    </td>
+                    <td>
+                      <Typography level="body-sm">{item.namespace}</Typography>
+                    </td>
+                    <td>
+                      <Link
+                        component="button"
+                        level="body-sm"
+                        onClick={() => navigate(secretDetailPath(item.namespace, item.secretName))}
+                      >
+                        {item.secretName}
+                      </Link>
+                    </td>
+                    <td>
+                      <Typography level="body-sm" sx={{ color: item.itemName ? undefined : 'text.tertiary' }}>
+                        {item.itemName || '-'}
+                      </Typography>
+                    </td>
+                    <td>
+                      <Typography
+                        level="body-xs"
+                        sx={{
+                          color: item.status === 'Failed' ? 'danger.500' : 'text.secondary',
+                          whiteSpace: 'pre-wrap',
+                          wordBreak: 'break-word',
+                        }}
+                      >
+                        {item.details || '-'}
+                      </Typography>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Sheet>
+        )}
+      </Card>
+    </Box>
+  )
+}
@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
 import { useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import {
   Box,
   Typography,
@@ -13,42 +14,107 @@ import {
   Modal,
   ModalDialog,
   ModalClose,
+  Link,
+  Checkbox,
+  Input,
+  Select,
+  Option,
 } from '@mui/joy'
-import { api, SecretState } from '../lib/api'
+import { format } from 'date-fns'
+import { api, SyncLogStatusFilter, SyncRunOutcome } from '../lib/api'
 import { formatDate, formatDuration, getStatusColor, computeSyncStatus } from '../lib/utils'
-import SecretsModal from '../components/SecretsModal'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+import SyncStatisticsPanel from '../components/SyncStatisticsPanel'
 import { Trash2 } from 'lucide-react'
 
+const STATUS_OPTIONS: SyncLogStatusFilter[] = ['Success', 'Partial', 'Failed', 'InProgress']
+const PAGE_SIZES = [25, 50, 100]
+const DEFAULT_PAGE_SIZE = 25
+
+interface SyncLogFilters {
+  /** ISO timestamps; the Dashboard timeline links here with the bounds of one interval */
+  from: string
+  to: string
+  statuses: SyncLogStatusFilter[]
+  page: number
+  pageSize: number
+}
+
+function readFilters(params: URLSearchParams): SyncLogFilters {
+  const pageSize = Number(params.get('pageSize'))
+  return {
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+    statuses: (params.get('status')?.split(',') ?? [])
+      .filter((status): status is SyncLogStatusFilter => STATUS_OPTIONS.includes(status as SyncLogStatusFilter)),
+    page: Math.max(1, Math.floor(Number(params.get('page'))) || 1),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE,
+  }
+}
+
+// <input type="datetime-local"> works in local time with minute precision
+function toLocalInputValue(iso: string): string {
+  return iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : ''
+}
+
+function fromLocalInputValue(value: string, endOfMinute = false): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  return new Date(date.getTime() + (endOfMinute ? 59999 : 0)).toISOString()
+}
+
 export default function SyncLogs() {
-  const [modalOpen, setModalOpen] = useState(false)
-  const [modalSecrets, setModalSecrets] = useState<SecretState[]>([])
-  const [modalTitle, setModalTitle] = useState('')
   const [resetModalOpen, setResetModalOpen] = useState(false)
-  const [loadingSecrets, setLoadingSecrets] = useState(false)
+  const [selectedRuns, setSelectedRuns] = useState<number[]>([])
   const [isResetting, setIsResetting] = useState(false)
   const [resetSuccess, setResetSuccess] = useState(false)
-  const [resetError, setResetError] = useState<string | null>(null)
-  const { data: logs, isLoading, error } = useQuery({
-    queryKey: ['sync-logs'],
-    queryFn: () => api.getSyncLogs(100),
+  const [resetError, setResetError] = useState<unknown>(null)
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = readFilters(searchParams)
+  const hasFilters = !!filters.from || !!filters.to || filters.statuses.length > 0
+
+  // Filters live in the URL so an incident's runs can be shared as a link
+  const updateFilters = (changes: Partial<SyncLogFilters>) => {
+    const next = { ...filters, page: 1, ...changes }
+    const params = new URLSearchParams()
+    if (next.from) params.set('from', next.from)
+    if (next.to) params.set('to', next.to)
+    if (next.statuses.length > 0) params.set('status', next.statuses.join(','))
+    if (next.page > 1) params.set('page', String(next.page))
+    if (next.pageSize !== DEFAULT_PAGE_SIZE) params.set('pageSize', String(next.pageSize))
+    setSearchParams(params)
+  }
+
+  const { data: logPage, isLoading, error, refetch } = useQuery({
+    queryKey: ['sync-logs', filters],
+    queryFn: () => api.searchSyncLogs({
+      start: filters.from ? new Date(filters.from) : undefined,
+      end: filters.to ? new Date(filters.to) : undefined,
+      statuses: filters.statuses,
+      page: filters.page,
+      pageSize: filters.pageSize,
+    }),
+    placeholderData: keepPreviousData,
     refetchInterval: 30000,
   })
+  const logs = logPage?.items
+  const totalCount = logPage?.totalCount ?? 0
+  const pageCount = Math.max(1, Math.ceil(totalCount / filters.pageSize))
 
-  const handleShowSecrets = async (status: 'Active' | 'Failed' | 'Deleted') => {
-    setLoadingSecrets(true)
-    setModalTitle(`${status} Secrets`)
-    setModalOpen(true)
-    
-    try {
-      const secrets = await api.getSecrets()
-      const filteredSecrets = secrets.filter(s => s.status === status)
-      setModalSecrets(filteredSecrets)
-    } catch (err) {
-      console.error('Failed to load secrets:', err)
-      setModalSecrets([])
-    } finally {
-      setLoadingSecrets(false)
-    }
+  // Count chips open the run with its items filtered to that outcome
+  const openRun = (id: number, outcome?: SyncRunOutcome) =>
+    navigate(outcome ? `/logs/${id}?outcome=${outcome}` : `/logs/${id}`)
+
+  // Keeps the two most recent picks; the older run becomes the comparison base
+  const toggleRunSelection = (id: number) => {
+    setSelectedRuns(prev => prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id].slice(-2))
+  }
+
+  const compareSelectedRuns = () => {
+    const [baseId, targetId] = [...selectedRuns].sort((a, b) => a - b)
+    navigate(`/logs/compare?base=${baseId}&target=${targetId}`)
   }
 
   const handleResetDatabase = async () => {
@@ -65,7 +131,7 @@ export default function SyncLogs() {
         window.location.reload() // Refresh to show empty state
       }, 2000)
     } catch (err) {
-      setResetError('Unable to connect to API')
+      setResetError(err)
     } finally {
       setIsResetting(false)
     }
@@ -80,9 +146,7 @@ export default function SyncLogs() {
 
   if (error) {
     return (
-      <Alert color="danger">
-        Failed to load sync logs: {(error as Error).message}
-      </Alert>
+      <ApiErrorAlert error={error} context="Failed to load sync logs" onRetry={() => refetch()} />
     )
   }
 
@@ -91,18 +155,76 @@ export default function SyncLogs() {
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Box>
           <Typography level="h2">Sync Logs</Typography>
-          <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
-            {logs?.length || 0} recent sync operations
+          <Typography level="body-sm" sx={{ color: 'text.secondary' }} data-testid="sync-logs-count">
+            {hasFilters
+              ? `${totalCount} sync operations matching filters`
+              : `${totalCount} sync operations`}
           </Typography>
         </Box>
       </Box>
 
+      <Box sx={{ display: 'flex', gap: 1.5, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Input
+          size="sm"
+          type="datetime-local"
+          startDecorator={<Typography level="body-xs">From</Typography>}
+          value={toLocalInputValue(filters.from)}
+          onChange={(e) => updateFilters({ from: fromLocalInputValue(e.target.value) })}
+          data-testid="filter-from"
+        />
+        <Input
+          size="sm"
+          type="datetime-local"
+          startDecorator={<Typography level="body-xs">To</Typography>}
+          value={toLocalInputValue(filters.to)}
+          onChange={(e) => updateFilters({ to: fromLocalInputValue(e.target.value, true) })}
+          data-testid="filter-to"
+        />
+        <Select
+          multiple
+          size="sm"
+          placeholder="All results"
+          value={filters.statuses}
+          onChange={(_, value) => updateFilters({ statuses: value })}
+          sx={{ minWidth: 180 }}
+          data-testid="filter-status"
+        >
+          {STATUS_OPTIONS.map(status => (
+            <Option key={status} value={status}>{status === 'InProgress' ? 'In progress' : status}</Option>
+          ))}
+        </Select>
+        {hasFilters && (
+          <Button size="sm" variant="plain" color="neutral" onClick={() => setSearchParams({})}>
+            Clear filters
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="solid"
+          sx={{ ml: 'auto' }}
+          disabled={selectedRuns.length !== 2}
+          onClick={compareSelectedRuns}
+          data-testid="compare-runs"
+        >
+          {selectedRuns.length === 2 ? 'Compare runs' : `Select ${2 - selectedRuns.length} more run${selectedRuns.length === 1 ? '' : 's'} to compare`}
+        </Button>
+        <Button
+          size="sm"
+          variant="soft"
+          onClick={() => navigator.clipboard.writeText(window.location.href)}
+        >
+          Copy link
+        </Button>
+      </Box>
+
+      <SyncStatisticsPanel from={filters.from} to={filters.to} />
+
       <Card variant="outlined" sx={{ bgcolor: 'background.surface' }}>
         <Sheet variant="soft" sx={{ overflow: 'auto' }}>
           <Table stripe="odd" hoverRow>
             <thead>
               <tr>
-                <th style={{ width: 80 }}>ID</th>
+                <th style={{ width: 110 }}>ID</th>
                 <th style={{ width: 180 }}>Start Time</th>
                 <th style={{ width: 100 }}>Result</th>
                 <th style={{ width: 100 }}>Duration</th>
@@ -120,9 +242,18 @@ export default function SyncLogs() {
                 logs.map((log) => (
                   <tr key={log.id}>
                     <td>
-                      <Chip size="sm" variant="plain">
-                        #{log.id}
-                      </Chip>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Checkbox
+                          size="sm"
+                          checked={selectedRuns.includes(log.id)}
+                          onChange={() => toggleRunSelection(log.id)}
+                          slotProps={{ input: { 'aria-label': `Select run #${log.id} to compare` } }}
+                          data-testid="sync-log-select"
+                        />
+                        <Link component="button" level="body-sm" onClick={() => openRun(log.id)} data-testid="sync-log-link">
+                          #{log.id}
+                        </Link>
+                      </Box>
                     </td>
                     <td>
                       <Typography level="body-xs" sx={{ color: 'text.secondary' }}>
@@ -152,7 +283,7 @@ export default function SyncLogs() {
                         size="sm" 
                         color="success"
                         sx={{ cursor: log.createdSecrets > 0 ? 'pointer' : 'default' }}
-                        onClick={() => log.createdSecrets > 0 && handleShowSecrets('Active')}
+                        onClick={() => log.createdSecrets > 0 && openRun(log.id, 'Created')}
                       >
                         {log.createdSecrets}
                       </Chip>
@@ -163,7 +294,7 @@ export default function SyncLogs() {
                         size="sm" 
                         color="primary"
                         sx={{ cursor: log.updatedSecrets > 0 ? 'pointer' : 'default' }}
-                        onClick={() => log.updatedSecrets > 0 && handleShowSecrets('Active')}
+                        onClick={() => log.updatedSecrets > 0 && openRun(log.id, 'Updated')}
                       >
                         {log.updatedSecrets}
                       </Chip>
@@ -173,8 +304,6 @@ export default function SyncLogs() {
                         variant="soft" 
                         size="sm" 
                         color="neutral"
-                        sx={{ cursor: log.skippedSecrets > 0 ? 'pointer' : 'default' }}
-                        onClick={() => log.skippedSecrets > 0 && handleShowSecrets('Active')}
                       >
                         {log.skippedSecrets}
                       </Chip>
@@ -186,7 +315,7 @@ export default function SyncLogs() {
                           size="sm" 
                           color="danger"
                           sx={{ cursor: 'pointer' }}
-                          onClick={() => handleShowSecrets('Failed')}
+                          onClick={() => openRun(log.id, 'Failed')}
                         >
                           {log.failedSecrets}
                         </Chip>
@@ -208,7 +337,7 @@ export default function SyncLogs() {
                               backgroundColor: 'warning.200'
                             }
                           }}
-                          onClick={() => handleShowSecrets('Deleted')}
+                          onClick={() => openRun(log.id, 'Deleted')}
                         >
                           {log.deletedSecrets}
                         </Chip>
@@ -236,7 +365,7 @@ export default function SyncLogs() {
                 <tr>
                   <td colSpan={11} style={{ textAlign: 'center', padding: '2rem' }}>
                     <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
-                      No sync logs available
+                      {hasFilters ? 'No sync logs match these filters' : 'No sync logs available'}
                     </Typography>
                   </td>
                 </tr>
@@ -246,6 +375,43 @@ export default function SyncLogs() {
         </Sheet>
       </Card>
 
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 1.5, mt: 2 }} data-testid="sync-logs-pagination">
+        <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+          {totalCount === 0
+            ? 'No results'
+            : `${(filters.page - 1) * filters.pageSize + 1}–${Math.min(filters.page * filters.pageSize, totalCount)} of ${totalCount}`}
+        </Typography>
+        <Select
+          size="sm"
+          value={filters.pageSize}
+          onChange={(_, value) => value && updateFilters({ pageSize: value })}
+          aria-label="Rows per page"
+        >
+          {PAGE_SIZES.map(size => (
+            <Option key={size} value={size}>{size} / page</Option>
+          ))}
+        </Select>
+        <Button
+          size="sm"
+          variant="outlined"
+          color="neutral"
+          disabled={filters.page <= 1}
+          onClick={() => updateFilters({ page: filters.page - 1 })}
+        >
+          Previous
+        </Button>
+        <Typography level="body-sm">Page {filters.page} of {pageCount}</Typography>
+        <Button
+          size="sm"
+          variant="outlined"
+          color="neutral"
+          disabled={filters.page >= pageCount}
+          onClick={() => updateFilters({ page: filters.page + 1 })}
+        >
+          Next
+        </Button>
+      </Box>
+
       <Button
         onClick={() => setResetModalOpen(true)}
         color="danger"
@@ -256,15 +422,6 @@ export default function SyncLogs() {
         Reset Sync Logs and Statistics
       </Button>
               
-      {/* Secrets Modal */}
-      <SecretsModal
-        open={modalOpen}
-        onClose={() => setModalOpen(false)}
-        secrets={loadingSecrets ? [] : modalSecrets}
-        title={loadingSecrets ? 'Loading...' : modalTitle}
-        namespace="All"
-      />
-
       {/* Reset Database Modal */}
       <Modal open={resetModalOpen} onClose={() => setResetModalOpen(false)}>
         <ModalDialog sx={{ minWidth: 500 }}>
@@ -292,10 +449,10 @@ export default function SyncLogs() {
                 </Typography>
               </Alert>
               
-              {resetError && (
-                <Alert color="danger" sx={{ mb: 2 }}>
-                  {resetError}
-                </Alert>
+              {resetError != null && (
+                <Box sx={{ mb: 2 }}>
+                  <ApiErrorAlert error={resetError} context="Failed to reset database" />
+                </Box>
               )}
               
               <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import {
+  Box,
+  Typography,
+  Card,
+  Chip,
+  CircularProgress,
+  Table,
+  Switch,
+  Tooltip,
+  Alert,
+  Select,
+  Option,
+} from '@mui/joy'
+import { Eye, EyeOff } from 'lucide-react'
+import { api } from '../lib/api'
+import {
+  ConfigSetting,
+  SettingStatus,
+  describeSyncConfig,
+  formatConfigValue,
+  maskValue,
+  settingStatus,
+} from '../lib/syncConfig'
+import ApiErrorAlert from '../components/ApiErrorAlert'
+import { LogLevel, LogSettings, getLogSettings, setLogSettings } from '../lib/logger'
+
+const STATUS_CHIPS: Partial<Record<SettingStatus, { label: string; color: 'warning' | 'danger' | 'primary' }>> = {
+  changed: { label: 'Changed', color: 'primary' },
+  placeholder: { label: 'Chart placeholder', color: 'danger' },
+  missing: { label: 'Missing', color: 'danger' },
+}
+
+function SettingValue({ setting, revealed }: { setting: ConfigSetting; revealed: boolean }) {
+  if (setting.credential) {
+    // Only whether the credential is set is ever sent by the API
+    return <Typography level="body-sm" fontFamily="monospace">{setting.value ? '••••••••' : '(not set)'}</Typography>
+  }
+
+  const text = formatConfigValue(setting.value)
+  const masked = setting.sensitive && !revealed && typeof setting.value === 'string' && setting.value !== ''
+  return (
+    <Typography
+      level="body-sm"
+      fontFamily="monospace"
+      sx={{ wordBreak: 'break-all', color: setting.value === null ? 'text.tertiary' : undefined }}
+      data-testid={masked ? 'sync-setting-masked' : undefined}
+    >
+      {masked ? maskValue(text) : text}
+    </Typography>
+  )
+}
+
+const LOG_LEVEL_OPTIONS: Array<{ value: LogLevel; label: string }> = [
+  { value: 'debug', label: 'Debug' },
+  { value: 'info', label: 'Info' },
+  { value: 'warn', label: 'Warnings' },
+  { value: 'error', label: 'Errors only' },
+  { value: 'off', label: 'Off' },
+]
+
+/** Browser-side setting, unlike the rest of the page; also reachable with ?log=<level> */
+function ConsoleLoggingCard() {
+  const [logging, setLogging] = useState<LogSettings>(getLogSettings)
+
+  const update = (next: Partial<LogSettings>) => {
+    setLogSettings(next)
+    setLogging(getLogSettings())
+  }
+
+  return (
+    <Card variant="outlined" data-testid="console-logging">
+      <Typography level="title-md">Browser console logging</Typography>
+      <Typography level="body-sm" sx={{ color: 'text.secondary' }}>
+        What the dashboard writes to this browser's developer console. Kept in this browser only.
+      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, flexWrap: 'wrap' }}>
+        <Select
+          size="sm"
+          value={logging.level}
+          onChange={(_, value) => value && update({ level: value })}
+          sx={{ minWidth: 170 }}
+          data-testid="console-logging-level"
+        >
+          {LOG_LEVEL_OPTIONS.map(option => (
+            <Option key={option.value} value={option.value}>{option.label}</Option>
+          ))}
+        </Select>
+        <Switch
+          checked={logging.redact}
+          onChange={(e) => update({ redact: e.target.checked })}
+          endDecorator="Redact item names and field values"
+          data-testid="console-logging-redact"
+        />
+      </Box>
+    </Card>
+  )
+}
+
+export default function SyncSettings() {
+  const [revealed, setRevealed] = useState(false)
+  const { data: config, isLoading, error, refetch } = useQuery({
+    queryKey: ['sync-config'],
+    queryFn: api.getSyncConfig,
+  })
+
+  const sections = useMemo(() => (config ? describeSyncConfig(config) : []), [config])
+  const changedCount = useMemo(
+    () => sections.flatMap(section => section.settings).filter(setting => settingStatus(setting) === 'changed').length,
+    [sections]
+  )
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  if (error || !config) {
+    return <ApiErrorAlert error={error} context="Failed to load the sync configuration" onRetry={() => refetch()} />
+  }
+
+  return (
+    <Box data-testid="sync-settings">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1, flexWrap: 'wrap' }}>
+        <Typography level="h2">Sync configuration</Typography>
+        <Switch
+          checked={revealed}
+          onChange={(e) => setRevealed(e.target.checked)}
+          startDecorator={revealed ? <Eye size={16} /> : <EyeOff size={16} />}
+          endDecorator="Reveal identifiers"
+          data-testid="sync-settings-reveal"
+        />
+      </Box>
+      <Typography level="body-sm" sx={{ color: 'text.secondary', mb: 3 }}>
+        Read-only view of the settings the API was started with. Change them through the Helm values or environment
+        variables; {changedCount} {changedCount === 1 ? 'setting differs' : 'settings differ'} from the chart defaults.
+      </Typography>
+
+      {config.sync.dryRun && (
+        <Alert color="warning" variant="soft" sx={{ mb: 2 }}>
+          Dry run is enabled: syncs report what they would change but never write to Kubernetes.
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {sections.map(section => (
+          <Card key={section.id} variant="outlined" data-testid={`sync-settings-section-${section.id}`}>
+            <Typography level="title-md">{section.title}</Typography>
+            <Table size="sm" sx={{ '& td': { verticalAlign: 'top' } }}>
+              <thead>
+                <tr>
+                  <th style={{ width: '28%' }}>Setting</th>
+                  <th>Value</th>
+                  <th style={{ width: '24%' }}>Chart default</th>
+                  <th style={{ width: 140 }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {section.settings.map(setting => {
+                  const status = settingStatus(setting)
+                  const chip = STATUS_CHIPS[status]
+                  return (
+                    <tr key={setting.envVar ?? setting.label} data-testid="sync-setting-row" data-status={status}>
+                      <td>
+                        <Typography level="body-sm" fontWeight="md">{setting.label}</Typography>
+                        {setting.envVar && (
+                          <Typography level="body-xs" fontFamily="monospace" sx={{ color: 'text.tertiary' }}>
+                            {setting.envVar}
+                          </Typography>
+                        )}
+                      </td>
+                      <td>
+                        <SettingValue setting={setting} revealed={revealed} />
+                        {setting.hint && (
+                          <Typography level="body-xs" sx={{ color: 'text.tertiary' }}>{setting.hint}</Typography>
+                        )}
+                      </td>
+                      <td>
+                        <Typography level="body-xs" fontFamily="monospace" sx={{ color: 'text.secondary', wordBreak: 'break-all' }}>
+                          {setting.credential ? 'from secret' : setting.chartDefault === undefined ? 'fixed' : formatConfigValue(setting.chartDefault)}
+                        </Typography>
+                      </td>
+                      <td>
+                        {chip && (
+                          <Tooltip title={status === 'changed' ? 'Differs from the chart default' : undefined}>
+                            <Chip size="sm" variant="soft" color={chip.color} data-testid="sync-setting-flag">
+                              {chip.label}
+                            </Chip>
+                          </Tooltip>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </Table>
+          </Card>
+        ))}
+        <ConsoleLoggingCard />
+      </Box>
+    </Box>
+  )
+}